@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { damageHitPoints, effectiveMax, grantTempHitPoints, healHitPoints } from '../hit-points.js';
+
+describe('hit point arithmetic', () => {
+  it('drains temporary hit points before current hit points', () => {
+    const change = damageHitPoints({ current: 10, max: 10, temp: 4 }, 6);
+    expect(change.after).toEqual({ current: 8, max: 10, temp: 0 });
+    expect(change.tempAbsorbed).toBe(4);
+    expect(change.applied).toBe(-2);
+    expect(change.excess).toBe(0);
+  });
+
+  it('stops at 0 and reports the overflow', () => {
+    const change = damageHitPoints({ current: 3, max: 10 }, 8);
+    expect(change.after.current).toBe(0);
+    expect(change.after.temp).toBeUndefined();
+    expect(change.excess).toBe(5);
+  });
+
+  it('heals up to the maximum, including a temporary maximum', () => {
+    expect(healHitPoints({ current: 2, max: 10 }, 20).after.current).toBe(10);
+    const change = healHitPoints({ current: 2, max: 10, tempMax: -3 }, 20);
+    expect(change.after.current).toBe(7);
+    expect(change.excess).toBe(15);
+    expect(effectiveMax({ current: 0, max: 10, tempMax: 5 })).toBe(15);
+  });
+
+  it('heals without a cap when the maximum is unknown', () => {
+    expect(healHitPoints({ current: 2 }, 20).after.current).toBe(22);
+  });
+
+  it('never lowers hit points already above the maximum', () => {
+    expect(healHitPoints({ current: 12, max: 10 }, 5).after.current).toBe(12);
+  });
+
+  it('keeps the higher of old and new temporary hit points', () => {
+    expect(grantTempHitPoints({ current: 5, temp: 3 }, 8).after.temp).toBe(8);
+    expect(grantTempHitPoints({ current: 5, temp: 9 }, 8).after.temp).toBe(9);
+  });
+});
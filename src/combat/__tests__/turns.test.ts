@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { type Combatant, combatTurns } from '../turns.js';
+
+const combatant = (_id: string, name: string, initiative: number | null): Combatant => ({
+  _id,
+  name,
+  initiative,
+  hidden: false,
+  defeated: false,
+});
+
+describe('combatTurns', () => {
+  it('orders by initiative descending, then name, then id, with unrolled combatants last', () => {
+    const combatants = [
+      combatant('c1', 'Zed', null),
+      combatant('c2', 'Goblin', 12),
+      combatant('c3', 'Aria', null),
+      combatant('c5', 'Bandit', 12),
+      combatant('c4', 'Bandit', 12),
+      combatant('c6', 'Ogre', 18.5),
+    ];
+
+    expect(combatTurns({ combatants }).map((c) => c._id)).toEqual([
+      'c6',
+      'c4',
+      'c5',
+      'c2',
+      'c3',
+      'c1',
+    ]);
+    // The cached creation order is left alone.
+    expect(combatants[0]?._id).toBe('c1');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Hit point arithmetic shared by the combat tracker and the
+ * damage and healing tools
+ *
+ * Damage drains temporary hit points first and stops at 0; healing restores
+ * up to the maximum (raised or lowered by a temporary maximum) and never
+ * touches temporary hit points. Temporary hit points do not stack: gaining
+ * them keeps the higher of the old and new amounts.
+ */
+
+export interface HitPoints {
+  current: number;
+  /** Absent when the source data leaves it for the system to derive. */
+  max?: number;
+  temp?: number;
+  /** Temporary change to the maximum (dnd5e `tempmax`). */
+  tempMax?: number;
+}
+
+export interface HitPointChange {
+  before: HitPoints;
+  after: HitPoints;
+  /** Damage soaked by temporary hit points. */
+  tempAbsorbed: number;
+  /** Change to current hit points: negative for damage taken, positive for healing. */
+  applied: number;
+  /** Damage beyond 0 hit points, or healing beyond the maximum. */
+  excess: number;
+}
+
+/** The maximum including any temporary change, if the maximum is known. */
+export function effectiveMax(hp: HitPoints): number | undefined {
+  return hp.max === undefined ? undefined : Math.max(hp.max + (hp.tempMax ?? 0), 0);
+}
+
+/** Takes `amount` damage, temporary hit points first. */
+export function damageHitPoints(hp: HitPoints, amount: number): HitPointChange {
+  const damage = Math.max(Math.floor(amount), 0);
+  const temp = hp.temp ?? 0;
+  const tempAbsorbed = Math.min(damage, Math.max(temp, 0));
+  const remaining = damage - tempAbsorbed;
+  const current = Math.max(hp.current - remaining, 0);
+  const after: HitPoints = { ...hp, current };
+  if (hp.temp !== undefined || tempAbsorbed > 0) {
+    after.temp = temp - tempAbsorbed;
+  }
+  return {
+    before: hp,
+    after,
+    tempAbsorbed,
+    applied: current - hp.current,
+    excess: remaining - (hp.current - current),
+  };
+}
+
+/** Heals `amount`, up to the effective maximum when it is known. */
+export function healHitPoints(hp: HitPoints, amount: number): HitPointChange {
+  const healing = Math.max(Math.floor(amount), 0);
+  const max = effectiveMax(hp);
+  const target = hp.current + healing;
+  const current = max === undefined ? target : Math.max(Math.min(target, max), hp.current);
+  return {
+    before: hp,
+    after: { ...hp, current },
+    tempAbsorbed: 0,
+    applied: current - hp.current,
+    excess: healing - (current - hp.current),
+  };
+}
+
+/** Grants temporary hit points, keeping the higher of the old and new amounts. */
+export function grantTempHitPoints(hp: HitPoints, amount: number): HitPointChange {
+  const temp = Math.max(hp.temp ?? 0, Math.floor(amount), 0);
+  return {
+    before: hp,
+    after: { ...hp, temp },
+    tempAbsorbed: 0,
+    applied: 0,
+    excess: 0,
+  };
+}
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'node:events';
 import type { FoundryClient } from '../foundry/client.js';
 import { logger } from '../utils/logger.js';
+import { damageHitPoints, healHitPoints } from './hit-points.js';
 
 export interface CombatState {
   id: string;
@@ -216,14 +217,7 @@ export class CombatManager extends EventEmitter {
     }
 
     // Apply damage to temp HP first, then regular HP
-    let remainingDamage = damage;
-    if (combatant.hp.temp && combatant.hp.temp > 0) {
-      const tempDamage = Math.min(remainingDamage, combatant.hp.temp);
-      combatant.hp.temp -= tempDamage;
-      remainingDamage -= tempDamage;
-    }
-
-    combatant.hp.current = Math.max(0, combatant.hp.current - remainingDamage);
+    combatant.hp = damageHitPoints(combatant.hp, damage).after as CombatantState['hp'];
 
     // Check if combatant is defeated
     if (combatant.hp.current === 0) {
@@ -255,7 +249,7 @@ export class CombatManager extends EventEmitter {
       throw new Error(`Combatant ${combatantId} not found`);
     }
 
-    combatant.hp.current = Math.min(combatant.hp.max, combatant.hp.current + healing);
+    combatant.hp = healHitPoints(combatant.hp, healing).after as CombatantState['hp'];
 
     if (combatant.hp.current > 0) {
       combatant.defeated = false;
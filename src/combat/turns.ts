@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Turn order of a FoundryVTT combat
+ *
+ * `Combat#turn` indexes `Combat#turns` — the combatants sorted by
+ * `Combat#_sortCombatants` — not the creation order they are stored in. Once
+ * initiative is rolled the two differ, so every turn index read from or
+ * written to a combat goes through {@link combatTurns}.
+ */
+
+import type { WorldCombat } from '../foundry/types.js';
+
+export type Combatant = WorldCombat['combatants'][number];
+
+/**
+ * `Combat#_sortCombatants`: initiative descending with unrolled combatants
+ * last, then name, then id.
+ */
+export function compareCombatants(a: Combatant, b: Combatant): number {
+  const ia = Number.isFinite(a.initiative) ? (a.initiative as number) : -Infinity;
+  const ib = Number.isFinite(b.initiative) ? (b.initiative as number) : -Infinity;
+  // Two unrolled combatants give NaN, which falls through to the name.
+  return ib - ia || a.name.localeCompare(b.name) || a._id.localeCompare(b._id);
+}
+
+/** The combatants in turn order — the list `Combat#turn` indexes. */
+export function combatTurns(combat: Pick<WorldCombat, 'combatants'>): Combatant[] {
+  return [...combat.combatants].sort(compareCombatants);
+}
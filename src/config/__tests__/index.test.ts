@@ -82,6 +82,10 @@ describe('Config', () => {
       expect(config.foundry.timeout).toBe(10000);
       expect(config.foundry.retryAttempts).toBe(3);
       expect(config.foundry.retryDelay).toBe(1000);
+      expect(config.foundry.reconnectMaxAttempts).toBe(0);
+      expect(config.foundry.reconnectMaxDelay).toBe(60000);
+      expect(config.foundry.writeMode).toBe('live');
+      expect(config.dice.seed).toBeUndefined();
       expect(config.cache.enabled).toBe(true);
       expect(config.cache.ttlSeconds).toBe(300);
       expect(config.cache.maxSize).toBe(1000);
@@ -144,6 +148,19 @@ describe('Config', () => {
 
       expect(() => config.nodeEnv).toThrow();
     });
+
+    it('should throw error when FOUNDRY_WRITE_MODE is invalid in test environment', async () => {
+      process.env = {
+        FOUNDRY_URL: 'http://localhost:30000',
+        FOUNDRY_WRITE_MODE: 'sometimes',
+        NODE_ENV: 'test',
+      };
+
+      const { config, resetConfig } = await import('../index.js');
+      resetConfig(); // Reset any cached config
+
+      expect(() => config.foundry).toThrow();
+    });
   });
 
   describe('type conversion', () => {
@@ -153,6 +170,8 @@ describe('Config', () => {
         FOUNDRY_TIMEOUT: '15000',
         FOUNDRY_RETRY_ATTEMPTS: '10',
         FOUNDRY_RETRY_DELAY: '2000',
+        FOUNDRY_RECONNECT_MAX_ATTEMPTS: '12',
+        FOUNDRY_RECONNECT_MAX_DELAY: '30000',
         CACHE_TTL_SECONDS: '900',
         CACHE_MAX_SIZE: '5000',
       };
@@ -163,6 +182,8 @@ describe('Config', () => {
       expect(config.foundry.timeout).toBe(15000);
       expect(config.foundry.retryAttempts).toBe(10);
       expect(config.foundry.retryDelay).toBe(2000);
+      expect(config.foundry.reconnectMaxAttempts).toBe(12);
+      expect(config.foundry.reconnectMaxDelay).toBe(30000);
       expect(config.cache.ttlSeconds).toBe(900);
       expect(config.cache.maxSize).toBe(5000);
     });
@@ -58,6 +58,15 @@ const ConfigSchema = z.object({
     retryAttempts: z.number().default(3),
     retryDelay: z.number().default(1000),
     writeEnabled: z.boolean().default(false),
+    writeMode: z.enum(['live', 'preview']).default('live'),
+    auditLogPath: z.string().optional(),
+    writePolicyPath: z.string().optional(),
+    reconnectMaxAttempts: z.number().int().min(0).default(0), // 0 = retry forever
+    reconnectMaxDelay: z.number().default(60000),
+  }),
+
+  dice: z.object({
+    seed: z.string().optional(),
   }),
 
   cache: z.object({
@@ -116,6 +125,19 @@ function loadConfig(): Config {
         process.env.FOUNDRY_WRITE_ENABLED !== undefined
           ? process.env.FOUNDRY_WRITE_ENABLED === 'true'
           : undefined,
+      writeMode: process.env.FOUNDRY_WRITE_MODE,
+      auditLogPath: process.env.FOUNDRY_AUDIT_LOG || undefined,
+      writePolicyPath: process.env.FOUNDRY_WRITE_POLICY || undefined,
+      reconnectMaxAttempts: process.env.FOUNDRY_RECONNECT_MAX_ATTEMPTS
+        ? parseInt(process.env.FOUNDRY_RECONNECT_MAX_ATTEMPTS, 10)
+        : undefined,
+      reconnectMaxDelay: process.env.FOUNDRY_RECONNECT_MAX_DELAY
+        ? parseInt(process.env.FOUNDRY_RECONNECT_MAX_DELAY, 10)
+        : undefined,
+    },
+
+    dice: {
+      seed: process.env.DICE_SEED || undefined,
     },
 
     cache: {
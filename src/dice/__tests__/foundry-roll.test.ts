@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundryRoll } from '../foundry-roll.js';
+import { evaluateRoll } from '../roller.js';
+
+describe('toFoundryRoll', () => {
+  it('serializes dice, operators and numbers as flat Roll terms', () => {
+    const roll = toFoundryRoll(evaluateRoll('2d20kh1 + 5[bonus]', () => 0.5));
+    expect(roll).toEqual({
+      class: 'Roll',
+      options: {},
+      dice: [],
+      formula: '2d20kh1 + 5[bonus]',
+      terms: [
+        {
+          class: 'Die',
+          options: {},
+          evaluated: true,
+          number: 2,
+          faces: 20,
+          modifiers: ['kh1'],
+          results: [
+            { result: 11, active: false, discarded: true },
+            { result: 11, active: true },
+          ],
+        },
+        { class: 'OperatorTerm', options: {}, evaluated: true, operator: '+' },
+        { class: 'NumericTerm', options: { flavor: 'bonus' }, evaluated: true, number: 5 },
+      ],
+      total: 16,
+      evaluated: true,
+    });
+  });
+
+  it('nests parenthetical and function terms as rolls', () => {
+    const roll = toFoundryRoll(evaluateRoll('floor(1d8 / 2) + (1d4)[bless]', () => 0.99));
+    expect(roll.total).toBe(8);
+    expect(roll.terms[0]).toMatchObject({
+      class: 'FunctionTerm',
+      fn: 'floor',
+      terms: ['1d8 / 2'],
+      result: 4,
+      rolls: [{ formula: '1d8 / 2', total: 4 }],
+    });
+    expect(roll.terms[2]).toMatchObject({
+      class: 'ParentheticalTerm',
+      options: { flavor: 'bless' },
+      term: '1d4',
+      roll: { total: 4, terms: [{ class: 'Die', faces: 4, results: [{ result: 4 }] }] },
+    });
+  });
+
+  it('marks Fudge dice and success counts', () => {
+    const roll = toFoundryRoll(evaluateRoll('4dF + 2d10cs>=6r<2', () => 0.99));
+    expect(roll.terms[0]).toMatchObject({ class: 'FateDie', faces: 3 });
+    expect(roll.terms[2]).toMatchObject({
+      modifiers: ['cs>=6', 'r<2'],
+      results: [
+        { result: 10, success: true, count: 1 },
+        { result: 10, success: true, count: 1 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeDistribution,
+  attackOdds,
+  doubleDice,
+  MAX_SIMULATION_DRAWS,
+  mean,
+  probability,
+  standardDeviation,
+} from '../odds.js';
+import { parseFormula } from '../parser.js';
+
+function exact(formula: string) {
+  const { distribution, samples } = analyzeDistribution(parseFormula(formula));
+  expect(samples).toBeNull();
+  return distribution;
+}
+
+describe('analyzeDistribution', () => {
+  it('computes sums of dice exactly', () => {
+    const dist = exact('2d6');
+    expect(dist.get(7)).toBeCloseTo(6 / 36, 12);
+    expect(dist.get(2)).toBeCloseTo(1 / 36, 12);
+    expect(mean(dist)).toBeCloseTo(7, 12);
+    expect(standardDeviation(dist)).toBeCloseTo(Math.sqrt(35 / 6), 12);
+  });
+
+  it('handles keep and drop', () => {
+    expect(probability(exact('2d20kh1'), '>=', 11)).toBeCloseTo(0.75, 12);
+    expect(probability(exact('2d20kl1'), '>=', 11)).toBeCloseTo(0.25, 12);
+    expect(mean(exact('4d6dl1'))).toBeCloseTo(15869 / 1296, 10);
+  });
+
+  it('handles exploding dice, truncating the chain', () => {
+    expect(mean(exact('1d6x'))).toBeCloseTo(4.2, 9);
+    expect(mean(exact('1d6xo'))).toBeCloseTo(3.5 + 3.5 / 6, 12);
+  });
+
+  it('handles rerolls, min/max and success counting', () => {
+    // Reroll 1s once: a 1 becomes a fresh d6.
+    expect(mean(exact('1d6r1'))).toBeCloseTo((20 + 3.5) / 6, 12);
+    expect(mean(exact('1d6min3'))).toBeCloseTo((3 + 3 + 3 + 4 + 5 + 6) / 6, 12);
+    const successes = exact('3d10cs>=7');
+    expect(successes.get(3)).toBeCloseTo(0.4 ** 3, 12);
+    expect(mean(successes)).toBeCloseTo(1.2, 12);
+  });
+
+  it('applies arithmetic and functions', () => {
+    expect(mean(exact('1d20 + 5'))).toBeCloseTo(15.5, 12);
+    expect(mean(exact('floor(1d6 / 2)'))).toBeCloseTo(1.5, 12);
+    expect(probability(exact('max(1d4, 3)'), '=', 3)).toBeCloseTo(0.75, 12);
+  });
+
+  it('falls back to simulation when every face explodes', () => {
+    let seed = 1;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const { samples } = analyzeDistribution(parseFormula('1d6x>=1'), { samples: 1000, random });
+    expect(samples).toBe(1000);
+  });
+
+  it('simulates fewer rolls once the draw budget is spent', () => {
+    const node = parseFormula('100d20kh50');
+    const { samples } = analyzeDistribution(node, { samples: 1_000_000, random: () => 0.5 });
+    expect(samples).toBe(MAX_SIMULATION_DRAWS / 100);
+  });
+});
+
+describe('attackOdds', () => {
+  it('applies natural 1 and 20 against an AC', () => {
+    const odds = attackOdds(parseFormula('1d20 + 7'), 17);
+    expect(odds.hit).toBeCloseTo(11 / 20, 12);
+    expect(odds.crit).toBeCloseTo(1 / 20, 12);
+
+    const hopeless = attackOdds(parseFormula('1d20'), 30);
+    expect(hopeless.hit).toBeCloseTo(1 / 20, 12);
+  });
+
+  it('reads advantage and an expanded crit range', () => {
+    const odds = attackOdds(parseFormula('2d20kh1 + 7'), 17, 19);
+    expect(odds.hit).toBeCloseTo(1 - (9 / 20) ** 2, 12);
+    expect(odds.crit).toBeCloseTo(1 - (18 / 20) ** 2, 12);
+  });
+
+  it('requires a d20', () => {
+    expect(() => attackOdds(parseFormula('2d6 + 3'), 12)).toThrow(/needs a d20/);
+  });
+});
+
+describe('doubleDice', () => {
+  it('doubles dice counts but not modifiers', () => {
+    expect(mean(exact('2d6 + 3'))).toBeCloseTo(10, 12);
+    expect(mean(analyzeDistribution(doubleDice(parseFormula('2d6 + 3'))).distribution)).toBeCloseTo(
+      17,
+      12,
+    );
+  });
+});
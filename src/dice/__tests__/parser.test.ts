@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FORMULA_LENGTH, parseFormula } from '../parser.js';
+
+describe('parseFormula', () => {
+  it('parses dice with keep, drop and reroll modifiers', () => {
+    expect(parseFormula('2d20kh')).toEqual({
+      kind: 'dice',
+      count: 2,
+      faces: 20,
+      modifiers: [{ kind: 'keep', highest: true, count: 1 }],
+      source: '2d20kh',
+    });
+    expect(parseFormula('4d6dl1r<2')).toMatchObject({
+      modifiers: [
+        { kind: 'drop', highest: false, count: 1 },
+        { kind: 'reroll', recursive: false, condition: { op: '<', value: 2 } },
+      ],
+    });
+  });
+
+  it('parses conditions, percentile and Fudge dice', () => {
+    expect(parseFormula('6d10cs>=7cf1')).toMatchObject({
+      modifiers: [
+        { kind: 'countSuccess', condition: { op: '>=', value: 7 } },
+        { kind: 'countFailure', condition: { op: '=', value: 1 } },
+      ],
+    });
+    expect(parseFormula('d%')).toMatchObject({ count: 1, faces: 100 });
+    expect(parseFormula('4dF')).toMatchObject({ count: 4, faces: 'F' });
+  });
+
+  it('respects operator precedence, functions and flavor', () => {
+    const node = parseFormula('1d8 + floor(2d6[fire] / 2) * 3');
+    expect(node).toMatchObject({
+      kind: 'binary',
+      op: '+',
+      right: {
+        kind: 'binary',
+        op: '*',
+        left: {
+          kind: 'call',
+          name: 'floor',
+          args: [{ kind: 'binary', op: '/', left: { kind: 'dice', flavor: 'fire' } }],
+        },
+        right: { kind: 'number', value: 3 },
+      },
+    });
+  });
+
+  it('rejects malformed formulas with the position', () => {
+    expect(() => parseFormula('')).toThrow('Invalid dice formula: formula is empty');
+    expect(() => parseFormula('1d20 +')).toThrow('unexpected end of formula at position 7');
+    expect(() => parseFormula('DROP TABLE')).toThrow('unexpected "D" at position 1');
+    expect(() => parseFormula('(1d6')).toThrow('expected ")"');
+    expect(() => parseFormula('2d6[fire')).toThrow('unterminated flavor');
+    expect(() => parseFormula('floor(1, 2)')).toThrow('floor() takes one argument');
+  });
+
+  it('enforces size limits', () => {
+    expect(() => parseFormula('1001d6')).toThrow('dice count');
+    expect(() => parseFormula('1d0')).toThrow('dice faces');
+    expect(() => parseFormula('1+'.repeat(MAX_FORMULA_LENGTH))).toThrow('longer than');
+  });
+});
@@ -0,0 +1,102 @@
+import { createHash, createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { commitSeed, cryptoRandom, DiceSession, seededRandom, verifyDiceLog } from '../random.js';
+
+describe('seededRandom', () => {
+  it('is reproducible and differs between seeds', () => {
+    const a = seededRandom('seed-a');
+    const b = seededRandom('seed-a');
+    const c = seededRandom('seed-b');
+    const first = Array.from({ length: 12 }, a);
+
+    expect(Array.from({ length: 12 }, b)).toEqual(first);
+    expect(Array.from({ length: 12 }, c)).not.toEqual(first);
+    for (const value of first) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('follows the documented HMAC-SHA256 construction', () => {
+    const random = seededRandom('s');
+    const block0 = createHmac('sha256', 's').update('0').digest();
+    const block1 = createHmac('sha256', 's').update('1').digest();
+    const values = Array.from({ length: 6 }, random);
+
+    expect(values[0]).toBe(block0.readUIntBE(0, 6) / 2 ** 48);
+    expect(values[4]).toBe(block0.readUIntBE(24, 6) / 2 ** 48);
+    expect(values[5]).toBe(block1.readUIntBE(0, 6) / 2 ** 48);
+  });
+});
+
+describe('cryptoRandom', () => {
+  it('returns floats in [0, 1)', () => {
+    for (let i = 0; i < 100; i++) {
+      const value = cryptoRandom();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('DiceSession', () => {
+  it('commits to the seed and reveals a log that replays', () => {
+    const session = new DiceSession('table-night');
+    const commitment = session.commitment();
+    expect(commitment.commitment).toBe(createHash('sha256').update('table-night').digest('hex'));
+    expect(commitment.configuredSeed).toBe(true);
+
+    const totals = ['1d20 + 5', '4d6kh3', '2d6x'].map((f) => session.roll(f).total);
+    const reveal = session.reveal();
+
+    expect(reveal.seed).toBe('table-night');
+    expect(reveal.commitment).toBe(commitSeed(reveal.seed));
+    expect(reveal.rolls).toBe(3);
+    expect(reveal.log.map((e) => e.total)).toEqual(totals);
+    expect(reveal.log.map((e) => e.index)).toEqual([1, 2, 3]);
+    expect(reveal.verified).toBe(true);
+  });
+
+  it('uses a random seed by default', () => {
+    const a = new DiceSession();
+    const b = new DiceSession();
+    expect(a.commitment().configuredSeed).toBe(false);
+    expect(a.commitment().commitment).not.toBe(b.commitment().commitment);
+  });
+
+  it('logs a roll that fails after drawing dice, so the log still replays', () => {
+    const session = new DiceSession('div-zero');
+    session.roll('1d20');
+    expect(() => session.roll('1d6/(1-1)')).toThrow(/division by zero/i);
+    expect(() => session.roll('1d')).toThrow();
+    session.roll('1d20');
+
+    const { log, verified } = session.reveal();
+    expect(log.map((e) => e.formula)).toEqual(['1d20', '1d6/(1-1)', '1d20']);
+    expect(log[1]).toMatchObject({ total: null, draws: 1 });
+    expect(log[1]?.error).toMatch(/division by zero/i);
+    expect(verified).toBe(true);
+  });
+
+  it('rolls the same totals from the same seed', () => {
+    const a = new DiceSession('fixed');
+    const b = new DiceSession('fixed');
+    const formulas = ['1d20', '8d6', '1d100'];
+    expect(formulas.map((f) => a.roll(f).total)).toEqual(formulas.map((f) => b.roll(f).total));
+  });
+});
+
+describe('verifyDiceLog', () => {
+  it('rejects a log with an altered or reordered roll', () => {
+    const session = new DiceSession('audit');
+    session.roll('1d20');
+    session.roll('1d20');
+    const { seed, log } = session.reveal();
+
+    const altered = log.map((e, i) => (i === 1 ? { ...e, total: e.total === 20 ? 1 : 20 } : e));
+    expect(verifyDiceLog(seed, log)).toBe(true);
+    expect(verifyDiceLog(seed, altered)).toBe(false);
+    // Dropping a roll shifts the stream for every later one.
+    expect(verifyDiceLog(seed, log.slice(1))).toBe(log[0]?.total === log[1]?.total);
+  });
+});
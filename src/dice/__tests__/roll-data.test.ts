@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { rollDataReferences, substituteRollData } from '../roll-data.js';
+import { evaluateRoll } from '../roller.js';
+
+const system = {
+  abilities: { dex: { value: 16, mod: 3 }, str: { mod: -1 } },
+  prof: 2,
+  bonuses: { mwak: { attack: '1d4', damage: '' } },
+  details: { race: 'Elf' },
+};
+
+describe('rollDataReferences', () => {
+  it('lists each reference once, in order', () => {
+    expect(rollDataReferences('1d20 + @prof + @abilities.dex.mod + @prof')).toEqual([
+      '@prof',
+      '@abilities.dex.mod',
+    ]);
+  });
+});
+
+describe('substituteRollData', () => {
+  it('tags numbers with their reference', () => {
+    const result = substituteRollData('1d20 + @abilities.dex.mod + @prof', system);
+    expect(result.formula).toBe('1d20 + 3[@abilities.dex.mod] + 2[@prof]');
+    expect(result.substitutions).toEqual([
+      { reference: '@abilities.dex.mod', value: '3' },
+      { reference: '@prof', value: '2' },
+    ]);
+  });
+
+  it('wraps negative numbers and sub-formulas, and reads empty strings as 0', () => {
+    const result = substituteRollData(
+      '1d20 + @abilities.str.mod + @bonuses.mwak.attack + @bonuses.mwak.damage',
+      system,
+    );
+    expect(result.formula).toBe(
+      '1d20 + (-1)[@abilities.str.mod] + (1d4)[@bonuses.mwak.attack] + 0[@bonuses.mwak.damage]',
+    );
+    const roll = evaluateRoll(result.formula, () => 0);
+    expect(roll.total).toBe(1);
+    expect(roll.breakdown).toContain('(1d4 (1))[@bonuses.mwak.attack]');
+  });
+
+  it('names every missing or non-numeric reference', () => {
+    expect(() =>
+      substituteRollData('@prof + @missing + @details.race + @abilities', system),
+    ).toThrow('Roll data not found or not numeric: @missing, @details.race, @abilities');
+  });
+});
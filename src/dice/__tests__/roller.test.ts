@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateRoll, MAX_EXTRA_DICE, type RandomSource } from '../roller.js';
+
+/** A random source that rolls the given faces on dice of `sides`, in order. */
+function faces(sides: number, ...values: number[]): RandomSource {
+  let i = 0;
+  return () => {
+    const value = values[i++];
+    if (value === undefined) {
+      throw new Error('ran out of scripted dice');
+    }
+    return (value - 1) / sides;
+  };
+}
+
+describe('evaluateRoll', () => {
+  it('keeps the highest die for advantage', () => {
+    const roll = evaluateRoll('2d20kh1 + 5', faces(20, 4, 17));
+    expect(roll.total).toBe(22);
+    expect(roll.breakdown).toBe('2d20kh1 (~~4~~, 17) + 5 = 22');
+    expect(roll.terms[0]?.results).toEqual([
+      { result: 4, active: false, discarded: true },
+      { result: 17, active: true },
+    ]);
+  });
+
+  it('drops the lowest die', () => {
+    expect(evaluateRoll('4d6dl1', faces(6, 3, 1, 6, 5)).total).toBe(14);
+    expect(evaluateRoll('2d20kl', faces(20, 4, 17)).total).toBe(4);
+  });
+
+  it('rerolls once with r and recursively with rr', () => {
+    const gwf = evaluateRoll('2d6r<2', faces(6, 1, 5, 1));
+    expect(gwf.total).toBe(6);
+    expect(gwf.breakdown).toBe('2d6r<2 (~~1~~, 1, 5) = 6');
+
+    expect(evaluateRoll('1d6rr1', faces(6, 1, 1, 4)).total).toBe(4);
+  });
+
+  it('explodes recursively with x and once with xo', () => {
+    const roll = evaluateRoll('1d6x', faces(6, 6, 6, 2));
+    expect(roll.total).toBe(14);
+    expect(roll.breakdown).toBe('1d6x (6!, 6!, 2) = 14');
+
+    expect(evaluateRoll('1d6xo', faces(6, 6, 6)).total).toBe(12);
+    expect(evaluateRoll('2d10x>=9', faces(10, 9, 3, 1)).total).toBe(13);
+  });
+
+  it('caps runaway explosions', () => {
+    const roll = evaluateRoll('1d1x');
+    expect(roll.terms[0]?.results).toHaveLength(MAX_EXTRA_DICE + 1);
+  });
+
+  it('counts successes and failures', () => {
+    const roll = evaluateRoll('5d10cs>=7cf1', faces(10, 7, 10, 1, 3, 8));
+    expect(roll.total).toBe(2);
+    expect(roll.terms[0]?.results.filter((d) => d.success)).toHaveLength(3);
+  });
+
+  it('applies min and max to each die', () => {
+    expect(evaluateRoll('2d20min10', faces(20, 3, 15)).total).toBe(25);
+    expect(evaluateRoll('1d20max15', faces(20, 19)).total).toBe(15);
+  });
+
+  it('evaluates arithmetic, functions and flavor', () => {
+    const roll = evaluateRoll('floor((1d6 + 2d6[fire]) / 2) * 2 - 1', faces(6, 5, 6, 2));
+    expect(roll.total).toBe(11);
+    expect(roll.terms.map((t) => t.flavor)).toEqual([undefined, 'fire']);
+    expect(roll.breakdown).toBe('floor((1d6 (5) + 2d6[fire] (6, 2)) / 2) * 2 - 1 = 11');
+    expect(evaluateRoll('max(1d4, 3)', faces(4, 1)).total).toBe(3);
+  });
+
+  it('rolls percentile and Fudge dice', () => {
+    expect(evaluateRoll('d%', faces(100, 42)).total).toBe(42);
+    expect(evaluateRoll('4dF', faces(3, 1, 2, 3, 3)).total).toBe(1);
+  });
+
+  it('rejects division by zero', () => {
+    expect(() => evaluateRoll('1d6 / 0', faces(6, 1))).toThrow('division by zero');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Serializes locally evaluated rolls as FoundryVTT `Roll` data
+ *
+ * A `ChatMessage` carries its rolls in `rolls` as JSON strings of
+ * `Roll#toJSON()`; the browser rebuilds them with `Roll.fromData` to render
+ * the dice tooltip. This module produces that shape (v12+ term classes:
+ * `Die`, `FateDie`, `NumericTerm`, `OperatorTerm`, `ParentheticalTerm`,
+ * `FunctionTerm`) from an {@link EvaluatedRoll}, so rolls made here look
+ * like rolls made at the table.
+ */
+
+import { type DiceNode, parseFormula } from './parser.js';
+import {
+  applyOperator,
+  type DiceTermResult,
+  type DieResult,
+  type EvaluatedRoll,
+} from './roller.js';
+
+/** `Roll#toJSON()` output. */
+export interface FoundryRollData {
+  class: 'Roll';
+  options: Record<string, unknown>;
+  dice: unknown[];
+  formula: string;
+  terms: Record<string, unknown>[];
+  total: number;
+  evaluated: true;
+}
+
+/**
+ * Builds the `Roll#toJSON()` data for an evaluated roll. `roll.formula` is
+ * parsed again and walked in the same order the evaluator rolled it, pairing
+ * each dice node with its result.
+ */
+export function toFoundryRoll(roll: EvaluatedRoll): FoundryRollData {
+  const serializer = new Serializer(roll.terms);
+  return serializer.roll(parseFormula(roll.formula));
+}
+
+class Serializer {
+  private next = 0;
+
+  constructor(private readonly dice: DiceTermResult[]) {}
+
+  roll(node: DiceNode): FoundryRollData {
+    const { terms, value } = this.terms(node);
+    return {
+      class: 'Roll',
+      options: {},
+      dice: [],
+      formula: formulaOf(node),
+      terms,
+      total: value,
+      evaluated: true,
+    };
+  }
+
+  /** Flattened terms for `node`, as Foundry's `Roll` keeps them, and its value. */
+  private terms(node: DiceNode): { terms: Record<string, unknown>[]; value: number } {
+    switch (node.kind) {
+      case 'number':
+        return {
+          terms: [term('NumericTerm', node.flavor, { number: node.value })],
+          value: node.value,
+        };
+      case 'dice': {
+        const result = this.dice[this.next++] as DiceTermResult;
+        const counted = result.results.some((r) => r.success || r.failure);
+        return {
+          terms: [
+            term(node.faces === 'F' ? 'FateDie' : 'Die', node.flavor, {
+              number: node.count,
+              faces: node.faces === 'F' ? 3 : node.faces,
+              modifiers: modifiersOf(node.source),
+              results: result.results.map((r) => dieData(r, counted)),
+            }),
+          ],
+          value: result.total,
+        };
+      }
+      case 'negate': {
+        const operand = this.terms(node.operand);
+        return {
+          terms: [term('OperatorTerm', undefined, { operator: '-' }), ...operand.terms],
+          value: -operand.value,
+        };
+      }
+      case 'binary': {
+        const left = this.terms(node.left);
+        const right = this.terms(node.right);
+        const value = applyOperator(node.op, left.value, right.value);
+        return {
+          terms: [
+            ...left.terms,
+            term('OperatorTerm', undefined, { operator: node.op }),
+            ...right.terms,
+          ],
+          value,
+        };
+      }
+      case 'group': {
+        const roll = this.roll(node.expression);
+        return {
+          terms: [term('ParentheticalTerm', node.flavor, { term: roll.formula, roll })],
+          value: roll.total,
+        };
+      }
+      case 'call': {
+        const rolls = node.args.map((arg) => this.roll(arg));
+        const values = rolls.map((r) => r.total);
+        const value =
+          node.name === 'min' || node.name === 'max'
+            ? Math[node.name](...values)
+            : Math[node.name](values[0] as number);
+        return {
+          terms: [
+            term('FunctionTerm', undefined, {
+              fn: node.name,
+              terms: rolls.map((r) => r.formula),
+              rolls,
+              result: value,
+            }),
+          ],
+          value,
+        };
+      }
+    }
+  }
+}
+
+function term(
+  className: string,
+  flavor: string | undefined,
+  fields: Record<string, unknown>,
+): Record<string, unknown> {
+  return { class: className, options: flavor ? { flavor } : {}, evaluated: true, ...fields };
+}
+
+/** Foundry's `DiceTermResult`; success-counting terms also carry `count`. */
+function dieData(die: DieResult, counted: boolean): Record<string, unknown> {
+  const data: Record<string, unknown> = { ...die };
+  if (counted) {
+    data.count = die.success ? 1 : die.failure ? -1 : 0;
+  }
+  return data;
+}
+
+/** Modifier strings of a dice term, e.g. `['kh1', 'r<2']` for `2d20kh1r<2`. */
+function modifiersOf(source: string): string[] {
+  const modifiers = source.replace(/^\d*d(\d+|%|F)/, '');
+  return modifiers.match(/(?:kh|kl|k|dh|dl|d|xo|x|rr|r|cs|cf|min|max)[^a-z]*/g) ?? [];
+}
+
+/** Canonical formula text for a node, as Foundry would print it. */
+function formulaOf(node: DiceNode): string {
+  const flavor = 'flavor' in node && node.flavor ? `[${node.flavor}]` : '';
+  switch (node.kind) {
+    case 'number':
+      return `${node.value}${flavor}`;
+    case 'dice':
+      return `${node.source}${flavor}`;
+    case 'negate':
+      return `-${formulaOf(node.operand)}`;
+    case 'binary':
+      return `${formulaOf(node.left)} ${node.op} ${formulaOf(node.right)}`;
+    case 'group':
+      return `(${formulaOf(node.expression)})${flavor}`;
+    case 'call':
+      return `${node.name}(${node.args.map(formulaOf).join(', ')})`;
+  }
+}
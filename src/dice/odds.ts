@@ -0,0 +1,561 @@
+/**
+ * @fileoverview Probability distributions of dice formulas
+ *
+ * Computes the exact distribution of a parsed formula where that is cheap —
+ * plain dice, per-die modifiers (rerolls, min/max, exploding chains
+ * truncated below 1e-12), keep/drop by enumerating dice multisets, success
+ * counting, and arithmetic by convolution — and falls back to simulating
+ * the formula with the local roller otherwise. Simulation runs on the
+ * server's only thread, so it stops early once it has drawn
+ * {@link MAX_SIMULATION_DRAWS} dice. On top of that it answers
+ * attack questions: hit and crit chances against an AC with natural 1 and
+ * natural 20 rules.
+ */
+
+import type { DiceModifier, DiceNode } from './parser.js';
+import {
+  applyOperator,
+  matches,
+  modifierCondition,
+  type RandomSource,
+  rollTotal,
+} from './roller.js';
+
+/** Value → probability. */
+export type Distribution = Map<number, number>;
+
+export interface DistributionAnalysis {
+  distribution: Distribution;
+  /** Number of simulated rolls, or null when the distribution is exact. */
+  samples: number | null;
+}
+
+export interface AnalysisOptions {
+  /** Rolls to simulate when no exact answer is feasible. */
+  samples?: number;
+  random?: RandomSource;
+}
+
+export type OddsComparison = '>=' | '>' | '<=' | '<' | '=';
+
+export interface AttackOdds {
+  /** Chance to hit, crits included. */
+  hit: number;
+  crit: number;
+  /** Simulated rolls behind the figures, or null when exact. */
+  samples: number | null;
+}
+
+export const DEFAULT_SAMPLES = 100_000;
+/** Most rolls one simulation may be asked for. */
+export const MAX_SAMPLES = 200_000;
+/** Random draws one simulation may spend; formulas rolling many dice get fewer rolls. */
+export const MAX_SIMULATION_DRAWS = 2_000_000;
+/** Arithmetic operations the exact engine may spend on one formula. */
+const MAX_WORK = 5_000_000;
+/** Dice multisets enumerated at most for a keep/drop term. */
+const MAX_MULTISETS = 200_000;
+/** Probability mass below which an exploding chain is cut off. */
+const EXPLODE_EPSILON = 1e-12;
+const MAX_EXPLODE_DEPTH = 100;
+
+/**
+ * The distribution of a formula's total: exact when feasible, simulated
+ * otherwise. A simulation makes `samples` rolls (at most
+ * {@link MAX_SAMPLES}), or fewer once {@link MAX_SIMULATION_DRAWS} dice have
+ * been drawn; the result reports how many it made.
+ */
+export function analyzeDistribution(
+  node: DiceNode,
+  options: AnalysisOptions = {},
+): DistributionAnalysis {
+  const exact = new ExactEngine().distribution(node);
+  if (exact) {
+    return { distribution: exact, samples: null };
+  }
+  const limit = Math.min(options.samples ?? DEFAULT_SAMPLES, MAX_SAMPLES);
+  const random = options.random ?? Math.random;
+  let draws = 0;
+  const counted: RandomSource = () => {
+    draws++;
+    return random();
+  };
+  const counts: Distribution = new Map();
+  let samples = 0;
+  while (samples < limit && draws < MAX_SIMULATION_DRAWS) {
+    add(counts, rollTotal(node, counted), 1);
+    samples++;
+  }
+  return { distribution: scale(counts, 1 / samples), samples };
+}
+
+/** P(total `comparison` target). */
+export function probability(
+  distribution: Distribution,
+  comparison: OddsComparison,
+  target: number,
+): number {
+  let p = 0;
+  for (const [value, q] of distribution) {
+    if (matches(value, { op: comparison, value: target })) {
+      p += q;
+    }
+  }
+  return p;
+}
+
+export function mean(distribution: Distribution): number {
+  let sum = 0;
+  for (const [value, p] of distribution) {
+    sum += value * p;
+  }
+  return sum;
+}
+
+export function standardDeviation(distribution: Distribution): number {
+  const mu = mean(distribution);
+  let variance = 0;
+  for (const [value, p] of distribution) {
+    variance += (value - mu) ** 2 * p;
+  }
+  return Math.sqrt(variance);
+}
+
+/**
+ * Hit and crit chances of an attack roll against `ac`. The first `d20` term
+ * added in the formula is the natural roll (after any keep/drop, so
+ * `2d20kh1 + 7` is advantage): a natural 1 always misses and a natural of
+ * `critRange` or more always hits and crits.
+ *
+ * @throws Error when the formula has no d20 term
+ */
+export function attackOdds(
+  node: DiceNode,
+  ac: number,
+  critRange = 20,
+  options: AnalysisOptions = {},
+): AttackOdds {
+  const terms = additiveTerms(node);
+  const index = terms.findIndex(
+    (t) => t.sign === 1 && t.node.kind === 'dice' && t.node.faces === 20,
+  );
+  if (index < 0) {
+    throw new Error('An attack formula needs a d20 term, e.g. "1d20 + 7" or "2d20kh1 + 7"');
+  }
+  const natural = analyzeDistribution((terms[index] as SignedTerm).node, options);
+  const bonus = analyzeDistribution(joinTerms(terms.filter((_, i) => i !== index)), options);
+
+  let hit = 0;
+  let crit = 0;
+  for (const [n, p] of natural.distribution) {
+    if (n >= critRange) {
+      hit += p;
+      crit += p;
+    } else if (n !== 1) {
+      hit += p * probability(bonus.distribution, '>=', ac - n);
+    }
+  }
+  const samples =
+    natural.samples === null && bonus.samples === null
+      ? null
+      : Math.max(natural.samples ?? 0, bonus.samples ?? 0);
+  return { hit, crit, samples };
+}
+
+/** The formula with every dice count doubled — 5e critical hit damage. */
+export function doubleDice(node: DiceNode): DiceNode {
+  switch (node.kind) {
+    case 'dice':
+      return {
+        ...node,
+        count: node.count * 2,
+        source: node.source.replace(/^\d*/, String(node.count * 2)),
+      };
+    case 'negate':
+      return { ...node, operand: doubleDice(node.operand) };
+    case 'group':
+      return { ...node, expression: doubleDice(node.expression) };
+    case 'binary':
+      return { ...node, left: doubleDice(node.left), right: doubleDice(node.right) };
+    case 'call':
+      return { ...node, args: node.args.map(doubleDice) };
+    case 'number':
+      return node;
+  }
+}
+
+interface SignedTerm {
+  sign: 1 | -1;
+  node: DiceNode;
+}
+
+/** The top-level `+`/`-` chain of a formula as signed terms. */
+function additiveTerms(node: DiceNode, sign: 1 | -1 = 1): SignedTerm[] {
+  if (node.kind === 'binary' && (node.op === '+' || node.op === '-')) {
+    const right = node.op === '+' ? sign : (-sign as 1 | -1);
+    return [...additiveTerms(node.left, sign), ...additiveTerms(node.right, right)];
+  }
+  return [{ sign, node }];
+}
+
+function joinTerms(terms: SignedTerm[]): DiceNode {
+  let joined: DiceNode | null = null;
+  for (const { sign, node } of terms) {
+    if (!joined) {
+      joined = sign === 1 ? node : { kind: 'negate', operand: node };
+    } else {
+      joined = { kind: 'binary', op: sign === 1 ? '+' : '-', left: joined, right: node };
+    }
+  }
+  return joined ?? { kind: 'number', value: 0 };
+}
+
+/**
+ * Exact distributions. Every method returns null when the answer is not
+ * exact or would cost more than {@link MAX_WORK} operations.
+ */
+class ExactEngine {
+  private work = 0;
+
+  distribution(node: DiceNode): Distribution | null {
+    switch (node.kind) {
+      case 'number':
+        return new Map([[node.value, 1]]);
+      case 'dice':
+        return this.dice(node);
+      case 'negate': {
+        const operand = this.distribution(node.operand);
+        return operand && mapValues(operand, (v) => -v);
+      }
+      case 'group':
+        return this.distribution(node.expression);
+      case 'binary': {
+        const left = this.distribution(node.left);
+        const right = left && this.distribution(node.right);
+        if (!left || !right) {
+          return null;
+        }
+        if (node.op === '/' && right.has(0)) {
+          throw new Error('Invalid dice formula: division by zero');
+        }
+        return this.combine(left, right, (a, b) => applyOperator(node.op, a, b));
+      }
+      case 'call': {
+        const args: Distribution[] = [];
+        for (const arg of node.args) {
+          const d = this.distribution(arg);
+          if (!d) {
+            return null;
+          }
+          args.push(d);
+        }
+        if (node.name === 'min' || node.name === 'max') {
+          const fn = Math[node.name];
+          return args
+            .slice(1)
+            .reduce<Distribution | null>(
+              (acc, d) => acc && this.combine(acc, d, fn),
+              args[0] as Distribution,
+            );
+        }
+        const fn = Math[node.name];
+        return mapValues(args[0] as Distribution, (v) => fn(v));
+      }
+    }
+  }
+
+  private dice(node: Extract<DiceNode, { kind: 'dice' }>): Distribution | null {
+    const { faces } = node;
+    const base = uniform(faces);
+    let die = base;
+    let exploded = false;
+    let i = 0;
+
+    // Per-die modifiers first: each original die ends up as one value.
+    for (; i < node.modifiers.length; i++) {
+      const modifier = node.modifiers[i] as DiceModifier;
+      if (isPoolModifier(modifier)) {
+        break;
+      }
+      if (exploded) {
+        // Later modifiers act on every die of an exploded chain separately.
+        return null;
+      }
+      switch (modifier.kind) {
+        case 'reroll': {
+          const next = reroll(
+            die,
+            base,
+            (v) => matches(v, modifierCondition(modifier, faces)),
+            modifier.recursive,
+          );
+          if (!next) {
+            return null;
+          }
+          die = next;
+          break;
+        }
+        case 'explode': {
+          const next = this.explode(
+            die,
+            base,
+            (v) => matches(v, modifierCondition(modifier, faces)),
+            modifier.once,
+          );
+          if (!next) {
+            return null;
+          }
+          die = next;
+          exploded = true;
+          break;
+        }
+        case 'min':
+          die = mapValues(die, (v) => Math.max(v, modifier.value));
+          break;
+        case 'max':
+          die = mapValues(die, (v) => Math.min(v, modifier.value));
+          break;
+      }
+    }
+
+    const pool = node.modifiers.slice(i);
+    if (pool.length === 0) {
+      return this.sumOf(die, node.count);
+    }
+    if (exploded || pool.some((m) => !isPoolModifier(m) && m.kind !== 'min' && m.kind !== 'max')) {
+      return null;
+    }
+    if (pool.every((m) => m.kind === 'countSuccess' || m.kind === 'countFailure')) {
+      return this.sumOf(
+        mapValues(die, (v) => countOf(v, pool, faces)),
+        node.count,
+      );
+    }
+    return this.enumeratePool(die, node.count, pool, faces);
+  }
+
+  /** Distribution of the sum of `count` independent dice. */
+  private sumOf(die: Distribution, count: number): Distribution | null {
+    let total: Distribution | null = new Map([[0, 1]]);
+    for (let k = 0; k < count && total; k++) {
+      total = this.combine(total, die, (a, b) => a + b);
+    }
+    return total;
+  }
+
+  /**
+   * Keep/drop terms: walks every multiset of `count` dice (with its
+   * multinomial probability), applying the pool modifiers to the sorted
+   * values.
+   */
+  private enumeratePool(
+    die: Distribution,
+    count: number,
+    pool: DiceModifier[],
+    faces: number | 'F',
+  ): Distribution | null {
+    const values = [...die.keys()].sort((a, b) => a - b);
+    if (multisetCount(values.length, count) > MAX_MULTISETS) {
+      return null;
+    }
+    const factorials = [1];
+    for (let k = 1; k <= count; k++) {
+      factorials.push((factorials[k - 1] as number) * k);
+    }
+
+    const result: Distribution = new Map();
+    const chosen: number[] = [];
+    const visit = (from: number, probability: number, run: number) => {
+      if (chosen.length === count) {
+        this.work += count;
+        add(result, poolTotal(chosen, pool, faces), probability * (factorials[count] as number));
+        return;
+      }
+      for (let v = from; v < values.length; v++) {
+        const value = values[v] as number;
+        const same = v === from && chosen.length > 0 && chosen[chosen.length - 1] === value;
+        const repeats = same ? run + 1 : 1;
+        chosen.push(value);
+        visit(v, (probability * (die.get(value) as number)) / repeats, repeats);
+        chosen.pop();
+      }
+    };
+    visit(0, 1, 0);
+    return this.work > MAX_WORK ? null : result;
+  }
+
+  /** Exploding dice: each die becomes the sum of its chain. */
+  private explode(
+    die: Distribution,
+    base: Distribution,
+    explodes: (v: number) => boolean,
+    once: boolean,
+  ): Distribution | null {
+    if (!once && [...base.keys()].every(explodes)) {
+      return null; // never stops; the roller caps it instead
+    }
+    // Distribution of what one fresh die adds, chain included.
+    let tail: Distribution;
+    if (once) {
+      tail = base;
+    } else {
+      tail = new Map();
+      let pending: Distribution = new Map([[0, 1]]);
+      for (let depth = 0; depth < MAX_EXPLODE_DEPTH && pending.size > 0; depth++) {
+        const next: Distribution = new Map();
+        for (const [sum, p] of pending) {
+          for (const [v, q] of base) {
+            add(explodes(v) ? next : tail, sum + v, p * q);
+          }
+        }
+        this.work += pending.size * base.size;
+        pending = new Map([...next].filter(([, p]) => p >= EXPLODE_EPSILON));
+      }
+    }
+
+    const result: Distribution = new Map();
+    for (const [v, p] of die) {
+      if (explodes(v)) {
+        for (const [t, q] of tail) {
+          add(result, v + t, p * q);
+        }
+      } else {
+        add(result, v, p);
+      }
+    }
+    return this.work > MAX_WORK ? null : result;
+  }
+
+  private combine(
+    left: Distribution,
+    right: Distribution,
+    fn: (a: number, b: number) => number,
+  ): Distribution | null {
+    this.work += left.size * right.size;
+    if (this.work > MAX_WORK) {
+      return null;
+    }
+    const result: Distribution = new Map();
+    for (const [a, p] of left) {
+      for (const [b, q] of right) {
+        add(result, fn(a, b), p * q);
+      }
+    }
+    return result;
+  }
+}
+
+function isPoolModifier(modifier: DiceModifier): boolean {
+  return (
+    modifier.kind === 'keep' ||
+    modifier.kind === 'drop' ||
+    modifier.kind === 'countSuccess' ||
+    modifier.kind === 'countFailure'
+  );
+}
+
+function reroll(
+  die: Distribution,
+  base: Distribution,
+  rerolls: (v: number) => boolean,
+  recursive: boolean,
+): Distribution | null {
+  let replacement = base;
+  if (recursive) {
+    const kept = [...base].filter(([v]) => !rerolls(v));
+    const mass = kept.reduce((sum, [, p]) => sum + p, 0);
+    if (mass === 0) {
+      return null;
+    }
+    replacement = new Map(kept.map(([v, p]) => [v, p / mass]));
+  }
+  const result: Distribution = new Map();
+  for (const [v, p] of die) {
+    if (rerolls(v)) {
+      for (const [w, q] of replacement) {
+        add(result, w, p * q);
+      }
+    } else {
+      add(result, v, p);
+    }
+  }
+  return result;
+}
+
+/** Total of a sorted dice pool after keep/drop, min/max and counting modifiers. */
+function poolTotal(sorted: number[], pool: DiceModifier[], faces: number | 'F'): number {
+  let active = sorted;
+  let counting = false;
+  for (const modifier of pool) {
+    switch (modifier.kind) {
+      case 'keep': {
+        const n = Math.min(modifier.count, active.length);
+        active = modifier.highest ? active.slice(active.length - n) : active.slice(0, n);
+        break;
+      }
+      case 'drop': {
+        const n = Math.min(modifier.count, active.length);
+        active = modifier.highest ? active.slice(0, active.length - n) : active.slice(n);
+        break;
+      }
+      case 'min':
+        active = active.map((v) => Math.max(v, modifier.value));
+        break;
+      case 'max':
+        active = active.map((v) => Math.min(v, modifier.value));
+        break;
+      default:
+        counting = true;
+    }
+  }
+  return counting
+    ? active.reduce((sum, v) => sum + countOf(v, pool, faces), 0)
+    : active.reduce((sum, v) => sum + v, 0);
+}
+
+/** A die's contribution under `cs`/`cf`: +1 success, −1 failure (both: 0). */
+function countOf(value: number, pool: DiceModifier[], faces: number | 'F'): number {
+  let success = false;
+  let failure = false;
+  for (const modifier of pool) {
+    if (modifier.kind === 'countSuccess') {
+      success ||= matches(value, modifierCondition(modifier, faces));
+    } else if (modifier.kind === 'countFailure') {
+      failure ||= matches(value, modifierCondition(modifier, faces));
+    }
+  }
+  return (success ? 1 : 0) - (failure ? 1 : 0);
+}
+
+/** Multisets of size k from n values: C(n + k − 1, k). */
+function multisetCount(n: number, k: number): number {
+  let count = 1;
+  for (let i = 1; i <= k; i++) {
+    count = (count * (n + i - 1)) / i;
+    if (count > MAX_MULTISETS) {
+      return count;
+    }
+  }
+  return count;
+}
+
+function uniform(faces: number | 'F'): Distribution {
+  const values = faces === 'F' ? [-1, 0, 1] : Array.from({ length: faces }, (_, i) => i + 1);
+  return new Map(values.map((v) => [v, 1 / values.length]));
+}
+
+function mapValues(distribution: Distribution, fn: (v: number) => number): Distribution {
+  const result: Distribution = new Map();
+  for (const [v, p] of distribution) {
+    add(result, fn(v), p);
+  }
+  return result;
+}
+
+function scale(distribution: Distribution, factor: number): Distribution {
+  return new Map([...distribution].map(([v, p]) => [v, p * factor]));
+}
+
+function add(distribution: Distribution, value: number, p: number): void {
+  distribution.set(value, (distribution.get(value) ?? 0) + p);
+}
@@ -0,0 +1,325 @@
+/**
+ * @fileoverview Parser for FoundryVTT dice formulas
+ *
+ * Turns a formula such as `4d6kh3 + floor(@prof / 2) + 2d6[fire]` (with
+ * `@` references already substituted) into a {@link DiceNode} tree. The
+ * grammar follows FoundryVTT's `Roll` syntax:
+ *
+ * ```
+ * expression := product (('+' | '-') product)*
+ * product    := unary (('*' | '/') unary)*
+ * unary      := '-' unary | '+' unary | primary
+ * primary    := dice | number flavor? | '(' expression ')' flavor?
+ *             | function '(' expression (',' expression)* ')'
+ * dice       := count? 'd' (faces | '%' | 'F') modifier* flavor?
+ * modifier   := ('kh' | 'kl' | 'k' | 'dh' | 'dl' | 'd') count?
+ *             | ('x' | 'xo' | 'r' | 'rr' | 'cs' | 'cf') condition?
+ *             | ('min' | 'max') number
+ * condition  := ('=' | '<' | '>' | '<=' | '>=')? number
+ * flavor     := '[' text ']'
+ * ```
+ *
+ * Functions are `floor`, `ceil`, `round`, `abs`, `min` and `max`.
+ */
+
+/** Comparison used by explode / reroll / success-counting modifiers. */
+export type Comparison = '=' | '<' | '>' | '<=' | '>=';
+
+export interface DiceCondition {
+  op: Comparison;
+  value: number;
+}
+
+export type DiceModifier =
+  /** `kh`/`kl`/`k` — keep the highest (or lowest) `count` dice. */
+  | { kind: 'keep'; highest: boolean; count: number }
+  /** `dh`/`dl`/`d` — drop the highest (or lowest) `count` dice. */
+  | { kind: 'drop'; highest: boolean; count: number }
+  /** `x` (recursive) / `xo` (once) — roll an extra die on a match (default: max face). */
+  | { kind: 'explode'; once: boolean; condition?: DiceCondition }
+  /** `r` (once) / `rr` (recursive) — replace a matching die (default: = 1). */
+  | { kind: 'reroll'; recursive: boolean; condition?: DiceCondition }
+  /** `cs` — count dice matching (default: max face) as successes. */
+  | { kind: 'countSuccess'; condition?: DiceCondition }
+  /** `cf` — count dice matching (default: = 1) as failures, subtracting them. */
+  | { kind: 'countFailure'; condition?: DiceCondition }
+  /** `min`/`max` — raise (lower) every result to at least (most) `value`. */
+  | { kind: 'min' | 'max'; value: number };
+
+export type MathFunction = 'floor' | 'ceil' | 'round' | 'abs' | 'min' | 'max';
+
+export type DiceNode =
+  | { kind: 'number'; value: number; flavor?: string }
+  | {
+      kind: 'dice';
+      count: number;
+      /** Faces per die; `F` is a Fudge die (−1, 0, +1). `d%` parses as 100. */
+      faces: number | 'F';
+      modifiers: DiceModifier[];
+      flavor?: string;
+      /** The term as written, without flavor (e.g. `4d6kh3`). */
+      source: string;
+    }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: DiceNode; right: DiceNode }
+  | { kind: 'negate'; operand: DiceNode }
+  | { kind: 'group'; expression: DiceNode; flavor?: string }
+  | { kind: 'call'; name: MathFunction; args: DiceNode[] };
+
+/** Longest formula accepted. */
+export const MAX_FORMULA_LENGTH = 200;
+/** Most dice one term may roll before modifiers. */
+export const MAX_DICE_PER_TERM = 1000;
+/** Most faces a die may have. */
+export const MAX_FACES = 10000;
+
+const FUNCTIONS = new Set<string>(['floor', 'ceil', 'round', 'abs', 'min', 'max']);
+
+/**
+ * Parses a dice formula.
+ *
+ * @throws Error `Invalid dice formula: …` naming the offending position
+ */
+export function parseFormula(formula: string): DiceNode {
+  if (!formula?.trim()) {
+    throw new Error('Invalid dice formula: formula is empty');
+  }
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new Error(
+      `Invalid dice formula: longer than ${MAX_FORMULA_LENGTH} characters (${formula.length})`,
+    );
+  }
+  return new Parser(formula).parse();
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): DiceNode {
+    const node = this.expression();
+    this.skipSpace();
+    if (this.pos < this.text.length) {
+      this.fail(`unexpected "${this.text[this.pos]}"`);
+    }
+    return node;
+  }
+
+  private expression(): DiceNode {
+    let left = this.product();
+    for (;;) {
+      const op = this.operator('+-');
+      if (!op) {
+        return left;
+      }
+      left = { kind: 'binary', op: op as '+' | '-', left, right: this.product() };
+    }
+  }
+
+  private product(): DiceNode {
+    let left = this.unary();
+    for (;;) {
+      const op = this.operator('*/');
+      if (!op) {
+        return left;
+      }
+      left = { kind: 'binary', op: op as '*' | '/', left, right: this.unary() };
+    }
+  }
+
+  private unary(): DiceNode {
+    const op = this.operator('+-');
+    if (op === '-') {
+      return { kind: 'negate', operand: this.unary() };
+    }
+    return op === '+' ? this.unary() : this.primary();
+  }
+
+  private primary(): DiceNode {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+
+    if (ch === '(') {
+      this.pos++;
+      const expression = this.expression();
+      this.expect(')');
+      return withFlavor({ kind: 'group', expression }, this.flavor());
+    }
+
+    const word = this.text.slice(this.pos).match(/^[a-z]+(?=\s*\()/)?.[0];
+    if (word && FUNCTIONS.has(word)) {
+      this.pos += word.length;
+      this.skipSpace();
+      this.expect('(');
+      const args = [this.expression()];
+      while (this.operator(',')) {
+        args.push(this.expression());
+      }
+      this.expect(')');
+      const name = word as MathFunction;
+      if (name !== 'min' && name !== 'max' && args.length !== 1) {
+        this.fail(`${name}() takes one argument`);
+      }
+      return { kind: 'call', name, args };
+    }
+
+    const start = this.pos;
+    const count = this.number();
+    if (this.text[this.pos] === 'd' && /[0-9%F]/.test(this.text[this.pos + 1] ?? '')) {
+      return this.dice(start, count === undefined ? 1 : count);
+    }
+    if (count === undefined) {
+      this.fail(ch === undefined ? 'unexpected end of formula' : `unexpected "${ch}"`);
+    }
+    return withFlavor({ kind: 'number', value: count as number }, this.flavor());
+  }
+
+  private dice(start: number, count: number): DiceNode {
+    this.pos++; // 'd'
+    let faces: number | 'F';
+    if (this.text[this.pos] === '%') {
+      this.pos++;
+      faces = 100;
+    } else if (this.text[this.pos] === 'F') {
+      this.pos++;
+      faces = 'F';
+    } else {
+      faces = this.integer('faces');
+    }
+    if (!Number.isInteger(count) || count < 0 || count > MAX_DICE_PER_TERM) {
+      this.fail(`dice count must be a whole number from 0 to ${MAX_DICE_PER_TERM}`, start);
+    }
+    if (faces !== 'F' && (faces < 1 || faces > MAX_FACES)) {
+      this.fail(`dice faces must be from 1 to ${MAX_FACES}`, start);
+    }
+
+    const modifiers: DiceModifier[] = [];
+    for (let modifier = this.modifier(); modifier; modifier = this.modifier()) {
+      modifiers.push(modifier);
+    }
+    const source = this.text.slice(start, this.pos);
+    return withFlavor({ kind: 'dice', count, faces, modifiers, source }, this.flavor());
+  }
+
+  private modifier(): DiceModifier | undefined {
+    const rest = this.text.slice(this.pos);
+    const code = rest.match(/^(kh|kl|k|dh|dl|d|xo|x|rr|r|cs|cf|min|max)/)?.[0];
+    if (!code) {
+      return undefined;
+    }
+    this.pos += code.length;
+
+    switch (code) {
+      case 'kh':
+      case 'kl':
+      case 'k':
+      case 'dh':
+      case 'dl':
+      case 'd': {
+        const count = this.optionalInteger() ?? 1;
+        const highest = code === 'kh' || code === 'k' || code === 'dh';
+        return { kind: code.startsWith('k') ? 'keep' : 'drop', highest, count };
+      }
+      case 'x':
+      case 'xo':
+        return withCondition({ kind: 'explode', once: code === 'xo' }, this.condition());
+      case 'r':
+      case 'rr':
+        return withCondition({ kind: 'reroll', recursive: code === 'rr' }, this.condition());
+      case 'cs':
+        return withCondition({ kind: 'countSuccess' }, this.condition());
+      case 'cf':
+        return withCondition({ kind: 'countFailure' }, this.condition());
+      default:
+        return { kind: code as 'min' | 'max', value: this.integer(code) };
+    }
+  }
+
+  private condition(): DiceCondition | undefined {
+    const op = this.text.slice(this.pos).match(/^(<=|>=|=|<|>)/)?.[0] as Comparison | undefined;
+    if (op) {
+      this.pos += op.length;
+      return { op, value: this.integer('comparison') };
+    }
+    const value = this.optionalInteger();
+    return value === undefined ? undefined : { op: '=', value };
+  }
+
+  private flavor(): string | undefined {
+    if (this.text[this.pos] !== '[') {
+      return undefined;
+    }
+    const end = this.text.indexOf(']', this.pos);
+    if (end < 0) {
+      this.fail('unterminated flavor "["');
+    }
+    const flavor = this.text.slice(this.pos + 1, end).trim();
+    this.pos = end + 1;
+    return flavor;
+  }
+
+  private number(): number | undefined {
+    const match = this.text.slice(this.pos).match(/^\d+(\.\d+)?/)?.[0];
+    if (!match) {
+      return undefined;
+    }
+    this.pos += match.length;
+    return Number(match);
+  }
+
+  private optionalInteger(): number | undefined {
+    const match = this.text.slice(this.pos).match(/^\d+/)?.[0];
+    if (!match) {
+      return undefined;
+    }
+    this.pos += match.length;
+    return Number(match);
+  }
+
+  private integer(what: string): number {
+    const value = this.optionalInteger();
+    if (value === undefined) {
+      this.fail(`expected a number for ${what}`);
+    }
+    return value as number;
+  }
+
+  private operator(chars: string): string | undefined {
+    this.skipSpace();
+    const ch = this.text[this.pos];
+    if (ch !== undefined && chars.includes(ch)) {
+      this.pos++;
+      return ch;
+    }
+    return undefined;
+  }
+
+  private expect(ch: string): void {
+    this.skipSpace();
+    if (this.text[this.pos] !== ch) {
+      this.fail(`expected "${ch}"`);
+    }
+    this.pos++;
+  }
+
+  private skipSpace(): void {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') {
+      this.pos++;
+    }
+  }
+
+  private fail(message: string, at = this.pos): never {
+    throw new Error(`Invalid dice formula: ${message} at position ${at + 1} of "${this.text}"`);
+  }
+}
+
+function withFlavor<T extends DiceNode>(node: T, flavor: string | undefined): T {
+  return flavor ? { ...node, flavor } : node;
+}
+
+function withCondition<T extends DiceModifier>(
+  modifier: T,
+  condition: DiceCondition | undefined,
+): T {
+  return condition ? { ...modifier, condition } : modifier;
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Random sources and the verifiable dice session
+ *
+ * Rolls made by the local evaluator draw from a {@link DiceSession}: a
+ * deterministic stream derived from a secret seed with HMAC-SHA256. The
+ * session publishes `sha256(seed)` before any roll (the commitment) and
+ * logs every roll it makes; revealing the seed afterwards lets anyone replay
+ * the log and confirm each total came from the committed stream in order,
+ * i.e. no roll was re-rolled or cherry-picked. A roll that fails after
+ * drawing dice (e.g. a division by zero) is logged too, since it moved the
+ * stream.
+ *
+ * Without a configured seed (DICE_SEED) the seed is 32 random bytes, so the
+ * stream is unpredictable until it is revealed.
+ */
+
+import { createHash, createHmac, randomBytes } from 'node:crypto';
+import { type EvaluatedRoll, evaluateRoll, type RandomSource } from './roller.js';
+
+/** 2^48: each float is a 48-bit integer over this. */
+const FLOAT_SCALE = 2 ** 48;
+const BYTES_PER_FLOAT = 6;
+/** Floats taken from each 32-byte HMAC block. */
+const FLOATS_PER_BLOCK = 5;
+
+/** Uniform floats in [0, 1) from the operating system's CSPRNG. */
+export const cryptoRandom: RandomSource = () =>
+  randomBytes(BYTES_PER_FLOAT).readUIntBE(0, BYTES_PER_FLOAT) / FLOAT_SCALE;
+
+/**
+ * A reproducible stream for `seed`. Block `i` is
+ * `HMAC-SHA256(key = seed, message = String(i))` for i = 0, 1, …; each
+ * block yields five floats, read as big-endian 48-bit integers from bytes
+ * 0–5, 6–11, …, 24–29, divided by 2^48.
+ */
+export function seededRandom(seed: string): RandomSource {
+  let block = 0;
+  let buffer = Buffer.alloc(0);
+  let offset = FLOATS_PER_BLOCK;
+  return () => {
+    if (offset === FLOATS_PER_BLOCK) {
+      buffer = createHmac('sha256', seed).update(String(block++)).digest();
+      offset = 0;
+    }
+    return buffer.readUIntBE(BYTES_PER_FLOAT * offset++, BYTES_PER_FLOAT) / FLOAT_SCALE;
+  };
+}
+
+/** The commitment published for a seed: its SHA-256, hex encoded. */
+export function commitSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/** One roll drawn from a session's stream. */
+export interface DiceLogEntry {
+  /** 1-based position in the session. */
+  index: number;
+  /** The formula as rolled, after roll data substitution. */
+  formula: string;
+  /** Null when the roll failed part-way. */
+  total: number | null;
+  /** Why a failed roll failed. */
+  error?: string;
+  /** Floats a failed roll drew from the stream before failing. */
+  draws?: number;
+  timestamp: string;
+}
+
+export interface DiceCommitment {
+  /** `sha256(seed)`, hex encoded. */
+  commitment: string;
+  /** True when the seed came from DICE_SEED rather than the CSPRNG. */
+  configuredSeed: boolean;
+  startedAt: string;
+  rolls: number;
+}
+
+export interface DiceReveal extends DiceCommitment {
+  seed: string;
+  revealedAt: string;
+  log: DiceLogEntry[];
+  /** Whether replaying the log from the seed reproduced every total. */
+  verified: boolean;
+}
+
+/**
+ * Replays `log` from `seed` and checks every total, in order. Each roll
+ * consumes the stream where the previous one stopped; a failed roll must
+ * fail again after the same number of draws.
+ */
+export function verifyDiceLog(seed: string, log: DiceLogEntry[]): boolean {
+  const random = seededRandom(seed);
+  return log.every((entry) => {
+    const counted = countDraws(random);
+    try {
+      return evaluateRoll(entry.formula, counted.random).total === entry.total;
+    } catch {
+      return entry.total === null && counted.draws() === entry.draws;
+    }
+  });
+}
+
+/** Wraps `random` to count how many floats are drawn through it. */
+function countDraws(random: RandomSource): { random: RandomSource; draws: () => number } {
+  let draws = 0;
+  return {
+    random: () => {
+      draws++;
+      return random();
+    },
+    draws: () => draws,
+  };
+}
+
+export class DiceSession {
+  private readonly seed: string;
+  private readonly random: RandomSource;
+  private readonly log: DiceLogEntry[] = [];
+  private readonly startedAt = new Date().toISOString();
+
+  /** @param configuredSeed - a fixed seed (DICE_SEED); default 32 random bytes */
+  constructor(private readonly configuredSeed?: string) {
+    this.seed = configuredSeed ?? randomBytes(32).toString('hex');
+    this.random = seededRandom(this.seed);
+  }
+
+  /**
+   * Rolls `formula` from the session stream and logs it. A roll that throws
+   * after drawing dice is logged as failed, with its draws, so the log still
+   * replays.
+   */
+  roll(formula: string): EvaluatedRoll {
+    const counted = countDraws(this.random);
+    let roll: EvaluatedRoll;
+    try {
+      roll = evaluateRoll(formula, counted.random);
+    } catch (error) {
+      if (counted.draws() > 0) {
+        this.append({
+          formula,
+          total: null,
+          error: error instanceof Error ? error.message : String(error),
+          draws: counted.draws(),
+        });
+      }
+      throw error;
+    }
+    this.append({ formula, total: roll.total });
+    return roll;
+  }
+
+  private append(entry: Omit<DiceLogEntry, 'index' | 'timestamp'>): void {
+    this.log.push({
+      index: this.log.length + 1,
+      ...entry,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  commitment(): DiceCommitment {
+    return {
+      commitment: commitSeed(this.seed),
+      configuredSeed: this.configuredSeed !== undefined,
+      startedAt: this.startedAt,
+      rolls: this.log.length,
+    };
+  }
+
+  /**
+   * The seed and the roll log. The session must not roll again afterwards:
+   * anyone holding the seed can predict the rest of the stream.
+   */
+  reveal(): DiceReveal {
+    return {
+      ...this.commitment(),
+      seed: this.seed,
+      revealedAt: new Date().toISOString(),
+      log: [...this.log],
+      verified: verifyDiceLog(this.seed, this.log),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview `@` roll data references in dice formulas
+ *
+ * Item sheets and macros write formulas such as `1d20 + @abilities.dex.mod +
+ * @prof`, where each `@path` is read from the rolling actor's data. This
+ * module replaces those references before parsing. Each substituted value
+ * keeps its reference as a flavor tag (`3[@abilities.dex.mod]`), so the
+ * roll breakdown shows where every number came from.
+ */
+
+import { parseFormula } from './parser.js';
+
+/** Same pattern FoundryVTT's `Roll.replaceFormulaData` uses. */
+const REFERENCE = /@([a-z.0-9_-]+)/gi;
+
+export interface RollDataSubstitution {
+  /** The reference as written, e.g. `@abilities.dex.mod`. */
+  reference: string;
+  /** The value substituted for it (a number or a sub-formula). */
+  value: string;
+}
+
+export interface SubstitutedFormula {
+  formula: string;
+  substitutions: RollDataSubstitution[];
+}
+
+/** The `@` references in a formula, in order of first appearance. */
+export function rollDataReferences(formula: string): string[] {
+  return [...new Set([...formula.matchAll(REFERENCE)].map((m) => m[0]))];
+}
+
+/**
+ * Replaces every `@path` in `formula` with the value at `path` in `data`.
+ * Numbers (and numeric strings) are inserted as-is, string formulas such as
+ * a `1d4` bonus in parentheses, and empty strings as 0 — the same rules
+ * Foundry applies.
+ *
+ * @throws Error naming every reference that is missing or is not a number or formula
+ */
+export function substituteRollData(
+  formula: string,
+  data: Record<string, unknown>,
+): SubstitutedFormula {
+  const substitutions = new Map<string, string>();
+  const unresolved: string[] = [];
+
+  for (const reference of rollDataReferences(formula)) {
+    const value = rollDataValue(valueAt(data, reference.slice(1)));
+    if (value === undefined) {
+      unresolved.push(reference);
+    } else {
+      substitutions.set(reference, value);
+    }
+  }
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Roll data not found or not numeric: ${unresolved.join(', ')}. Check the paths against the actor's system data.`,
+    );
+  }
+
+  const substituted = formula.replace(REFERENCE, (reference) => {
+    const value = substitutions.get(reference) as string;
+    return /^\d+(\.\d+)?$/.test(value) ? `${value}[${reference}]` : `(${value})[${reference}]`;
+  });
+  return {
+    formula: substituted,
+    substitutions: [...substitutions].map(([reference, value]) => ({ reference, value })),
+  };
+}
+
+function rollDataValue(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : undefined;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const text = value.trim();
+  if (text === '') {
+    return '0';
+  }
+  try {
+    parseFormula(text);
+    return text;
+  } catch {
+    return undefined;
+  }
+}
+
+function valueAt(data: Record<string, unknown>, path: string): unknown {
+  let current: unknown = data;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
@@ -0,0 +1,304 @@
+/**
+ * @fileoverview Local evaluator for parsed dice formulas
+ *
+ * Rolls a {@link DiceNode} tree the way FoundryVTT's `Roll#evaluate` does:
+ * modifiers apply in the order written, discarded and rerolled dice stay in
+ * the result list (inactive) so the breakdown can show them struck through,
+ * and success-counting terms total their successes instead of their faces.
+ * The random source is injectable so rolls can be seeded and tested.
+ */
+
+import { type DiceCondition, type DiceModifier, type DiceNode, parseFormula } from './parser.js';
+
+/** Returns a float in [0, 1), like `Math.random`. */
+export type RandomSource = () => number;
+
+/** Most extra dice (explosions and rerolls) a single term may add. */
+export const MAX_EXTRA_DICE = 100;
+
+export interface DieResult {
+  result: number;
+  /** False once the die is discarded or rerolled; inactive dice do not count. */
+  active: boolean;
+  discarded?: true;
+  exploded?: true;
+  rerolled?: true;
+  success?: true;
+  failure?: true;
+}
+
+/** One evaluated `NdX…` term. */
+export interface DiceTermResult {
+  /** The term as written, e.g. `4d6kh3`. */
+  expression: string;
+  faces: number | 'F';
+  flavor?: string;
+  results: DieResult[];
+  total: number;
+}
+
+export interface EvaluatedRoll {
+  formula: string;
+  total: number;
+  /** Every dice term, in formula order. */
+  terms: DiceTermResult[];
+  /** e.g. `4d6kh3 (6, 5, 4, ~~2~~) + 5 = 20` */
+  breakdown: string;
+}
+
+/**
+ * Parses and rolls a formula.
+ *
+ * @throws Error `Invalid dice formula: …` for syntax errors and division by zero
+ */
+export function evaluateRoll(formula: string, random: RandomSource = Math.random): EvaluatedRoll {
+  const evaluator = new Evaluator(random);
+  const { value, text } = evaluator.evaluate(parseFormula(formula));
+  return {
+    formula,
+    total: value,
+    terms: evaluator.terms,
+    breakdown: `${text} = ${value}`,
+  };
+}
+
+/**
+ * Rolls an already parsed formula and returns only its total — for callers
+ * that roll the same formula many times.
+ */
+export function rollTotal(node: DiceNode, random: RandomSource = Math.random): number {
+  return new Evaluator(random).evaluate(node).value;
+}
+
+/** Renders one die for a breakdown: `~~n~~` when inactive, `n!` when it exploded. */
+export function renderDie(die: DieResult): string {
+  if (!die.active) {
+    return `~~${die.result}~~`;
+  }
+  return die.exploded ? `${die.result}!` : String(die.result);
+}
+
+class Evaluator {
+  readonly terms: DiceTermResult[] = [];
+
+  constructor(private readonly random: RandomSource) {}
+
+  evaluate(node: DiceNode): { value: number; text: string } {
+    switch (node.kind) {
+      case 'number':
+        return { value: node.value, text: `${node.value}${flavorText(node.flavor)}` };
+      case 'dice': {
+        const term = this.rollTerm(node);
+        this.terms.push(term);
+        return {
+          value: term.total,
+          text: `${node.source}${flavorText(node.flavor)} (${term.results.map(renderDie).join(', ')})`,
+        };
+      }
+      case 'negate': {
+        const operand = this.evaluate(node.operand);
+        return { value: -operand.value, text: `-${operand.text}` };
+      }
+      case 'group': {
+        const inner = this.evaluate(node.expression);
+        return { value: inner.value, text: `(${inner.text})${flavorText(node.flavor)}` };
+      }
+      case 'binary': {
+        const left = this.evaluate(node.left);
+        const right = this.evaluate(node.right);
+        return {
+          value: applyOperator(node.op, left.value, right.value),
+          text: `${left.text} ${node.op} ${right.text}`,
+        };
+      }
+      case 'call': {
+        const args = node.args.map((arg) => this.evaluate(arg));
+        const values = args.map((a) => a.value);
+        const value =
+          node.name === 'min' || node.name === 'max'
+            ? Math[node.name](...values)
+            : Math[node.name](values[0] as number);
+        return { value, text: `${node.name}(${args.map((a) => a.text).join(', ')})` };
+      }
+    }
+  }
+
+  private rollTerm(node: Extract<DiceNode, { kind: 'dice' }>): DiceTermResult {
+    const { faces } = node;
+    const roll = (): DieResult => ({ result: this.rollDie(faces), active: true });
+
+    let results = Array.from({ length: node.count }, roll);
+    let budget = MAX_EXTRA_DICE;
+    let counting = false;
+
+    for (const modifier of node.modifiers) {
+      switch (modifier.kind) {
+        case 'reroll': {
+          const condition = modifierCondition(modifier, faces);
+          const next: DieResult[] = [];
+          for (const die of results) {
+            next.push(die);
+            let current = die;
+            while (current.active && matches(current.result, condition) && budget > 0) {
+              current.active = false;
+              current.rerolled = true;
+              budget--;
+              current = roll();
+              next.push(current);
+              if (!modifier.recursive) {
+                break;
+              }
+            }
+          }
+          results = next;
+          break;
+        }
+        case 'explode': {
+          const condition = modifierCondition(modifier, faces);
+          const next: DieResult[] = [];
+          for (const die of results) {
+            next.push(die);
+            let current = die;
+            while (
+              current.active &&
+              !current.exploded &&
+              matches(current.result, condition) &&
+              budget > 0
+            ) {
+              current.exploded = true;
+              budget--;
+              current = roll();
+              next.push(current);
+              if (modifier.once) {
+                break;
+              }
+            }
+          }
+          results = next;
+          break;
+        }
+        case 'keep':
+        case 'drop': {
+          const active = results.filter((d) => d.active).sort((a, b) => a.result - b.result);
+          const n = Math.min(modifier.count, active.length);
+          // Ascending order: keeping the highest n discards the first length − n.
+          const discard =
+            modifier.kind === 'keep'
+              ? modifier.highest
+                ? active.slice(0, active.length - n)
+                : active.slice(n)
+              : modifier.highest
+                ? active.slice(active.length - n)
+                : active.slice(0, n);
+          for (const die of discard) {
+            die.active = false;
+            die.discarded = true;
+          }
+          break;
+        }
+        case 'min':
+        case 'max':
+          for (const die of results) {
+            if (die.active) {
+              die.result =
+                modifier.kind === 'min'
+                  ? Math.max(die.result, modifier.value)
+                  : Math.min(die.result, modifier.value);
+            }
+          }
+          break;
+        case 'countSuccess':
+        case 'countFailure': {
+          counting = true;
+          const success = modifier.kind === 'countSuccess';
+          const condition = modifierCondition(modifier, faces);
+          for (const die of results) {
+            if (die.active && matches(die.result, condition)) {
+              if (success) {
+                die.success = true;
+              } else {
+                die.failure = true;
+              }
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    const active = results.filter((d) => d.active);
+    const total = counting
+      ? active.filter((d) => d.success).length - active.filter((d) => d.failure).length
+      : active.reduce((sum, d) => sum + d.result, 0);
+    const term: DiceTermResult = { expression: node.source, faces, results, total };
+    if (node.flavor) {
+      term.flavor = node.flavor;
+    }
+    return term;
+  }
+
+  private rollDie(faces: number | 'F'): number {
+    const sides = faces === 'F' ? 3 : faces;
+    // Guard against sources that can return exactly 1.
+    const face = Math.min(Math.floor(this.random() * sides), sides - 1) + 1;
+    return faces === 'F' ? face - 2 : face;
+  }
+}
+
+/** Whether a die result satisfies a modifier's condition. */
+export function matches(result: number, { op, value }: DiceCondition): boolean {
+  switch (op) {
+    case '=':
+      return result === value;
+    case '<':
+      return result < value;
+    case '>':
+      return result > value;
+    case '<=':
+      return result <= value;
+    case '>=':
+      return result >= value;
+  }
+}
+
+/**
+ * The condition an explode, reroll or counting modifier tests, with
+ * Foundry's defaults: explode and count successes on the highest face,
+ * reroll and count failures on the lowest.
+ */
+export function modifierCondition(
+  modifier: Extract<DiceModifier, { kind: 'explode' | 'reroll' | 'countSuccess' | 'countFailure' }>,
+  faces: number | 'F',
+): DiceCondition {
+  if (modifier.condition) {
+    return modifier.condition;
+  }
+  const lowest = faces === 'F' ? -1 : 1;
+  const highest = faces === 'F' ? 1 : faces;
+  return modifier.kind === 'explode'
+    ? { op: '=', value: highest }
+    : modifier.kind === 'countSuccess'
+      ? { op: '>=', value: highest }
+      : { op: '=', value: lowest };
+}
+
+/** Applies a binary operator; division by zero is a formula error. */
+export function applyOperator(op: '+' | '-' | '*' | '/', left: number, right: number): number {
+  switch (op) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      if (right === 0) {
+        throw new Error('Invalid dice formula: division by zero');
+      }
+      return left / right;
+  }
+}
+
+function flavorText(flavor: string | undefined): string {
+  return flavor ? `[${flavor}]` : '';
+}
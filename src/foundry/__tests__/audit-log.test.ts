@@ -0,0 +1,96 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { type AuditEntry, AuditLog, documentUuids } from '../audit-log.js';
+
+function entry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    timestamp: '2026-10-01T20:00:00.000Z',
+    tool: 'update_actor_attributes',
+    args: { actorId: 'aaaaaaaaaaaaaaaa' },
+    type: 'Actor',
+    action: 'update',
+    uuids: ['Actor.aaaaaaaaaaaaaaaa'],
+    userId: 'uuuuuuuuuuuuuuuu',
+    outcome: 'ok',
+    result: [],
+    durationMs: 12,
+    ...overrides,
+  };
+}
+
+describe('documentUuids', () => {
+  it('builds world and embedded UUIDs', () => {
+    expect(documentUuids('Actor', null, ['a1'])).toEqual(['Actor.a1']);
+    expect(documentUuids('Item', 'Actor.a1', ['i1', 'i2'])).toEqual([
+      'Actor.a1.Item.i1',
+      'Actor.a1.Item.i2',
+    ]);
+  });
+});
+
+describe('AuditLog', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('filters by document (including embedded documents), tool and time range', () => {
+    const log = new AuditLog();
+    log.record(entry({ timestamp: '2026-10-01T20:00:00.000Z' }));
+    log.record(
+      entry({
+        timestamp: '2026-10-01T21:00:00.000Z',
+        tool: 'delete_actor_item',
+        type: 'Item',
+        action: 'delete',
+        uuids: ['Actor.aaaaaaaaaaaaaaaa.Item.iiiiiiiiiiiiiiii'],
+      }),
+    );
+    log.record(entry({ timestamp: '2026-10-01T22:00:00.000Z', uuids: ['Actor.bbbbbbbbbbbbbbbb'] }));
+
+    const forActor = log.query({ documentUuid: 'Actor.aaaaaaaaaaaaaaaa' });
+    expect(forActor.map((e) => e.timestamp)).toEqual([
+      '2026-10-01T21:00:00.000Z',
+      '2026-10-01T20:00:00.000Z',
+    ]);
+    expect(log.query({ tool: 'delete_actor_item' })).toHaveLength(1);
+    expect(
+      log.query({ since: '2026-10-01T20:30:00.000Z', until: '2026-10-01T21:00:00.000Z' }),
+    ).toHaveLength(1);
+    expect(log.query({ limit: 1 })[0]?.timestamp).toBe('2026-10-01T22:00:00.000Z');
+  });
+
+  it('appends JSONL and reloads it on startup', () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    const path = join(dir, 'audit.jsonl');
+
+    new AuditLog(path).record(entry());
+    new AuditLog(path).record(entry({ outcome: 'error', error: 'denied' }));
+
+    expect(readFileSync(path, 'utf8').trim().split('\n')).toHaveLength(2);
+    const reloaded = new AuditLog(path).query();
+    expect(reloaded.map((e) => e.outcome)).toEqual(['error', 'ok']);
+  });
+
+  it('skips unreadable lines in an existing file', () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    const path = join(dir, 'audit.jsonl');
+    writeFileSync(path, `${JSON.stringify(entry())}\n{"timestamp": "2026-10\n`);
+
+    expect(new AuditLog(path).query()).toHaveLength(1);
+  });
+
+  it('keeps only the newest entries in memory', () => {
+    const log = new AuditLog(undefined, 2);
+    for (const minute of ['01', '02', '03']) {
+      log.record(entry({ timestamp: `2026-10-01T20:${minute}:00.000Z` }));
+    }
+    expect(log.query().map((e) => e.timestamp.slice(14, 16))).toEqual(['03', '02']);
+  });
+});
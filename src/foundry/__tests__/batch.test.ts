@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { type BatchOperation, groupBatchOperations, validateBatch } from '../batch.js';
+
+const GOBLIN_1 = 'gggggggggggggg01';
+const GOBLIN_2 = 'gggggggggggggg02';
+const COMBAT_ID = 'cccccccccccccccc';
+
+describe('groupBatchOperations', () => {
+  it('groups by type, action and parent in order of first appearance', () => {
+    const operations: BatchOperation[] = [
+      {
+        type: 'Actor',
+        action: 'update',
+        id: GOBLIN_1,
+        changes: { 'system.attributes.hp.value': 3 },
+      },
+      {
+        type: 'ActiveEffect',
+        action: 'create',
+        parentUuid: `Actor.${GOBLIN_1}`,
+        data: { name: 'Prone', statuses: ['prone'] },
+      },
+      {
+        type: 'Actor',
+        action: 'update',
+        id: GOBLIN_2,
+        changes: { 'system.attributes.hp.value': 0 },
+      },
+      { type: 'Combat', action: 'update', id: COMBAT_ID, changes: { turn: 2 } },
+    ];
+
+    expect(groupBatchOperations(operations)).toEqual([
+      {
+        type: 'Actor',
+        action: 'update',
+        operation: {
+          updates: [
+            { 'system.attributes.hp.value': 3, _id: GOBLIN_1 },
+            { 'system.attributes.hp.value': 0, _id: GOBLIN_2 },
+          ],
+          diff: true,
+          recursive: true,
+        },
+      },
+      {
+        type: 'ActiveEffect',
+        action: 'create',
+        operation: {
+          data: [{ name: 'Prone', statuses: ['prone'] }],
+          parentUuid: `Actor.${GOBLIN_1}`,
+        },
+      },
+      {
+        type: 'Combat',
+        action: 'update',
+        operation: { updates: [{ turn: 2, _id: COMBAT_ID }], diff: true, recursive: true },
+      },
+    ]);
+  });
+
+  it('keeps different parents in separate requests', () => {
+    const requests = groupBatchOperations([
+      { type: 'Item', action: 'delete', parentUuid: `Actor.${GOBLIN_1}`, id: GOBLIN_2 },
+      { type: 'Item', action: 'delete', parentUuid: `Actor.${GOBLIN_2}`, id: GOBLIN_1 },
+    ]);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('validateBatch', () => {
+  it('rejects empty and oversized batches', () => {
+    expect(() => validateBatch([])).toThrow(/at least one/);
+    const op: BatchOperation = { type: 'Actor', action: 'delete', id: GOBLIN_1 };
+    expect(() => validateBatch(Array.from({ length: 101 }, () => op))).toThrow(/limited to 100/);
+  });
+
+  it('names the malformed operation', () => {
+    expect(() =>
+      validateBatch([
+        { type: 'Actor', action: 'delete', id: GOBLIN_1 },
+        { type: 'Actor', action: 'update', id: GOBLIN_2, changes: {} },
+      ]),
+    ).toThrow(/operations\[1\]: update needs a non-empty changes object/);
+    expect(() => validateBatch([{ type: 'actor', action: 'delete', id: GOBLIN_1 }])).toThrow(
+      /type must be a document name/,
+    );
+    expect(() =>
+      validateBatch([{ type: 'Item', action: 'create', parentUuid: 'Actor.bad', data: {} }]),
+    ).toThrow(/invalid parentUuid/);
+    expect(() =>
+      validateBatch([{ type: 'Actor', action: 'upsert' as 'create', data: {} }]),
+    ).toThrow(/action must be/);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundryRoll } from '../../dice/foundry-roll.js';
+import { evaluateRoll } from '../../dice/roller.js';
+import { messageVisibility, parseMessageRolls, queryChatMessages, stripHtml } from '../chat-log.js';
+import type { WorldMessage, WorldUser } from '../types.js';
+
+const users = [
+  { _id: 'gm', name: 'Gamemaster' },
+  { _id: 'alice', name: 'Alice' },
+] as WorldUser[];
+
+function message(index: number, fields: Partial<WorldMessage> = {}): WorldMessage {
+  return {
+    _id: `msg${index}`,
+    type: 0,
+    user: 'alice',
+    timestamp: Date.UTC(2024, 0, 1, 20, index),
+    content: `<p>message ${index}</p>`,
+    ...fields,
+  };
+}
+
+function rollJson(formula: string, face: number): string {
+  return JSON.stringify(toFoundryRoll(evaluateRoll(formula, () => (face - 1) / 20)));
+}
+
+describe('parseMessageRolls', () => {
+  it('reads formulas, totals and dice, including nested and discarded dice', () => {
+    const rolls = parseMessageRolls(
+      message(0, {
+        rolls: [rollJson('2d20kl + 3', 15), rollJson('(1d6 + 1d4)[fire]', 3), 'not json'],
+      }),
+    );
+
+    expect(rolls).toHaveLength(2);
+    expect(rolls[0]).toMatchObject({ formula: '2d20kl + 3', total: 18 });
+    expect(rolls[0]?.dice).toEqual([
+      { die: 'd20', number: 2, modifiers: ['kl'], results: [15], discarded: [15] },
+    ]);
+    expect(rolls[1]?.dice.map((d) => d.die)).toEqual(['d6', 'd4']);
+  });
+});
+
+describe('messageVisibility and stripHtml', () => {
+  it('classifies whispers and flattens HTML', () => {
+    expect(messageVisibility(message(0))).toBe('public');
+    expect(messageVisibility(message(0, { whisper: ['gm'] }))).toBe('whisper');
+    expect(messageVisibility(message(0, { whisper: ['gm'], blind: true }))).toBe('blind');
+    expect(stripHtml('<p>Hit &amp; run</p><br>next')).toBe('Hit & run next');
+  });
+});
+
+describe('queryChatMessages', () => {
+  const log = [
+    message(0, { speaker: { actor: 'rogue', alias: 'Vex' }, rolls: [rollJson('1d20 + 7', 11)] }),
+    message(1, { user: 'gm', whisper: ['gm'], content: 'Secret door' }),
+    message(2, {
+      speaker: { actor: 'rogue' },
+      flavor: 'Stealth Check',
+      rolls: [rollJson('1d20', 5)],
+    }),
+    message(3, { user: 'gm', blind: true, whisper: ['gm'] }),
+    message(4),
+  ];
+
+  it('filters by speaker, author, time, visibility, rolls and text', () => {
+    const ids = (query: Parameters<typeof queryChatMessages>[2]) =>
+      queryChatMessages(log, users, query).messages.map((m) => m._id);
+
+    expect(ids({ actorId: 'rogue' })).toEqual(['msg0', 'msg2']);
+    expect(ids({ user: 'Gamemaster' })).toEqual(['msg1', 'msg3']);
+    expect(ids({ since: Date.UTC(2024, 0, 1, 20, 2), until: Date.UTC(2024, 0, 1, 20, 3) })).toEqual(
+      ['msg2', 'msg3'],
+    );
+    expect(ids({ visibility: 'whisper' })).toEqual(['msg1']);
+    expect(ids({ rollsOnly: true })).toEqual(['msg0', 'msg2']);
+    expect(ids({ search: 'stealth' })).toEqual(['msg2']);
+    expect(ids({ search: '1D20 + 7' })).toEqual(['msg0']);
+    expect(() => ids({ user: 'Bob' })).toThrow('User not found: Bob');
+  });
+
+  it('pages back from the newest match', () => {
+    const first = queryChatMessages(log, users, { limit: 2 });
+    expect(first.messages.map((m) => m._id)).toEqual(['msg3', 'msg4']);
+    expect(first).toMatchObject({ total: 5, offset: 0, nextOffset: 2 });
+
+    const last = queryChatMessages(log, users, { limit: 2, offset: 4 });
+    expect(last.messages.map((m) => m._id)).toEqual(['msg0']);
+    expect(last.nextOffset).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundryRoll } from '../../dice/foundry-roll.js';
+import { evaluateRoll } from '../../dice/roller.js';
+import { buildChatMessageData } from '../chat-message.js';
+import type { WorldData } from '../types.js';
+
+const GM = 'gmgmgmgmgmgmgmgm';
+const ASSISTANT = 'asasasasasasasas';
+const PLAYER = 'plplplplplplplpl';
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const SCENE_ID = 'ssssssssssssssss';
+const TOKEN_ID = 'tttttttttttttttt';
+
+const world = {
+  userId: GM,
+  users: [
+    { _id: GM, name: 'Gamemaster', role: 4 },
+    { _id: ASSISTANT, name: 'Co-GM', role: 3 },
+    { _id: PLAYER, name: 'Alice', role: 1 },
+  ],
+  actors: [{ _id: ACTOR_ID, name: 'Goblin', type: 'npc', system: {} }],
+  scenes: [
+    {
+      _id: SCENE_ID,
+      name: 'Cave',
+      tokens: [{ _id: TOKEN_ID, name: 'Goblin Boss', actorId: ACTOR_ID }],
+    },
+  ],
+} as unknown as WorldData;
+
+describe('buildChatMessageData', () => {
+  it('posts a public message as the current user', () => {
+    expect(buildChatMessageData(world, { content: 'Hello' })).toEqual({
+      author: GM,
+      speaker: {},
+      content: 'Hello',
+      whisper: [],
+      blind: false,
+    });
+  });
+
+  it('resolves actor and token speakers', () => {
+    expect(
+      buildChatMessageData(world, { content: 'Hi', speaker: { actorId: ACTOR_ID } }).speaker,
+    ).toEqual({
+      scene: null,
+      actor: ACTOR_ID,
+      token: null,
+      alias: 'Goblin',
+    });
+    expect(
+      buildChatMessageData(world, {
+        content: 'Hi',
+        speaker: { sceneId: SCENE_ID, tokenId: TOKEN_ID },
+      }).speaker,
+    ).toEqual({ scene: SCENE_ID, actor: ACTOR_ID, token: TOKEN_ID, alias: 'Goblin Boss' });
+  });
+
+  it('resolves whisper recipients by name and folds in the roll mode', () => {
+    expect(buildChatMessageData(world, { content: 'psst', whisper: ['alice'] }).whisper).toEqual([
+      PLAYER,
+    ]);
+    const gmroll = buildChatMessageData(world, {
+      content: 'x',
+      whisper: [PLAYER],
+      rollMode: 'gmroll',
+    });
+    expect(gmroll.whisper).toEqual([PLAYER, GM, ASSISTANT]);
+    expect(gmroll.blind).toBe(false);
+
+    const blind = buildChatMessageData(world, { content: 'x', rollMode: 'blindroll' });
+    expect(blind).toMatchObject({ whisper: [GM, ASSISTANT], blind: true });
+
+    expect(buildChatMessageData(world, { content: 'x', rollMode: 'selfroll' }).whisper).toEqual([
+      GM,
+    ]);
+  });
+
+  it('serializes rolls and defaults the content to the total', () => {
+    const roll = toFoundryRoll(evaluateRoll('1d20 + 5', () => 0.5));
+    const data = buildChatMessageData(world, { rolls: [roll], flavor: 'Attack' });
+    expect(data).toMatchObject({ content: '16', flavor: 'Attack', sound: 'sounds/dice.wav' });
+    expect(JSON.parse((data.rolls as string[])[0] as string)).toEqual(roll);
+  });
+
+  it('rejects unknown speakers, recipients and empty messages', () => {
+    expect(() => buildChatMessageData(world, { content: ' ' })).toThrow('needs content or a roll');
+    expect(() => buildChatMessageData(world, { content: 'x', whisper: ['Bob'] })).toThrow(
+      'Unknown whisper recipient: Bob. Known users: Gamemaster, Co-GM, Alice',
+    );
+    expect(() =>
+      buildChatMessageData(world, { content: 'x', speaker: { actorId: 'bbbbbbbbbbbbbbbb' } }),
+    ).toThrow('Actor not found');
+    expect(() =>
+      buildChatMessageData(world, { content: 'x', speaker: { tokenId: TOKEN_ID } }),
+    ).toThrow('sceneId is required');
+  });
+});
@@ -384,6 +384,49 @@ describe('FoundryClient', () => {
       expect(result.total).toBeGreaterThanOrEqual(3);
       expect(result.total).toBeLessThanOrEqual(18);
     });
+
+    it('should fill in @ references from the actor system data', async () => {
+      (client as unknown as { worldData: unknown }).worldData = {
+        actors: [{ _id: 'aaaaaaaaaaaaaaaa', name: 'Elf', type: 'character', system: { prof: 2 } }],
+      };
+      const result = await client.rollDice('1d20 + @prof', undefined, {
+        actorId: 'aaaaaaaaaaaaaaaa',
+      });
+      expect(result.formula).toBe('1d20 + @prof');
+      expect(result.breakdown).toMatch(/^1d20 \(\d+\) \+ 2\[@prof\] = \d+$/);
+      expect(result.substitutions).toEqual([{ reference: '@prof', value: '2' }]);
+
+      await expect(client.rollDice('1d20 + @prof')).rejects.toThrow('pass actorId');
+      await expect(
+        client.rollDice('1d20 + @prof', undefined, { actorId: 'bbbbbbbbbbbbbbbb' }),
+      ).rejects.toThrow('Actor not found');
+    });
+
+    it('should roll the full dice grammar locally', async () => {
+      const result = await client.rollDice('2d20kh1 + floor(1d8[radiant] / 2)');
+      expect(result.terms?.map((t) => t.expression)).toEqual(['2d20kh1', '1d8']);
+      expect(result.terms?.[0]?.results.filter((d) => d.active)).toHaveLength(1);
+      expect(result.breakdown).toMatch(
+        /^2d20kh1 \(.*\) \+ floor\(1d8\[radiant\] \(\d\) \/ 2\) = \d+$/,
+      );
+    });
+
+    it('should draw local rolls from the committed seed and reveal them', async () => {
+      const seeded = new FoundryClient({ baseUrl: 'http://localhost:30000', diceSeed: 'abc' });
+      const again = new FoundryClient({ baseUrl: 'http://localhost:30000', diceSeed: 'abc' });
+      const commitment = seeded.getDiceCommitment().commitment;
+
+      const first = await seeded.rollDice('4d6kh3');
+      expect((await again.rollDice('4d6kh3')).total).toBe(first.total);
+
+      const reveal = seeded.revealDiceSeed();
+      expect(reveal).toMatchObject({ seed: 'abc', commitment, rolls: 1, verified: true });
+      expect(reveal.log[0]).toMatchObject({ index: 1, formula: '4d6kh3', total: first.total });
+
+      const next = seeded.getDiceCommitment();
+      expect(next.commitment).not.toBe(commitment);
+      expect(next).toMatchObject({ configuredSeed: false, rolls: 0 });
+    });
   });
 
   describe('disconnect', () => {
@@ -395,6 +438,337 @@ describe('FoundryClient', () => {
     });
   });
 
+  describe('live world cache', () => {
+    const COMBAT_ID = 'cccccccccccccccc';
+    const COMBATANT_ID = 'dddddddddddddddd';
+
+    /** Installs a cached world with one active combat and returns the client. */
+    function buildClientWithWorld() {
+      client = new FoundryClient({ baseUrl: 'http://localhost:30000', writeEnabled: true });
+      (client as unknown as { worldData: unknown }).worldData = {
+        userId: 'gm',
+        actors: [],
+        scenes: [],
+        items: [],
+        journal: [],
+        messages: [],
+        combats: [
+          {
+            _id: COMBAT_ID,
+            active: true,
+            round: 1,
+            turn: 0,
+            started: true,
+            combatants: [
+              {
+                _id: COMBATANT_ID,
+                name: 'Goblin',
+                initiative: null,
+                hidden: false,
+                defeated: false,
+              },
+            ],
+          },
+        ],
+        users: [],
+        activeUsers: [],
+        macros: [],
+        playlists: [],
+        tables: [],
+        folders: [],
+      };
+      return client;
+    }
+
+    it('applies modifyDocument broadcasts from other clients', () => {
+      buildClientWithWorld();
+      const onBroadcast = (client as unknown as { onDocumentBroadcast: (p: unknown) => void })
+        .onDocumentBroadcast;
+
+      onBroadcast({
+        request: {
+          type: 'Combatant',
+          action: 'update',
+          operation: { parentUuid: `Combat.${COMBAT_ID}` },
+        },
+        result: [{ _id: COMBATANT_ID, initiative: 14 }],
+        userId: 'player',
+      });
+
+      expect(client.getCombatState()?.combatants[0]?.initiative).toBe(14);
+    });
+
+    it("defaults to the active scene's combat when several scenes are fighting", () => {
+      buildClientWithWorld();
+      const world = (client as unknown as { worldData: { combats: unknown[]; scenes: unknown[] } })
+        .worldData;
+      world.scenes = [
+        { _id: 'scene1', name: 'Cave', active: false },
+        { _id: 'scene2', name: 'Tower', active: true },
+      ];
+      const other = { ...(world.combats[0] as object), _id: 'eeeeeeeeeeeeeeee', scene: 'scene2' };
+      world.combats = [{ ...(world.combats[0] as object), scene: 'scene1' }, other];
+
+      expect(client.getCombatState()?._id).toBe('eeeeeeeeeeeeeeee');
+      expect(client.getCombats()).toHaveLength(2);
+
+      world.scenes = [];
+      expect(client.getCombatState()?._id).toBe(COMBAT_ID);
+    });
+
+    it('applies the acknowledged result of its own writes', async () => {
+      buildClientWithWorld();
+      (client as unknown as { socket: unknown }).socket = {
+        connected: true,
+        emit: vi.fn((_event: string, payload: { operation: { updates: unknown[] } }, cb) =>
+          cb({ result: payload.operation.updates }),
+        ),
+      };
+
+      await client.updateCombat(COMBAT_ID, { turn: 0, round: 2 });
+
+      expect(client.getCombatState()?.round).toBe(2);
+    });
+
+    it('marks drawn table results through modifyDocument', async () => {
+      buildClientWithWorld();
+      const TABLE_ID = 'tttttttttttttttt';
+      const RESULT_ID = 'rrrrrrrrrrrrrrrr';
+      (client as unknown as { worldData: { tables: unknown[] } }).worldData.tables = [
+        {
+          _id: TABLE_ID,
+          name: 'Weather',
+          formula: '1d1',
+          replacement: false,
+          results: [{ _id: RESULT_ID, type: 'text', text: 'Fog', range: [1, 1], drawn: false }],
+        },
+      ];
+      const emit = vi.fn((_event: string, payload: { operation: { updates: unknown[] } }, cb) =>
+        cb({ result: payload.operation.updates }),
+      );
+      (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+
+      const [draw] = await client.drawFromTable('weather', { markDrawn: true });
+
+      expect(draw?.results[0]?.result.text).toBe('Fog');
+      expect(emit.mock.calls[0]?.[1]).toMatchObject({
+        type: 'TableResult',
+        action: 'update',
+        operation: {
+          parentUuid: `RollTable.${TABLE_ID}`,
+          updates: [{ _id: RESULT_ID, drawn: true }],
+        },
+      });
+      expect(client.getRollTable(TABLE_ID)?.results[0]?.drawn).toBe(true);
+      await expect(client.drawFromTable(TABLE_ID)).rejects.toThrow('have been drawn');
+    });
+
+    it("writes an unlinked token's hit points to its delta", async () => {
+      buildClientWithWorld();
+      const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+      const SCENE_ID = 'ssssssssssssssss';
+      const TOKEN_ID = 'tttttttttttttttt';
+      const world = (client as unknown as { worldData: { actors: unknown[]; scenes: unknown[] } })
+        .worldData;
+      world.actors = [
+        {
+          _id: ACTOR_ID,
+          name: 'Goblin',
+          type: 'npc',
+          system: { attributes: { hp: { value: 7, max: 7, temp: 0 } } },
+        },
+      ];
+      world.scenes = [
+        {
+          _id: SCENE_ID,
+          name: 'Cave',
+          tokens: [
+            {
+              _id: TOKEN_ID,
+              actorId: ACTOR_ID,
+              actorLink: false,
+              delta: { system: { attributes: { hp: { value: 4 } } } },
+            },
+          ],
+        },
+      ];
+      const emit = vi.fn((_event: string, payload: { operation: { updates: unknown[] } }, cb) =>
+        cb({ result: payload.operation.updates }),
+      );
+      (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+      const target = { actorId: ACTOR_ID, sceneId: SCENE_ID, tokenId: TOKEN_ID };
+
+      expect(client.getHitPoints(target)).toEqual({ current: 4, max: 7, temp: 0 });
+      expect(client.getTargetActor(target)?.system).toEqual({
+        attributes: { hp: { value: 4, max: 7, temp: 0 } },
+      });
+      await client.updateHitPoints(target, { current: 1 });
+
+      expect(emit.mock.calls[0]?.[1]).toMatchObject({
+        type: 'Token',
+        action: 'update',
+        operation: {
+          parentUuid: `Scene.${SCENE_ID}`,
+          updates: [{ _id: TOKEN_ID, 'delta.system.attributes.hp.value': 1 }],
+        },
+      });
+      expect(client.getHitPoints(target)?.current).toBe(1);
+      expect(client.getHitPoints({ actorId: ACTOR_ID })?.current).toBe(7);
+
+      await client.updateHitPoints({ actorId: ACTOR_ID }, { current: 3, temp: 2 });
+      expect(emit.mock.calls[1]?.[1]).toMatchObject({
+        type: 'Actor',
+        operation: {
+          updates: [
+            { _id: ACTOR_ID, 'system.attributes.hp.value': 3, 'system.attributes.hp.temp': 2 },
+          ],
+        },
+      });
+      await expect(client.updateHitPoints({ actorId: ACTOR_ID }, { current: -1 })).rejects.toThrow(
+        'non-negative',
+      );
+    });
+
+    it('records combat rounds it sees for the session log', () => {
+      buildClientWithWorld();
+      const onBroadcast = (client as unknown as { onDocumentBroadcast: (p: unknown) => void })
+        .onDocumentBroadcast;
+
+      onBroadcast({
+        request: { type: 'Combat', action: 'update', operation: {} },
+        result: [{ _id: COMBAT_ID, round: 2, turn: 0 }],
+        userId: 'gm',
+      });
+      onBroadcast({
+        request: { type: 'ChatMessage', action: 'create', operation: {} },
+        result: [
+          { _id: 'mmmmmmmmmmmmmmmm', user: 'gm', timestamp: Date.now() + 1000, content: 'Go!' },
+        ],
+        userId: 'gm',
+      });
+
+      const log = client.getSessionLog({ format: 'markdown' });
+      expect(log.messages).toBe(1);
+      expect(log.document).toContain('### ⚔️ Round 2\n\n- ');
+    });
+  });
+
+  describe('compendium over Socket.IO', () => {
+    function buildClientWithPacks(emit: ReturnType<typeof vi.fn>) {
+      client = new FoundryClient({ baseUrl: 'http://localhost:30000' });
+      (client as unknown as { worldData: unknown }).worldData = {
+        actors: [],
+        packs: [
+          { id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' },
+          { id: 'dnd5e.monsters', label: 'Monsters (SRD)', type: 'Actor' },
+        ],
+      };
+      (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+      return client;
+    }
+
+    const emitIndex = () =>
+      vi.fn((_event: string, payload: { type: string }, cb: (r: unknown) => void) =>
+        cb({
+          result:
+            payload.type === 'Item'
+              ? [{ _id: 'smite00000000001', name: 'Divine Smite', type: 'spell' }]
+              : [{ _id: 'goblin0000000001', name: 'Goblin', type: 'npc' }],
+        }),
+      );
+
+    it('indexes each pack once and searches locally', async () => {
+      const emit = emitIndex();
+      buildClientWithPacks(emit);
+
+      const result = await client.searchCompendium({ query: 'smite' });
+      await client.searchCompendium({ query: 'goblin' });
+
+      expect(result.restAvailable).toBe(true);
+      expect(result.results.map((r) => r.itemId)).toEqual(['smite00000000001']);
+      expect(emit).toHaveBeenCalledTimes(2);
+      expect(emit.mock.calls[0]?.[1]).toMatchObject({
+        type: 'Item',
+        action: 'get',
+        operation: { pack: 'dnd5e.spells', index: true },
+      });
+    });
+
+    it('reloads a pack index after a broadcast touches the pack', async () => {
+      const emit = emitIndex();
+      buildClientWithPacks(emit);
+
+      await client.searchCompendium({ query: 'smite', compendiumId: 'dnd5e.spells' });
+      (client as unknown as { onDocumentBroadcast: (p: unknown) => void }).onDocumentBroadcast({
+        request: { type: 'Item', action: 'create', operation: { pack: 'dnd5e.spells' } },
+        result: [{ _id: 'bolt000000000001', name: 'Fire Bolt' }],
+      });
+      await client.searchCompendium({ query: 'smite', compendiumId: 'dnd5e.spells' });
+
+      expect(emit).toHaveBeenCalledTimes(2);
+    });
+
+    it('searches the remaining packs when one index fails to load', async () => {
+      const emit = vi.fn((_event: string, payload: { type: string }, cb: (r: unknown) => void) =>
+        cb(
+          payload.type === 'Item'
+            ? { error: { message: 'pack is locked' } }
+            : { result: [{ _id: 'goblin0000000001', name: 'Goblin', type: 'npc' }] },
+        ),
+      );
+      buildClientWithPacks(emit);
+
+      const result = await client.searchCompendium({ query: 'goblin' });
+
+      expect(result.results.map((r) => r.itemId)).toEqual(['goblin0000000001']);
+      expect(result.total).toBe(1);
+    });
+
+    it('returns a graceful empty result without a connection', async () => {
+      client = new FoundryClient({ baseUrl: 'http://localhost:30000' });
+      const result = await client.searchCompendium({ query: 'smite' });
+      expect(result).toMatchObject({ results: [], restAvailable: false });
+    });
+  });
+
+  describe('connection supervision', () => {
+    it('degrades on an unexpected disconnect and refuses writes', async () => {
+      client = new FoundryClient({
+        baseUrl: 'http://localhost:30000',
+        writeEnabled: true,
+        retryDelay: 60_000,
+      });
+      const emit = vi.fn();
+      (client as unknown as { socket: unknown }).socket = {
+        connected: true,
+        emit,
+        off: vi.fn(),
+        disconnect: vi.fn(),
+      };
+      (client as unknown as { worldData: unknown }).worldData = { combats: [] };
+
+      (client as unknown as { onSocketDisconnect: (reason: string) => void }).onSocketDisconnect(
+        'transport close',
+      );
+
+      expect(client.isConnected()).toBe(false);
+      expect(client.getConnectionStatus().state).toBe('degraded');
+      await expect(client.updateCombat('cccccccccccccccc', { round: 2 })).rejects.toThrow(
+        /being re-established/,
+      );
+      expect(emit).not.toHaveBeenCalled();
+      client.disconnect();
+    });
+
+    it('stays offline after a deliberate disconnect', () => {
+      client = new FoundryClient({ baseUrl: 'http://localhost:30000' });
+      (client as unknown as { onSocketDisconnect: (reason: string) => void }).onSocketDisconnect(
+        'io client disconnect',
+      );
+      expect(client.getConnectionStatus().state).toBe('offline');
+    });
+  });
+
   describe('refreshWorldData listener cleanup', () => {
     /**
      * Builds a minimal mock socket that records `once`/`off`/`emit` calls and
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type CompendiumPack,
+  filterPackIndex,
+  parseCompendiumPacks,
+  prepareCompendiumImport,
+  selectPacks,
+} from '../compendium.js';
+
+const SPELLS: CompendiumPack = { id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' };
+const MONSTERS: CompendiumPack = { id: 'dnd5e.monsters', label: 'Monsters (SRD)', type: 'Actor' };
+
+const SPELL_INDEX = [
+  {
+    _id: 'smite00000000001',
+    name: 'Divine Smite',
+    type: 'spell',
+    system: { level: 1, school: 'evo', source: { rules: '2014', book: 'PHB' } },
+  },
+  {
+    _id: 'smite00000000002',
+    name: 'Divine Smite',
+    type: 'spell',
+    system: { level: 1, school: 'evo', source: { rules: '2024', book: 'PHB' } },
+  },
+  { _id: 'bolt000000000001', name: 'Fire Bolt', type: 'spell', system: { level: 0 } },
+];
+
+describe('parseCompendiumPacks', () => {
+  it('reads v11+ metadata and rebuilds missing ids', () => {
+    expect(
+      parseCompendiumPacks([
+        { id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' },
+        { packageName: 'world', name: 'loot', label: 'Loot', type: 'Item' },
+        { label: 'broken' },
+      ]),
+    ).toEqual([
+      { id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' },
+      { id: 'world.loot', label: 'Loot', type: 'Item' },
+    ]);
+  });
+
+  it('returns an empty list for missing metadata', () => {
+    expect(parseCompendiumPacks(undefined)).toEqual([]);
+  });
+});
+
+describe('selectPacks', () => {
+  it('filters by pack id and document type', () => {
+    expect(selectPacks([SPELLS, MONSTERS], { packType: 'actor' })).toEqual([MONSTERS]);
+    expect(selectPacks([SPELLS, MONSTERS], { compendiumId: 'dnd5e.spells' })).toEqual([SPELLS]);
+    expect(selectPacks([SPELLS, MONSTERS], {})).toHaveLength(2);
+  });
+});
+
+describe('filterPackIndex', () => {
+  it('matches names case-insensitively and keeps disambiguating metadata', () => {
+    const entries = filterPackIndex(SPELLS, SPELL_INDEX, { query: 'smite' });
+    expect(entries).toHaveLength(2);
+    expect(entries[1]).toEqual({
+      compendiumId: 'dnd5e.spells',
+      itemId: 'smite00000000002',
+      name: 'Divine Smite',
+      type: 'spell',
+      system: { level: 1, school: 'evo', source: { rules: '2024' } },
+    });
+  });
+
+  it('applies spell level, item type and source filters', () => {
+    expect(filterPackIndex(SPELLS, SPELL_INDEX, { spellLevel: 0 })).toHaveLength(1);
+    expect(filterPackIndex(SPELLS, SPELL_INDEX, { itemType: 'weapon' })).toEqual([]);
+    expect(filterPackIndex(SPELLS, SPELL_INDEX, { source: '2024' }).map((e) => e.itemId)).toEqual([
+      'smite00000000002',
+    ]);
+    expect(filterPackIndex(SPELLS, SPELL_INDEX, { source: 'phb' })).toHaveLength(2);
+  });
+});
+
+describe('prepareCompendiumImport', () => {
+  it('drops pack-local fields and records the compendium source', () => {
+    const data = prepareCompendiumImport(SPELLS, {
+      _id: 'smite00000000001',
+      name: 'Divine Smite',
+      folder: 'ffffffffffffffff',
+      sort: 100,
+      ownership: { default: 0 },
+      _stats: { coreVersion: '13.348' },
+    });
+    expect(data).toEqual({
+      name: 'Divine Smite',
+      _stats: {
+        coreVersion: '13.348',
+        compendiumSource: 'Compendium.dnd5e.spells.Item.smite00000000001',
+      },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  captureBeforeImages,
+  inverseRequest,
+  type JournalEntry,
+  MutationJournal,
+  restoreDiff,
+} from '../mutation-journal.js';
+import type { WorldData } from '../types.js';
+
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+function makeWorld(): WorldData {
+  return {
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Goblin',
+        type: 'npc',
+        system: { attributes: { hp: { value: 7, max: 7 } } },
+        items: [{ _id: ITEM_ID, name: 'Scimitar', type: 'weapon', system: { damage: '1d6' } }],
+      },
+    ],
+  } as unknown as WorldData;
+}
+
+function entry(partial: Partial<JournalEntry>): JournalEntry {
+  return {
+    id: 'chg-1',
+    timestamp: '2024-06-01T12:00:00.000Z',
+    type: 'Item',
+    action: 'create',
+    parentUuid: null,
+    documentIds: [],
+    names: [],
+    before: [],
+    result: [],
+    ...partial,
+  };
+}
+
+describe('captureBeforeImages', () => {
+  it('copies the embedded documents a delete targets', () => {
+    const world = makeWorld();
+    const before = captureBeforeImages(world, 'Item', 'delete', {
+      ids: [ITEM_ID],
+      parentUuid: `Actor.${ACTOR_ID}`,
+    });
+    expect(before).toEqual([world.actors[0]?.items?.[0]]);
+    // A copy, not a reference into the live cache.
+    expect(before[0]).not.toBe(world.actors[0]?.items?.[0]);
+  });
+
+  it('returns nothing for creates or an unloaded world', () => {
+    expect(captureBeforeImages(makeWorld(), 'Actor', 'create', { data: [] })).toEqual([]);
+    expect(captureBeforeImages(null, 'Actor', 'delete', { ids: [ACTOR_ID] })).toEqual([]);
+  });
+});
+
+describe('inverseRequest', () => {
+  it('deletes what a create made', () => {
+    expect(
+      inverseRequest(
+        entry({ action: 'create', parentUuid: `Actor.${ACTOR_ID}`, result: [{ _id: ITEM_ID }] }),
+      ),
+    ).toEqual({
+      type: 'Item',
+      action: 'delete',
+      operation: { ids: [ITEM_ID], parentUuid: `Actor.${ACTOR_ID}` },
+    });
+  });
+
+  it('re-creates deleted documents with their original ids', () => {
+    const item = { _id: ITEM_ID, name: 'Scimitar', type: 'weapon', system: {} };
+    expect(
+      inverseRequest(
+        entry({ action: 'delete', documentIds: [ITEM_ID], before: [item], result: [ITEM_ID] }),
+      ),
+    ).toEqual({
+      type: 'Item',
+      action: 'create',
+      operation: { data: [item], keepId: true },
+    });
+  });
+
+  it('restores the previous values of updated fields', () => {
+    const actor = makeWorld().actors[0] as unknown as Record<string, unknown>;
+    const inverse = inverseRequest(
+      entry({
+        type: 'Actor',
+        action: 'update',
+        documentIds: [ACTOR_ID],
+        before: [actor],
+        result: [{ _id: ACTOR_ID, 'system.attributes.hp.value': 2, flags: { x: 1 } }],
+      }),
+    );
+    expect(inverse?.operation.updates).toEqual([
+      { _id: ACTOR_ID, system: { attributes: { hp: { value: 7 } } }, '-=flags': null },
+    ]);
+  });
+
+  it('refuses when the before-image was not cached', () => {
+    expect(
+      inverseRequest(entry({ action: 'delete', documentIds: [ITEM_ID], result: [ITEM_ID] })),
+    ).toBeNull();
+    expect(
+      inverseRequest(entry({ action: 'update', result: [{ _id: ITEM_ID, name: 'x' }] })),
+    ).toBeNull();
+  });
+});
+
+describe('restoreDiff', () => {
+  it('puts back keys that an update removed', () => {
+    expect(restoreDiff({ flags: { a: 1 } }, { '-=flags': null })).toEqual({ flags: { a: 1 } });
+  });
+});
+
+describe('MutationJournal', () => {
+  it('lists newest first and links undos to the undone entry', () => {
+    const journal = new MutationJournal();
+    const base = { type: 'Item', parentUuid: null, names: [], before: [], result: [] };
+    const first = journal.record({ ...base, action: 'create', documentIds: [ITEM_ID] });
+    const undo = journal.record({
+      ...base,
+      action: 'delete',
+      documentIds: [ITEM_ID],
+      undoOf: first.id,
+    });
+
+    expect(journal.list().map((e) => e.id)).toEqual([undo.id, first.id]);
+    expect(journal.get(first.id)?.undoneBy).toBe(undo.id);
+  });
+
+  it('drops the oldest entries beyond its capacity', () => {
+    const journal = new MutationJournal(2);
+    const base = { type: 'Item', parentUuid: null, names: [], before: [], result: [] };
+    for (let i = 0; i < 3; i++) {
+      journal.record({ ...base, action: 'create', documentIds: [] });
+    }
+    expect(journal.get('chg-1')).toBeUndefined();
+    expect(journal.list()).toHaveLength(2);
+  });
+});
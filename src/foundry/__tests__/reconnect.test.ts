@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReconnectSupervisor } from '../reconnect.js';
+
+const OPTIONS = { baseDelay: 1000, maxDelay: 8000, maxAttempts: 0 };
+
+describe('ReconnectSupervisor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter, so delays are exact.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts offline', () => {
+    const supervisor = new ReconnectSupervisor(vi.fn(), OPTIONS);
+    expect(supervisor.getState()).toBe('offline');
+    expect(supervisor.getStatus().transitions).toEqual([]);
+  });
+
+  it('reconnects after a lost connection', async () => {
+    const connect = vi.fn().mockResolvedValue(undefined);
+    const supervisor = new ReconnectSupervisor(connect, OPTIONS);
+    supervisor.transition('connected');
+
+    supervisor.connectionLost('transport close');
+    expect(supervisor.getState()).toBe('degraded');
+    expect(connect).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(connect).toHaveBeenCalledTimes(1);
+    expect(supervisor.getState()).toBe('connected');
+    expect(supervisor.getStatus().transitions.map((t) => t.state)).toEqual([
+      'connected',
+      'degraded',
+      'connecting',
+      'connected',
+    ]);
+  });
+
+  it('backs off exponentially up to maxDelay', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const supervisor = new ReconnectSupervisor(connect, OPTIONS);
+    supervisor.transition('connected');
+    supervisor.connectionLost('transport close');
+
+    // Attempts at 1s, then +2s, +4s, +8s, +8s (capped).
+    for (const [delay, calls] of [
+      [1000, 1],
+      [2000, 2],
+      [4000, 3],
+      [8000, 4],
+      [8000, 5],
+    ] as const) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(connect).toHaveBeenCalledTimes(calls - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(connect).toHaveBeenCalledTimes(calls);
+    }
+
+    const status = supervisor.getStatus();
+    expect(status.state).toBe('degraded');
+    expect(status.failedAttempts).toBe(5);
+    expect(status.lastError).toBe('ECONNREFUSED');
+  });
+
+  it('goes offline once maxAttempts is spent', async () => {
+    const connect = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+    const supervisor = new ReconnectSupervisor(connect, { ...OPTIONS, maxAttempts: 2 });
+    supervisor.transition('connected');
+    supervisor.connectionLost('transport close');
+
+    await vi.advanceTimersByTimeAsync(1000 + 2000);
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(supervisor.getState()).toBe('offline');
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores further losses while a reconnect is pending', async () => {
+    const connect = vi.fn().mockResolvedValue(undefined);
+    const supervisor = new ReconnectSupervisor(connect, OPTIONS);
+    supervisor.transition('connected');
+
+    supervisor.connectionLost('transport close');
+    supervisor.connectionLost('ping timeout');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a pending reconnect on stop', async () => {
+    const connect = vi.fn().mockResolvedValue(undefined);
+    const supervisor = new ReconnectSupervisor(connect, OPTIONS);
+    supervisor.transition('connected');
+    supervisor.connectionLost('transport close');
+
+    supervisor.stop();
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(connect).not.toHaveBeenCalled();
+    expect(supervisor.getState()).toBe('offline');
+  });
+});
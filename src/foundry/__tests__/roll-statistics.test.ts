@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundryRoll } from '../../dice/foundry-roll.js';
+import { evaluateRoll } from '../../dice/roller.js';
+import { rollStatistics } from '../roll-statistics.js';
+import type { WorldData, WorldMessage } from '../types.js';
+
+/** A roll message whose d20s all come up `face`. */
+function roll(
+  index: number,
+  formula: string,
+  face: number,
+  fields: Partial<WorldMessage> = {},
+  options: Record<string, unknown> = {},
+): WorldMessage {
+  const data = toFoundryRoll(evaluateRoll(formula, () => (face - 1) / 20));
+  return {
+    _id: `m${index}`,
+    type: 0,
+    user: 'alice',
+    timestamp: Date.UTC(2024, 0, 1, 20, index),
+    content: String(data.total),
+    speaker: { actor: 'vex' },
+    rolls: [JSON.stringify({ ...data, options })],
+    ...fields,
+  };
+}
+
+function world(messages: WorldMessage[]): WorldData {
+  return {
+    users: [
+      { _id: 'alice', name: 'Alice' },
+      { _id: 'gm', name: 'Gamemaster' },
+    ],
+    actors: [{ _id: 'vex', name: 'Vex' }],
+    messages,
+  } as unknown as WorldData;
+}
+
+describe('rollStatistics', () => {
+  const log = world([
+    roll(0, '1d20 + 5', 20, {}, { target: 15 }),
+    roll(1, '1d20 + 5', 14, { flavor: 'Athletics (DC 20)' }),
+    roll(2, '2d20kh + 5', 12),
+    roll(3, '1d20', 1, { user: 'gm', speaker: { alias: 'Goblin' } }),
+    roll(4, '1d20', 3, { user: 'gm', speaker: { actor: 'gob1', alias: 'Goblin' } }),
+    { ...roll(5, '1d8', 4), content: 'damage' },
+  ]);
+
+  it('aggregates naturals, DCs and streaks per player and character', () => {
+    const stats = rollStatistics(log);
+
+    expect(stats.overall).toMatchObject({ rolls: 5, natural20s: 1, natural1s: 1, faces: 6 });
+    expect(stats.from).toBe(Date.UTC(2024, 0, 1, 20, 0));
+    expect(stats.to).toBe(Date.UTC(2024, 0, 1, 20, 4));
+
+    const [alice, gm] = stats.byUser;
+    expect(alice).toMatchObject({
+      name: 'Alice',
+      rolls: 3,
+      average: (20 + 14 + 12) / 3,
+      checks: 2,
+      successes: 1,
+      longestHighStreak: 3,
+      longestLowStreak: 0,
+    });
+    expect(alice?.expected).toBeCloseTo((10.5 + 10.5 + 13.825) / 3);
+    expect(gm).toMatchObject({ name: 'Gamemaster', rolls: 2, longestLowStreak: 2 });
+
+    expect(stats.byActor.map((g) => [g.id, g.name, g.rolls])).toEqual([
+      ['vex', 'Vex', 3],
+      ['gob1', 'Goblin', 1],
+    ]);
+  });
+
+  it('reads advantage from the keep modifiers, with or without a count', () => {
+    const stats = rollStatistics(
+      world([roll(0, '2d20kh1 + 7', 10), roll(1, '2d20kl1 + 7', 10), roll(2, '2d20dl', 10)]),
+    );
+    expect(stats.overall.expected).toBeCloseTo((13.825 + 7.175 + 13.825) / 3);
+  });
+
+  it('keeps actors and players with the same name apart', () => {
+    const goblin = (index: number, actor: string, user: string) =>
+      roll(index, '1d20', 10, { user, speaker: { actor, alias: 'Goblin' } });
+    const twins = world([goblin(0, 'gob1', 'gm'), goblin(1, 'gob2', 'gm2')]);
+    twins.users.push({ _id: 'gm2', name: 'Gamemaster' } as WorldData['users'][number]);
+
+    const stats = rollStatistics(twins);
+    expect(stats.byActor.map((g) => [g.id, g.name, g.rolls])).toEqual([
+      ['gob1', 'Goblin', 1],
+      ['gob2', 'Goblin', 1],
+    ]);
+    expect(stats.byUser.map((g) => [g.id, g.name])).toEqual([
+      ['gm', 'Gamemaster'],
+      ['gm2', 'Gamemaster'],
+    ]);
+  });
+
+  it('counts dropped advantage dice in the fairness sample', () => {
+    const { overall } = rollStatistics(world([roll(0, '2d20kh', 20), roll(1, '2d20kl', 20)]));
+    expect(overall.faces).toBe(4);
+    expect(overall.faceAverage).toBe(20);
+    expect(overall.z).toBeGreaterThan(3);
+  });
+
+  it('filters by range, actor and user', () => {
+    expect(rollStatistics(log, { since: Date.UTC(2024, 0, 1, 20, 2) }).overall.rolls).toBe(3);
+    expect(rollStatistics(log, { actorId: 'gob1' }).overall.rolls).toBe(1);
+    expect(rollStatistics(log, { user: 'Gamemaster' }).overall.rolls).toBe(2);
+    expect(() => rollStatistics(log, { user: 'Bob' })).toThrow('User not found: Bob');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it, vi } from 'vitest';
+import { evaluateRoll } from '../../dice/roller.js';
+import {
+  drawFromTable,
+  drawnResultIds,
+  flattenResults,
+  MAX_TABLE_DEPTH,
+  resultUuid,
+  type TableDrawSource,
+  tableDrawMessage,
+  tableFormula,
+} from '../roll-table.js';
+import type { WorldRollTable, WorldTableResult } from '../types.js';
+
+const ENCOUNTERS = 'eeeeeeeeeeeeeeee';
+const GOBLINS = 'gggggggggggggggg';
+
+function result(id: string, range: [number, number], fields: Partial<WorldTableResult> = {}) {
+  return { _id: id.padEnd(16, '0'), type: 'text', text: id, range, ...fields };
+}
+
+/** A source whose 1d6 table rolls come up with the given faces, in order. */
+function source(totals: number[], tables: WorldRollTable[] = []): TableDrawSource {
+  const queue = [...totals];
+  return {
+    roll: vi.fn((formula: string) => {
+      const total = queue.shift();
+      if (total === undefined) {
+        throw new Error('ran out of scripted totals');
+      }
+      return evaluateRoll(formula, () => (total - 1) / 6);
+    }),
+    loadTable: vi.fn(async (uuid: string) => tables.find((t) => uuid.endsWith(t._id))),
+    packs: [{ id: 'dnd5e.items', label: 'Items', type: 'Item' }],
+  };
+}
+
+function table(fields: Partial<WorldRollTable> = {}): WorldRollTable {
+  return {
+    _id: ENCOUNTERS,
+    name: 'Encounters',
+    formula: '1d6',
+    results: [result('wolves', [1, 2]), result('bandits', [3, 4]), result('dragon', [5, 6])],
+    ...fields,
+  };
+}
+
+describe('tableFormula', () => {
+  it('uses the table formula, or a die over the highest range', () => {
+    expect(tableFormula(table())).toBe('1d6');
+    expect(tableFormula(table({ formula: '' }))).toBe('1d6');
+    expect(() => tableFormula(table({ formula: '', results: [] }))).toThrow('no formula');
+  });
+});
+
+describe('drawFromTable', () => {
+  it('takes the result whose range covers the total', async () => {
+    const [draw] = await drawFromTable(table(), source([4]));
+    expect(draw?.roll.total).toBe(4);
+    expect(draw?.results.map((r) => r.result.text)).toEqual(['bandits']);
+  });
+
+  it('takes every result when ranges overlap', async () => {
+    const overlapping = table({
+      results: [result('rain', [1, 4]), result('wind', [3, 6])],
+    });
+    const [draw] = await drawFromTable(overlapping, source([3]));
+    expect(draw?.results.map((r) => r.result.text)).toEqual(['rain', 'wind']);
+  });
+
+  it('rerolls onto undrawn results of a table without replacement', async () => {
+    const noReplacement = table({
+      replacement: false,
+      results: [
+        result('wolves', [1, 2], { drawn: true }),
+        result('bandits', [3, 4]),
+        result('dragon', [5, 6]),
+      ],
+    });
+    const draws = await drawFromTable(noReplacement, source([1, 3, 4, 2, 6]), 2);
+    expect(draws.map((d) => d.results[0]?.result.text)).toEqual(['bandits', 'dragon']);
+  });
+
+  it('refuses when every result is drawn', async () => {
+    const exhausted = table({
+      replacement: false,
+      results: [result('wolves', [1, 6], { drawn: true })],
+    });
+    await expect(drawFromTable(exhausted, source([1]))).rejects.toThrow('have been drawn');
+  });
+
+  it('draws from linked tables', async () => {
+    const goblins = table({ _id: GOBLINS, name: 'Goblins', results: [result('ambush', [1, 6])] });
+    const linking = table({
+      results: [
+        result('goblins', [1, 6], {
+          type: 'document',
+          documentCollection: 'RollTable',
+          documentId: GOBLINS,
+        }),
+      ],
+    });
+    const [draw] = await drawFromTable(linking, source([2, 5], [goblins]));
+
+    expect(draw?.results[0]?.uuid).toBe(`RollTable.${GOBLINS}`);
+    expect(draw?.results[0]?.draw?.table.name).toBe('Goblins');
+    expect(flattenResults(draw as never).map((r) => r.result.text)).toEqual(['ambush']);
+  });
+
+  it('stops at the nesting limit', async () => {
+    const loop = table({
+      results: [result('again', [1, 6], { documentUuid: `RollTable.${ENCOUNTERS}` })],
+    });
+    const totals = Array.from({ length: MAX_TABLE_DEPTH + 1 }, () => 1);
+    await expect(drawFromTable(loop, source(totals, [loop]))).rejects.toThrow('nest deeper');
+  });
+});
+
+describe('resultUuid', () => {
+  it('builds UUIDs for document and compendium results', () => {
+    const packs = source([]).packs;
+    expect(resultUuid(result('text', [1, 1]), packs)).toBeUndefined();
+    expect(
+      resultUuid(
+        result('sword', [1, 1], { type: 1, documentCollection: 'Item', documentId: 'i1' }),
+        packs,
+      ),
+    ).toBe('Item.i1');
+    expect(
+      resultUuid(
+        result('potion', [1, 1], {
+          type: 'pack',
+          documentCollection: 'dnd5e.items',
+          documentId: 'p1',
+        }),
+        packs,
+      ),
+    ).toBe('Compendium.dnd5e.items.Item.p1');
+    expect(resultUuid(result('v13', [1, 1], { documentUuid: 'Actor.a1' }), packs)).toBe('Actor.a1');
+  });
+});
+
+describe('drawnResultIds', () => {
+  it('collects results of world tables without replacement only', async () => {
+    const withReplacement = await drawFromTable(table(), source([1]));
+    expect(drawnResultIds(withReplacement).size).toBe(0);
+
+    const draws = await drawFromTable(table({ replacement: false }), source([1, 6]), 2);
+    expect(drawnResultIds(draws)).toEqual(
+      new Map([[ENCOUNTERS, [result('wolves', [1, 2])._id, result('dragon', [5, 6])._id]]]),
+    );
+  });
+});
+
+describe('tableDrawMessage', () => {
+  it('lists results with document links and carries the rolls and flag', async () => {
+    const linked = table({
+      results: [result('Sword', [1, 6], { documentUuid: 'Item.i1', img: 'sword.webp' })],
+    });
+    const draws = await drawFromTable(linked, source([3]));
+    const message = tableDrawMessage(linked, draws);
+
+    expect(message.content).toContain('<img src="sword.webp">');
+    expect(message.content).toContain('@UUID[Item.i1]{Sword}');
+    expect(message.flavor).toBe('Draws 1 result from the Encounters table.');
+    expect(message.flags).toEqual({ core: { RollTable: ENCOUNTERS } });
+    expect(message.rolls).toHaveLength(1);
+
+    expect(tableDrawMessage(table({ displayRoll: false }), draws).rolls).toBeUndefined();
+  });
+});
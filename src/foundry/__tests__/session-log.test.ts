@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { toFoundryRoll } from '../../dice/foundry-roll.js';
+import { evaluateRoll } from '../../dice/roller.js';
+import { renderSessionLog, type SessionEvent, sessionEventsOf } from '../session-log.js';
+import type { WorldData, WorldMessage } from '../types.js';
+
+const at = (minute: number) => Date.UTC(2024, 2, 9, 19, minute);
+
+function message(minute: number, fields: Partial<WorldMessage>): WorldMessage {
+  return {
+    _id: `m${minute}`,
+    type: 0,
+    user: 'alice',
+    timestamp: at(minute),
+    content: '',
+    ...fields,
+  };
+}
+
+function world(messages: WorldMessage[]): WorldData {
+  return {
+    world: { title: 'Saltmarsh' },
+    users: [
+      { _id: 'gm', name: 'Gamemaster' },
+      { _id: 'alice', name: 'Alice' },
+    ],
+    actors: [{ _id: 'vex', name: 'Vex' }],
+    scenes: [
+      { _id: 'docks', name: 'The Docks' },
+      { _id: 'manor', name: 'Haunted Manor' },
+    ],
+    messages,
+  } as unknown as WorldData;
+}
+
+const stealth = JSON.stringify(toFoundryRoll(evaluateRoll('1d20 + 7', () => 0.5)));
+
+const log = world([
+  message(0, { content: 'Pizza is here', style: 1 }),
+  message(1, {
+    content: '<p>We go in quietly.</p>',
+    speaker: { actor: 'vex', scene: 'docks', alias: 'Vex' },
+    style: 2,
+  }),
+  message(2, {
+    author: 'alice',
+    content: '18',
+    flavor: 'Stealth Check',
+    speaker: { actor: 'vex', scene: 'docks', alias: 'Vex' },
+    rolls: [stealth],
+  }),
+  message(4, { user: 'gm', content: 'You hear a click.', whisper: ['alice'] }),
+  message(6, { content: 'draws her dagger', speaker: { actor: 'vex', scene: 'manor' }, style: 3 }),
+]);
+
+describe('renderSessionLog', () => {
+  it('writes a Markdown transcript with speakers, speech, whispers, rolls and scenes', () => {
+    const events: SessionEvent[] = [{ timestamp: at(5), kind: 'round', label: '1' }];
+    const { document, messages, from, to } = renderSessionLog(log, events, {
+      format: 'markdown',
+    });
+
+    expect(messages).toBe(5);
+    expect([from, to]).toEqual([at(0), at(6)]);
+    expect(document).toBe(`# Session Log — Saltmarsh
+
+_2024-03-09 19:00 – 2024-03-09 19:06 UTC · 5 messages_
+
+- \`19:00\` _(OOC)_ **Alice:** Pizza is here
+
+## 🎬 The Docks
+
+- \`19:01\` **Vex (Alice):** “We go in quietly.”
+- \`19:02\` **Vex (Alice):** _Stealth Check_
+  - 🎲 1d20 + 7 = 18 (d20: 11)
+- \`19:04\` _(OOC)_ **Gamemaster:** You hear a click. _(whisper to Alice)_
+
+### ⚔️ Round 1
+
+## 🎬 Haunted Manor
+
+- \`19:06\` _Vex draws her dagger_
+`);
+  });
+
+  it('writes HTML, filters the time range and leaves out whispers on request', () => {
+    const { document, messages } = renderSessionLog(log, [], {
+      format: 'html',
+      since: at(1),
+      until: at(4),
+      excludeWhispers: true,
+      title: 'Session 12 <recap>',
+    });
+
+    expect(messages).toBe(2);
+    expect(document).toContain('<title>Session 12 &lt;recap&gt;</title>');
+    expect(document).toContain('<h2>🎬 The Docks</h2>');
+    expect(document).toContain('<strong>Vex (Alice):</strong> We go in quietly.');
+    expect(document).toContain('<div class="roll">🎲 1d20 + 7 = 18 (d20: 11)</div>');
+    expect(document).not.toContain('click');
+  });
+});
+
+describe('sessionEventsOf', () => {
+  it('records scene activations, round changes and ended combats', () => {
+    const data = world([]);
+    expect(
+      sessionEventsOf(
+        { type: 'Scene', action: 'update', result: [{ _id: 'manor', active: true }] },
+        data,
+        5,
+      ),
+    ).toEqual([{ timestamp: 5, kind: 'scene', label: 'Haunted Manor' }]);
+    expect(
+      sessionEventsOf(
+        { type: 'Combat', action: 'update', result: [{ _id: 'c', round: 3 }] },
+        data,
+        5,
+      ),
+    ).toEqual([{ timestamp: 5, kind: 'round', label: '3' }]);
+    expect(sessionEventsOf({ type: 'Combat', action: 'delete', result: ['c'] }, data, 5)).toEqual([
+      { timestamp: 5, kind: 'combat-end', label: 'Combat ended' },
+    ]);
+    expect(
+      sessionEventsOf(
+        { type: 'Combat', action: 'update', result: [{ _id: 'c', turn: 2 }] },
+        data,
+        5,
+      ),
+    ).toEqual([]);
+  });
+});
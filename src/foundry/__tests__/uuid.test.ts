@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { WorldData } from '../types.js';
+import {
+  buildUuid,
+  extractUuidLinks,
+  isTokenActorUuid,
+  parseUuid,
+  resolveWorldUuid,
+  tokenActorUuid,
+} from '../uuid.js';
+
+const SCENE_ID = 'ssssssssssssssss';
+const TOKEN_ID = 'tttttttttttttttt';
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+const DELTA_ITEM_ID = 'dddddddddddddddd';
+const JOURNAL_ID = 'jjjjjjjjjjjjjjjj';
+const PAGE_ID = 'pppppppppppppppp';
+
+describe('parseUuid', () => {
+  it('parses world, embedded and compendium UUIDs', () => {
+    expect(parseUuid(`Actor.${ACTOR_ID}`)).toEqual({
+      uuid: `Actor.${ACTOR_ID}`,
+      pack: null,
+      parts: [{ type: 'Actor', id: ACTOR_ID }],
+    });
+    expect(parseUuid(`Scene.${SCENE_ID}.Token.${TOKEN_ID}.Actor.${ACTOR_ID}`)?.parts).toHaveLength(
+      3,
+    );
+    expect(parseUuid(`Compendium.dnd5e.items.Item.${ITEM_ID}`)).toMatchObject({
+      pack: 'dnd5e.items',
+      parts: [{ type: 'Item', id: ITEM_ID }],
+    });
+  });
+
+  it('rejects malformed and relative UUIDs', () => {
+    for (const bad of [
+      'Actor',
+      `Actor.${ACTOR_ID}.Item`,
+      'Actor.short',
+      `actor.${ACTOR_ID}`,
+      `.Item.${ITEM_ID}`,
+      `Compendium.dnd5e.items.${ITEM_ID}`,
+    ]) {
+      expect(parseUuid(bad)).toBeNull();
+    }
+  });
+
+  it('round-trips through buildUuid', () => {
+    const uuid = `Compendium.dnd5e.monsters.Actor.${ACTOR_ID}.Item.${ITEM_ID}`;
+    const parsed = parseUuid(uuid);
+    expect(parsed && buildUuid(parsed.parts, parsed.pack)).toBe(uuid);
+  });
+});
+
+describe('token actor UUIDs', () => {
+  it('builds and recognises both forms', () => {
+    const linked = tokenActorUuid(SCENE_ID, TOKEN_ID, ACTOR_ID, true);
+    const synthetic = tokenActorUuid(SCENE_ID, TOKEN_ID, ACTOR_ID, false);
+    expect(linked).toBe(`Actor.${ACTOR_ID}`);
+    expect(synthetic).toBe(`Scene.${SCENE_ID}.Token.${TOKEN_ID}.Actor.${ACTOR_ID}`);
+    expect(isTokenActorUuid(linked)).toBe(true);
+    expect(isTokenActorUuid(synthetic)).toBe(true);
+    expect(isTokenActorUuid(`Scene.${SCENE_ID}.Token.${TOKEN_ID}`)).toBe(false);
+  });
+});
+
+describe('extractUuidLinks', () => {
+  it('finds @UUID and legacy links once each', () => {
+    const text =
+      `<p>Ask @UUID[Actor.${ACTOR_ID}]{Sildar} about @UUID[JournalEntry.${JOURNAL_ID}]` +
+      ` and @Item[${ITEM_ID}]{the map}. @UUID[Actor.${ACTOR_ID}]{again}</p>`;
+    expect(extractUuidLinks(text)).toEqual([
+      { uuid: `Actor.${ACTOR_ID}`, label: 'Sildar' },
+      { uuid: `JournalEntry.${JOURNAL_ID}` },
+      { uuid: `Item.${ITEM_ID}`, label: 'the map' },
+    ]);
+  });
+});
+
+describe('resolveWorldUuid', () => {
+  const world = {
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Goblin',
+        type: 'npc',
+        system: { attributes: { hp: { value: 7 } } },
+        items: [{ _id: ITEM_ID, name: 'Scimitar' }],
+        effects: [],
+      },
+    ],
+    journal: [{ _id: JOURNAL_ID, name: 'Lore', pages: [{ _id: PAGE_ID, name: 'Page 1' }] }],
+    scenes: [
+      {
+        _id: SCENE_ID,
+        name: 'Cave',
+        tokens: [
+          {
+            _id: TOKEN_ID,
+            actorId: ACTOR_ID,
+            actorLink: false,
+            delta: {
+              name: 'Goblin Boss',
+              system: { attributes: { hp: { value: 2 } } },
+              items: [{ _id: DELTA_ITEM_ID, name: 'Whip' }],
+            },
+          },
+        ],
+      },
+    ],
+  } as unknown as WorldData;
+
+  const resolve = (uuid: string) => {
+    const parsed = parseUuid(uuid);
+    return parsed ? resolveWorldUuid(world, parsed) : null;
+  };
+
+  it('walks nested embedded documents', () => {
+    expect(resolve(`JournalEntry.${JOURNAL_ID}.JournalEntryPage.${PAGE_ID}`)?.name).toBe('Page 1');
+    expect(resolve(`Actor.${ACTOR_ID}.Item.${ITEM_ID}`)?.name).toBe('Scimitar');
+    expect(resolve(`Actor.${ACTOR_ID}.Item.${DELTA_ITEM_ID}`)).toBeNull();
+  });
+
+  it('materialises an unlinked token actor from its delta', () => {
+    const synthetic = `Scene.${SCENE_ID}.Token.${TOKEN_ID}.Actor.${ACTOR_ID}`;
+    const actor = resolve(synthetic);
+    expect(actor).toMatchObject({
+      name: 'Goblin Boss',
+      system: { attributes: { hp: { value: 2 } } },
+    });
+    expect((actor?.items as unknown[]).length).toBe(2);
+    expect(resolve(`${synthetic}.Item.${DELTA_ITEM_ID}`)?.name).toBe('Whip');
+    // The cache itself is untouched.
+    expect(world.actors[0]?.name).toBe('Goblin');
+  });
+
+  it('returns null for uncached documents', () => {
+    expect(resolve(`Actor.${ITEM_ID}`)).toBeNull();
+    expect(resolve(`Scene.${SCENE_ID}.Token.${TOKEN_ID}.Actor.${ITEM_ID}`)).toBeNull();
+  });
+});
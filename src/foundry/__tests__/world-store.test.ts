@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { WorldData } from '../types.js';
+import { WorldStore } from '../world-store.js';
+
+const SCENE_A = 'aaaaaaaaaaaaaaaa';
+const SCENE_B = 'bbbbbbbbbbbbbbbb';
+const TOKEN_ID = 'tttttttttttttttt';
+
+/** Builds a world with three actors, one item and two scenes. */
+function makeWorld(): WorldData {
+  return {
+    userId: 'user',
+    release: {},
+    world: {},
+    system: {},
+    modules: [],
+    demoMode: false,
+    actors: [
+      { _id: 'actor00000000001', name: 'Goblin Boss', type: 'npc', system: {} },
+      { _id: 'actor00000000002', name: 'Aria', type: 'character', system: {} },
+      { _id: 'actor00000000003', name: 'Goblin', type: 'npc', system: {} },
+    ],
+    items: [{ _id: 'item000000000001', name: 'Longsword', type: 'weapon', system: {} }],
+    scenes: [
+      {
+        _id: SCENE_A,
+        name: 'Cave',
+        active: true,
+        navigation: true,
+        width: 1000,
+        height: 1000,
+        padding: 0,
+        darkness: 0,
+        globalLight: false,
+        tokens: [{ _id: TOKEN_ID, name: 'Goblin', x: 0 }],
+      },
+      {
+        _id: SCENE_B,
+        name: 'Forest',
+        active: false,
+        navigation: true,
+        width: 1000,
+        height: 1000,
+        padding: 0,
+        darkness: 0,
+        globalLight: false,
+        tokens: [],
+      },
+    ],
+    journal: [{ _id: 'journal000000001', name: 'Goblin Lore' }],
+    messages: [],
+    combats: [],
+    users: [],
+    activeUsers: [],
+    settings: [],
+    folders: [],
+    macros: [],
+    playlists: [],
+    tables: [],
+    cards: [],
+    packs: [],
+  };
+}
+
+describe('WorldStore', () => {
+  it('looks documents up by id', () => {
+    const store = new WorldStore(makeWorld());
+    expect(store.get('actors', 'actor00000000002')?.name).toBe('Aria');
+    expect(store.get('journal', 'journal000000001')?.name).toBe('Goblin Lore');
+    expect(store.get('actors', 'missing000000000')).toBeUndefined();
+  });
+
+  it('finds by name substring and type, in world order', () => {
+    const store = new WorldStore(makeWorld());
+    expect(store.find('actors', { query: 'goblin' }).map((a) => a._id)).toEqual([
+      'actor00000000001',
+      'actor00000000003',
+    ]);
+    expect(store.find('actors', { type: 'NPC' })).toHaveLength(2);
+    expect(store.find('actors', { query: 'boss', type: 'npc' })).toHaveLength(1);
+    expect(store.find('actors')).toHaveLength(3);
+  });
+
+  it('finds by exact name, case-insensitively', () => {
+    const store = new WorldStore(makeWorld());
+    expect(store.findByName('actors', 'GOBLIN').map((a) => a._id)).toEqual(['actor00000000003']);
+  });
+
+  it('locates tokens through the token → scene index', () => {
+    const store = new WorldStore(makeWorld());
+    expect(store.findToken(TOKEN_ID)?.scene._id).toBe(SCENE_A);
+    expect(store.findToken(TOKEN_ID, SCENE_A)?.token.name).toBe('Goblin');
+    expect(store.findToken(TOKEN_ID, SCENE_B)).toBeNull();
+  });
+
+  it('re-indexes a renamed actor', () => {
+    const store = new WorldStore(makeWorld());
+    store.apply({
+      type: 'Actor',
+      action: 'update',
+      result: [{ _id: 'actor00000000002', name: 'Aria the Bold', type: 'npc' }],
+    });
+    expect(store.findByName('actors', 'aria')).toEqual([]);
+    expect(store.find('actors', { query: 'bold' })).toHaveLength(1);
+    expect(store.find('actors', { type: 'character' })).toEqual([]);
+    expect(store.find('actors', { type: 'npc' })).toHaveLength(3);
+  });
+
+  it('indexes created documents and forgets deleted ones', () => {
+    const world = makeWorld();
+    const store = new WorldStore(world);
+    store.apply({
+      type: 'Item',
+      action: 'create',
+      result: [{ _id: 'item000000000002', name: 'Shortbow', type: 'weapon', system: {} }],
+    });
+    store.apply({ type: 'Actor', action: 'delete', result: ['actor00000000001'] });
+
+    expect(store.find('items', { type: 'weapon' })).toHaveLength(2);
+    expect(store.get('actors', 'actor00000000001')).toBeUndefined();
+    expect(world.actors).toHaveLength(2);
+  });
+
+  it('tracks tokens as they are created and deleted', () => {
+    const store = new WorldStore(makeWorld());
+    store.apply({
+      type: 'Token',
+      action: 'create',
+      parentUuid: `Scene.${SCENE_B}`,
+      result: [{ _id: 'newtoken00000001', name: 'Wolf' }],
+    });
+    expect(store.findToken('newtoken00000001')?.scene._id).toBe(SCENE_B);
+
+    store.apply({
+      type: 'Token',
+      action: 'delete',
+      parentUuid: `Scene.${SCENE_A}`,
+      result: [TOKEN_ID],
+    });
+    expect(store.findToken(TOKEN_ID)).toBeNull();
+  });
+
+  it('drops the tokens of a deleted scene', () => {
+    const store = new WorldStore(makeWorld());
+    store.apply({ type: 'Scene', action: 'delete', result: [SCENE_A] });
+    expect(store.findToken(TOKEN_ID)).toBeNull();
+    expect(store.get('scenes', SCENE_A)).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import type { WorldData } from '../types.js';
+import {
+  applyDocumentChange,
+  mergeUpdate,
+  parseDocumentBroadcast,
+  resolveCollection,
+} from '../world-sync.js';
+
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const SCENE_ID = 'ssssssssssssssss';
+const TOKEN_ID = 'tttttttttttttttt';
+const COMBAT_ID = 'cccccccccccccccc';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+/** Builds a small world with one actor, one scene/token and one combat. */
+function makeWorld(): WorldData {
+  return {
+    userId: 'user',
+    release: {},
+    world: {},
+    system: {},
+    modules: [],
+    demoMode: false,
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Goblin',
+        type: 'npc',
+        system: { attributes: { hp: { value: 7, max: 7 } } },
+        items: [{ _id: ITEM_ID, name: 'Scimitar', type: 'weapon', system: {} }],
+        effects: [],
+      },
+    ],
+    scenes: [
+      {
+        _id: SCENE_ID,
+        name: 'Cave',
+        active: true,
+        navigation: true,
+        width: 1000,
+        height: 1000,
+        padding: 0,
+        darkness: 0,
+        globalLight: false,
+        tokens: [{ _id: TOKEN_ID, name: 'Goblin', actorId: ACTOR_ID, actorLink: false, x: 0 }],
+      },
+    ],
+    items: [],
+    journal: [],
+    messages: [],
+    combats: [
+      {
+        _id: COMBAT_ID,
+        active: true,
+        round: 1,
+        turn: 0,
+        started: true,
+        combatants: [
+          {
+            _id: 'dddddddddddddddd',
+            name: 'Goblin',
+            initiative: null,
+            hidden: false,
+            defeated: false,
+          },
+        ],
+      },
+    ],
+    users: [],
+    activeUsers: [],
+    settings: [],
+    folders: [],
+    macros: [],
+    playlists: [],
+    tables: [],
+    cards: [],
+    packs: [],
+  };
+}
+
+describe('parseDocumentBroadcast', () => {
+  it('reads the v12+ operation shape', () => {
+    const change = parseDocumentBroadcast({
+      request: {
+        type: 'Token',
+        action: 'update',
+        operation: { parentUuid: `Scene.${SCENE_ID}`, pack: null },
+      },
+      result: [{ _id: TOKEN_ID, x: 100 }],
+      userId: 'player',
+    });
+    expect(change).toEqual({
+      type: 'Token',
+      action: 'update',
+      parentUuid: `Scene.${SCENE_ID}`,
+      pack: null,
+      result: [{ _id: TOKEN_ID, x: 100 }],
+    });
+  });
+
+  it('reads the pre-v12 request shape', () => {
+    const change = parseDocumentBroadcast({
+      request: { type: 'Item', action: 'delete', parentUuid: `Actor.${ACTOR_ID}` },
+      result: [ITEM_ID],
+    });
+    expect(change?.parentUuid).toBe(`Actor.${ACTOR_ID}`);
+  });
+
+  it('rejects malformed payloads', () => {
+    expect(parseDocumentBroadcast(null)).toBeNull();
+    expect(parseDocumentBroadcast({ request: {}, result: [] })).toBeNull();
+    expect(parseDocumentBroadcast({ request: { type: 'Actor', action: 'update' } })).toBeNull();
+  });
+});
+
+describe('applyDocumentChange', () => {
+  it('applies a top-level actor update diff in place', () => {
+    const world = makeWorld();
+    const applied = applyDocumentChange(world, {
+      type: 'Actor',
+      action: 'update',
+      result: [{ _id: ACTOR_ID, system: { attributes: { hp: { value: 3 } } } }],
+    });
+    expect(applied).toBe(true);
+    expect(world.actors[0]?.system).toEqual({ attributes: { hp: { value: 3, max: 7 } } });
+  });
+
+  it('honours dot-notation keys in update diffs', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'Actor',
+      action: 'update',
+      result: [{ _id: ACTOR_ID, 'system.attributes.hp.value': 1 }],
+    });
+    expect(world.actors[0]?.system).toEqual({ attributes: { hp: { value: 1, max: 7 } } });
+  });
+
+  it('creates and deletes top-level documents', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'ChatMessage',
+      action: 'create',
+      result: [{ _id: 'mmmmmmmmmmmmmmmm', content: 'hello', type: 0, user: 'u', timestamp: 1 }],
+    });
+    expect(world.messages).toHaveLength(1);
+
+    applyDocumentChange(world, { type: 'Combat', action: 'delete', result: [COMBAT_ID] });
+    expect(world.combats).toHaveLength(0);
+  });
+
+  it('upserts on create so a repeated change is idempotent', () => {
+    const world = makeWorld();
+    const change = {
+      type: 'Item',
+      action: 'create',
+      result: [{ _id: 'jjjjjjjjjjjjjjjj', name: 'Potion', type: 'consumable', system: {} }],
+    };
+    applyDocumentChange(world, change);
+    applyDocumentChange(world, change);
+    expect(world.items).toHaveLength(1);
+  });
+
+  it('moves an embedded token on its scene', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'Token',
+      action: 'update',
+      parentUuid: `Scene.${SCENE_ID}`,
+      result: [{ _id: TOKEN_ID, x: 250 }],
+    });
+    expect(world.scenes[0]?.tokens?.[0]?.x).toBe(250);
+  });
+
+  it('updates combatant initiative inside the combat', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'Combatant',
+      action: 'update',
+      parentUuid: `Combat.${COMBAT_ID}`,
+      result: [{ _id: 'dddddddddddddddd', initiative: 17 }],
+    });
+    expect(world.combats[0]?.combatants[0]?.initiative).toBe(17);
+  });
+
+  it('deletes an embedded item from an actor', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'Item',
+      action: 'delete',
+      parentUuid: `Actor.${ACTOR_ID}`,
+      result: [ITEM_ID],
+    });
+    expect(world.actors[0]?.items).toEqual([]);
+  });
+
+  it('creates an ActiveEffect in an unlinked token delta', () => {
+    const world = makeWorld();
+    applyDocumentChange(world, {
+      type: 'ActiveEffect',
+      action: 'create',
+      parentUuid: `Scene.${SCENE_ID}.Token.${TOKEN_ID}.Actor.${ACTOR_ID}`,
+      result: [{ _id: 'eeeeeeeeeeeeeeee', name: 'Prone', statuses: ['prone'] }],
+    });
+    const token = world.scenes[0]?.tokens?.[0] as { delta?: { effects?: unknown[] } };
+    expect(token.delta?.effects).toEqual([
+      { _id: 'eeeeeeeeeeeeeeee', name: 'Prone', statuses: ['prone'] },
+    ]);
+  });
+
+  it('ignores compendium changes and uncached parents', () => {
+    const world = makeWorld();
+    expect(
+      applyDocumentChange(world, {
+        type: 'Item',
+        action: 'create',
+        pack: 'dnd5e.items',
+        result: [{ _id: 'x' }],
+      }),
+    ).toBe(false);
+    expect(
+      applyDocumentChange(world, {
+        type: 'Item',
+        action: 'create',
+        parentUuid: 'Actor.zzzzzzzzzzzzzzzz',
+        result: [{ _id: 'x' }],
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('resolveCollection', () => {
+  it('returns null for unknown document types', () => {
+    expect(resolveCollection(makeWorld(), 'Unknown')).toBeNull();
+  });
+});
+
+describe('mergeUpdate', () => {
+  it('removes keys marked with the -= prefix', () => {
+    const doc: Record<string, unknown> = { flags: { core: { a: 1, b: 2 } } };
+    mergeUpdate(doc, { 'flags.core.-=a': null });
+    expect(doc).toEqual({ flags: { core: { b: 2 } } });
+  });
+
+  it('replaces arrays rather than merging them', () => {
+    const doc: Record<string, unknown> = { statuses: ['prone', 'blinded'] };
+    mergeUpdate(doc, { statuses: ['stunned'] });
+    expect(doc.statuses).toEqual(['stunned']);
+  });
+});
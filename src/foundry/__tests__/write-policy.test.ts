@@ -0,0 +1,238 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import type { WorldData } from '../types.js';
+import type { WriteContext } from '../write-context.js';
+import { flattenPaths, type PolicyRequest, WritePolicy } from '../write-policy.js';
+import { WritePreview } from '../write-preview.js';
+
+const PC_ID = 'pppppppppppppppp';
+const NPC_ID = 'nnnnnnnnnnnnnnnn';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+const pc = {
+  _id: PC_ID,
+  name: 'Aria',
+  type: 'character',
+  system: { attributes: { hp: { value: 30 } } },
+};
+const npc = {
+  _id: NPC_ID,
+  name: 'Goblin',
+  type: 'npc',
+  system: { attributes: { hp: { value: 60 } } },
+};
+const world = { actors: [pc, npc] } as unknown as WorldData;
+
+function request(overrides: Partial<PolicyRequest>): PolicyRequest {
+  return {
+    type: 'Actor',
+    action: 'update',
+    operation: {},
+    before: [],
+    world,
+    context: undefined,
+    ...overrides,
+  };
+}
+
+const hpUpdate = (actor: typeof pc, value: number, context?: WriteContext) =>
+  request({
+    operation: { updates: [{ _id: actor._id, 'system.attributes.hp.value': value }] },
+    before: [actor],
+    context,
+  });
+
+describe('WritePolicy rules', () => {
+  const policy = new WritePolicy({
+    rules: [
+      { effect: 'deny', subtypes: ['character'], reason: 'PC sheets belong to the players' },
+      { effect: 'deny', documents: ['Actor'], actions: ['delete'] },
+      { effect: 'confirm', actions: ['delete'] },
+    ],
+  });
+
+  it('denies writes to PCs and to documents embedded in them', () => {
+    expect(() => policy.check(hpUpdate(pc, 10))).toThrow(
+      'Write policy denies update Actor "Aria": PC sheets belong to the players',
+    );
+    expect(() =>
+      policy.check(
+        request({
+          type: 'Item',
+          action: 'create',
+          operation: { parentUuid: `Actor.${PC_ID}`, data: [{ name: 'Dagger', type: 'weapon' }] },
+        }),
+      ),
+    ).toThrow(McpError);
+    expect(() => policy.check(hpUpdate(npc, 10))).not.toThrow();
+  });
+
+  it("checks an unlinked token's delta against the rules of its actor", () => {
+    const npcRules = new WritePolicy({
+      rules: [{ effect: 'deny', documents: ['Actor'], subtypes: ['npc'] }],
+    });
+    const token = { _id: 'tttttttttttttttt', name: 'Goblin Scout', actorId: NPC_ID };
+    const tokenUpdate = (diff: Record<string, unknown>) =>
+      request({
+        type: 'Token',
+        operation: { updates: [{ _id: token._id, ...diff }] },
+        before: [token],
+      });
+
+    expect(() => npcRules.check(tokenUpdate({ 'delta.system.attributes.hp.value': 5 }))).toThrow(
+      'Write policy denies update Actor "Goblin" on Token "Goblin Scout"',
+    );
+    expect(() => npcRules.check(tokenUpdate({ x: 100 }))).not.toThrow();
+  });
+
+  it('applies the first matching rule', () => {
+    expect(() =>
+      policy.check(request({ action: 'delete', operation: { ids: [NPC_ID] }, before: [npc] })),
+    ).toThrow(/denies delete Actor "Goblin"/);
+  });
+
+  it('requires confirmation unless confirmed or dry-run', () => {
+    const deleteItem = (context?: WriteContext) =>
+      request({
+        type: 'Item',
+        action: 'delete',
+        operation: { parentUuid: `Actor.${NPC_ID}`, ids: [ITEM_ID] },
+        context,
+      });
+
+    expect(() => policy.check(deleteItem())).toThrow(/requires confirmation .*confirm: true/);
+    expect(() => policy.check(deleteItem({ confirmed: true }))).not.toThrow();
+    expect(() => policy.check(deleteItem({ preview: new WritePreview() }))).not.toThrow();
+  });
+
+  it('takes the strictest decision across the documents of a request', () => {
+    const both = request({
+      operation: {
+        updates: [
+          { _id: NPC_ID, name: 'x' },
+          { _id: PC_ID, name: 'y' },
+        ],
+      },
+      before: [npc, pc],
+    });
+    expect(() => policy.check(both)).toThrow(/Actor "Aria"/);
+  });
+
+  it('matches tool-scoped rules only inside that tool', () => {
+    const scoped = new WritePolicy({
+      default: 'deny',
+      rules: [{ effect: 'allow', tools: ['next_turn'] }],
+    });
+    const turn = (context?: WriteContext) =>
+      request({ type: 'Combat', operation: { updates: [{ _id: ITEM_ID, turn: 1 }] }, context });
+
+    expect(() => scoped.check(turn({ tool: { name: 'next_turn', args: {} } }))).not.toThrow();
+    expect(() => scoped.check(turn())).toThrow(/denies update Combat/);
+  });
+});
+
+describe('WritePolicy path limits', () => {
+  const policy = new WritePolicy({
+    paths: [
+      { documents: ['Actor'], path: 'system.attributes.hp.value', maxDelta: 50, min: 0 },
+      { path: 'system.currency', deny: true },
+    ],
+  });
+
+  it('bounds the change against the cached value', () => {
+    expect(() => policy.check(hpUpdate(npc, 15))).not.toThrow();
+    expect(() => policy.check(hpUpdate(npc, 5))).toThrow(
+      'Write policy limits system.attributes.hp.value on Actor "Goblin": change of -55 exceeds ±50',
+    );
+    expect(() => policy.check(hpUpdate(npc, -1))).toThrow(/below the minimum of 0/);
+  });
+
+  it("applies Actor limits to an unlinked token's delta, against its synthetic actor", () => {
+    const token = { _id: 'tttttttttttttttt', name: 'Goblin Scout', actorId: NPC_ID };
+    const tokenHp = (value: number, delta?: Record<string, unknown>) =>
+      request({
+        type: 'Token',
+        operation: {
+          updates: [{ _id: token._id, 'delta.system.attributes.hp.value': value }],
+          parentUuid: 'Scene.ssssssssssssssss',
+        },
+        before: [{ ...token, ...(delta ? { delta } : {}) }],
+      });
+
+    expect(() => policy.check(tokenHp(15))).not.toThrow();
+    expect(() => policy.check(tokenHp(5))).toThrow(
+      'Write policy limits system.attributes.hp.value on Token "Goblin Scout": change of -55 exceeds ±50',
+    );
+    // The delta's own HP is the previous value once it has diverged.
+    expect(() =>
+      policy.check(tokenHp(5, { system: { attributes: { hp: { value: 7 } } } })),
+    ).not.toThrow();
+    expect(() => policy.check(tokenHp(-1))).toThrow(/below the minimum of 0/);
+  });
+
+  it('denies paths below a denied prefix, in nested or dot form', () => {
+    const nested = request({
+      operation: { updates: [{ _id: NPC_ID, system: { currency: { gp: 500 } } }] },
+      before: [npc],
+    });
+    expect(() => policy.check(nested)).toThrow(/system\.currency\.gp .*may not be changed/);
+  });
+});
+
+describe('WritePolicy rate limits', () => {
+  it('counts tool calls, not requests, within the window', () => {
+    let now = 0;
+    const policy = new WritePolicy(
+      { rateLimits: [{ tool: 'move_token', max: 2, windowSeconds: 10 }] },
+      () => now,
+    );
+    const call = (): WriteContext => ({ tool: { name: 'move_token', args: {} } });
+    const move = (context: WriteContext) =>
+      policy.check(
+        request({ type: 'Token', operation: { updates: [{ _id: ITEM_ID, x: 1 }] }, context }),
+      );
+
+    const first = call();
+    move(first);
+    move(first); // second write of the same call
+    move(call());
+    expect(() => move(call())).toThrow(/at most 2 call\(s\) per 10s; retry in 10s/);
+
+    now = 10_000;
+    expect(() => move(call())).not.toThrow();
+  });
+});
+
+describe('flattenPaths', () => {
+  it('normalises nested, dot-notation and deletion keys', () => {
+    expect(
+      flattenPaths({
+        _id: ITEM_ID,
+        system: { hp: { value: 1 } },
+        'system.ac.flat': 15,
+        'flags.-=core': null,
+      }),
+    ).toEqual([
+      ['system.hp.value', 1],
+      ['system.ac.flat', 15],
+      ['flags.core', undefined],
+    ]);
+  });
+});
+
+describe('WritePolicy.fromFile', () => {
+  it('rejects an invalid policy file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'policy-'));
+    try {
+      const path = join(dir, 'policy.json');
+      writeFileSync(path, JSON.stringify({ rules: [{ effect: 'maybe' }] }));
+      expect(() => WritePolicy.fromFile(path)).toThrow(/Invalid write policy .*rules\.0\.effect/);
+      expect(() => WritePolicy.fromFile(join(dir, 'missing.json'))).toThrow(/Cannot read/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
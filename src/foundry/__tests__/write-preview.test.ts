@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { diffLeaves, WritePreview } from '../write-preview.js';
+
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+describe('diffLeaves', () => {
+  it('lists changed, added and removed leaf paths', () => {
+    expect(
+      diffLeaves(
+        { name: 'Scimitar', system: { damage: '1d6', weight: 3, rare: true } },
+        { name: 'Scimitar', system: { damage: '1d8', weight: 3, magic: 1 } },
+      ),
+    ).toEqual([
+      'system.damage: "1d6" → "1d8"',
+      'system.rare: true → (removed)',
+      'system.magic: (unset) → 1',
+    ]);
+  });
+
+  it('truncates long values', () => {
+    const [line] = diffLeaves({ text: '' }, { text: 'x'.repeat(200) });
+    expect(line?.length).toBeLessThan(100);
+    expect(line?.endsWith('…')).toBe(true);
+  });
+});
+
+describe('WritePreview', () => {
+  it('diffs an update against the before-image and echoes the diff', () => {
+    const preview = new WritePreview();
+    const updates = [{ _id: ITEM_ID, system: { damage: '1d8' } }];
+    const result = preview.record({ type: 'Item', action: 'update', operation: { updates } }, [
+      { _id: ITEM_ID, name: 'Scimitar', system: { damage: '1d6' } },
+    ]);
+
+    expect(result).toBe(updates);
+    expect(preview.entries[0]?.documents).toEqual([
+      { id: ITEM_ID, name: 'Scimitar', lines: ['system.damage: "1d6" → "1d8"'] },
+    ]);
+  });
+
+  it('gives previewed creates placeholder ids so later steps can reference them', () => {
+    const preview = new WritePreview();
+    const [combat] = preview.record(
+      { type: 'Combat', action: 'create', operation: { data: [{ active: true }] } },
+      [],
+    ) as Array<{ _id: string }>;
+
+    expect(combat?._id).toBe('<new Combat 1>');
+    expect(preview.entries[0]?.documents[0]?.lines[0]).toMatch(/^\+ /);
+  });
+
+  it('marks deleted documents and tolerates uncached ones', () => {
+    const preview = new WritePreview();
+    preview.record({ type: 'Item', action: 'delete', operation: { ids: [ITEM_ID] } }, []);
+    expect(preview.entries[0]?.documents).toEqual([{ id: ITEM_ID, lines: ['− deleted'] }]);
+    expect(preview.isEmpty()).toBe(false);
+  });
+});
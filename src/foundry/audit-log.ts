@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Append-only audit trail of document writes
+ *
+ * The client's central `modifyDocument` helper records every write it sends —
+ * accepted or rejected — with the MCP tool call that caused it, the UUIDs of
+ * the documents involved, the FoundryVTT user the session is authenticated
+ * as, the server's acknowledgement and the round-trip time.
+ *
+ * Entries are kept in memory for `get_audit_log` and, when a path is
+ * configured (FOUNDRY_AUDIT_LOG), appended to a JSONL file — one JSON object
+ * per line — whose tail is reloaded on startup so the history survives
+ * restarts. Unlike the mutation journal, the audit log is never used to
+ * change game state.
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'node:fs';
+import { logger } from '../utils/logger.js';
+import type { MutationAction } from './mutation-journal.js';
+
+/** One audited `modifyDocument` request. */
+export interface AuditEntry {
+  /** When the request was sent (ISO 8601). */
+  timestamp: string;
+  /** MCP tool that made the write, or null outside a tool call. */
+  tool: string | null;
+  /** Arguments of that tool call. */
+  args: Record<string, unknown> | null;
+  type: string;
+  action: MutationAction;
+  /** UUIDs of the documents updated/deleted, or created (from the ack). */
+  uuids: string[];
+  /** FoundryVTT user id of the authenticated session. */
+  userId: string | null;
+  /** `denied` when the write policy refused the request before it was sent. */
+  outcome: 'ok' | 'error' | 'denied';
+  /** The server's acknowledged result (`ok`). */
+  result?: unknown[];
+  /** Rejection, transport error or policy violation message. */
+  error?: string;
+  /** Time from emit to acknowledgement, in ms. */
+  durationMs: number;
+  /** Mutation journal id of the change, for `undo_change`. */
+  changeId?: string;
+}
+
+/** Filters accepted by {@link AuditLog.query}. */
+export interface AuditFilter {
+  /** Document UUID; also matches documents embedded in it. */
+  documentUuid?: string | undefined;
+  tool?: string | undefined;
+  /** Inclusive lower bound (ISO 8601). */
+  since?: string | undefined;
+  /** Inclusive upper bound (ISO 8601). */
+  until?: string | undefined;
+  limit?: number | undefined;
+}
+
+/** Entries kept in memory (and reloaded from the file) for queries. */
+const AUDIT_CAPACITY = 1000;
+
+export class AuditLog {
+  private entries: AuditEntry[] = [];
+
+  /**
+   * @param filePath - JSONL file to append to; omit to keep the log in memory
+   */
+  constructor(
+    private readonly filePath?: string,
+    private readonly capacity = AUDIT_CAPACITY,
+  ) {
+    if (filePath) {
+      this.entries = readAuditFile(filePath).slice(-capacity);
+    }
+  }
+
+  /**
+   * Records an entry. A failure to write the file is logged, never thrown:
+   * the audited write has already happened by the time it is recorded.
+   */
+  record(entry: AuditEntry): void {
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+    } catch (error) {
+      logger.error('Failed to append to the audit log', { path: this.filePath, error });
+    }
+  }
+
+  /** Matching entries, newest first. */
+  query(filter: AuditFilter = {}): AuditEntry[] {
+    const { documentUuid, tool, since, until, limit = 20 } = filter;
+    const sinceMs = since ? Date.parse(since) : undefined;
+    const untilMs = until ? Date.parse(until) : undefined;
+    const matches: AuditEntry[] = [];
+
+    for (let i = this.entries.length - 1; i >= 0 && matches.length < limit; i--) {
+      const entry = this.entries[i] as AuditEntry;
+      const at = Date.parse(entry.timestamp);
+      if (sinceMs !== undefined && at < sinceMs) {
+        continue;
+      }
+      if (untilMs !== undefined && at > untilMs) {
+        continue;
+      }
+      if (tool && entry.tool !== tool) {
+        continue;
+      }
+      if (
+        documentUuid &&
+        !entry.uuids.some((u) => u === documentUuid || u.startsWith(`${documentUuid}.`))
+      ) {
+        continue;
+      }
+      matches.push(entry);
+    }
+    return matches;
+  }
+}
+
+/**
+ * UUIDs of the documents a request touched: `<Type>.<id>` for world
+ * documents, `<parentUuid>.<Type>.<id>` for embedded ones.
+ */
+export function documentUuids(type: string, parentUuid: string | null, ids: string[]): string[] {
+  const prefix = parentUuid ? `${parentUuid}.${type}` : type;
+  return ids.map((id) => `${prefix}.${id}`);
+}
+
+/**
+ * Reads an existing audit file, skipping lines that do not parse (a partial
+ * line left by a crash, for instance). A missing file is an empty log.
+ */
+function readAuditFile(filePath: string): AuditEntry[] {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+  const entries: AuditEntry[] = [];
+  try {
+    for (const line of readFileSync(filePath, 'utf8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        logger.warn('Skipping unreadable audit log line', { path: filePath });
+      }
+    }
+  } catch (error) {
+    logger.error('Failed to read the audit log', { path: filePath, error });
+  }
+  return entries;
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Grouping of heterogeneous document operations into batches
+ *
+ * FoundryVTT's `modifyDocument` takes arrays — `data` (create), `updates`
+ * (update) and `ids` (delete) — for one document type under one parent. A
+ * batch of single-document operations (damage five goblins, knock two of them
+ * prone, advance the turn) is therefore sent as the fewest requests possible:
+ * one per (type, action, parent), in the order each group first appears.
+ *
+ * Executing the groups, and reverting the committed ones when a later group
+ * fails, is the client's job ({@link FoundryClient.batchUpdate}); this module
+ * holds the transport-free parts.
+ */
+
+import type { DocumentRequest, MutationAction } from './mutation-journal.js';
+
+/** One single-document operation in a batch. */
+export interface BatchOperation {
+  /** Document name ("Actor", "Combat", "ActiveEffect", …). */
+  type: string;
+  action: MutationAction;
+  /** Parent UUID for embedded documents (e.g. `Actor.<id>`, `Scene.<id>`). */
+  parentUuid?: string;
+  /** Target document id (update / delete). */
+  id?: string;
+  /** Fields to change, nested or dot-notation (update). */
+  changes?: Record<string, unknown>;
+  /** Document data (create). */
+  data?: Record<string, unknown>;
+}
+
+/** Upper bound on operations in one batch. */
+export const MAX_BATCH_OPERATIONS = 100;
+
+const DOCUMENT_NAME_PATTERN = /^[A-Z][A-Za-z]+$/;
+const DOCUMENT_ID_PATTERN = /^[a-zA-Z0-9]{16}$/;
+const PARENT_UUID_PATTERN = /^[A-Z][A-Za-z]+\.[a-zA-Z0-9]{16}(\.[A-Z][A-Za-z]+\.[a-zA-Z0-9]{16})*$/;
+
+/**
+ * Checks the shape of a batch. Throws on the first malformed operation,
+ * naming its index, so nothing is sent for an invalid batch.
+ */
+export function validateBatch(operations: BatchOperation[]): void {
+  if (operations.length === 0) {
+    throw new Error('A batch needs at least one operation');
+  }
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    throw new Error(`A batch is limited to ${MAX_BATCH_OPERATIONS} operations`);
+  }
+  operations.forEach((op, i) => {
+    const where = `operations[${i}]`;
+    if (typeof op.type !== 'string' || !DOCUMENT_NAME_PATTERN.test(op.type)) {
+      throw new Error(`${where}: type must be a document name such as "Actor"`);
+    }
+    if (op.parentUuid !== undefined && !PARENT_UUID_PATTERN.test(op.parentUuid)) {
+      throw new Error(`${where}: invalid parentUuid format: ${op.parentUuid}`);
+    }
+    switch (op.action) {
+      case 'create':
+        if (!isRecord(op.data)) {
+          throw new Error(`${where}: create needs a data object`);
+        }
+        break;
+      case 'update':
+      case 'delete':
+        if (typeof op.id !== 'string' || !DOCUMENT_ID_PATTERN.test(op.id)) {
+          throw new Error(`${where}: invalid id format: ${op.id}`);
+        }
+        if (
+          op.action === 'update' &&
+          (!isRecord(op.changes) || Object.keys(op.changes).length === 0)
+        ) {
+          throw new Error(`${where}: update needs a non-empty changes object`);
+        }
+        break;
+      default:
+        throw new Error(`${where}: action must be "create", "update" or "delete"`);
+    }
+  });
+}
+
+/**
+ * Groups operations into one `modifyDocument` request per (type, action,
+ * parent), ordered by each group's first operation.
+ */
+export function groupBatchOperations(operations: BatchOperation[]): DocumentRequest[] {
+  const groups = new Map<string, DocumentRequest>();
+  for (const op of operations) {
+    const key = `${op.type}|${op.action}|${op.parentUuid ?? ''}`;
+    let request = groups.get(key);
+    if (!request) {
+      const parent = op.parentUuid ? { parentUuid: op.parentUuid } : {};
+      const operation: Record<string, unknown> =
+        op.action === 'create'
+          ? { data: [] }
+          : op.action === 'update'
+            ? { updates: [], diff: true, recursive: true }
+            : { ids: [] };
+      request = { type: op.type, action: op.action, operation: { ...operation, ...parent } };
+      groups.set(key, request);
+    }
+    const { operation } = request;
+    if (op.action === 'create') {
+      (operation.data as unknown[]).push(op.data);
+    } else if (op.action === 'update') {
+      (operation.updates as unknown[]).push({ ...op.changes, _id: op.id });
+    } else {
+      (operation.ids as unknown[]).push(op.id);
+    }
+  }
+  return [...groups.values()];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Querying the cached chat log
+ *
+ * Filters the world's `ChatMessage`s by speaker, author, time, visibility,
+ * rolls and text, pages through the matches newest first, and reads the
+ * rolls each message carries. `rolls` holds `Roll#toJSON()` output as JSON
+ * strings; the dice are found by walking its terms, including the rolls
+ * nested in parenthetical, pool and function terms.
+ */
+
+import type { WorldMessage, WorldUser } from './types.js';
+
+/** Who can see a message: everyone, its whisper recipients, or those but not its author. */
+export type ChatVisibility = 'public' | 'whisper' | 'blind';
+
+export const CHAT_VISIBILITIES: readonly ChatVisibility[] = ['public', 'whisper', 'blind'];
+
+/** Most messages one page may hold. */
+export const MAX_CHAT_PAGE = 100;
+
+export interface ChatMessageQuery {
+  /** Speaker actor id. */
+  actorId?: string;
+  /** Author user id or name. */
+  user?: string;
+  /** Earliest timestamp (inclusive), ms since the epoch. */
+  since?: number;
+  /** Latest timestamp (inclusive), ms since the epoch. */
+  until?: number;
+  visibility?: ChatVisibility;
+  /** Only messages that carry rolls. */
+  rollsOnly?: boolean;
+  /** Case-insensitive text in the content, flavor, speaker or roll formulas. */
+  search?: string;
+  /** Matches to skip, counting back from the newest. */
+  offset?: number;
+  limit?: number;
+}
+
+export interface ChatDieResult {
+  /** e.g. `d20`, `dF`. */
+  die: string;
+  /** Dice rolled, and the term's modifiers as written (`kh`, `r<3`, …). */
+  number?: number;
+  modifiers?: string[];
+  results: number[];
+  /** Results dropped by keep/drop or reroll modifiers. */
+  discarded: number[];
+  flavor?: string;
+}
+
+export interface ChatRoll {
+  formula: string;
+  total: number;
+  flavor?: string;
+  /** The DC or AC the roll was made against, when the system records it (`options.target`). */
+  target?: number;
+  dice: ChatDieResult[];
+}
+
+export interface ChatMessagePage {
+  /** The page's messages, oldest first. */
+  messages: WorldMessage[];
+  /** Messages matching the filters, on every page. */
+  total: number;
+  offset: number;
+  /** Offset of the next (older) page; absent on the last page. */
+  nextOffset?: number;
+}
+
+/** A message's visibility, from `whisper` and `blind`. */
+export function messageVisibility(message: WorldMessage): ChatVisibility {
+  if (message.blind) {
+    return 'blind';
+  }
+  return message.whisper?.length ? 'whisper' : 'public';
+}
+
+/** The author's user id: `author` since v12, `user` before. */
+export function messageAuthor(message: WorldMessage): string {
+  return message.author ?? message.user;
+}
+
+/** Message HTML as plain text. */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The rolls of a message. Rolls that are not valid JSON are skipped, as
+ * the browser would fail to render them too.
+ */
+export function parseMessageRolls(message: WorldMessage): ChatRoll[] {
+  return (message.rolls ?? []).flatMap((raw) => {
+    let data: unknown;
+    try {
+      data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    } catch {
+      return [];
+    }
+    if (!isRecord(data) || typeof data.formula !== 'string') {
+      return [];
+    }
+    const roll: ChatRoll = {
+      formula: data.formula,
+      total: typeof data.total === 'number' ? data.total : Number.NaN,
+      dice: diceOf(data.terms),
+    };
+    const options = isRecord(data.options) ? data.options : {};
+    if (typeof options.flavor === 'string' && options.flavor) {
+      roll.flavor = options.flavor;
+    }
+    if (typeof options.target === 'number') {
+      roll.target = options.target;
+    }
+    return [roll];
+  });
+}
+
+/** e.g. `Stealth: 1d20 + 7 = 18 (d20: 11, ~~4~~)`, discarded dice struck through. */
+export function formatChatRoll(roll: ChatRoll): string {
+  const dice = roll.dice
+    .map((d) => {
+      const results = [...d.results.map(String), ...d.discarded.map((r) => `~~${r}~~`)];
+      return `${d.die}: ${results.join(', ')}`;
+    })
+    .join('; ');
+  return `${roll.flavor ? `${roll.flavor}: ` : ''}${roll.formula} = ${roll.total}${
+    dice ? ` (${dice})` : ''
+  }`;
+}
+
+/**
+ * Filters `messages` (oldest first, as the world stores them) and returns
+ * one page of the matches. Offsets count back from the newest message, so
+ * offset 0 is always the latest page.
+ *
+ * @throws Error when `user` names no user
+ */
+export function queryChatMessages(
+  messages: WorldMessage[],
+  users: WorldUser[],
+  query: ChatMessageQuery = {},
+): ChatMessagePage {
+  const userId = query.user ? resolveUserId(users, query.user) : undefined;
+  const search = query.search?.trim().toLowerCase();
+
+  const matches = messages.filter(
+    (m) =>
+      (!query.actorId || m.speaker?.actor === query.actorId) &&
+      (!userId || messageAuthor(m) === userId) &&
+      (query.since === undefined || m.timestamp >= query.since) &&
+      (query.until === undefined || m.timestamp <= query.until) &&
+      (!query.visibility || messageVisibility(m) === query.visibility) &&
+      (!query.rollsOnly || (m.rolls?.length ?? 0) > 0) &&
+      (!search || searchText(m).includes(search)),
+  );
+
+  const offset = Math.max(query.offset ?? 0, 0);
+  const limit = Math.min(Math.max(query.limit ?? 20, 1), MAX_CHAT_PAGE);
+  const end = Math.max(matches.length - offset, 0);
+  const page: ChatMessagePage = {
+    messages: matches.slice(Math.max(end - limit, 0), end),
+    total: matches.length,
+    offset,
+  };
+  if (end > limit) {
+    page.nextOffset = offset + limit;
+  }
+  return page;
+}
+
+/**
+ * A user's id from an id or a name (ignoring case).
+ *
+ * @throws Error when no user matches
+ */
+export function resolveUserId(users: WorldUser[], idOrName: string): string {
+  const user =
+    users.find((u) => u._id === idOrName) ??
+    users.find((u) => u.name.toLowerCase() === idOrName.toLowerCase());
+  if (!user) {
+    throw new Error(`User not found: ${idOrName}`);
+  }
+  return user._id;
+}
+
+function searchText(message: WorldMessage): string {
+  return [
+    stripHtml(message.content),
+    message.flavor ? stripHtml(message.flavor) : '',
+    message.speaker?.alias ?? '',
+    ...parseMessageRolls(message).map((r) => `${r.formula} ${r.flavor ?? ''}`),
+  ]
+    .join('\n')
+    .toLowerCase();
+}
+
+/** Dice terms of serialized roll terms, in order, descending into nested rolls. */
+function diceOf(terms: unknown): ChatDieResult[] {
+  if (!Array.isArray(terms)) {
+    return [];
+  }
+  return terms.flatMap((term): ChatDieResult[] => {
+    if (!isRecord(term)) {
+      return [];
+    }
+    if (
+      Array.isArray(term.results) &&
+      (typeof term.faces === 'number' || term.class === 'FateDie')
+    ) {
+      const results = term.results.filter(isRecord);
+      const die: ChatDieResult = {
+        die: term.class === 'FateDie' ? 'dF' : `d${term.faces}`,
+        results: results.filter((r) => r.active !== false).map((r) => Number(r.result)),
+        discarded: results.filter((r) => r.active === false).map((r) => Number(r.result)),
+      };
+      if (typeof term.number === 'number') {
+        die.number = term.number;
+      }
+      if (Array.isArray(term.modifiers)) {
+        die.modifiers = term.modifiers.filter((m): m is string => typeof m === 'string');
+      }
+      const flavor = isRecord(term.options) ? term.options.flavor : undefined;
+      if (typeof flavor === 'string' && flavor) {
+        die.flavor = flavor;
+      }
+      return [die];
+    }
+    const nested = [term.roll, ...(Array.isArray(term.rolls) ? term.rolls : [])];
+    return nested.flatMap((roll) => (isRecord(roll) ? diceOf(roll.terms) : []));
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
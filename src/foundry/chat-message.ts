@@ -0,0 +1,156 @@
+/**
+ * @fileoverview ChatMessage source data for posts made through the MCP server
+ *
+ * Builds the `data` of a `ChatMessage` create request the way the browser's
+ * `ChatMessage.create` would after `ChatMessage.getSpeaker` and
+ * `ChatMessage.applyRollMode`: the speaker resolved from an actor or token,
+ * whisper recipients resolved to user ids, and the roll mode folded into
+ * `whisper` / `blind`. Over the socket nothing applies those client-side
+ * defaults for us.
+ */
+
+import type { FoundryRollData } from '../dice/foundry-roll.js';
+import type { WorldData, WorldUser } from './types.js';
+
+/** FoundryVTT's roll visibility modes (`CONST.DICE_ROLL_MODES`). */
+export type ChatRollMode = 'publicroll' | 'gmroll' | 'blindroll' | 'selfroll';
+
+export const CHAT_ROLL_MODES: readonly ChatRollMode[] = [
+  'publicroll',
+  'gmroll',
+  'blindroll',
+  'selfroll',
+];
+
+/** `CONST.USER_ROLES.ASSISTANT` — the lowest role for which `User#isGM` holds. */
+export const ASSISTANT_ROLE = 3;
+
+/** `CONFIG.sounds.dice`, played for messages that carry rolls. */
+const DICE_SOUND = 'sounds/dice.wav';
+
+export interface ChatMessageInput {
+  /** Message HTML; defaults to the first roll's total for roll messages. */
+  content?: string;
+  flavor?: string;
+  /** Speak as an actor, a token (needs its scene) or a bare alias. */
+  speaker?: { actorId?: string; sceneId?: string; tokenId?: string; alias?: string };
+  /** User ids or names; merged with the recipients the roll mode implies. */
+  whisper?: string[];
+  rollMode?: ChatRollMode;
+  rolls?: FoundryRollData[];
+  /** Document flags, e.g. `{ core: { RollTable: id } }` on table draws. */
+  flags?: Record<string, unknown>;
+}
+
+/**
+ * Builds `ChatMessage` source data for `input`.
+ *
+ * @param world - cached world, for speakers and whisper recipients
+ * @throws Error when the speaker or a recipient cannot be found, or the
+ *   message has neither content nor rolls
+ */
+export function buildChatMessageData(
+  world: WorldData,
+  input: ChatMessageInput,
+): Record<string, unknown> {
+  const rolls = input.rolls ?? [];
+  const content = input.content ?? (rolls[0] ? String(rolls[0].total) : '');
+  if (!content.trim()) {
+    throw new Error('A chat message needs content or a roll');
+  }
+  if (input.rollMode && !CHAT_ROLL_MODES.includes(input.rollMode)) {
+    throw new Error(
+      `Invalid rollMode: ${input.rollMode}. Expected one of ${CHAT_ROLL_MODES.join(', ')}`,
+    );
+  }
+
+  const whisper = new Set((input.whisper ?? []).map((r) => resolveUser(world.users, r)._id));
+  let blind = false;
+  switch (input.rollMode) {
+    case 'blindroll':
+      blind = true;
+      addGamemasters(world.users, whisper);
+      break;
+    case 'gmroll':
+      addGamemasters(world.users, whisper);
+      break;
+    case 'selfroll':
+      whisper.clear();
+      whisper.add(world.userId);
+      break;
+  }
+
+  const data: Record<string, unknown> = {
+    author: world.userId,
+    speaker: resolveSpeaker(world, input.speaker ?? {}),
+    content,
+    whisper: [...whisper],
+    blind,
+  };
+  if (input.flavor) {
+    data.flavor = input.flavor;
+  }
+  if (input.flags) {
+    data.flags = input.flags;
+  }
+  if (rolls.length > 0) {
+    data.rolls = rolls.map((roll) => JSON.stringify(roll));
+    data.sound = DICE_SOUND;
+  }
+  return data;
+}
+
+function resolveSpeaker(
+  world: WorldData,
+  speaker: NonNullable<ChatMessageInput['speaker']>,
+): Record<string, string | null> {
+  const { actorId, sceneId, tokenId, alias } = speaker;
+  if (tokenId) {
+    if (!sceneId) {
+      throw new Error('speaker.sceneId is required with speaker.tokenId');
+    }
+    const scene = world.scenes.find((s) => s._id === sceneId);
+    if (!scene) {
+      throw new Error(`Scene not found: ${sceneId}`);
+    }
+    const token = scene.tokens?.find((t) => t._id === tokenId);
+    if (!token) {
+      throw new Error(`Token ${tokenId} not found on scene ${scene.name}`);
+    }
+    return {
+      scene: sceneId,
+      actor: typeof token.actorId === 'string' ? token.actorId : (actorId ?? null),
+      token: tokenId,
+      alias: alias ?? (typeof token.name === 'string' ? token.name : null),
+    };
+  }
+  if (actorId) {
+    const actor = world.actors.find((a) => a._id === actorId);
+    if (!actor) {
+      throw new Error(`Actor not found: ${actorId}`);
+    }
+    return { scene: null, actor: actorId, token: null, alias: alias ?? actor.name };
+  }
+  return alias ? { alias } : {};
+}
+
+/** Finds a user by id, or by name ignoring case. */
+function resolveUser(users: WorldUser[], idOrName: string): WorldUser {
+  const user =
+    users.find((u) => u._id === idOrName) ??
+    users.find((u) => u.name.toLowerCase() === idOrName.toLowerCase());
+  if (!user) {
+    throw new Error(
+      `Unknown whisper recipient: ${idOrName}. Known users: ${users.map((u) => u.name).join(', ')}`,
+    );
+  }
+  return user;
+}
+
+function addGamemasters(users: WorldUser[], whisper: Set<string>): void {
+  for (const user of users) {
+    if (user.role >= ASSISTANT_ROLE) {
+      whisper.add(user._id);
+    }
+  }
+}
@@ -2,14 +2,61 @@
  * FoundryVTT client for API communication via Socket.IO
  *
  * Connects to FoundryVTT using the proven 4-step authentication flow,
- * caches worldData in memory, and serves all queries from the snapshot.
+ * caches worldData in memory, and serves all queries from an indexed view of
+ * the snapshot. The snapshot is kept live by applying `modifyDocument`
+ * broadcasts.
  */
 
 import axios, { type AxiosInstance, type AxiosRequestConfig, type AxiosResponse } from 'axios';
 import { io, type Socket } from 'socket.io-client';
 import { z } from 'zod';
+import type { HitPoints } from '../combat/hit-points.js';
+import { toFoundryRoll } from '../dice/foundry-roll.js';
+import { parseFormula } from '../dice/parser.js';
+import { type DiceCommitment, type DiceReveal, DiceSession } from '../dice/random.js';
+import {
+  rollDataReferences,
+  type SubstitutedFormula,
+  substituteRollData,
+} from '../dice/roll-data.js';
+import { evaluateRoll } from '../dice/roller.js';
 import { logger } from '../utils/logger.js';
+import { type AuditEntry, type AuditFilter, AuditLog, documentUuids } from './audit-log.js';
 import { authenticateFoundry } from './auth.js';
+import { type BatchOperation, groupBatchOperations, validateBatch } from './batch.js';
+import { type ChatMessagePage, type ChatMessageQuery, queryChatMessages } from './chat-log.js';
+import { buildChatMessageData, type ChatMessageInput } from './chat-message.js';
+import {
+  COMPENDIUM_INDEX_FIELDS,
+  type CompendiumPack,
+  filterPackIndex,
+  parseCompendiumPacks,
+  prepareCompendiumImport,
+  selectPacks,
+} from './compendium.js';
+import {
+  captureBeforeImages,
+  idsOf,
+  inverseRequest,
+  type JournalEntry,
+  type MutationAction,
+  MutationJournal,
+  targetIds,
+} from './mutation-journal.js';
+import { type ConnectionStatus, ReconnectSupervisor } from './reconnect.js';
+import {
+  type RollStatistics,
+  type RollStatisticsQuery,
+  rollStatistics,
+} from './roll-statistics.js';
+import { drawFromTable, drawnResultIds, type TableDraw } from './roll-table.js';
+import {
+  renderSessionLog,
+  type SessionEvent,
+  type SessionLog,
+  type SessionLogOptions,
+  sessionEventsOf,
+} from './session-log.js';
 import type {
   ActorAttributeUpdateResult,
   ActorItemCreateSource,
@@ -28,20 +75,27 @@ import type {
   WorldItem,
   WorldJournal,
   WorldMessage,
+  WorldRollTable,
   WorldScene,
   WorldUser,
 } from './types.js';
+import {
+  isTokenActorUuid,
+  parseUuid,
+  resolveEmbedded,
+  resolveWorldUuid,
+  type UuidPart,
+} from './uuid.js';
+import { WorldStore } from './world-store.js';
+import { type DocumentChange, mergeUpdate, parseDocumentBroadcast } from './world-sync.js';
+import { currentWriteContext, runWithWriteContext } from './write-context.js';
+import type { WritePolicy } from './write-policy.js';
 
 /** FoundryVTT document IDs are 16-character alphanumeric strings. */
 const FOUNDRY_ID_PATTERN = /^[a-zA-Z0-9]{16}$/;
 
-/**
- * Accepts the two parent-UUID forms a token's actor can take:
- *  - `Actor.<id>` — a world-linked actor (`actorLink: true`)
- *  - `Scene.<sid>.Token.<tid>.Actor.<aid>` — an unlinked token's synthetic actor
- */
-const TOKEN_ACTOR_UUID_PATTERN =
-  /^(Actor\.[a-zA-Z0-9]{16}|Scene\.[a-zA-Z0-9]{16}\.Token\.[a-zA-Z0-9]{16}\.Actor\.[a-zA-Z0-9]{16})$/;
+/** Most scene and round events kept for session logs. */
+const MAX_SESSION_EVENTS = 1000;
 
 /**
  * Minimal Zod schema for the WorldData Socket.IO payload.
@@ -75,6 +129,21 @@ export interface FoundryClientConfig {
   socketPath?: string;
   /** Opt-in gate for game-state mutations (FOUNDRY_WRITE_ENABLED). Default false. */
   writeEnabled?: boolean;
+  /**
+   * `preview` turns every write into a dry run (FOUNDRY_WRITE_MODE). Default
+   * `live`.
+   */
+  writeMode?: 'live' | 'preview';
+  /** Write policy checked before every write (FOUNDRY_WRITE_POLICY). Default: none. */
+  writePolicy?: WritePolicy;
+  /** JSONL file the audit log is appended to (FOUNDRY_AUDIT_LOG). Default: memory only. */
+  auditLogPath?: string;
+  /** Consecutive failed reconnects before giving up; 0 retries forever. Default 0. */
+  reconnectMaxAttempts?: number;
+  /** Upper bound on the reconnect backoff delay in ms. Default 60000. */
+  reconnectMaxDelay?: number;
+  /** Fixed seed for local dice rolls (DICE_SEED). Default: a random seed. */
+  diceSeed?: string;
 }
 
 /** Minimal shape of FoundryVTT's `modifyDocument` Socket.IO acknowledgement. */
@@ -120,12 +189,45 @@ export interface CompendiumSearchParams {
  */
 export type AttributePatch = Record<string, number | string | boolean>;
 
+/**
+ * Whose hit points to read or write: a world actor, or an unlinked token's
+ * synthetic actor, whose changes live in the token's `delta`.
+ */
+export interface HitPointTarget {
+  actorId: string;
+  /** Scene and token of an unlinked token; omit both for the world actor. */
+  sceneId?: string;
+  tokenId?: string;
+}
+
+/** A document resolved by {@link FoundryClient.getDocumentByUuid}. */
+export interface ResolvedDocument {
+  uuid: string;
+  /** Document name of the addressed document ("Actor", "Item", …). */
+  type: string;
+  /** Compendium pack the document was read from, or null for the world. */
+  pack: string | null;
+  document: Record<string, unknown>;
+}
+
 export class FoundryClient {
   private http: AxiosInstance;
   private socket: Socket | null = null;
   private config: FoundryClientConfig;
   private _isConnected = false;
   private worldData: WorldData | null = null;
+  private store: WorldStore | null = null;
+  /** Per-pack compendium indices, loaded on first search (Socket.IO mode). */
+  private compendiumIndices = new Map<string, Promise<Array<Record<string, unknown>>>>();
+  /** Before-images of this server's writes, for `undo_change`. */
+  private journal = new MutationJournal();
+  /** Who/what/when of every write sent, for `get_audit_log`. */
+  private auditLog: AuditLog;
+  /** Committed seed stream and log of local dice rolls. */
+  private diceSession: DiceSession;
+  /** Scene changes and combat rounds seen while connected, for session logs. */
+  private sessionEvents: SessionEvent[] = [];
+  private supervisor: ReconnectSupervisor;
 
   constructor(config: FoundryClientConfig) {
     if (!config.baseUrl || config.baseUrl.trim() === '') {
@@ -143,9 +245,20 @@ export class FoundryClient {
       retryAttempts: 3,
       retryDelay: 1000,
       socketPath: '/socket.io/',
+      reconnectMaxAttempts: 0,
+      reconnectMaxDelay: 60000,
       ...config,
     };
 
+    this.auditLog = new AuditLog(this.config.auditLogPath);
+    this.diceSession = new DiceSession(this.config.diceSeed);
+
+    this.supervisor = new ReconnectSupervisor(() => this.establishSession(), {
+      baseDelay: this.config.retryDelay ?? 1000,
+      maxDelay: this.config.reconnectMaxDelay ?? 60000,
+      maxAttempts: this.config.reconnectMaxAttempts ?? 0,
+    });
+
     this.http = axios.create({
       baseURL: this.config.baseUrl,
       timeout: this.config.timeout || 30000,
@@ -173,7 +286,8 @@ export class FoundryClient {
   /**
    * Connects to FoundryVTT.
    * REST API mode: tests /api/status endpoint.
-   * Socket.IO mode: authenticates and loads full worldData.
+   * Socket.IO mode: authenticates and loads full worldData. If the socket is
+   * later lost, the reconnect supervisor re-authenticates and reloads the world.
    */
   async connect(): Promise<void> {
     if (this.config.apiKey) {
@@ -196,6 +310,29 @@ export class FoundryClient {
       );
     }
 
+    this.supervisor.transition('connecting');
+    try {
+      await this.establishSession();
+    } catch (error) {
+      this.supervisor.transition('offline', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+    this.supervisor.transition('connected');
+  }
+
+  /**
+   * Runs one full Socket.IO connect: the 4-step authentication, the socket
+   * join, and the world load. Used for the initial connect and by the
+   * reconnect supervisor, so any previous socket is torn down first.
+   */
+  private async establishSession(): Promise<void> {
+    const user = this.config.userId || this.config.username;
+    if (!user || !this.config.password) {
+      throw new Error('Socket.IO mode requires username/userId and password.');
+    }
+
+    this.releaseSocket();
+    this.compendiumIndices.clear();
     const { session } = await authenticateFoundry(this.config.baseUrl, user, this.config.password);
 
     // Connect authenticated socket and load world data
@@ -208,14 +345,51 @@ export class FoundryClient {
     });
   }
 
+  /**
+   * Detaches listeners from the current socket (if any) and closes it.
+   */
+  private releaseSocket(): void {
+    if (!this.socket) {
+      return;
+    }
+    this.socket.off('modifyDocument', this.onDocumentBroadcast);
+    this.socket.off('disconnect', this.onSocketDisconnect);
+    this.socket.disconnect();
+    this.socket = null;
+  }
+
+  /**
+   * Hands an unexpected socket loss to the reconnect supervisor. The cached
+   * worldData is kept so reads keep working while the session is rebuilt.
+   * A client-initiated disconnect is not a loss and is ignored.
+   */
+  private readonly onSocketDisconnect = (reason: string): void => {
+    if (reason === 'io client disconnect') {
+      return;
+    }
+    this._isConnected = false;
+    logger.warn(`FoundryVTT socket disconnected: ${reason}`);
+    this.supervisor.connectionLost(reason);
+  };
+
+  /**
+   * Returns the connection state machine snapshot (Socket.IO mode).
+   */
+  getConnectionStatus(): ConnectionStatus {
+    return this.supervisor.getStatus();
+  }
+
   /**
    * Connects Socket.IO with an authenticated session and loads worldData.
    */
   private connectAndLoadWorld(session: string): Promise<WorldData> {
     return new Promise((resolve, reject) => {
+      // Socket.IO's own reconnection would replay the stale session; the
+      // reconnect supervisor re-authenticates instead.
       this.socket = io(this.config.baseUrl, {
         transports: ['websocket'],
         query: { session },
+        reconnection: false,
       });
 
       const cleanup = () => {
@@ -246,6 +420,8 @@ export class FoundryClient {
               issues: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`),
             });
           }
+          this.socket?.on('modifyDocument', this.onDocumentBroadcast);
+          this.socket?.on('disconnect', this.onSocketDisconnect);
           resolve(worldData);
         });
       };
@@ -261,12 +437,50 @@ export class FoundryClient {
     });
   }
 
-  async disconnect(): Promise<void> {
-    if (this.socket) {
-      this.socket.disconnect();
-      this.socket = null;
+  /**
+   * Applies a `modifyDocument` broadcast from another client to the cached
+   * worldData, keeping reads current between explicit refreshes.
+   */
+  private readonly onDocumentBroadcast = (payload: unknown): void => {
+    const change = parseDocumentBroadcast(payload);
+    if (!change) {
+      logger.debug('Ignoring unrecognised modifyDocument broadcast');
+      return;
+    }
+    this.applyChange(change);
+  };
+
+  /**
+   * Applies a committed document change to the cached worldData, if loaded.
+   */
+  private applyChange(change: DocumentChange): void {
+    if (change.pack) {
+      // Pack contents are not cached, only their indices; reload on next use.
+      this.compendiumIndices.delete(change.pack);
+      return;
+    }
+    if (!this.world) {
+      return;
     }
+    const events = sessionEventsOf(change, this.world.data, Date.now());
+    if (events.length > 0) {
+      this.sessionEvents = [...this.sessionEvents, ...events].slice(-MAX_SESSION_EVENTS);
+    }
+    const applied = this.world.apply(change);
+    logger.debug('Applied document change to world cache', {
+      type: change.type,
+      action: change.action,
+      parentUuid: change.parentUuid,
+      count: change.result.length,
+      applied,
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.supervisor.stop();
+    this.releaseSocket();
     this.worldData = null;
+    this.compendiumIndices.clear();
     this._isConnected = false;
     logger.info('FoundryVTT client disconnected');
   }
@@ -282,6 +496,19 @@ export class FoundryClient {
     return this.worldData !== null;
   }
 
+  /**
+   * Indexed view over the cached worldData, rebuilt whenever the snapshot is
+   * replaced (connect, refresh) and maintained incrementally in between.
+   */
+  private get world(): WorldStore | null {
+    if (!this.worldData) {
+      this.store = null;
+    } else if (this.store?.data !== this.worldData) {
+      this.store = new WorldStore(this.worldData);
+    }
+    return this.store;
+  }
+
   // ==========================================================================
   // World data accessors
   // ==========================================================================
@@ -350,20 +577,11 @@ export class FoundryClient {
       });
     }
 
-    if (!this.worldData) {
+    if (!this.world) {
       return { actors: [], total: 0, page: 1, limit: params.limit || 10 };
     }
 
-    let results = this.worldData.actors;
-
-    if (params.query) {
-      const q = params.query.toLowerCase();
-      results = results.filter((a) => a.name.toLowerCase().includes(q));
-    }
-    if (params.type) {
-      const t = params.type.toLowerCase();
-      results = results.filter((a) => a.type.toLowerCase() === t);
-    }
+    const results = this.world.find('actors', { query: params.query, type: params.type });
 
     const total = results.length;
     const limit = params.limit || 10;
@@ -383,11 +601,11 @@ export class FoundryClient {
       });
     }
 
-    if (!this.worldData) {
+    if (!this.world) {
       throw new Error('Not connected — no world data available');
     }
 
-    const actor = this.worldData.actors.find((a) => a._id === actorId);
+    const actor = this.world.get('actors', actorId);
     if (!actor) {
       throw new Error(`Actor not found: ${actorId}`);
     }
@@ -399,7 +617,7 @@ export class FoundryClient {
    * Returns the raw WorldActor with the full system data (game-system specific).
    */
   getRawActor(actorId: string): WorldActor | undefined {
-    return this.worldData?.actors.find((a) => a._id === actorId);
+    return this.world?.get('actors', actorId);
   }
 
   /**
@@ -475,20 +693,11 @@ export class FoundryClient {
       });
     }
 
-    if (!this.worldData) {
+    if (!this.world) {
       return { items: [], total: 0, page: 1, limit: params.limit || 10 };
     }
 
-    let results = this.worldData.items;
-
-    if (params.query) {
-      const q = params.query.toLowerCase();
-      results = results.filter((i) => i.name.toLowerCase().includes(q));
-    }
-    if (params.type) {
-      const t = params.type.toLowerCase();
-      results = results.filter((i) => i.type.toLowerCase() === t);
-    }
+    const results = this.world.find('items', { query: params.query, type: params.type });
 
     const total = results.length;
     const limit = params.limit || 10;
@@ -529,12 +738,15 @@ export class FoundryClient {
   /**
    * Searches FoundryVTT compendium packs by name and metadata.
    *
-   * Compendium data is not present in the cached worldData snapshot, so this
-   * read requires the REST API module (FOUNDRY_API_KEY). When the key is
-   * absent it returns a graceful empty result with `restAvailable: false`
-   * rather than throwing, mirroring the no-worldData behaviour of
-   * {@link searchItems}/{@link searchActors}; the handler surfaces a note
-   * explaining why no results were returned.
+   * Compendium contents are not part of the cached worldData snapshot. With
+   * the REST API module (FOUNDRY_API_KEY) the search is delegated to it;
+   * otherwise each pack listed in `worldData.packs` is indexed over the
+   * authenticated socket (`getDocuments` with `index: true`) and filtered
+   * locally. Indices are cached per pack and dropped when a broadcast touches
+   * the pack; a pack whose index fails to load is logged and left out of the
+   * search. With neither backend it returns a graceful empty result with
+   * `restAvailable: false` rather than throwing, mirroring the no-worldData
+   * behaviour of {@link searchItems}/{@link searchActors}.
    */
   async searchCompendium(params: CompendiumSearchParams): Promise<CompendiumSearchResult> {
     const limit = params.limit ?? 20;
@@ -563,24 +775,121 @@ export class FoundryClient {
         };
       });
     }
-    return { results: [], total: 0, page: 1, limit, restAvailable: false, nextCursor: null };
+    if (!this.worldData || !this.socket?.connected) {
+      return { results: [], total: 0, page: 1, limit, restAvailable: false, nextCursor: null };
+    }
+
+    const packs = selectPacks(this.getCompendiumPacks(), params);
+    const indices = await Promise.allSettled(packs.map((pack) => this.loadPackIndex(pack)));
+    const failed = packs.filter((_pack, i) => indices[i]?.status === 'rejected');
+    if (failed.length > 0) {
+      logger.warn('Skipping compendium packs whose index failed to load', {
+        packs: failed.map((pack) => pack.id),
+        errors: indices.flatMap((r) => (r.status === 'rejected' ? [String(r.reason)] : [])),
+      });
+    }
+    const matches = packs.flatMap((pack, i) => {
+      const index = indices[i];
+      return index?.status === 'fulfilled' ? filterPackIndex(pack, index.value, params) : [];
+    });
+    const results = matches.slice(offset, offset + limit);
+    const nextOffset = offset + results.length;
+    return {
+      results,
+      total: matches.length,
+      page: Math.floor(offset / limit) + 1,
+      limit,
+      restAvailable: true,
+      nextCursor: nextOffset < matches.length ? encodeCursor(nextOffset) : null,
+    };
+  }
+
+  /**
+   * Compendium packs available in the connected world (Socket.IO mode).
+   */
+  getCompendiumPacks(): CompendiumPack[] {
+    return parseCompendiumPacks(this.worldData?.packs);
+  }
+
+  /**
+   * Fetches one full document from a compendium pack over Socket.IO.
+   *
+   * @param packId - pack collection id (e.g. `dnd5e.spells`)
+   * @param documentId - id of the document within the pack
+   * @returns the pack metadata and the raw document source
+   */
+  async getCompendiumDocument(
+    packId: string,
+    documentId: string,
+  ): Promise<{ pack: CompendiumPack; document: Record<string, unknown> }> {
+    if (!FOUNDRY_ID_PATTERN.test(documentId)) {
+      throw new Error(`Invalid compendium document id format: ${documentId}`);
+    }
+    const pack = this.getCompendiumPacks().find((p) => p.id === packId);
+    if (!pack) {
+      throw new Error(`Compendium pack not found: ${packId}`);
+    }
+    const [document] = await this.getDocuments(pack.type, {
+      pack: pack.id,
+      query: { _id: documentId },
+    });
+    if (!isRecord(document)) {
+      throw new Error(`Document ${documentId} not found in compendium ${packId}`);
+    }
+    return { pack, document };
+  }
+
+  /**
+   * Loads (or returns the cached) index of a compendium pack.
+   */
+  private loadPackIndex(pack: CompendiumPack): Promise<Array<Record<string, unknown>>> {
+    let index = this.compendiumIndices.get(pack.id);
+    if (!index) {
+      index = this.getDocuments(pack.type, {
+        pack: pack.id,
+        query: {},
+        index: true,
+        indexFields: COMPENDIUM_INDEX_FIELDS,
+      }).then((docs) => docs.filter(isRecord));
+      // A failed load must not poison the cache.
+      index.catch(() => this.compendiumIndices.delete(pack.id));
+      this.compendiumIndices.set(pack.id, index);
+    }
+    return index;
   }
 
   // ==========================================================================
   // Write helpers (Socket.IO `modifyDocument` — primary transport, PRD-003)
   // ==========================================================================
 
+  /**
+   * Write mode configured for this client (`FOUNDRY_WRITE_MODE`).
+   */
+  getWriteMode(): 'live' | 'preview' {
+    return this.config.writeMode ?? 'live';
+  }
+
   /**
    * Guards a write operation. Writes require the `FOUNDRY_WRITE_ENABLED` opt-in
    * and an active authenticated Socket.IO session (the primary transport).
-   * Throws a clear, actionable error otherwise.
+   * Throws a clear, actionable error otherwise. A dry run sends nothing, so it
+   * needs neither.
    */
   private assertWriteable(): void {
+    if (currentWriteContext()?.preview) {
+      return;
+    }
     if (!this.config.writeEnabled) {
       throw new Error(
         'Write operations are disabled. Set FOUNDRY_WRITE_ENABLED=true to allow game-state mutation.',
       );
     }
+    const state = this.supervisor.getState();
+    if (state === 'degraded' || (state === 'connecting' && this.worldData)) {
+      throw new Error(
+        'Write operations are unavailable while the FoundryVTT connection is being re-established; retry shortly.',
+      );
+    }
     if (!this.socket?.connected) {
       throw new Error(
         'Write operations require an active Socket.IO connection to FoundryVTT (username/password mode).',
@@ -618,31 +927,317 @@ export class FoundryClient {
    * v13.348 client source (`client/data/client-backend.mjs` `#buildRequest`,
    * `helpers/socket-interface.mjs` `dispatch`, `common/abstract/socket.mjs`).
    *
+   * The acknowledged result is applied to the cached worldData, since FoundryVTT
+   * broadcasts the change only to the *other* connected clients, and recorded
+   * in the mutation journal with the before-image captured from the cache.
+   * The configured write policy is checked first (except while reverting a
+   * failed batch); a violation is audited as `denied` and thrown as an
+   * `McpError` before anything is sent. Every request sent — accepted or not —
+   * is written to the audit log.
+   *
+   * During a dry run the request is handed to the preview instead and nothing
+   * is sent, applied, journaled or audited.
+   *
    * @param type - Document name ("Actor", "Item", …)
    * @param action - "create" | "update" | "delete"
    * @param operation - action-specific payload: `data` (create) / `updates`
    *   (update) / `ids` (delete), plus `parentUuid` for embedded documents.
+   * @param undoOf - journal id of the change this request reverses, if any
    * @returns the server's `result` array (created/updated data, or deleted ids)
    */
   private async modifyDocument(
     type: string,
-    action: 'create' | 'update' | 'delete',
+    action: MutationAction,
     operation: Record<string, unknown>,
+    undoOf?: string,
   ): Promise<unknown[]> {
+    return (await this.submitDocumentRequest(type, action, operation, undoOf)).result;
+  }
+
+  /**
+   * {@link modifyDocument}, also returning the journal entry recording the
+   * change (null during a dry run).
+   */
+  private async submitDocumentRequest(
+    type: string,
+    action: MutationAction,
+    operation: Record<string, unknown>,
+    undoOf?: string,
+  ): Promise<{ result: unknown[]; change: JournalEntry | null }> {
+    const before = captureBeforeImages(this.worldData, type, action, operation);
     const request = {
       type,
       action,
       operation: { broadcast: true, pack: null, modifiedTime: Date.now(), ...operation },
     };
+    this.checkWritePolicy(type, action, operation, before);
+    const context = currentWriteContext();
+    const preview = context?.preview;
+    if (preview) {
+      return { result: preview.record(request, before), change: null };
+    }
+    const parentUuid = typeof operation.parentUuid === 'string' ? operation.parentUuid : null;
+    const startedAt = new Date();
+    const audit = (fields: Pick<AuditEntry, 'outcome' | 'uuids'> & Partial<AuditEntry>) =>
+      this.recordAudit(type, action, startedAt, fields);
+
+    let response: DocumentSocketResponse;
+    try {
+      response = await this.emitWithAck<DocumentSocketResponse>('modifyDocument', request);
+    } catch (error) {
+      audit({
+        outcome: 'error',
+        uuids: documentUuids(type, parentUuid, targetIds(action, operation)),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    if (response?.error) {
+      const message = response.error.message || 'unknown error';
+      audit({
+        outcome: 'error',
+        uuids: documentUuids(type, parentUuid, targetIds(action, operation)),
+        error: message,
+      });
+      throw new Error(`FoundryVTT rejected ${action} ${type}: ${message}`);
+    }
+    const result = Array.isArray(response?.result) ? response.result : [];
+    const documentIds = action === 'create' ? idsOf(result) : targetIds(action, operation);
+    const change = this.journal.record({
+      type,
+      action,
+      parentUuid,
+      documentIds,
+      names: (action === 'create' ? result : before)
+        .map((d) => (isRecord(d) && typeof d.name === 'string' ? d.name : undefined))
+        .filter((n): n is string => n !== undefined),
+      before,
+      result,
+      ...(undoOf ? { undoOf } : {}),
+    });
+    audit({
+      outcome: 'ok',
+      uuids: documentUuids(type, parentUuid, documentIds),
+      result,
+      changeId: change.id,
+    });
+    this.applyChange({ type, action, parentUuid, result });
+    return { result, change };
+  }
+
+  /**
+   * Throws an `McpError` when the configured write policy forbids a request.
+   * Reverts of a failed batch are exempt. A refused live write is audited
+   * as `denied`.
+   */
+  private checkWritePolicy(
+    type: string,
+    action: MutationAction,
+    operation: Record<string, unknown>,
+    before: Array<Record<string, unknown>>,
+  ): void {
+    const context = currentWriteContext();
+    if (!this.config.writePolicy || context?.compensating) {
+      return;
+    }
+    const startedAt = new Date();
+    try {
+      this.config.writePolicy.check({
+        type,
+        action,
+        operation,
+        before,
+        world: this.worldData,
+        context,
+      });
+    } catch (error) {
+      if (!context?.preview) {
+        const parentUuid = typeof operation.parentUuid === 'string' ? operation.parentUuid : null;
+        this.recordAudit(type, action, startedAt, {
+          outcome: 'denied',
+          uuids: documentUuids(type, parentUuid, targetIds(action, operation)),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+  }
+
+  /** Appends an audit entry for a request, attributed to the current tool call. */
+  private recordAudit(
+    type: string,
+    action: MutationAction,
+    startedAt: Date,
+    fields: Pick<AuditEntry, 'outcome' | 'uuids'> & Partial<AuditEntry>,
+  ): void {
+    const tool = currentWriteContext()?.tool;
+    this.auditLog.record({
+      timestamp: startedAt.toISOString(),
+      tool: tool?.name ?? null,
+      args: tool?.args ?? null,
+      type,
+      action,
+      userId: this.worldData?.userId ?? this.config.userId ?? null,
+      durationMs: Date.now() - startedAt.getTime(),
+      ...fields,
+    });
+  }
+
+  /**
+   * Reads documents over Socket.IO with the core `getDocuments` request — a
+   * `modifyDocument` event with `action: "get"` (`ClientDatabaseBackend
+   * #getDocuments` in the v13 client). Used for compendium packs, whose
+   * contents are not in worldData. Reads need no write opt-in.
+   *
+   * @param type - Document name held by the pack
+   * @param operation - `pack`, `query` (field equality, e.g. `{ _id }`), and
+   *   optionally `index: true` with `indexFields` for a lightweight index
+   * @returns the matching document sources (or index entries)
+   */
+  private async getDocuments(type: string, operation: Record<string, unknown>): Promise<unknown[]> {
+    const request = { type, action: 'get', operation: { broadcast: false, ...operation } };
     const response = await this.emitWithAck<DocumentSocketResponse>('modifyDocument', request);
     if (response?.error) {
       throw new Error(
-        `FoundryVTT rejected ${action} ${type}: ${response.error.message || 'unknown error'}`,
+        `FoundryVTT rejected get ${type}: ${response.error.message || 'unknown error'}`,
       );
     }
     return Array.isArray(response?.result) ? response.result : [];
   }
 
+  // ==========================================================================
+  // Mutation journal (undo)
+  // ==========================================================================
+
+  /**
+   * Mutations made by this server, newest first.
+   */
+  getRecentChanges(limit = 20): JournalEntry[] {
+    return this.journal.list(limit);
+  }
+
+  /**
+   * Audited writes matching `filter`, newest first.
+   */
+  getAuditLog(filter: AuditFilter = {}): AuditEntry[] {
+    return this.auditLog.query(filter);
+  }
+
+  /**
+   * Reverses a journaled mutation by issuing its inverse request (see
+   * {@link inverseRequest}). The undo is journaled in turn, so it can itself
+   * be undone.
+   *
+   * @param changeId - journal id from {@link getRecentChanges}
+   * @returns the journal entry recording the undo (null during a dry run)
+   */
+  async undoChange(changeId: string): Promise<JournalEntry | null> {
+    this.assertWriteable();
+    const entry = this.journal.get(changeId);
+    if (!entry) {
+      throw new Error(`Change not found in the journal: ${changeId}`);
+    }
+    if (entry.undoneBy) {
+      throw new Error(`Change ${changeId} was already undone by ${entry.undoneBy}`);
+    }
+    const inverse = inverseRequest(entry);
+    if (!inverse) {
+      throw new Error(
+        `Change ${changeId} cannot be undone: the prior state was not in the world cache`,
+      );
+    }
+    const { change } = await this.submitDocumentRequest(
+      inverse.type,
+      inverse.action,
+      inverse.operation,
+      changeId,
+    );
+    return change;
+  }
+
+  // ==========================================================================
+  // Batch mutations (WRITE — Socket.IO modifyDocument)
+  // ==========================================================================
+
+  /**
+   * Applies a list of single-document operations as the fewest
+   * `modifyDocument` requests possible (one per type, action and parent; see
+   * {@link groupBatchOperations}), all or nothing: when a request fails, the
+   * requests already committed are reverted newest first with their journal
+   * inverses, and the error names what was reverted.
+   *
+   * Every update/delete target must be in the world cache, so that a revert
+   * is always possible, and every request must pass the write policy; the
+   * batch is refused before anything is sent otherwise.
+   *
+   * @returns the journal entries of the committed requests, in order (empty
+   *   during a dry run)
+   */
+  async batchUpdate(operations: BatchOperation[]): Promise<JournalEntry[]> {
+    this.assertWriteable();
+    validateBatch(operations);
+    const requests = groupBatchOperations(operations);
+    for (const { type, action, operation } of requests) {
+      const ids = targetIds(action, operation);
+      const cached = captureBeforeImages(this.worldData, type, action, operation);
+      const missing = ids.filter((id) => !cached.some((d) => d._id === id));
+      if (missing.length > 0) {
+        throw new Error(
+          `Cannot batch ${action} ${type} ${missing.join(', ')}: not in the world cache, so the batch could not be reverted on failure`,
+        );
+      }
+      this.checkWritePolicy(type, action, operation, cached);
+    }
+
+    const committed: JournalEntry[] = [];
+    for (const [index, { type, action, operation }] of requests.entries()) {
+      try {
+        const { change } = await this.submitDocumentRequest(type, action, operation);
+        if (change) {
+          committed.push(change);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const unreverted = await this.revertBatch(committed);
+        const summary = `Batch failed at request ${index + 1} of ${requests.length} (${action} ${type}): ${reason}`;
+        throw new Error(
+          unreverted.length === 0
+            ? `${summary}. Reverted ${committed.length} earlier request(s).`
+            : `${summary}. Could not revert ${unreverted.join('; ')} — the world is partially updated.`,
+        );
+      }
+    }
+    return committed;
+  }
+
+  /**
+   * Undoes committed batch requests, newest first.
+   *
+   * @returns descriptions of the entries that could not be reverted
+   */
+  private async revertBatch(committed: JournalEntry[]): Promise<string[]> {
+    return runWithWriteContext({ ...currentWriteContext(), compensating: true }, () =>
+      this.revertEntries(committed),
+    );
+  }
+
+  private async revertEntries(committed: JournalEntry[]): Promise<string[]> {
+    const failures: string[] = [];
+    for (const entry of [...committed].reverse()) {
+      const inverse = inverseRequest(entry);
+      if (!inverse) {
+        failures.push(`${entry.id} (no prior state)`);
+        continue;
+      }
+      try {
+        await this.submitDocumentRequest(inverse.type, inverse.action, inverse.operation, entry.id);
+      } catch (error) {
+        failures.push(`${entry.id} (${error instanceof Error ? error.message : String(error)})`);
+      }
+    }
+    return failures;
+  }
+
   // ==========================================================================
   // Item mutation methods (WRITE — Socket.IO modifyDocument)
   // ==========================================================================
@@ -650,12 +1245,13 @@ export class FoundryClient {
   /**
    * Creates a new item on an actor via the `modifyDocument` socket protocol.
    *
-   * Inline sources are created directly. Compendium sources are NOT yet
-   * supported over Socket.IO — copying a pack entry needs a compendium read
-   * that `modifyDocument` does not provide (tracked in issue #159).
+   * Inline sources are created directly. Compendium sources are read from the
+   * pack over the same socket ({@link getCompendiumDocument}) and imported
+   * the way `Item.fromCompendium` does — pack-local `_id`, folder, sort and
+   * ownership dropped, origin kept in `_stats.compendiumSource` (issue #159).
    *
    * @param actorId - 16-char alphanumeric actor document id
-   * @param source - inline item document (compendium source throws)
+   * @param source - inline item document, or a compendium pack + entry id
    * @returns the newly created item document
    */
   async createActorItem(actorId: string, source: ActorItemCreateSource): Promise<FoundryItem> {
@@ -663,14 +1259,21 @@ export class FoundryClient {
     if (!FOUNDRY_ID_PATTERN.test(actorId)) {
       throw new Error(`Invalid actorId format: ${actorId}`);
     }
+    let data: Record<string, unknown>;
     if (source.type === 'compendium') {
-      throw new Error(
-        'Creating an item from a compendium source is not yet supported over Socket.IO; ' +
-          'provide an inline item instead. See issue #159.',
+      const { pack, document } = await this.getCompendiumDocument(
+        source.compendiumId,
+        source.itemId,
       );
+      if (pack.type !== 'Item') {
+        throw new Error(`Compendium ${pack.id} holds ${pack.type} documents, not Items`);
+      }
+      data = prepareCompendiumImport(pack, document);
+    } else {
+      data = source.item as Record<string, unknown>;
     }
     const result = await this.modifyDocument('Item', 'create', {
-      data: [source.item],
+      data: [data],
       parentUuid: `Actor.${actorId}`,
     });
     return result[0] as FoundryItem;
@@ -734,7 +1337,7 @@ export class FoundryClient {
   // ==========================================================================
 
   /**
-   * Updates the active combat's turn/round pointers (FR-018).
+   * Updates a combat's turn/round pointers (FR-018).
    *
    * `Combat` is a top-level document, so the update carries no `parentUuid`.
    * The patch fields map directly onto the Combat document (`turn`, `round`).
@@ -757,7 +1360,42 @@ export class FoundryClient {
   }
 
   /**
-   * Ends (deletes) the active combat encounter (FR-018).
+   * Makes a combat the active encounter of its scene, like `Combat#activate`:
+   * one batched `Combat` update sets it `active` and deactivates the other
+   * active combats on the same scene. Combats on other scenes keep running;
+   * nothing is sent when the combat is already the only active one.
+   *
+   * @param combatId - 16-char alphanumeric Combat document id
+   * @returns the ids of the combats deactivated
+   */
+  async activateCombat(combatId: string): Promise<string[]> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(combatId)) {
+      throw new Error(`Invalid combatId format: ${combatId}`);
+    }
+    const combat = this.getCombat(combatId);
+    if (!combat) {
+      throw new Error(`Combat not found: ${combatId}`);
+    }
+    const deactivated = this.getCombats()
+      .filter((c) => c.active && c._id !== combatId && c.scene === combat.scene)
+      .map((c) => c._id);
+    if (combat.active && deactivated.length === 0) {
+      return [];
+    }
+    await this.modifyDocument('Combat', 'update', {
+      updates: [
+        ...deactivated.map((_id) => ({ _id, active: false })),
+        { _id: combatId, active: true },
+      ],
+      diff: true,
+      recursive: true,
+    });
+    return deactivated;
+  }
+
+  /**
+   * Ends (deletes) a combat encounter (FR-018).
    *
    * @param combatId - 16-char alphanumeric Combat document id
    */
@@ -804,6 +1442,129 @@ export class FoundryClient {
     return result[0];
   }
 
+  /**
+   * Sets several combatants' initiative in one batched `Combatant` update,
+   * as `Combat#rollInitiative` does.
+   *
+   * @returns the updated combatant documents
+   */
+  async setCombatantInitiatives(
+    combatId: string,
+    initiatives: Array<{ combatantId: string; initiative: number }>,
+  ): Promise<unknown[]> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(combatId)) {
+      throw new Error(`Invalid combatId format: ${combatId}`);
+    }
+    for (const { combatantId, initiative } of initiatives) {
+      if (!FOUNDRY_ID_PATTERN.test(combatantId)) {
+        throw new Error(`Invalid combatantId format: ${combatantId}`);
+      }
+      if (typeof initiative !== 'number' || !Number.isFinite(initiative)) {
+        throw new Error(`Invalid initiative: ${initiative} (must be a finite number)`);
+      }
+    }
+    return this.modifyDocument('Combatant', 'update', {
+      updates: initiatives.map(({ combatantId, initiative }) => ({ _id: combatantId, initiative })),
+      parentUuid: `Combat.${combatId}`,
+      diff: true,
+      recursive: true,
+    });
+  }
+
+  /**
+   * Marks a combatant defeated, or not.
+   *
+   * @returns the updated combatant document
+   */
+  async setCombatantDefeated(
+    combatId: string,
+    combatantId: string,
+    defeated: boolean,
+  ): Promise<unknown> {
+    return this.updateCombatant(combatId, combatantId, { defeated });
+  }
+
+  /**
+   * Hides a combatant from players in the tracker, or reveals it.
+   *
+   * @returns the updated combatant document
+   */
+  async setCombatantHidden(
+    combatId: string,
+    combatantId: string,
+    hidden: boolean,
+  ): Promise<unknown> {
+    return this.updateCombatant(combatId, combatantId, { hidden });
+  }
+
+  /**
+   * Adds combatants to an existing combat, one `Combatant` create under
+   * `Combat.<combatId>` (the second step of {@link startCombat}).
+   *
+   * @returns the created combatant documents
+   */
+  async addCombatants(
+    combatId: string,
+    combatants: Array<{ tokenId: string; sceneId: string; actorId?: string | undefined }>,
+  ): Promise<unknown[]> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(combatId)) {
+      throw new Error(`Invalid combatId format: ${combatId}`);
+    }
+    for (const c of combatants) {
+      if (!FOUNDRY_ID_PATTERN.test(c.tokenId)) {
+        throw new Error(`Invalid tokenId format: ${c.tokenId}`);
+      }
+    }
+    return this.modifyDocument('Combatant', 'create', {
+      data: combatants,
+      parentUuid: `Combat.${combatId}`,
+    });
+  }
+
+  /**
+   * Removes combatants from a combat.
+   *
+   * @returns the deleted combatant ids
+   */
+  async removeCombatants(combatId: string, combatantIds: string[]): Promise<unknown[]> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(combatId)) {
+      throw new Error(`Invalid combatId format: ${combatId}`);
+    }
+    for (const id of combatantIds) {
+      if (!FOUNDRY_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid combatantId format: ${id}`);
+      }
+    }
+    return this.modifyDocument('Combatant', 'delete', {
+      ids: combatantIds,
+      parentUuid: `Combat.${combatId}`,
+    });
+  }
+
+  private async updateCombatant(
+    combatId: string,
+    combatantId: string,
+    patch: { defeated?: boolean; hidden?: boolean },
+  ): Promise<unknown> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(combatId)) {
+      throw new Error(`Invalid combatId format: ${combatId}`);
+    }
+    if (!FOUNDRY_ID_PATTERN.test(combatantId)) {
+      throw new Error(`Invalid combatantId format: ${combatantId}`);
+    }
+    const result = await this.modifyDocument('Combatant', 'update', {
+      updates: [{ _id: combatantId, ...patch }],
+      parentUuid: `Combat.${combatId}`,
+      diff: true,
+      recursive: true,
+    });
+    return result[0];
+  }
+
   /**
    * Starts a new combat encounter and seeds its combatants (FR-018, #172).
    *
@@ -863,8 +1624,9 @@ export class FoundryClient {
    * Locates a token (and the scene it lives on) in the cached worldData.
    *
    * `Token` is an embedded document of `Scene`; worldData carries each scene's
-   * tokens as raw records. When `sceneId` is omitted the search spans every
-   * scene, so a token can be moved/affected without first resolving its scene.
+   * tokens as raw records. The owning scene comes from the store's
+   * token → scene index, so `sceneId` can be omitted and a token can be
+   * moved/affected without first resolving its scene.
    *
    * @param tokenId - 16-char alphanumeric Token document id
    * @param sceneId - optional Scene id to scope the search to
@@ -874,19 +1636,7 @@ export class FoundryClient {
     tokenId: string,
     sceneId?: string,
   ): { scene: WorldScene; token: Record<string, unknown> } | null {
-    if (!this.worldData) {
-      return null;
-    }
-    const scenes = sceneId
-      ? this.worldData.scenes.filter((s) => s._id === sceneId)
-      : this.worldData.scenes;
-    for (const scene of scenes) {
-      const token = scene.tokens?.find((t) => (t as { _id?: string })._id === tokenId);
-      if (token) {
-        return { scene, token };
-      }
-    }
-    return null;
+    return this.world?.findToken(tokenId, sceneId) ?? null;
   }
 
   /**
@@ -946,7 +1696,7 @@ export class FoundryClient {
     options: { name?: string; img?: string } = {},
   ): Promise<WorldEffect> {
     this.assertWriteable();
-    if (!TOKEN_ACTOR_UUID_PATTERN.test(parentActorUuid)) {
+    if (!isTokenActorUuid(parentActorUuid)) {
       throw new Error(`Invalid actor UUID format: ${parentActorUuid}`);
     }
     if (!statusId || typeof statusId !== 'string') {
@@ -976,7 +1726,7 @@ export class FoundryClient {
    */
   async deleteActorEffect(parentActorUuid: string, effectId: string): Promise<void> {
     this.assertWriteable();
-    if (!TOKEN_ACTOR_UUID_PATTERN.test(parentActorUuid)) {
+    if (!isTokenActorUuid(parentActorUuid)) {
       throw new Error(`Invalid actor UUID format: ${parentActorUuid}`);
     }
     if (!FOUNDRY_ID_PATTERN.test(effectId)) {
@@ -988,6 +1738,108 @@ export class FoundryClient {
     });
   }
 
+  /**
+   * The actor a hit point target stands for. For an unlinked token this is
+   * the synthetic actor: a copy of the base actor with the token's
+   * `delta.system` merged over it.
+   *
+   * @returns undefined when the actor is not cached
+   */
+  getTargetActor(target: HitPointTarget): WorldActor | undefined {
+    const actor = this.getRawActor(target.actorId);
+    if (!actor || !target.tokenId) {
+      return actor;
+    }
+    const located = this.findToken(target.tokenId, target.sceneId);
+    const delta = located?.token.delta as { system?: Record<string, unknown> } | undefined;
+    if (!delta?.system) {
+      return actor;
+    }
+    const system = structuredClone(actor.system);
+    mergeUpdate(system, structuredClone(delta.system));
+    return { ...actor, system };
+  }
+
+  /**
+   * Hit points from `system.attributes.hp` of the target's actor (see
+   * {@link getTargetActor}).
+   *
+   * @returns undefined when the actor is not cached or has no hp
+   */
+  getHitPoints(target: HitPointTarget): HitPoints | undefined {
+    const actor = this.getTargetActor(target);
+    if (!actor) {
+      return undefined;
+    }
+    const hp = hpData(actor.system);
+    if (typeof hp.value !== 'number') {
+      return undefined;
+    }
+    const result: HitPoints = { current: hp.value };
+    if (typeof hp.max === 'number') {
+      result.max = hp.max;
+    }
+    if (typeof hp.temp === 'number') {
+      result.temp = hp.temp;
+    }
+    if (typeof hp.tempmax === 'number' && hp.tempmax) {
+      result.tempMax = hp.tempmax;
+    }
+    return result;
+  }
+
+  /**
+   * Writes current and temporary hit points. A world actor gets an
+   * `Actor` update; an unlinked token gets a `Token` update of its `delta`
+   * under `Scene.<sceneId>`, which is how the synthetic actor persists.
+   *
+   * @returns the updated Actor or Token document
+   */
+  async updateHitPoints(
+    target: HitPointTarget,
+    hp: { current?: number; temp?: number },
+  ): Promise<unknown> {
+    this.assertWriteable();
+    if (!FOUNDRY_ID_PATTERN.test(target.actorId)) {
+      throw new Error(`Invalid actorId format: ${target.actorId}`);
+    }
+    const fields: Record<string, number> = {};
+    if (hp.current !== undefined) {
+      fields['system.attributes.hp.value'] = hp.current;
+    }
+    if (hp.temp !== undefined) {
+      fields['system.attributes.hp.temp'] = hp.temp;
+    }
+    if (Object.values(fields).some((v) => !Number.isInteger(v) || v < 0)) {
+      throw new Error('Hit points must be non-negative integers');
+    }
+
+    if (!target.tokenId) {
+      const result = await this.modifyDocument('Actor', 'update', {
+        updates: [{ _id: target.actorId, ...fields }],
+        diff: true,
+        recursive: true,
+      });
+      return result[0];
+    }
+    if (!target.sceneId || !FOUNDRY_ID_PATTERN.test(target.sceneId)) {
+      throw new Error(`Invalid sceneId format: ${target.sceneId}`);
+    }
+    if (!FOUNDRY_ID_PATTERN.test(target.tokenId)) {
+      throw new Error(`Invalid tokenId format: ${target.tokenId}`);
+    }
+    const delta = Object.fromEntries(
+      Object.entries(fields).map(([path, value]) => [`delta.${path}`, value]),
+    );
+    const result = await this.modifyDocument('Token', 'update', {
+      updates: [{ _id: target.tokenId, ...delta }],
+      parentUuid: `Scene.${target.sceneId}`,
+      diff: true,
+      recursive: true,
+    });
+    return result[0];
+  }
+
   // ==========================================================================
   // Scene methods
   // ==========================================================================
@@ -1004,15 +1856,15 @@ export class FoundryClient {
       });
     }
 
-    if (!this.worldData) {
+    if (!this.world) {
       throw new Error('Not connected — no world data available');
     }
 
     let scene: WorldScene | undefined;
     if (sceneId) {
-      scene = this.worldData.scenes.find((s) => s._id === sceneId);
+      scene = this.world.get('scenes', sceneId);
     } else {
-      scene = this.worldData.scenes.find((s) => s.active);
+      scene = this.world.data.scenes.find((s) => s.active);
     }
 
     if (!scene) {
@@ -1077,11 +1929,28 @@ export class FoundryClient {
   // Combat
   // ==========================================================================
 
+  /**
+   * The combat tools act on by default: the active combat of the active
+   * scene, else the first active combat on any scene (several scenes can
+   * each run their own encounter).
+   */
   getCombatState(): WorldCombat | null {
     if (!this.worldData) {
       return null;
     }
-    return this.worldData.combats.find((c) => c.active) ?? null;
+    const activeScene = this.worldData.scenes.find((s) => s.active)?._id;
+    const active = this.worldData.combats.filter((c) => c.active);
+    return active.find((c) => c.scene === activeScene) ?? active[0] ?? null;
+  }
+
+  /** Every combat encounter in the world, on any scene, active or not. */
+  getCombats(): WorldCombat[] {
+    return this.worldData?.combats ?? [];
+  }
+
+  /** A combat by id, active or not. */
+  getCombat(combatId: string): WorldCombat | null {
+    return this.worldData?.combats.find((c) => c._id === combatId) ?? null;
   }
 
   // ==========================================================================
@@ -1095,6 +1964,119 @@ export class FoundryClient {
     return this.worldData.messages.slice(-limit);
   }
 
+  /**
+   * One page of the chat log filtered by speaker, author, time, visibility,
+   * rolls and text; see {@link queryChatMessages}.
+   *
+   * @throws Error when `query.user` names no user
+   */
+  queryChatMessages(query: ChatMessageQuery = {}): ChatMessagePage {
+    if (!this.worldData) {
+      return { messages: [], total: 0, offset: query.offset ?? 0 };
+    }
+    return queryChatMessages(this.worldData.messages, this.worldData.users, query);
+  }
+
+  /**
+   * Posts a `ChatMessage` so it appears in everyone's chat log. The speaker,
+   * whisper recipients and roll mode are resolved against the cached world
+   * (see {@link buildChatMessageData}); `rolls` render as real Foundry rolls.
+   *
+   * @returns the created ChatMessage document (undefined during a dry run)
+   */
+  async sendChatMessage(message: ChatMessageInput): Promise<WorldMessage | undefined> {
+    this.assertWriteable();
+    if (!this.worldData) {
+      throw new Error('World data is not loaded; connect to FoundryVTT first');
+    }
+    const data = buildChatMessageData(this.worldData, message);
+    const result = await this.modifyDocument('ChatMessage', 'create', { data: [data] });
+    return result[0] as WorldMessage | undefined;
+  }
+
+  /**
+   * Renders a time range of the chat log as a Markdown or HTML transcript;
+   * see {@link renderSessionLog}.
+   */
+  getSessionLog(options: SessionLogOptions): SessionLog {
+    if (!this.worldData) {
+      throw new Error('World data is not loaded; connect to FoundryVTT first');
+    }
+    return renderSessionLog(this.worldData, this.sessionEvents, options);
+  }
+
+  /**
+   * d20 statistics of the chat log per player and character; see
+   * {@link rollStatistics}.
+   *
+   * @throws Error when `query.user` names no user
+   */
+  getRollStatistics(query: RollStatisticsQuery = {}): RollStatistics {
+    if (!this.worldData) {
+      throw new Error('World data is not loaded; connect to FoundryVTT first');
+    }
+    return rollStatistics(this.worldData, query);
+  }
+
+  // ==========================================================================
+  // Roll tables
+  // ==========================================================================
+
+  getRollTables(): WorldRollTable[] {
+    return this.world?.find('tables') ?? [];
+  }
+
+  /** Finds a world RollTable by id, or by name ignoring case. */
+  getRollTable(idOrName: string): WorldRollTable | undefined {
+    return this.world?.get('tables', idOrName) ?? this.world?.findByName('tables', idOrName)[0];
+  }
+
+  /**
+   * Draws from a world RollTable (see {@link drawFromTable}); the table
+   * formula is rolled from the committed dice session and results linking
+   * other tables are drawn from those in turn.
+   *
+   * With `markDrawn`, the drawn results of tables without replacement are
+   * flagged `drawn` through `modifyDocument` (a WRITE).
+   *
+   * @param table - RollTable id or name
+   */
+  async drawFromTable(
+    table: string,
+    options: { count?: number; markDrawn?: boolean } = {},
+  ): Promise<TableDraw[]> {
+    if (options.markDrawn) {
+      this.assertWriteable();
+    }
+    if (!this.worldData) {
+      throw new Error('World data is not loaded; connect to FoundryVTT first');
+    }
+    const rollTable = this.getRollTable(table);
+    if (!rollTable) {
+      throw new Error(`RollTable not found: ${table}`);
+    }
+    const draws = await drawFromTable(
+      rollTable,
+      {
+        roll: (formula) => this.diceSession.roll(formula),
+        loadTable: async (uuid) =>
+          (await this.getDocumentByUuid(uuid))?.document as WorldRollTable | undefined,
+        packs: this.getCompendiumPacks(),
+      },
+      options.count,
+    );
+    if (options.markDrawn) {
+      for (const [tableId, resultIds] of drawnResultIds(draws)) {
+        await this.modifyDocument('TableResult', 'update', {
+          updates: resultIds.map((_id) => ({ _id, drawn: true })),
+          parentUuid: `RollTable.${tableId}`,
+          diff: true,
+        });
+      }
+    }
+    return draws;
+  }
+
   // ==========================================================================
   // Users
   // ==========================================================================
@@ -1133,7 +2115,44 @@ export class FoundryClient {
   }
 
   getJournal(journalId: string): WorldJournal | undefined {
-    return this.worldData?.journal.find((j) => j._id === journalId);
+    return this.world?.get('journal', journalId);
+  }
+
+  // ==========================================================================
+  // Documents by UUID
+  // ==========================================================================
+
+  /**
+   * Resolves a document UUID, as `fromUuid` does in the browser: world
+   * documents (including arbitrarily nested embedded documents and unlinked
+   * token actors) from the world cache, `Compendium.<pack>.<Type>.<id>`
+   * documents from the pack over Socket.IO.
+   *
+   * @returns the document, or undefined when it does not exist
+   * @throws on a malformed UUID, or a compendium pack that is not loaded
+   */
+  async getDocumentByUuid(uuid: string): Promise<ResolvedDocument | undefined> {
+    const parsed = parseUuid(uuid);
+    if (!parsed) {
+      throw new Error(`Invalid document UUID: ${uuid}`);
+    }
+    const [root, ...rest] = parsed.parts as [UuidPart, ...UuidPart[]];
+    const leaf = parsed.parts[parsed.parts.length - 1] as UuidPart;
+
+    if (parsed.pack) {
+      const { pack, document } = await this.getCompendiumDocument(parsed.pack, root.id);
+      if (pack.type !== root.type) {
+        throw new Error(`Compendium ${pack.id} holds ${pack.type} documents, not ${root.type}`);
+      }
+      const doc = resolveEmbedded(null, document, root.type, rest);
+      return doc ? { uuid, type: leaf.type, pack: pack.id, document: doc } : undefined;
+    }
+
+    if (!this.worldData) {
+      throw new Error('World data is not loaded; connect to FoundryVTT first');
+    }
+    const doc = resolveWorldUuid(this.worldData, parsed);
+    return doc ? { uuid, type: leaf.type, pack: null, document: doc } : undefined;
   }
 
   // ==========================================================================
@@ -1146,17 +2165,15 @@ export class FoundryClient {
     scenes: WorldScene[];
     journals: WorldJournal[];
   } {
-    if (!this.worldData) {
+    if (!this.world) {
       return { actors: [], items: [], scenes: [], journals: [] };
     }
 
-    const q = query.toLowerCase();
-
     return {
-      actors: this.worldData.actors.filter((a) => a.name.toLowerCase().includes(q)),
-      items: this.worldData.items.filter((i) => i.name.toLowerCase().includes(q)),
-      scenes: this.worldData.scenes.filter((s) => s.name.toLowerCase().includes(q)),
-      journals: this.worldData.journal.filter((j) => j.name.toLowerCase().includes(q)),
+      actors: this.world.find('actors', { query }),
+      items: this.world.find('items', { query }),
+      scenes: this.world.find('scenes', { query }),
+      journals: this.world.find('journal', { query }),
     };
   }
 
@@ -1187,16 +2204,65 @@ export class FoundryClient {
   // Dice rolling
   // ==========================================================================
 
-  async rollDice(formula: string, reason?: string): Promise<DiceRoll> {
-    const DICE_FORMULA_REGEX = /^[0-9d\s+\-()]+$/;
-    if (!formula || formula.length > 100 || !DICE_FORMULA_REGEX.test(formula)) {
-      throw new Error(`Invalid dice formula: ${formula}`);
+  /**
+   * Fills in a formula's `@` references from an actor's raw `system` data.
+   * A formula without references is returned unchanged.
+   *
+   * @throws Error when the formula has references but no actor is given, the
+   *   actor is not cached, or a reference cannot be resolved
+   */
+  resolveRollData(formula: string, actorId?: string): SubstitutedFormula {
+    if (actorId) {
+      const actor = this.getRawActor(actorId);
+      if (!actor) {
+        throw new Error(`Actor not found: ${actorId}`);
+      }
+      return substituteRollData(formula, actor.system);
     }
+    const references = rollDataReferences(formula);
+    if (references.length > 0) {
+      throw new Error(
+        `Formula uses roll data (${references.join(', ')}); pass actorId to resolve it from an actor`,
+      );
+    }
+    return { formula, substitutions: [] };
+  }
 
-    if (this.config.apiKey) {
+  /**
+   * Rolls a FoundryVTT dice formula. Uses the REST API's roller when an API
+   * key is configured and falls back to the local evaluator, which supports
+   * the full grammar (keep/drop, exploding, rerolls, success counting,
+   * arithmetic, flavor tags, percentile and Fudge dice). Local rolls draw
+   * from the committed dice session and are logged for `reveal_dice_seed`.
+   *
+   * With `options.actorId`, `@` references (`@abilities.dex.mod`, `@prof`)
+   * are filled in from the actor's raw `system` data first.
+   *
+   * `options.forWrite` marks a roll whose result is about to be written (a
+   * chat message, an initiative value): writes must be possible before any
+   * dice are drawn. While the write is only previewed, the dice come from a
+   * throwaway stream instead, so the committed log is untouched, and the
+   * preview says the values are not final.
+   *
+   * @throws Error `Invalid dice formula: …` when the formula does not parse,
+   *   or when a reference cannot be resolved
+   */
+  async rollDice(
+    formula: string,
+    reason?: string,
+    options: { actorId?: string; forWrite?: boolean } = {},
+  ): Promise<DiceRoll> {
+    const { formula: rollFormula, substitutions } = this.resolveRollData(formula, options.actorId);
+    parseFormula(rollFormula);
+    if (options.forWrite) {
+      this.assertWriteable();
+    }
+    const preview = options.forWrite ? currentWriteContext()?.preview : undefined;
+
+    if (this.config.apiKey && !preview) {
       try {
         const response = await this.http.post('/api/dice/roll', {
-          formula,
+          formula: rollFormula,
           flavor: reason,
         });
 
@@ -1209,6 +2275,9 @@ export class FoundryClient {
               .join(' + ') || formula,
           timestamp: new Date().toISOString(),
         };
+        if (substitutions.length > 0) {
+          result.substitutions = substitutions;
+        }
         if (reason) {
           result.reason = reason;
         }
@@ -1218,44 +2287,49 @@ export class FoundryClient {
       }
     }
 
-    return this.fallbackDiceRoll(formula, reason);
-  }
-
-  private fallbackDiceRoll(formula: string, reason?: string): DiceRoll {
-    const diceRegex = /(\d+)d(\d+)([+-]\d+)?/g;
-    let total = 0;
-    const breakdown: string[] = [];
-
-    let match: RegExpExecArray | null = diceRegex.exec(formula);
-    while (match !== null) {
-      const [, numDice, numSides, modifier] = match;
-      const diceCount = parseInt(numDice || '1', 10);
-      const sides = parseInt(numSides || '6', 10);
-      const mod = modifier ? parseInt(modifier, 10) : 0;
-
-      const rolls: number[] = [];
-      for (let i = 0; i < diceCount; i++) {
-        rolls.push(Math.floor(Math.random() * sides) + 1);
-      }
-
-      const rollSum = rolls.reduce((sum, roll) => sum + roll, 0) + mod;
-      total += rollSum;
-      breakdown.push(`${rolls.join(', ')}${mod !== 0 ? ` ${modifier}` : ''} = ${rollSum}`);
-      match = diceRegex.exec(formula);
-    }
-
+    const roll = preview ? evaluateRoll(rollFormula) : this.diceSession.roll(rollFormula);
     const result: DiceRoll = {
       formula,
-      total,
-      breakdown: breakdown.join(' | '),
+      total: roll.total,
+      breakdown: roll.breakdown,
+      terms: roll.terms,
+      roll: toFoundryRoll(roll),
       timestamp: new Date().toISOString(),
     };
+    if (preview) {
+      preview.note(
+        'Dice rolled for this preview are placeholders outside the committed seed; the real run rolls again.',
+      );
+      result.preview = true;
+    }
+    if (substitutions.length > 0) {
+      result.substitutions = substitutions;
+    }
     if (reason) {
       result.reason = reason;
     }
     return result;
   }
 
+  /**
+   * The commitment (`sha256` of the seed) of the current dice session and
+   * how many rolls it has made.
+   */
+  getDiceCommitment(): DiceCommitment {
+    return this.diceSession.commitment();
+  }
+
+  /**
+   * Reveals the current dice session's seed and roll log, then starts a new
+   * session with a fresh random seed — the revealed stream is predictable.
+   */
+  revealDiceSeed(): DiceReveal {
+    const reveal = this.diceSession.reveal();
+    this.diceSession = new DiceSession();
+    logger.info(`Dice seed revealed after ${reveal.rolls} rolls; new session started`);
+    return reveal;
+  }
+
   // ==========================================================================
   // Connection test
   // ==========================================================================
@@ -1572,3 +2646,12 @@ function validateAttributePatch(
     }
   }
 }
+
+/** `attributes.hp` of an actor's (or delta's) system data. */
+function hpData(system: Record<string, unknown> | undefined): Record<string, unknown> {
+  const attributes = system?.attributes as { hp?: unknown } | undefined;
+  const hp = attributes?.hp;
+  return hp !== null && typeof hp === 'object' && !Array.isArray(hp)
+    ? (hp as Record<string, unknown>)
+    : {};
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Compendium pack helpers for the Socket.IO read path
+ *
+ * Compendium packs are not part of the `world` snapshot; only their metadata
+ * is (`worldData.packs`). Their contents are read on demand with FoundryVTT's
+ * socket `getDocuments` request (`modifyDocument` with `action: "get"`), the
+ * same call the browser client makes when a compendium window is opened.
+ *
+ * This module holds the transport-free parts of that path: reading pack
+ * metadata, filtering a pack index, and preparing a compendium document for
+ * import into the world.
+ */
+
+import type { CompendiumSearchEntry } from './types.js';
+
+/** Pack metadata as listed in `worldData.packs`. */
+export interface CompendiumPack {
+  /** Collection id, `<package>.<name>` (e.g. `dnd5e.spells`). */
+  id: string;
+  label: string;
+  /** Document name held by the pack ("Item", "Actor", "JournalEntry", …). */
+  type: string;
+}
+
+/** Filters applied to a pack index, mirroring the REST bridge's parameters. */
+export interface CompendiumFilter {
+  query?: string | undefined;
+  compendiumId?: string | undefined;
+  packType?: string | undefined;
+  itemType?: string | undefined;
+  spellLevel?: number | undefined;
+  source?: string | undefined;
+}
+
+/**
+ * Index fields requested with `index: true`, enough to filter and to fill a
+ * {@link CompendiumSearchEntry} without loading full documents.
+ */
+export const COMPENDIUM_INDEX_FIELDS = [
+  'name',
+  'type',
+  'img',
+  'system.level',
+  'system.school',
+  'system.source',
+];
+
+/**
+ * Reads pack metadata from `worldData.packs`. Older cores omit `id`, so it is
+ * rebuilt from `packageName` and `name` when missing.
+ */
+export function parseCompendiumPacks(packs: unknown): CompendiumPack[] {
+  if (!Array.isArray(packs)) {
+    return [];
+  }
+  const parsed: CompendiumPack[] = [];
+  for (const pack of packs) {
+    if (!isRecord(pack)) {
+      continue;
+    }
+    const id =
+      typeof pack.id === 'string'
+        ? pack.id
+        : typeof pack.packageName === 'string' && typeof pack.name === 'string'
+          ? `${pack.packageName}.${pack.name}`
+          : undefined;
+    const type = typeof pack.type === 'string' ? pack.type : pack.entity;
+    if (!id || typeof type !== 'string') {
+      continue;
+    }
+    parsed.push({ id, label: typeof pack.label === 'string' ? pack.label : id, type });
+  }
+  return parsed;
+}
+
+/**
+ * Packs a search should read, after the pack-level filters (`compendiumId`,
+ * `packType`) are applied.
+ */
+export function selectPacks(packs: CompendiumPack[], filter: CompendiumFilter): CompendiumPack[] {
+  return packs.filter(
+    (p) =>
+      (!filter.compendiumId || p.id === filter.compendiumId) &&
+      (!filter.packType || p.type.toLowerCase() === filter.packType.toLowerCase()),
+  );
+}
+
+/**
+ * Applies the entry-level filters to one pack's index and maps the matches
+ * to search entries, preserving index order.
+ */
+export function filterPackIndex(
+  pack: CompendiumPack,
+  index: Array<Record<string, unknown>>,
+  filter: CompendiumFilter,
+): CompendiumSearchEntry[] {
+  const q = filter.query?.toLowerCase();
+  const itemType = filter.itemType?.toLowerCase();
+  const source = filter.source?.toLowerCase();
+  const entries: CompendiumSearchEntry[] = [];
+
+  for (const doc of index) {
+    if (typeof doc._id !== 'string' || typeof doc.name !== 'string') {
+      continue;
+    }
+    const type = typeof doc.type === 'string' ? doc.type : pack.type;
+    const system = isRecord(doc.system) ? doc.system : {};
+    if (q && !doc.name.toLowerCase().includes(q)) {
+      continue;
+    }
+    if (itemType && type.toLowerCase() !== itemType) {
+      continue;
+    }
+    if (filter.spellLevel !== undefined && system.level !== filter.spellLevel) {
+      continue;
+    }
+    if (source && !sourceLabels(system.source).some((s) => s.toLowerCase().includes(source))) {
+      continue;
+    }
+
+    const entry: CompendiumSearchEntry = {
+      compendiumId: pack.id,
+      itemId: doc._id,
+      name: doc.name,
+      type,
+    };
+    if (typeof doc.img === 'string') {
+      entry.img = doc.img;
+    }
+    const summary = summariseSystem(system);
+    if (summary) {
+      entry.system = summary;
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Prepares a compendium document for creation in the world (or embedding in
+ * an actor), as `Document.fromCompendium` does in the browser client: the
+ * pack-local `_id`, folder, sort and ownership are dropped, and the origin is
+ * recorded in `_stats.compendiumSource`.
+ */
+export function prepareCompendiumImport(
+  pack: CompendiumPack,
+  doc: Record<string, unknown>,
+): Record<string, unknown> {
+  const { _id, folder: _folder, sort: _sort, ownership: _ownership, ...data } = doc;
+  const stats = isRecord(data._stats) ? data._stats : {};
+  data._stats = { ...stats, compendiumSource: `Compendium.${pack.id}.${pack.type}.${_id}` };
+  return data;
+}
+
+/** Human-readable source strings from a `system.source` value. */
+function sourceLabels(source: unknown): string[] {
+  if (typeof source === 'string') {
+    return [source];
+  }
+  if (!isRecord(source)) {
+    return [];
+  }
+  return ['rules', 'book', 'custom', 'label']
+    .map((key) => source[key])
+    .filter((v): v is string => typeof v === 'string');
+}
+
+function summariseSystem(system: Record<string, unknown>): CompendiumSearchEntry['system'] {
+  const summary: NonNullable<CompendiumSearchEntry['system']> = {};
+  if (typeof system.level === 'number') {
+    summary.level = system.level;
+  }
+  if (typeof system.school === 'string') {
+    summary.school = system.school;
+  }
+  if (isRecord(system.source)) {
+    const source: { rules?: string; custom?: string } = {};
+    if (typeof system.source.rules === 'string') {
+      source.rules = system.source.rules;
+    }
+    if (typeof system.source.custom === 'string') {
+      source.custom = system.source.custom;
+    }
+    if (Object.keys(source).length > 0) {
+      summary.source = source;
+    }
+  }
+  return Object.keys(summary).length > 0 ? summary : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
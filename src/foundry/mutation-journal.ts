@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Journal of document mutations made by this server
+ *
+ * Every `modifyDocument` write is recorded with a before-image of the
+ * documents it touched, taken from the world cache just before the request is
+ * sent. From the before-image and the server's acknowledged result the
+ * journal derives the inverse request, so a mistaken write can be rolled back
+ * in one step:
+ *
+ *  - create → delete the created ids
+ *  - update → update back to the previous values (`-=key` for keys that did
+ *             not exist before)
+ *  - delete → re-create the deleted documents with their original `_id`
+ *             (`keepId: true`)
+ *
+ * Undos are written through the same path and journaled in turn, so undoing an
+ * undo re-applies the original change.
+ */
+
+import type { WorldData } from './types.js';
+import { resolveCollection } from './world-sync.js';
+
+export type MutationAction = 'create' | 'update' | 'delete';
+
+/** A recorded mutation. */
+export interface JournalEntry {
+  /** Journal id (`chg-<n>`), used by `undo_change`. */
+  id: string;
+  timestamp: string;
+  type: string;
+  action: MutationAction;
+  parentUuid: string | null;
+  documentIds: string[];
+  /** Names of the affected documents, where known. */
+  names: string[];
+  /** Copies of the affected documents before the change (update/delete). */
+  before: Array<Record<string, unknown>>;
+  /** The server's acknowledged result. */
+  result: unknown[];
+  /** Id of the entry this one undid. */
+  undoOf?: string;
+  /** Id of the entry that undid this one. */
+  undoneBy?: string;
+}
+
+/** A `modifyDocument` request body, as passed to the client's write helper. */
+export interface DocumentRequest {
+  type: string;
+  action: MutationAction;
+  operation: Record<string, unknown>;
+}
+
+/** Number of entries kept; older entries can no longer be undone. */
+const JOURNAL_CAPACITY = 100;
+
+export class MutationJournal {
+  private entries: JournalEntry[] = [];
+  private seq = 0;
+
+  constructor(private readonly capacity = JOURNAL_CAPACITY) {}
+
+  /**
+   * Records a committed mutation. When `undoOf` is set, the undone entry is
+   * linked back to the new one.
+   */
+  record(input: Omit<JournalEntry, 'id' | 'timestamp'>): JournalEntry {
+    const entry: JournalEntry = {
+      id: `chg-${++this.seq}`,
+      timestamp: new Date().toISOString(),
+      ...input,
+    };
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) {
+      this.entries.shift();
+    }
+    if (entry.undoOf) {
+      const original = this.get(entry.undoOf);
+      if (original) {
+        original.undoneBy = entry.id;
+      }
+    }
+    return entry;
+  }
+
+  /** Most recent entries, newest first. */
+  list(limit = 20): JournalEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  get(id: string): JournalEntry | undefined {
+    return this.entries.find((e) => e.id === id);
+  }
+}
+
+/**
+ * Copies the cached documents an update or delete is about to touch.
+ * Documents missing from the cache are skipped; {@link inverseRequest} then
+ * reports the entry as not undoable.
+ */
+export function captureBeforeImages(
+  world: WorldData | null,
+  type: string,
+  action: MutationAction,
+  operation: Record<string, unknown>,
+): Array<Record<string, unknown>> {
+  if (!world || action === 'create') {
+    return [];
+  }
+  const parentUuid = typeof operation.parentUuid === 'string' ? operation.parentUuid : null;
+  const collection = resolveCollection(world, type, parentUuid);
+  if (!collection) {
+    return [];
+  }
+  const ids = targetIds(action, operation);
+  return collection.filter((d) => ids.includes(d._id as string)).map((d) => structuredClone(d));
+}
+
+/**
+ * Ids of the documents a request targets (updates/deletes) or created.
+ */
+export function targetIds(action: MutationAction, operation: Record<string, unknown>): string[] {
+  const source = action === 'update' ? operation.updates : action === 'delete' ? operation.ids : [];
+  return idsOf(Array.isArray(source) ? source : []);
+}
+
+/** Ids from a list of documents or bare ids. */
+export function idsOf(values: unknown[]): string[] {
+  return values
+    .map((v) => (typeof v === 'string' ? v : isRecord(v) ? v._id : undefined))
+    .filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Builds the request that reverses a journal entry, or null when the entry
+ * cannot be reversed (a before-image was not cached).
+ */
+export function inverseRequest(entry: JournalEntry): DocumentRequest | null {
+  const parent = entry.parentUuid ? { parentUuid: entry.parentUuid } : {};
+
+  switch (entry.action) {
+    case 'create': {
+      const ids = idsOf(entry.result);
+      return ids.length > 0
+        ? { type: entry.type, action: 'delete', operation: { ids, ...parent } }
+        : null;
+    }
+
+    case 'delete':
+      if (entry.before.length < entry.documentIds.length) {
+        return null;
+      }
+      return {
+        type: entry.type,
+        action: 'create',
+        operation: { data: structuredClone(entry.before), keepId: true, ...parent },
+      };
+
+    case 'update': {
+      const updates: Array<Record<string, unknown>> = [];
+      for (const diff of entry.result) {
+        if (!isRecord(diff) || typeof diff._id !== 'string') {
+          continue;
+        }
+        const before = entry.before.find((d) => d._id === diff._id);
+        if (!before) {
+          return null;
+        }
+        const { _id, ...changes } = diff;
+        updates.push({ _id, ...restoreDiff(before, expandDiff(changes)) });
+      }
+      return updates.length > 0
+        ? {
+            type: entry.type,
+            action: 'update',
+            operation: { updates, diff: true, recursive: true, ...parent },
+          }
+        : null;
+    }
+  }
+}
+
+/**
+ * The update that returns every field touched by `diff` to its value in
+ * `before`. Fields absent from `before` are removed with `-=key`.
+ */
+export function restoreDiff(
+  before: Record<string, unknown>,
+  diff: Record<string, unknown>,
+): Record<string, unknown> {
+  const restore: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(diff)) {
+    if (key.startsWith('-=')) {
+      const removed = key.slice(2);
+      if (removed in before) {
+        restore[removed] = structuredClone(before[removed]);
+      }
+      continue;
+    }
+    const previous = before[key];
+    if (isRecord(value) && isRecord(previous)) {
+      restore[key] = restoreDiff(previous, value);
+    } else if (key in before) {
+      restore[key] = structuredClone(previous);
+    } else {
+      restore[`-=${key}`] = null;
+    }
+  }
+  return restore;
+}
+
+/** Expands dot-notation keys (`system.hp.value`) into nested objects. */
+function expandDiff(diff: Record<string, unknown>): Record<string, unknown> {
+  const expanded: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(diff)) {
+    const segments = key.split('.');
+    const leaf = segments.pop() as string;
+    let node = expanded;
+    for (const segment of segments) {
+      if (!isRecord(node[segment])) {
+        node[segment] = {};
+      }
+      node = node[segment] as Record<string, unknown>;
+    }
+    node[leaf] =
+      isRecord(value) && isRecord(node[leaf])
+        ? { ...(node[leaf] as Record<string, unknown>), ...expandDiff(value) }
+        : isRecord(value)
+          ? expandDiff(value)
+          : value;
+  }
+  return expanded;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
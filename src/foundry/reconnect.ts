@@ -0,0 +1,181 @@
+/**
+ * @fileoverview Reconnect supervisor for the FoundryVTT Socket.IO session
+ *
+ * A Foundry restart or an expired session cookie drops the socket, and the
+ * old session cannot be resumed: the server only accepts a freshly
+ * authenticated session. The supervisor owns the connection state machine
+ * and, when the socket is lost, retries the full connect (4-step join plus
+ * world load) with capped exponential backoff until it succeeds or the
+ * attempt budget is spent.
+ *
+ * States:
+ *  - `connecting` — a connect or reconnect attempt is in flight
+ *  - `connected`  — the session is live; reads and writes are served
+ *  - `degraded`   — the socket was lost; cached reads are still served, writes
+ *                   fail, and a reconnect is scheduled
+ *  - `offline`    — never connected, disconnected on purpose, or out of
+ *                   reconnect attempts
+ */
+
+import { logger } from '../utils/logger.js';
+
+export type ConnectionState = 'connecting' | 'connected' | 'degraded' | 'offline';
+
+/** A single state change, kept for the health report. */
+export interface ConnectionTransition {
+  state: ConnectionState;
+  at: string;
+  reason?: string;
+}
+
+/** Snapshot of the supervisor, surfaced by `get_health_status`. */
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** ISO timestamp of the last state change. */
+  since: string;
+  /** Consecutive failed reconnect attempts since the connection was lost. */
+  failedAttempts: number;
+  lastError?: string;
+  /** Most recent transitions, oldest first. */
+  transitions: ConnectionTransition[];
+}
+
+export interface ReconnectOptions {
+  /** Delay before the first reconnect attempt, doubled per failure (ms). */
+  baseDelay: number;
+  /** Upper bound on the backoff delay (ms). */
+  maxDelay: number;
+  /** Give up after this many consecutive failures; 0 retries forever. */
+  maxAttempts: number;
+}
+
+/** Number of transitions retained for the health report. */
+const TRANSITION_HISTORY = 20;
+
+export class ReconnectSupervisor {
+  private state: ConnectionState = 'offline';
+  private since = new Date().toISOString();
+  private failedAttempts = 0;
+  private lastError: string | undefined;
+  private transitions: ConnectionTransition[] = [];
+  private timer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param connect - performs one full connect (authenticate, join, load world)
+   * @param options - backoff tuning
+   */
+  constructor(
+    private readonly connect: () => Promise<void>,
+    private readonly options: ReconnectOptions,
+  ) {}
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  getStatus(): ConnectionStatus {
+    const status: ConnectionStatus = {
+      state: this.state,
+      since: this.since,
+      failedAttempts: this.failedAttempts,
+      transitions: [...this.transitions],
+    };
+    if (this.lastError) {
+      status.lastError = this.lastError;
+    }
+    return status;
+  }
+
+  /**
+   * Records a state change. A successful connect resets the failure count.
+   */
+  transition(state: ConnectionState, reason?: string): void {
+    if (state === 'connected') {
+      this.failedAttempts = 0;
+      this.lastError = undefined;
+    }
+    if (state === this.state && reason === undefined) {
+      return;
+    }
+    this.state = state;
+    this.since = new Date().toISOString();
+    const entry: ConnectionTransition = { state, at: this.since };
+    if (reason) {
+      entry.reason = reason;
+    }
+    this.transitions.push(entry);
+    if (this.transitions.length > TRANSITION_HISTORY) {
+      this.transitions.shift();
+    }
+    logger.info(`FoundryVTT connection ${state}${reason ? `: ${reason}` : ''}`);
+  }
+
+  /**
+   * Reports an unexpected socket loss and schedules the first reconnect.
+   * Ignored while a reconnect cycle is already running.
+   */
+  connectionLost(reason: string): void {
+    if (this.state === 'degraded' || this.state === 'connecting' || this.timer) {
+      return;
+    }
+    this.failedAttempts = 0;
+    this.transition('degraded', reason);
+    this.schedule();
+  }
+
+  /**
+   * Cancels any pending reconnect and marks the connection offline.
+   */
+  stop(reason = 'disconnected'): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.transition('offline', reason);
+  }
+
+  /**
+   * Backoff for the next attempt: `baseDelay * 2^failures`, capped at
+   * `maxDelay`, plus up to 10% jitter so restarts are not hammered in lockstep.
+   */
+  nextDelay(): number {
+    const exponential = Math.min(
+      this.options.maxDelay,
+      this.options.baseDelay * 2 ** this.failedAttempts,
+    );
+    return exponential + Math.random() * 0.1 * exponential;
+  }
+
+  private schedule(): void {
+    const delay = this.nextDelay();
+    logger.info(`Reconnecting to FoundryVTT in ${Math.round(delay)}ms`, {
+      failedAttempts: this.failedAttempts,
+    });
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.attempt();
+    }, delay);
+    this.timer.unref?.();
+  }
+
+  private async attempt(): Promise<void> {
+    this.transition('connecting', `reconnect attempt ${this.failedAttempts + 1}`);
+    try {
+      await this.connect();
+      this.transition('connected', 'reconnected');
+    } catch (error) {
+      this.failedAttempts++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      logger.warn('FoundryVTT reconnect attempt failed', {
+        failedAttempts: this.failedAttempts,
+        error: this.lastError,
+      });
+      if (this.options.maxAttempts > 0 && this.failedAttempts >= this.options.maxAttempts) {
+        this.transition('offline', `gave up after ${this.failedAttempts} attempts`);
+        return;
+      }
+      this.transition('degraded', this.lastError);
+      this.schedule();
+    }
+  }
+}
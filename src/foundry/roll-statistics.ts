@@ -0,0 +1,241 @@
+/**
+ * @fileoverview d20 statistics over the chat log
+ *
+ * Aggregates the d20 rolls posted to chat per player (message author) and
+ * per character (speaker actor). A roll's natural result is the first kept
+ * d20 of its formula; every d20 face rolled, kept or not, also goes into a
+ * fairness sample compared against the fair die (mean 10.5), so advantage
+ * rolls do not skew it. Advantage is read from the d20 term's keep and drop
+ * modifiers. Players and characters are grouped by id. DCs come from the roll's `options.target` (dnd5e
+ * records it) or a `DC 15` in the flavor text.
+ */
+
+import {
+  type ChatDieResult,
+  type ChatRoll,
+  messageAuthor,
+  parseMessageRolls,
+  resolveUserId,
+} from './chat-log.js';
+import type { WorldData, WorldMessage } from './types.js';
+
+/** Mean and standard deviation of one fair d20. */
+const D20_MEAN = 10.5;
+const D20_SD = Math.sqrt((20 * 20 - 1) / 12);
+
+/** Mean of the higher and of the lower of two d20s. */
+const ADVANTAGE_MEAN = 13.825;
+const DISADVANTAGE_MEAN = 7.175;
+
+/** Standard score beyond which a sample of faces is flagged as unusual. */
+export const UNUSUAL_Z = 3;
+
+export interface RollStatisticsQuery {
+  /** Earliest and latest timestamps (inclusive), ms since the epoch. */
+  since?: number;
+  until?: number;
+  /** Only rolls spoken as this actor. */
+  actorId?: string;
+  /** Only rolls posted by this user (id or name). */
+  user?: string;
+}
+
+export interface RollStats {
+  /** User or actor id; absent for the overall row. */
+  id?: string;
+  /** Player or character name. */
+  name: string;
+  /** d20 rolls, each counted once by its natural result. */
+  rolls: number;
+  natural20s: number;
+  natural1s: number;
+  /** Mean natural result, and what fair dice would average with the same advantage. */
+  average: number;
+  expected: number;
+  /** Every d20 face rolled, including dice dropped by advantage. */
+  faces: number;
+  /** Mean of every face rolled, and its standard score against a fair die. */
+  faceAverage: number;
+  z: number;
+  /** Rolls made against a known DC, and how many met it. */
+  checks: number;
+  successes: number;
+  /** Longest runs of natural results above 10 and of 10 or below. */
+  longestHighStreak: number;
+  longestLowStreak: number;
+}
+
+export interface RollStatistics {
+  overall: RollStats;
+  byUser: RollStats[];
+  byActor: RollStats[];
+  from?: number;
+  to?: number;
+}
+
+/** The outcomes of one player or character. */
+interface Group {
+  name: string;
+  outcomes: Outcome[];
+}
+
+interface Outcome {
+  natural: number;
+  expected: number;
+  faces: number[];
+  success?: boolean;
+}
+
+/**
+ * Aggregates the d20 rolls in the world's chat log, oldest first. Groups
+ * are sorted by roll count, largest first.
+ *
+ * @throws Error when `query.user` names no user
+ */
+export function rollStatistics(world: WorldData, query: RollStatisticsQuery = {}): RollStatistics {
+  const overall: Outcome[] = [];
+  const byUser = new Map<string, Group>();
+  const byActor = new Map<string, Group>();
+  let from: number | undefined;
+  let to: number | undefined;
+  const userId = query.user ? resolveUserId(world.users, query.user) : undefined;
+
+  for (const message of world.messages) {
+    if (!inScope(message, query, userId)) {
+      continue;
+    }
+    const outcomes = parseMessageRolls(message).flatMap((roll) => outcomeOf(roll, message));
+    if (outcomes.length === 0) {
+      continue;
+    }
+    from ??= message.timestamp;
+    to = message.timestamp;
+    overall.push(...outcomes);
+    const author = messageAuthor(message);
+    const user = world.users.find((u) => u._id === author)?.name ?? author;
+    append(byUser, author, user, outcomes);
+    const actorId = message.speaker?.actor;
+    if (actorId) {
+      const actor =
+        world.actors.find((a) => a._id === actorId)?.name ?? message.speaker?.alias ?? actorId;
+      append(byActor, actorId, actor, outcomes);
+    }
+  }
+
+  const groups = (map: Map<string, Group>) =>
+    [...map]
+      .map(([id, { name, outcomes }]) => ({ id, ...summarize(name, outcomes) }))
+      .sort((a, b) => b.rolls - a.rolls);
+  const statistics: RollStatistics = {
+    overall: summarize('Everyone', overall),
+    byUser: groups(byUser),
+    byActor: groups(byActor),
+  };
+  if (from !== undefined && to !== undefined) {
+    statistics.from = from;
+    statistics.to = to;
+  }
+  return statistics;
+}
+
+function inScope(
+  message: WorldMessage,
+  query: RollStatisticsQuery,
+  userId: string | undefined,
+): boolean {
+  return (
+    (query.since === undefined || message.timestamp >= query.since) &&
+    (query.until === undefined || message.timestamp <= query.until) &&
+    (!query.actorId || message.speaker?.actor === query.actorId) &&
+    (!userId || messageAuthor(message) === userId)
+  );
+}
+
+function append(map: Map<string, Group>, id: string, name: string, outcomes: Outcome[]): void {
+  const group = map.get(id) ?? { name, outcomes: [] };
+  group.outcomes.push(...outcomes);
+  map.set(id, group);
+}
+
+/** The d20 outcome of a roll, if it has a d20 with a kept result. */
+function outcomeOf(roll: ChatRoll, message: WorldMessage): Outcome[] {
+  const d20s = roll.dice.filter((d) => d.die === 'd20');
+  const natural = d20s.find((d) => d.results.length > 0)?.results[0];
+  if (natural === undefined) {
+    return [];
+  }
+  const advantage = d20s[0] ? advantageOf(d20s[0]) : undefined;
+  const outcome: Outcome = {
+    natural,
+    expected:
+      advantage === 'disadvantage'
+        ? DISADVANTAGE_MEAN
+        : advantage === 'advantage'
+          ? ADVANTAGE_MEAN
+          : D20_MEAN,
+    faces: d20s.flatMap((d) => [...d.results, ...d.discarded]),
+  };
+  const dc = roll.target ?? dcIn(roll.flavor) ?? dcIn(message.flavor);
+  if (dc !== undefined && Number.isFinite(roll.total)) {
+    outcome.success = roll.total >= dc;
+  }
+  return [outcome];
+}
+
+/**
+ * Advantage or disadvantage of a two-dice d20 term, from its keep or drop
+ * modifier: `kh`/`k`/`dl`/`d` keep the higher die, `kl`/`dh` the lower.
+ */
+function advantageOf(die: ChatDieResult): 'advantage' | 'disadvantage' | undefined {
+  if (die.number !== 2) {
+    return undefined;
+  }
+  for (const modifier of die.modifiers ?? []) {
+    const match = modifier.match(/^(kh|kl|k|dh|dl|d)1?$/);
+    if (match) {
+      return match[1] === 'kl' || match[1] === 'dh' ? 'disadvantage' : 'advantage';
+    }
+  }
+  return undefined;
+}
+
+function dcIn(text: string | undefined): number | undefined {
+  const match = text?.match(/\bDC\s*(\d+)/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+function summarize(name: string, outcomes: Outcome[]): RollStats {
+  const naturals = outcomes.map((o) => o.natural);
+  const faces = outcomes.flatMap((o) => o.faces);
+  const checked = outcomes.filter((o) => o.success !== undefined);
+  const faceAverage = mean(faces);
+  return {
+    name,
+    rolls: naturals.length,
+    natural20s: naturals.filter((n) => n === 20).length,
+    natural1s: naturals.filter((n) => n === 1).length,
+    average: mean(naturals),
+    expected: outcomes.length ? mean(outcomes.map((o) => o.expected)) : D20_MEAN,
+    faces: faces.length,
+    faceAverage,
+    z: faces.length ? (faceAverage - D20_MEAN) / (D20_SD / Math.sqrt(faces.length)) : 0,
+    checks: checked.length,
+    successes: checked.filter((o) => o.success).length,
+    longestHighStreak: longestRun(naturals, (n) => n > 10),
+    longestLowStreak: longestRun(naturals, (n) => n <= 10),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function longestRun(values: number[], test: (value: number) => boolean): number {
+  let longest = 0;
+  let current = 0;
+  for (const value of values) {
+    current = test(value) ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
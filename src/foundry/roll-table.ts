@@ -0,0 +1,224 @@
+/**
+ * @fileoverview RollTable draws, made the way `RollTable#draw` makes them
+ *
+ * A draw rolls the table formula and takes every result whose range covers
+ * the total. Tables without replacement only consider results that are not
+ * yet drawn — including those drawn earlier in the same request — and are
+ * rerolled when the total lands on a drawn result. A result linking another
+ * RollTable is replaced by a draw from that table, up to
+ * {@link MAX_TABLE_DEPTH} levels deep.
+ *
+ * Rolling and loading linked tables are left to the caller, so draws use the
+ * client's committed dice session and its UUID resolver.
+ */
+
+import { toFoundryRoll } from '../dice/foundry-roll.js';
+import type { EvaluatedRoll } from '../dice/roller.js';
+import type { ChatMessageInput } from './chat-message.js';
+import type { CompendiumPack } from './compendium.js';
+import type { WorldRollTable, WorldTableResult } from './types.js';
+
+/** Deepest chain of linked tables followed, as in FoundryVTT. */
+export const MAX_TABLE_DEPTH = 5;
+
+/** Rerolls allowed when the total lands only on drawn results. */
+const MAX_REROLLS = 100;
+
+/** One draw from a table: its roll and the results the total selected. */
+export interface TableDraw {
+  table: WorldRollTable;
+  /** UUID of the table, `RollTable.<id>` or a compendium UUID. */
+  uuid: string;
+  roll: EvaluatedRoll;
+  results: DrawnResult[];
+}
+
+export interface DrawnResult {
+  result: WorldTableResult;
+  /** UUID of the linked document, for document and compendium results. */
+  uuid?: string;
+  /** The draw from a linked RollTable, which replaces this result. */
+  draw?: TableDraw;
+}
+
+export interface TableDrawSource {
+  roll(formula: string): EvaluatedRoll;
+  /** Loads a RollTable linked from a result; undefined when it does not exist. */
+  loadTable(uuid: string): Promise<WorldRollTable | undefined>;
+  /** Pack metadata, to build UUIDs of pre-v13 compendium results. */
+  packs: CompendiumPack[];
+}
+
+/** The table formula; without one, a die covering every result's range. */
+export function tableFormula(table: WorldRollTable): string {
+  const formula = table.formula?.trim();
+  if (formula) {
+    return formula;
+  }
+  const highest = Math.max(0, ...table.results.map((r) => r.range[1]));
+  if (highest < 1) {
+    throw new Error(`Table ${table.name} has no formula and no result ranges`);
+  }
+  return `1d${highest}`;
+}
+
+/** The text shown for a result: its name (v13) or text, else its description. */
+export function resultLabel(result: WorldTableResult): string {
+  return result.name || result.text || result.description || '(blank result)';
+}
+
+/** UUID of the document a result links, if any. */
+export function resultUuid(result: WorldTableResult, packs: CompendiumPack[]): string | undefined {
+  if (result.documentUuid) {
+    return result.documentUuid;
+  }
+  const { documentCollection: collection, documentId: id } = result;
+  if (!collection || !id) {
+    return undefined;
+  }
+  if (result.type === 'pack' || result.type === 2) {
+    const pack = packs.find((p) => p.id === collection);
+    return pack ? `Compendium.${collection}.${pack.type}.${id}` : undefined;
+  }
+  if (result.type === 'document' || result.type === 1) {
+    return `${collection}.${id}`;
+  }
+  return undefined;
+}
+
+/**
+ * Draws `count` times from `table`. Results of tables without replacement
+ * are not drawn twice within one call.
+ *
+ * @throws Error when every result is already drawn, no result covers the
+ *   rolled totals, or linked tables nest too deeply
+ */
+export async function drawFromTable(
+  table: WorldRollTable,
+  source: TableDrawSource,
+  count = 1,
+): Promise<TableDraw[]> {
+  const taken = new Map<string, Set<string>>();
+  const draws: TableDraw[] = [];
+  for (let i = 0; i < count; i++) {
+    draws.push(await drawOnce(table, `RollTable.${table._id}`, source, taken, 1));
+  }
+  return draws;
+}
+
+async function drawOnce(
+  table: WorldRollTable,
+  uuid: string,
+  source: TableDrawSource,
+  taken: Map<string, Set<string>>,
+  depth: number,
+): Promise<TableDraw> {
+  if (depth > MAX_TABLE_DEPTH) {
+    throw new Error(
+      `Linked tables nest deeper than ${MAX_TABLE_DEPTH} levels (reached ${table.name})`,
+    );
+  }
+  const replacement = table.replacement !== false;
+  const excluded = taken.get(uuid) ?? new Set<string>();
+  taken.set(uuid, excluded);
+  const available = replacement
+    ? table.results
+    : table.results.filter((r) => !r.drawn && !excluded.has(r._id));
+  if (available.length === 0) {
+    throw new Error(
+      `All results of ${table.name} have been drawn; reset the table in FoundryVTT to draw again`,
+    );
+  }
+
+  const formula = tableFormula(table);
+  let roll = source.roll(formula);
+  let matched = resultsForTotal(available, roll.total);
+  for (let attempt = 0; matched.length === 0 && attempt < MAX_REROLLS; attempt++) {
+    roll = source.roll(formula);
+    matched = resultsForTotal(available, roll.total);
+  }
+  if (matched.length === 0) {
+    throw new Error(
+      `No ${replacement ? '' : 'undrawn '}result of ${table.name} covers the totals ${formula} rolled`,
+    );
+  }
+
+  const results: DrawnResult[] = [];
+  for (const result of matched) {
+    if (!replacement) {
+      excluded.add(result._id);
+    }
+    const drawn: DrawnResult = { result };
+    const linked = resultUuid(result, source.packs);
+    if (linked) {
+      drawn.uuid = linked;
+      if (isRollTableUuid(linked)) {
+        const inner = await source.loadTable(linked);
+        if (inner) {
+          drawn.draw = await drawOnce(inner, linked, source, taken, depth + 1);
+        }
+      }
+    }
+    results.push(drawn);
+  }
+  return { table, uuid, roll, results };
+}
+
+function resultsForTotal(results: WorldTableResult[], total: number): WorldTableResult[] {
+  return results.filter((r) => r.range[0] <= total && total <= r.range[1]);
+}
+
+function isRollTableUuid(uuid: string): boolean {
+  return /(^|\.)RollTable\.[a-zA-Z0-9]{16}$/.test(uuid);
+}
+
+/**
+ * Result ids to flag `drawn`, per world table without replacement. Tables
+ * linked from compendium packs are left alone; packs are not written.
+ */
+export function drawnResultIds(draws: TableDraw[]): Map<string, string[]> {
+  const ids = new Map<string, string[]>();
+  const visit = (draw: TableDraw) => {
+    if (draw.table.replacement === false && draw.uuid.startsWith('RollTable.')) {
+      const list = ids.get(draw.table._id) ?? [];
+      list.push(...draw.results.map((r) => r.result._id));
+      ids.set(draw.table._id, list);
+    }
+    for (const result of draw.results) {
+      if (result.draw) {
+        visit(result.draw);
+      }
+    }
+  };
+  draws.forEach(visit);
+  return ids;
+}
+
+/** The final results of a draw, with linked tables expanded to their draws. */
+export function flattenResults(draw: TableDraw): DrawnResult[] {
+  return draw.results.flatMap((r) => (r.draw ? flattenResults(r.draw) : [r]));
+}
+
+/**
+ * The chat card FoundryVTT posts for a draw: the results as a list (linked
+ * documents as `@UUID` links), the rolls unless the table hides them, and
+ * the `core.RollTable` flag.
+ */
+export function tableDrawMessage(table: WorldRollTable, draws: TableDraw[]): ChatMessageInput {
+  const results = draws.flatMap(flattenResults);
+  const items = results.map(({ result, uuid }) => {
+    const label = resultLabel(result);
+    const text = uuid ? `@UUID[${uuid}]{${label}}` : label;
+    const img = result.img ? `<img src="${result.img}">` : '';
+    return `<li class="table-result">${img}<div class="result-text">${text}</div></li>`;
+  });
+  const message: ChatMessageInput = {
+    content: `<div class="table-draw"><ul class="table-results">${items.join('')}</ul></div>`,
+    flavor: `Draws ${results.length} result${results.length === 1 ? '' : 's'} from the ${table.name} table.`,
+    flags: { core: { RollTable: table._id } },
+  };
+  if (table.displayRoll !== false) {
+    message.rolls = draws.map((d) => toFoundryRoll(d.roll));
+  }
+  return message;
+}
@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Session transcripts of the chat log
+ *
+ * Renders a time range of chat messages as a Markdown or HTML transcript for
+ * a session recap: speakers resolved to actor and user names, in-character
+ * speech, emotes and out-of-character talk told apart, whispers marked and
+ * rolls written out. Scene changes and combat rounds are interleaved where
+ * known — from the speaker's scene on each message, and from the Combat and
+ * Scene changes the client has seen while connected (see
+ * {@link sessionEventsOf}), since messages do not record the round.
+ */
+
+import {
+  type ChatRoll,
+  formatChatRoll,
+  messageAuthor,
+  messageVisibility,
+  parseMessageRolls,
+  stripHtml,
+} from './chat-log.js';
+import type { WorldData, WorldMessage } from './types.js';
+import type { DocumentChange } from './world-sync.js';
+
+export type SessionLogFormat = 'markdown' | 'html';
+
+export const SESSION_LOG_FORMATS: readonly SessionLogFormat[] = ['markdown', 'html'];
+
+/** A scene change, combat round or combat end seen on the socket. */
+export interface SessionEvent {
+  timestamp: number;
+  kind: 'scene' | 'round' | 'combat-end';
+  /** Scene name, the round number as text, or `Combat ended`. */
+  label: string;
+}
+
+export interface SessionLogOptions {
+  format: SessionLogFormat;
+  /** Earliest and latest timestamps (inclusive), ms since the epoch. */
+  since?: number;
+  until?: number;
+  /** Leave out whispered and blind messages (default: include and mark them). */
+  excludeWhispers?: boolean;
+  title?: string;
+}
+
+export interface SessionLog {
+  document: string;
+  messages: number;
+  /** Timestamps of the first and last messages included. */
+  from?: number;
+  to?: number;
+}
+
+/** `CONST.CHAT_MESSAGE_STYLES` / v11 `CHAT_MESSAGE_TYPES` values. */
+const OOC = 1;
+const IC = 2;
+const EMOTE = 3;
+
+type Speech = 'ic' | 'ooc' | 'emote';
+
+/** One line of the transcript, before it is written in a format. */
+type Entry =
+  | { kind: 'heading'; level: 2 | 3; text: string }
+  | {
+      kind: 'message';
+      time: string;
+      speaker: string;
+      player?: string;
+      speech: Speech;
+      text: string;
+      flavor?: string;
+      whisper?: string;
+      rolls: ChatRoll[];
+    };
+
+/**
+ * The session events a committed change implies: a scene activated, a
+ * combat's round advanced, a combat deleted.
+ */
+export function sessionEventsOf(
+  change: DocumentChange,
+  world: WorldData,
+  timestamp: number,
+): SessionEvent[] {
+  if (change.parentUuid || (change.type !== 'Scene' && change.type !== 'Combat')) {
+    return [];
+  }
+  if (change.type === 'Combat' && change.action === 'delete') {
+    return change.result.length ? [{ timestamp, kind: 'combat-end', label: 'Combat ended' }] : [];
+  }
+  if (change.action !== 'update') {
+    return [];
+  }
+  return change.result.flatMap((diff): SessionEvent[] => {
+    if (!isRecord(diff)) {
+      return [];
+    }
+    if (change.type === 'Scene' && diff.active === true) {
+      const scene = world.scenes.find((s) => s._id === diff._id);
+      return [{ timestamp, kind: 'scene', label: scene?.name ?? String(diff._id) }];
+    }
+    if (change.type === 'Combat' && typeof diff.round === 'number' && diff.round > 0) {
+      return [{ timestamp, kind: 'round', label: String(diff.round) }];
+    }
+    return [];
+  });
+}
+
+/**
+ * Renders the messages in the options' time range as a transcript.
+ *
+ * @param events - scene and round events, in time order
+ */
+export function renderSessionLog(
+  world: WorldData,
+  events: SessionEvent[],
+  options: SessionLogOptions,
+): SessionLog {
+  const inRange = (timestamp: number) =>
+    (options.since === undefined || timestamp >= options.since) &&
+    (options.until === undefined || timestamp <= options.until);
+  const messages = world.messages.filter(
+    (m) => inRange(m.timestamp) && !(options.excludeWhispers && messageVisibility(m) !== 'public'),
+  );
+
+  const entries: Entry[] = [];
+  const pending = events.filter((e) => inRange(e.timestamp));
+  let scene: string | undefined;
+  const addScene = (name: string) => {
+    if (name !== scene) {
+      scene = name;
+      entries.push({ kind: 'heading', level: 2, text: `🎬 ${name}` });
+    }
+  };
+  for (const message of messages) {
+    while (pending[0] && pending[0].timestamp <= message.timestamp) {
+      const event = pending.shift() as SessionEvent;
+      if (event.kind === 'scene') {
+        addScene(event.label);
+      } else {
+        const text = event.kind === 'round' ? `Round ${event.label}` : event.label;
+        entries.push({ kind: 'heading', level: 3, text: `⚔️ ${text}` });
+      }
+    }
+    const sceneName = world.scenes.find((s) => s._id === message.speaker?.scene)?.name;
+    if (sceneName) {
+      addScene(sceneName);
+    }
+    entries.push(messageEntry(world, message));
+  }
+
+  const log: SessionLog = {
+    document: '',
+    messages: messages.length,
+  };
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+  if (first && last) {
+    log.from = first.timestamp;
+    log.to = last.timestamp;
+  }
+  const title =
+    options.title ??
+    `Session Log — ${typeof world.world?.title === 'string' ? world.world.title : 'FoundryVTT'}`;
+  const span =
+    first && last
+      ? `${formatDate(first.timestamp)} – ${formatDate(last.timestamp)} UTC · ${messages.length} messages`
+      : 'No messages in this range';
+  log.document =
+    options.format === 'html'
+      ? renderHtml(title, span, entries)
+      : renderMarkdown(title, span, entries);
+  return log;
+}
+
+function messageEntry(world: WorldData, message: WorldMessage): Entry {
+  const author = world.users.find((u) => u._id === messageAuthor(message))?.name;
+  const actor = world.actors.find((a) => a._id === message.speaker?.actor)?.name;
+  const speaker = message.speaker?.alias || actor || author || 'Unknown';
+  const style = message.style ?? message.type;
+  const speech: Speech =
+    style === EMOTE
+      ? 'emote'
+      : style === IC || (style !== OOC && (message.speaker?.actor || message.speaker?.token))
+        ? 'ic'
+        : 'ooc';
+
+  const entry: Entry = {
+    kind: 'message',
+    time: formatTime(message.timestamp),
+    speaker,
+    speech,
+    text: stripHtml(message.content),
+    rolls: parseMessageRolls(message),
+  };
+  if (author && author !== speaker) {
+    entry.player = author;
+  }
+  if (message.flavor) {
+    entry.flavor = stripHtml(message.flavor);
+  }
+  const visibility = messageVisibility(message);
+  if (visibility !== 'public') {
+    const recipients = (message.whisper ?? []).map(
+      (id) => world.users.find((u) => u._id === id)?.name ?? id,
+    );
+    entry.whisper = `${visibility === 'blind' ? 'blind roll' : 'whisper'}${
+      recipients.length ? ` to ${recipients.join(', ')}` : ''
+    }`;
+  }
+  // A roll message's content is its total, which the roll line repeats.
+  if (entry.rolls.length > 0 && /^-?\d+$/.test(entry.text)) {
+    entry.text = '';
+  }
+  return entry;
+}
+
+function renderMarkdown(title: string, span: string, entries: Entry[]): string {
+  const lines = [`# ${title}`, '', `_${span}_`, ''];
+  for (const entry of entries) {
+    if (entry.kind === 'heading') {
+      lines.push('', `${'#'.repeat(entry.level)} ${entry.text}`, '');
+    } else {
+      const who = `${entry.speaker}${entry.player ? ` (${entry.player})` : ''}`;
+      const whisper = entry.whisper ? ` _(${entry.whisper})_` : '';
+      const flavor = entry.flavor ? `_${entry.flavor}_ ` : '';
+      const text =
+        entry.speech === 'emote'
+          ? `_${entry.speaker} ${entry.text}_`
+          : entry.speech === 'ic'
+            ? `**${who}:** ${flavor}${entry.text ? `“${entry.text}”` : ''}`
+            : `_(OOC)_ **${who}:** ${flavor}${entry.text}`;
+      lines.push(`- \`${entry.time}\` ${text.trimEnd()}${whisper}`);
+      for (const roll of entry.rolls) {
+        lines.push(`  - 🎲 ${formatChatRoll(roll)}`);
+      }
+    }
+  }
+  return `${lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()}\n`;
+}
+
+function renderHtml(title: string, span: string, entries: Entry[]): string {
+  const body = entries.map((entry) => {
+    if (entry.kind === 'heading') {
+      return `<h${entry.level}>${escapeHtml(entry.text)}</h${entry.level}>`;
+    }
+    const who = `${escapeHtml(entry.speaker)}${entry.player ? ` (${escapeHtml(entry.player)})` : ''}`;
+    const flavor = entry.flavor ? `<em class="flavor">${escapeHtml(entry.flavor)}</em> ` : '';
+    const text =
+      entry.speech === 'emote'
+        ? `<em>${escapeHtml(entry.speaker)} ${escapeHtml(entry.text)}</em>`
+        : `<strong>${who}:</strong> ${flavor}${escapeHtml(entry.text)}`;
+    const whisper = entry.whisper
+      ? ` <span class="whisper">(${escapeHtml(entry.whisper)})</span>`
+      : '';
+    const rolls = entry.rolls
+      .map((roll) => {
+        const text = escapeHtml(formatChatRoll(roll)).replace(/~~(.+?)~~/g, '<del>$1</del>');
+        return `\n  <div class="roll">🎲 ${text}</div>`;
+      })
+      .join('');
+    const classes = ['message', entry.speech, ...(entry.whisper ? ['whispered'] : [])];
+    return `<div class="${classes.join(' ')}"><time>${entry.time}</time> ${
+      entry.speech === 'ooc' ? '<span class="ooc-tag">(OOC)</span> ' : ''
+    }${text}${whisper}${rolls}</div>`;
+  });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; }
+  time { color: #888; font-family: monospace; font-size: 0.85em; }
+  .ooc { color: #555; }
+  .whisper, .ooc-tag { color: #888; font-style: italic; }
+  .roll { margin-left: 4.5rem; font-family: monospace; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p><em>${escapeHtml(span)}</em></p>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** `HH:MM` in UTC. */
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 16);
+}
+
+/** `YYYY-MM-DD HH:MM` in UTC. */
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
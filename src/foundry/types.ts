@@ -10,6 +10,10 @@
  * @see {@link https://foundryvtt.com/api/} FoundryVTT API Documentation
  */
 
+import type { FoundryRollData } from '../dice/foundry-roll.js';
+import type { RollDataSubstitution } from '../dice/roll-data.js';
+import type { DiceTermResult } from '../dice/roller.js';
+
 // FoundryVTT Data Types
 
 /**
@@ -477,6 +481,14 @@ export interface DiceRoll {
   formula: string;
   total: number;
   breakdown: string;
+  /** Term-by-term results; present for locally evaluated rolls. */
+  terms?: DiceTermResult[];
+  /** `@` references filled in from the rolling actor's data. */
+  substitutions?: RollDataSubstitution[];
+  /** FoundryVTT `Roll` data for posting to chat; present for locally evaluated rolls. */
+  roll?: FoundryRollData;
+  /** Rolled for a previewed write, off the committed dice session; the real run rolls again. */
+  preview?: boolean;
   reason?: string;
   timestamp: string;
 }
@@ -567,9 +579,9 @@ export interface CompendiumSearchEntry {
 /**
  * Result envelope for a compendium search.
  *
- * `restAvailable` signals whether the REST API module (FOUNDRY_API_KEY) was
- * present. When false, `results` is empty and the handler surfaces a note
- * explaining that compendium search requires REST mode.
+ * `restAvailable` signals whether a compendium backend was available — the
+ * REST API module (FOUNDRY_API_KEY) or a live Socket.IO session. When false,
+ * `results` is empty and the handler surfaces a note explaining why.
  *
  * `nextCursor` carries the opaque pagination cursor for the following page
  * (an offset, base64-encoded); it is `null` when no further results exist.
@@ -820,7 +832,11 @@ export interface WorldJournal {
 export interface WorldMessage {
   _id: string;
   type: number;
+  /** `CONST.CHAT_MESSAGE_STYLES` (v12+): 0 other, 1 out of character, 2 in character, 3 emote. */
+  style?: number;
   user: string;
+  /** The posting user (v12+; `user` before). */
+  author?: string;
   timestamp: number;
   flavor?: string;
   content: string;
@@ -837,6 +853,45 @@ export interface WorldMessage {
   flags?: Record<string, unknown>;
 }
 
+/**
+ * One result of a RollTable. v12 stores the label in `text` and links a
+ * document through `documentCollection` / `documentId` (`type` `document`
+ * or `pack`; 1 and 2 before v12); v13 has `name`, `description` and
+ * `documentUuid`.
+ */
+export interface WorldTableResult {
+  _id: string;
+  type: string | number;
+  text?: string;
+  name?: string;
+  description?: string;
+  img?: string;
+  weight?: number;
+  /** Inclusive [low, high] totals of the table formula that draw this result. */
+  range: [number, number];
+  drawn?: boolean;
+  documentCollection?: string;
+  documentId?: string;
+  documentUuid?: string;
+}
+
+/**
+ * Raw RollTable document from worldData.
+ */
+export interface WorldRollTable {
+  _id: string;
+  name: string;
+  description?: string;
+  img?: string;
+  formula?: string;
+  /** False when a drawn result is set aside until the table is reset. Default true. */
+  replacement?: boolean;
+  /** Whether draws show the roll in chat. Default true. */
+  displayRoll?: boolean;
+  results: WorldTableResult[];
+  folder?: string | null;
+}
+
 /**
  * Raw combat document from worldData.
  */
@@ -934,7 +989,7 @@ export interface WorldData {
   folders: Array<Record<string, unknown>>;
   macros: Array<Record<string, unknown>>;
   playlists: Array<Record<string, unknown>>;
-  tables: Array<Record<string, unknown>>;
+  tables: WorldRollTable[];
   cards: Array<Record<string, unknown>>;
   packs: Array<Record<string, unknown>>;
   // Additional fields may be present depending on version
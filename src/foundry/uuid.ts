@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Document UUID parsing and resolution against the world cache
+ *
+ * FoundryVTT identifies every document by a UUID: the chain of
+ * `<DocumentName>.<id>` pairs from a top-level document down to the one
+ * addressed, optionally rooted in a compendium pack:
+ *
+ *  - `Actor.<id>`, `JournalEntry.<id>.JournalEntryPage.<pid>`
+ *  - `Scene.<sid>.Token.<tid>.Actor.<aid>` — an unlinked token's synthetic
+ *    actor, and `….Actor.<aid>.Item.<iid>` below it
+ *  - `Compendium.<package>.<pack>.<Type>.<id>[.<Type>.<id>…]`
+ *
+ * This module is the server-side counterpart of the browser's `fromUuid`
+ * for the world cache; compendium roots are fetched by the client. It also
+ * extracts the `@UUID[…]{label}` links that journal and chat text is full of.
+ */
+
+import type { WorldData } from './types.js';
+import { embeddedCollectionKey, mergeUpdate, resolveCollection } from './world-sync.js';
+
+/** One `<DocumentName>.<id>` step of a UUID. */
+export interface UuidPart {
+  type: string;
+  id: string;
+}
+
+export interface ParsedUuid {
+  uuid: string;
+  /** Compendium pack id (`<package>.<pack>`), or null for world documents. */
+  pack: string | null;
+  /** Steps from the root document down to the addressed one (never empty). */
+  parts: UuidPart[];
+}
+
+/** A `@UUID[…]` (or legacy `@Actor[…]`) link found in text. */
+export interface UuidLink {
+  uuid: string;
+  label?: string;
+}
+
+const DOCUMENT_NAME = /^[A-Z][A-Za-z]+$/;
+const DOCUMENT_ID = /^[a-zA-Z0-9]{16}$/;
+
+/**
+ * Parses an absolute UUID. Returns null for anything malformed, including
+ * relative UUIDs (`.Item.<id>`), which need a base document to resolve.
+ */
+export function parseUuid(uuid: string): ParsedUuid | null {
+  const segments = uuid.split('.');
+  let pack: string | null = null;
+  if (segments[0] === 'Compendium') {
+    if (segments.length < 5) {
+      return null;
+    }
+    pack = `${segments[1]}.${segments[2]}`;
+    segments.splice(0, 3);
+  }
+  if (segments.length < 2 || segments.length % 2 !== 0) {
+    return null;
+  }
+  const parts: UuidPart[] = [];
+  for (let i = 0; i < segments.length; i += 2) {
+    const type = segments[i] as string;
+    const id = segments[i + 1] as string;
+    if (!DOCUMENT_NAME.test(type) || !DOCUMENT_ID.test(id)) {
+      return null;
+    }
+    parts.push({ type, id });
+  }
+  return { uuid, pack, parts };
+}
+
+/** Builds a UUID from its parts (the inverse of {@link parseUuid}). */
+export function buildUuid(parts: UuidPart[], pack: string | null = null): string {
+  const path = parts.map((p) => `${p.type}.${p.id}`).join('.');
+  return pack ? `Compendium.${pack}.${path}` : path;
+}
+
+/**
+ * UUID of the actor a token represents: the world actor for a linked token,
+ * the token's synthetic actor otherwise.
+ */
+export function tokenActorUuid(
+  sceneId: string,
+  tokenId: string,
+  actorId: string,
+  linked: boolean,
+): string {
+  return linked
+    ? buildUuid([{ type: 'Actor', id: actorId }])
+    : buildUuid([
+        { type: 'Scene', id: sceneId },
+        { type: 'Token', id: tokenId },
+        { type: 'Actor', id: actorId },
+      ]);
+}
+
+/**
+ * True for the two UUID forms an actor on a token can take: `Actor.<id>`
+ * and `Scene.<sid>.Token.<tid>.Actor.<aid>`.
+ */
+export function isTokenActorUuid(uuid: string): boolean {
+  const parsed = parseUuid(uuid);
+  if (!parsed || parsed.pack) {
+    return false;
+  }
+  const types = parsed.parts.map((p) => p.type).join('.');
+  return types === 'Actor' || types === 'Scene.Token.Actor';
+}
+
+/**
+ * Finds document links in journal or chat text: `@UUID[<uuid>]{label}` and
+ * the legacy `@Actor[<id>]{label}` form (any document name). Duplicates are
+ * kept once, in order of first appearance.
+ */
+export function extractUuidLinks(text: string): UuidLink[] {
+  const links = new Map<string, UuidLink>();
+  for (const match of text.matchAll(/@(UUID|[A-Z][A-Za-z]+)\[([^\]]+)\](?:\{([^}]*)\})?/g)) {
+    const [, kind, target, label] = match as unknown as [string, string, string, string?];
+    const uuid = kind === 'UUID' ? target : `${kind}.${target}`;
+    if (!links.has(uuid)) {
+      links.set(uuid, label ? { uuid, label } : { uuid });
+    }
+  }
+  return [...links.values()];
+}
+
+/**
+ * Resolves a world UUID against the cached world. Unlinked token actors are
+ * materialised as Foundry does: the base world actor with the token's
+ * `delta` merged over it, embedded documents matched by id.
+ *
+ * @returns a copy of the document, or null when any step is not cached
+ */
+export function resolveWorldUuid(
+  world: WorldData,
+  parsed: ParsedUuid,
+): Record<string, unknown> | null {
+  const [root, ...rest] = parsed.parts;
+  if (!root || parsed.pack) {
+    return null;
+  }
+  const collection = resolveCollection(world, root.type);
+  const doc = collection?.find((d) => d._id === root.id);
+  return doc ? resolveEmbedded(world, structuredClone(doc), root.type, rest) : null;
+}
+
+/**
+ * Walks embedded documents below `root` (a world or compendium document of
+ * `rootType`). Pass `world` to resolve a token's synthetic actor against its
+ * base actor.
+ */
+export function resolveEmbedded(
+  world: WorldData | null,
+  root: Record<string, unknown>,
+  rootType: string,
+  parts: UuidPart[],
+): Record<string, unknown> | null {
+  let current = root;
+  let currentType = rootType;
+  for (const part of parts) {
+    const next =
+      part.type === 'Actor' && currentType === 'Token'
+        ? world && syntheticActor(world, current, part.id)
+        : findEmbedded(current, part);
+    if (!next) {
+      return null;
+    }
+    current = next;
+    currentType = part.type;
+  }
+  return current;
+}
+
+function findEmbedded(
+  parent: Record<string, unknown>,
+  part: UuidPart,
+): Record<string, unknown> | null {
+  const field = embeddedCollectionKey(part.type);
+  const collection = field ? parent[field] : undefined;
+  if (!Array.isArray(collection)) {
+    return null;
+  }
+  const doc: unknown = collection.find((d) => isRecord(d) && d._id === part.id);
+  return isRecord(doc) ? structuredClone(doc) : null;
+}
+
+/**
+ * The actor a token document represents: the world actor itself when the
+ * token is linked, otherwise the world actor with the token's `delta` applied
+ * (embedded `items` / `effects` in the delta replace or add by id).
+ */
+function syntheticActor(
+  world: WorldData,
+  token: Record<string, unknown>,
+  actorId: string,
+): Record<string, unknown> | null {
+  if (token.actorId !== actorId) {
+    return null;
+  }
+  const base = world.actors.find((a) => a._id === actorId) as Record<string, unknown> | undefined;
+  if (!base) {
+    return null;
+  }
+  const actor = structuredClone(base);
+  if (token.actorLink === true || !isRecord(token.delta)) {
+    return actor;
+  }
+  const { items, effects, ...fields } = structuredClone(token.delta);
+  mergeUpdate(actor, fields);
+  actor.items = mergeById(actor.items, items);
+  actor.effects = mergeById(actor.effects, effects);
+  return actor;
+}
+
+function mergeById(base: unknown, overrides: unknown): unknown[] {
+  const merged = Array.isArray(base) ? [...base] : [];
+  for (const doc of Array.isArray(overrides) ? overrides : []) {
+    const index = merged.findIndex((d) => isRecord(d) && isRecord(doc) && d._id === doc._id);
+    if (index >= 0) {
+      merged[index] = doc;
+    } else {
+      merged.push(doc);
+    }
+  }
+  return merged;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
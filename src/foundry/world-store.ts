@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Indexed view over the cached WorldData snapshot
+ *
+ * The raw `WorldData` arrays are convenient to cache but expensive to query:
+ * every id lookup is an `Array.find`, and locating a token means walking every
+ * scene. `WorldStore` wraps a snapshot with per-collection indices — id map,
+ * lower-cased name index and type index — plus a token → scene index, and
+ * keeps them current as document changes are applied, so lookups stay cheap
+ * in worlds with thousands of documents.
+ *
+ * The arrays remain the source of truth: the store mutates them through
+ * {@link applyDocumentChange} and only re-indexes the documents a change
+ * touched.
+ */
+
+import type {
+  WorldActor,
+  WorldData,
+  WorldItem,
+  WorldJournal,
+  WorldRollTable,
+  WorldScene,
+} from './types.js';
+import { applyDocumentChange, type DocumentChange, worldCollectionKey } from './world-sync.js';
+
+/** Top-level collections that carry id, name and type indices. */
+export type IndexedCollection = 'actors' | 'items' | 'scenes' | 'journal' | 'tables' | 'macros';
+
+const INDEXED_COLLECTIONS: readonly IndexedCollection[] = [
+  'actors',
+  'items',
+  'scenes',
+  'journal',
+  'tables',
+  'macros',
+];
+
+/** Document shape per indexed collection. */
+interface CollectionDocuments {
+  actors: WorldActor;
+  items: WorldItem;
+  scenes: WorldScene;
+  journal: WorldJournal;
+  tables: WorldRollTable;
+  macros: Record<string, unknown>;
+}
+
+interface IndexEntry {
+  doc: Record<string, unknown>;
+  /** Lower-cased name, as indexed. */
+  name: string;
+  /** Lower-cased type, as indexed ('' when the document has none). */
+  type: string;
+  /** Insertion sequence; keeps query results in world order. */
+  seq: number;
+}
+
+class CollectionIndex {
+  readonly byId = new Map<string, IndexEntry>();
+  private readonly byName = new Map<string, Set<string>>();
+  private readonly byType = new Map<string, Set<string>>();
+  private seq = 0;
+
+  constructor(docs: unknown[]) {
+    for (const doc of docs) {
+      if (isRecord(doc)) {
+        this.upsert(doc);
+      }
+    }
+  }
+
+  upsert(doc: Record<string, unknown>): void {
+    const id = doc._id;
+    if (typeof id !== 'string') {
+      return;
+    }
+    const previous = this.byId.get(id);
+    if (previous) {
+      removeFrom(this.byName, previous.name, id);
+      removeFrom(this.byType, previous.type, id);
+    }
+    const entry: IndexEntry = {
+      doc,
+      name: typeof doc.name === 'string' ? doc.name.toLowerCase() : '',
+      type: typeof doc.type === 'string' ? doc.type.toLowerCase() : '',
+      seq: previous?.seq ?? this.seq++,
+    };
+    this.byId.set(id, entry);
+    addTo(this.byName, entry.name, id);
+    addTo(this.byType, entry.type, id);
+  }
+
+  remove(id: string): void {
+    const entry = this.byId.get(id);
+    if (!entry) {
+      return;
+    }
+    this.byId.delete(id);
+    removeFrom(this.byName, entry.name, id);
+    removeFrom(this.byType, entry.type, id);
+  }
+
+  /**
+   * Documents whose name contains `query` and/or whose type equals `type`
+   * (both case-insensitive), in world order.
+   */
+  query(query?: string, type?: string): Record<string, unknown>[] {
+    const q = query?.toLowerCase();
+    const matches: IndexEntry[] = [];
+    if (type !== undefined) {
+      for (const id of this.byType.get(type.toLowerCase()) ?? []) {
+        const entry = this.byId.get(id) as IndexEntry;
+        if (!q || entry.name.includes(q)) {
+          matches.push(entry);
+        }
+      }
+    } else if (q) {
+      // Scan distinct names rather than documents.
+      for (const [name, ids] of this.byName) {
+        if (name.includes(q)) {
+          for (const id of ids) {
+            matches.push(this.byId.get(id) as IndexEntry);
+          }
+        }
+      }
+    } else {
+      matches.push(...this.byId.values());
+    }
+    return matches.sort((a, b) => a.seq - b.seq).map((e) => e.doc);
+  }
+
+  /** Documents whose name equals `name` (case-insensitive), in world order. */
+  named(name: string): Record<string, unknown>[] {
+    const ids = this.byName.get(name.toLowerCase());
+    if (!ids) {
+      return [];
+    }
+    return [...ids]
+      .map((id) => this.byId.get(id) as IndexEntry)
+      .sort((a, b) => a.seq - b.seq)
+      .map((e) => e.doc);
+  }
+}
+
+/**
+ * Indexed wrapper over a WorldData snapshot.
+ */
+export class WorldStore {
+  private readonly indices = new Map<IndexedCollection, CollectionIndex>();
+  /** Token id → id of the scene it is placed on. */
+  private readonly tokenScenes = new Map<string, string>();
+
+  constructor(readonly data: WorldData) {
+    for (const key of INDEXED_COLLECTIONS) {
+      this.indices.set(key, new CollectionIndex(Array.isArray(data[key]) ? data[key] : []));
+    }
+    for (const scene of this.data.scenes ?? []) {
+      this.indexSceneTokens(scene);
+    }
+  }
+
+  /** Looks a document up by id. */
+  get<K extends IndexedCollection>(collection: K, id: string): CollectionDocuments[K] | undefined {
+    return this.index(collection).byId.get(id)?.doc as CollectionDocuments[K] | undefined;
+  }
+
+  /**
+   * Documents whose name contains `query` and/or whose type matches `type`
+   * (both case-insensitive), in world order. With neither, returns the whole
+   * collection.
+   */
+  find<K extends IndexedCollection>(
+    collection: K,
+    filter: { query?: string | undefined; type?: string | undefined } = {},
+  ): CollectionDocuments[K][] {
+    return this.index(collection).query(
+      filter.query || undefined,
+      filter.type || undefined,
+    ) as CollectionDocuments[K][];
+  }
+
+  /** Documents whose name is exactly `name` (case-insensitive). */
+  findByName<K extends IndexedCollection>(collection: K, name: string): CollectionDocuments[K][] {
+    return this.index(collection).named(name) as CollectionDocuments[K][];
+  }
+
+  /**
+   * Locates a token and the scene it is placed on.
+   *
+   * @param sceneId - when given, the token must be on this scene
+   */
+  findToken(
+    tokenId: string,
+    sceneId?: string,
+  ): { scene: WorldScene; token: Record<string, unknown> } | null {
+    const owner = this.tokenScenes.get(tokenId);
+    if (!owner || (sceneId && owner !== sceneId)) {
+      return null;
+    }
+    const scene = this.get('scenes', owner);
+    const token = scene?.tokens?.find((t) => t._id === tokenId);
+    return scene && token ? { scene, token } : null;
+  }
+
+  /**
+   * Applies a committed change to the snapshot and re-indexes the documents
+   * it touched.
+   *
+   * @returns true when the change touched the cache (see {@link applyDocumentChange})
+   */
+  apply(change: DocumentChange): boolean {
+    const applied = applyDocumentChange(this.data, change);
+    if (!applied) {
+      return false;
+    }
+
+    if (!change.parentUuid) {
+      const key = worldCollectionKey(change.type);
+      if (key && this.indices.has(key as IndexedCollection)) {
+        this.reindex(key as IndexedCollection, change);
+      }
+    } else if (change.type === 'Token') {
+      this.reindexTokens(change);
+    }
+    return true;
+  }
+
+  private index(collection: IndexedCollection): CollectionIndex {
+    return this.indices.get(collection) as CollectionIndex;
+  }
+
+  private reindex(collection: IndexedCollection, change: DocumentChange): void {
+    const index = this.index(collection);
+    for (const entry of change.result) {
+      const id = typeof entry === 'string' ? entry : isRecord(entry) ? entry._id : undefined;
+      if (typeof id !== 'string') {
+        continue;
+      }
+
+      if (change.action === 'delete') {
+        if (collection === 'scenes') {
+          this.dropSceneTokens(id);
+        }
+        index.remove(id);
+        continue;
+      }
+
+      // Creates store the result object itself; updates merge into the
+      // existing document. Either way, index what the array now holds.
+      const doc =
+        change.action === 'create' ? (entry as Record<string, unknown>) : index.byId.get(id)?.doc;
+      if (!doc) {
+        continue;
+      }
+      index.upsert(doc);
+      if (
+        collection === 'scenes' &&
+        (change.action === 'create' || (isRecord(entry) && 'tokens' in entry))
+      ) {
+        this.dropSceneTokens(id);
+        this.indexSceneTokens(doc as unknown as WorldScene);
+      }
+    }
+  }
+
+  private reindexTokens(change: DocumentChange): void {
+    const [parentType, sceneId, ...rest] = (change.parentUuid as string).split('.');
+    if (parentType !== 'Scene' || !sceneId || rest.length > 0) {
+      return;
+    }
+    for (const entry of change.result) {
+      const id = typeof entry === 'string' ? entry : isRecord(entry) ? entry._id : undefined;
+      if (typeof id !== 'string') {
+        continue;
+      }
+      if (change.action === 'delete') {
+        this.tokenScenes.delete(id);
+      } else if (change.action === 'create') {
+        this.tokenScenes.set(id, sceneId);
+      }
+    }
+  }
+
+  private indexSceneTokens(scene: WorldScene): void {
+    for (const token of scene.tokens ?? []) {
+      if (typeof token._id === 'string') {
+        this.tokenScenes.set(token._id, scene._id);
+      }
+    }
+  }
+
+  private dropSceneTokens(sceneId: string): void {
+    for (const [tokenId, owner] of this.tokenScenes) {
+      if (owner === sceneId) {
+        this.tokenScenes.delete(tokenId);
+      }
+    }
+  }
+}
+
+function addTo(map: Map<string, Set<string>>, key: string, id: string): void {
+  let ids = map.get(key);
+  if (!ids) {
+    ids = new Set();
+    map.set(key, ids);
+  }
+  ids.add(id);
+}
+
+function removeFrom(map: Map<string, Set<string>>, key: string, id: string): void {
+  const ids = map.get(key);
+  if (!ids) {
+    return;
+  }
+  ids.delete(id);
+  if (ids.size === 0) {
+    map.delete(key);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,285 @@
+/**
+ * @fileoverview Live worldData synchronisation from `modifyDocument` events
+ *
+ * FoundryVTT broadcasts every committed document mutation to the other
+ * connected clients as a `modifyDocument` Socket.IO event carrying the
+ * original request and the server's result. This module applies those change
+ * sets — including embedded documents such as Token, Combatant, Item and
+ * ActiveEffect — to the cached {@link WorldData} snapshot in place, so reads
+ * served from the cache reflect what players do at the table.
+ *
+ * The same application path is used for the acknowledgements of writes made
+ * by this server. Every operation is idempotent (create upserts by `_id`,
+ * update merges, delete ignores missing ids), so applying a change twice is
+ * harmless.
+ */
+
+import type { WorldData } from './types.js';
+
+/**
+ * A committed document change, normalised from a `modifyDocument` broadcast
+ * or acknowledgement.
+ */
+export interface DocumentChange {
+  /** Document name ("Actor", "Token", "Combatant", …). */
+  type: string;
+  action: string;
+  /** Parent document UUID for embedded documents (e.g. `Scene.<id>`). */
+  parentUuid?: string | null;
+  /** Compendium pack id; compendium changes are not part of worldData. */
+  pack?: string | null;
+  /** Created data objects, update diffs, or deleted ids. */
+  result: unknown[];
+}
+
+/**
+ * Top-level document names → the WorldData array that holds them.
+ */
+const WORLD_COLLECTIONS: Record<string, string> = {
+  Actor: 'actors',
+  Cards: 'cards',
+  ChatMessage: 'messages',
+  Combat: 'combats',
+  Folder: 'folders',
+  Item: 'items',
+  JournalEntry: 'journal',
+  Macro: 'macros',
+  Playlist: 'playlists',
+  RollTable: 'tables',
+  Scene: 'scenes',
+  Setting: 'settings',
+  User: 'users',
+};
+
+/**
+ * Embedded document names → the field on the parent document that holds them.
+ */
+const EMBEDDED_COLLECTIONS: Record<string, string> = {
+  ActiveEffect: 'effects',
+  AmbientLight: 'lights',
+  AmbientSound: 'sounds',
+  Card: 'cards',
+  Combatant: 'combatants',
+  Drawing: 'drawings',
+  Item: 'items',
+  JournalEntryPage: 'pages',
+  MeasuredTemplate: 'templates',
+  Note: 'notes',
+  PlaylistSound: 'sounds',
+  TableResult: 'results',
+  Tile: 'tiles',
+  Token: 'tokens',
+  Wall: 'walls',
+};
+
+/**
+ * Returns the WorldData field holding top-level documents of `type`, if cached.
+ */
+export function worldCollectionKey(type: string): string | undefined {
+  return WORLD_COLLECTIONS[type];
+}
+
+/**
+ * Returns the field on a parent document holding embedded documents of `type`.
+ */
+export function embeddedCollectionKey(type: string): string | undefined {
+  return EMBEDDED_COLLECTIONS[type];
+}
+
+/**
+ * Normalises a `modifyDocument` broadcast payload.
+ *
+ * Accepts the v12+ shape (`{ request: { type, action, operation: { parentUuid,
+ * pack } }, result }`) and the pre-v12 shape where `parentUuid`/`pack` sit
+ * directly on the request. Returns null for anything else.
+ */
+export function parseDocumentBroadcast(payload: unknown): DocumentChange | null {
+  if (!isRecord(payload) || !isRecord(payload.request) || !Array.isArray(payload.result)) {
+    return null;
+  }
+  const request = payload.request;
+  if (typeof request.type !== 'string' || typeof request.action !== 'string') {
+    return null;
+  }
+  const operation = isRecord(request.operation) ? request.operation : request;
+  return {
+    type: request.type,
+    action: request.action,
+    parentUuid: typeof operation.parentUuid === 'string' ? operation.parentUuid : null,
+    pack: typeof operation.pack === 'string' ? operation.pack : null,
+    result: payload.result,
+  };
+}
+
+/**
+ * Resolves the cached array that holds documents of `type` under `parentUuid`
+ * (or the top-level world collection when there is no parent).
+ *
+ * Unlinked token actors (`Scene.<sid>.Token.<tid>.Actor.<aid>`) resolve to the
+ * token's `delta`, where FoundryVTT stores the synthetic actor's embedded
+ * documents. When `create` is true, missing embedded arrays are initialised.
+ *
+ * @returns the collection array, or null when the parent is not cached
+ */
+export function resolveCollection(
+  world: WorldData,
+  type: string,
+  parentUuid?: string | null,
+  create = false,
+): Array<Record<string, unknown>> | null {
+  if (!parentUuid) {
+    const key = WORLD_COLLECTIONS[type];
+    const collection = key ? world[key] : undefined;
+    return Array.isArray(collection) ? (collection as Array<Record<string, unknown>>) : null;
+  }
+
+  const parent = resolveParent(world, parentUuid);
+  const field = EMBEDDED_COLLECTIONS[type];
+  if (!parent || !field) {
+    return null;
+  }
+  if (!Array.isArray(parent[field])) {
+    if (!create) {
+      return null;
+    }
+    parent[field] = [];
+  }
+  return parent[field] as Array<Record<string, unknown>>;
+}
+
+/**
+ * Walks a parent UUID (`Type.id[.Type.id…]`) down the cached world tree.
+ */
+function resolveParent(world: WorldData, uuid: string): Record<string, unknown> | null {
+  const parts = uuid.split('.');
+  if (parts.length < 2 || parts.length % 2 !== 0) {
+    return null;
+  }
+
+  let current: Record<string, unknown> | null = null;
+  for (let i = 0; i < parts.length; i += 2) {
+    const type = parts[i] as string;
+    const id = parts[i + 1] as string;
+
+    // A synthetic actor nested under a token lives in the token's delta.
+    if (current && type === 'Actor' && parts[i - 2] === 'Token') {
+      if (!isRecord(current.delta)) {
+        current.delta = {};
+      }
+      current = current.delta as Record<string, unknown>;
+      continue;
+    }
+
+    const collection: unknown = current
+      ? current[EMBEDDED_COLLECTIONS[type] ?? '']
+      : resolveCollection(world, type);
+    if (!Array.isArray(collection)) {
+      return null;
+    }
+    const next: unknown = collection.find((d) => isRecord(d) && d._id === id);
+    if (!isRecord(next)) {
+      return null;
+    }
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Applies a committed change to the cached world in place.
+ *
+ * @returns true when the change touched the cache, false when it was ignored
+ *   (compendium change, unknown document type, or uncached parent)
+ */
+export function applyDocumentChange(world: WorldData, change: DocumentChange): boolean {
+  if (change.pack) {
+    return false;
+  }
+  const collection = resolveCollection(world, change.type, change.parentUuid, true);
+  if (!collection) {
+    return false;
+  }
+
+  switch (change.action) {
+    case 'create':
+      for (const data of change.result) {
+        if (!isRecord(data) || typeof data._id !== 'string') {
+          continue;
+        }
+        const index = collection.findIndex((d) => d._id === data._id);
+        if (index === -1) {
+          collection.push(data);
+        } else {
+          collection[index] = data;
+        }
+      }
+      return true;
+
+    case 'update':
+      for (const diff of change.result) {
+        if (!isRecord(diff) || typeof diff._id !== 'string') {
+          continue;
+        }
+        const target = collection.find((d) => d._id === diff._id);
+        if (target) {
+          mergeUpdate(target, diff);
+        }
+      }
+      return true;
+
+    case 'delete': {
+      const ids = new Set(
+        change.result
+          .map((r) => (typeof r === 'string' ? r : isRecord(r) ? r._id : undefined))
+          .filter((id): id is string => typeof id === 'string'),
+      );
+      for (let i = collection.length - 1; i >= 0; i--) {
+        if (ids.has(collection[i]?._id as string)) {
+          collection.splice(i, 1);
+        }
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Merges an update diff into a document, following FoundryVTT's update
+ * semantics: dot-notation keys address nested fields, `-=key` deletes a key,
+ * plain objects merge recursively, and everything else (arrays included)
+ * replaces the previous value.
+ */
+export function mergeUpdate(target: Record<string, unknown>, diff: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(diff)) {
+    if (key.includes('.')) {
+      const segments = key.split('.');
+      const leaf = segments.pop() as string;
+      let node = target;
+      for (const segment of segments) {
+        if (!isRecord(node[segment])) {
+          node[segment] = {};
+        }
+        node = node[segment] as Record<string, unknown>;
+      }
+      mergeUpdate(node, { [leaf]: value });
+      continue;
+    }
+    if (key.startsWith('-=')) {
+      delete target[key.slice(2)];
+      continue;
+    }
+    const existing = target[key];
+    if (isRecord(value) && isRecord(existing)) {
+      mergeUpdate(existing, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Per-tool-call context for document writes
+ *
+ * Tool handlers call the client's write methods several layers down; rather
+ * than threading per-call options through every signature, the router runs
+ * each tool call inside an `AsyncLocalStorage` context that the client's
+ * central `modifyDocument` helper reads.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { WritePreview } from './write-preview.js';
+
+export interface WriteContext {
+  /** The MCP tool call making the writes, for the audit log. */
+  tool?: { name: string; args: Record<string, unknown> };
+  /** When set, writes are collected here instead of being sent. */
+  preview?: WritePreview;
+  /** The caller confirmed writes the write policy marks `confirm`. */
+  confirmed?: boolean;
+  /** Reverting a failed batch; exempt from the write policy. */
+  compensating?: boolean;
+}
+
+const storage = new AsyncLocalStorage<WriteContext>();
+
+/**
+ * Runs `fn` with `context` visible to every write it makes.
+ */
+export function runWithWriteContext<T>(context: WriteContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * The context of the tool call currently executing, if any.
+ */
+export function currentWriteContext(): WriteContext | undefined {
+  return storage.getStore();
+}
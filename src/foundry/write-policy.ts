@@ -0,0 +1,411 @@
+/**
+ * @fileoverview Declarative write policy evaluated before every document write
+ *
+ * `FOUNDRY_WRITE_ENABLED` is all or nothing. A policy file
+ * (FOUNDRY_WRITE_POLICY, JSON) narrows it:
+ *
+ *  - `rules` — allow / deny / confirm by document name, action, document
+ *    subtype and tool. The first matching rule decides for each document a
+ *    request touches; unmatched documents get `default`.
+ *  - `paths` — limits on individual update paths: deny outright, bound the
+ *    new value, or bound the change against the cached value (`maxDelta`).
+ *  - `rateLimits` — at most `max` calls of a tool per `windowSeconds`.
+ *
+ * An update to an unlinked token's `delta`, which holds its own copy of the
+ * actor data, is also checked as an update to the `Actor` behind it: `Actor`
+ * rules and path limits apply to it.
+ *
+ * ```json
+ * {
+ *   "rules": [
+ *     { "effect": "deny", "subtypes": ["character"], "reason": "PC sheets belong to the players" },
+ *     { "effect": "deny", "documents": ["Actor"], "actions": ["delete"] },
+ *     { "effect": "confirm", "actions": ["delete"] }
+ *   ],
+ *   "paths": [
+ *     { "documents": ["Actor"], "path": "system.attributes.hp.value", "maxDelta": 50 },
+ *     { "path": "system.currency", "deny": true }
+ *   ],
+ *   "rateLimits": [{ "tool": "update_actor_attributes", "max": 10, "windowSeconds": 60 }]
+ * }
+ * ```
+ *
+ * Violations are raised as `McpError`s naming the rule that fired. Dry runs
+ * are checked against rules and path limits, but never need confirmation and
+ * do not count towards rate limits.
+ */
+
+import { readFileSync } from 'node:fs';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { type MutationAction, targetIds } from './mutation-journal.js';
+import type { WorldData } from './types.js';
+import type { WriteContext } from './write-context.js';
+
+const ActionSchema = z.enum(['create', 'update', 'delete']);
+
+const PolicyRuleSchema = z.object({
+  effect: z.enum(['allow', 'deny', 'confirm']),
+  /** Document names ("Actor", "Item", …); any when omitted. */
+  documents: z.array(z.string()).optional(),
+  actions: z.array(ActionSchema).optional(),
+  /**
+   * Document subtypes ("character", "npc", "weapon", …). Documents embedded
+   * in an actor also match on the actor's type.
+   */
+  subtypes: z.array(z.string()).optional(),
+  /** MCP tool names; writes made outside a tool call never match. */
+  tools: z.array(z.string()).optional(),
+  reason: z.string().optional(),
+});
+
+const PathLimitSchema = z.object({
+  documents: z.array(z.string()).optional(),
+  /** Dot path; also covers every path below it. */
+  path: z.string().min(1),
+  deny: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  /** Largest allowed change from the cached value, in either direction. */
+  maxDelta: z.number().nonnegative().optional(),
+  reason: z.string().optional(),
+});
+
+const RateLimitSchema = z.object({
+  tool: z.string(),
+  max: z.number().int().positive(),
+  windowSeconds: z.number().positive(),
+});
+
+const WritePolicySchema = z.object({
+  default: z.enum(['allow', 'deny', 'confirm']).default('allow'),
+  rules: z.array(PolicyRuleSchema).default([]),
+  paths: z.array(PathLimitSchema).default([]),
+  rateLimits: z.array(RateLimitSchema).default([]),
+});
+
+export type WritePolicySpec = z.input<typeof WritePolicySchema>;
+type PolicyEffect = z.infer<typeof PolicyRuleSchema>['effect'];
+type PathLimit = z.infer<typeof PathLimitSchema>;
+
+/** A write about to be sent, as seen by {@link WritePolicy.check}. */
+export interface PolicyRequest {
+  type: string;
+  action: MutationAction;
+  operation: Record<string, unknown>;
+  /** Cached copies of the documents an update/delete targets. */
+  before: Array<Record<string, unknown>>;
+  world: WorldData | null;
+  context: WriteContext | undefined;
+}
+
+/** One document a request touches. */
+interface PolicyTarget {
+  /** Document name the rules match. */
+  document: string;
+  label: string;
+  subtypes: string[];
+}
+
+const EFFECT_RANK: Record<PolicyEffect, number> = { allow: 0, confirm: 1, deny: 2 };
+
+export class WritePolicy {
+  private readonly spec: z.infer<typeof WritePolicySchema>;
+  /** Call timestamps per rate-limited tool. */
+  private readonly calls = new Map<string, number[]>();
+  /** Tool calls already counted, so a multi-write call counts once. */
+  private readonly counted = new WeakSet<WriteContext>();
+
+  constructor(
+    spec: WritePolicySpec,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.spec = WritePolicySchema.parse(spec);
+  }
+
+  /**
+   * Reads and validates a policy file. Throws on an unreadable or invalid
+   * file, so a broken policy stops the server rather than allowing writes.
+   */
+  static fromFile(filePath: string): WritePolicy {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read write policy ${filePath}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    const parsed = WritePolicySchema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+      throw new Error(`Invalid write policy ${filePath}: ${issues.join('; ')}`);
+    }
+    return new WritePolicy(parsed.data);
+  }
+
+  /**
+   * Throws an `McpError` when the policy forbids the request.
+   */
+  check(request: PolicyRequest): void {
+    const { action, context } = request;
+    const dryRun = Boolean(context?.preview);
+
+    // The strictest decision across the documents touched wins.
+    let verdict: { effect: PolicyEffect; reason?: string | undefined; label: string } | undefined;
+    for (const target of this.targets(request)) {
+      const decision = this.decide(action, target, context?.tool?.name);
+      if (!verdict || EFFECT_RANK[decision.effect] > EFFECT_RANK[verdict.effect]) {
+        verdict = { ...decision, label: target.label };
+      }
+    }
+    if (verdict?.effect === 'deny') {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Write policy denies ${action} ${verdict.label}${verdict.reason ? `: ${verdict.reason}` : ''}`,
+      );
+    }
+    if (verdict?.effect === 'confirm' && !dryRun && !context?.confirmed) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Write policy requires confirmation to ${action} ${verdict.label}${verdict.reason ? ` (${verdict.reason})` : ''}. ` +
+          'Ask the user, then repeat the call with confirm: true.',
+      );
+    }
+
+    if (action === 'update') {
+      this.checkPaths(request);
+    }
+    if (!dryRun && context?.tool && !this.counted.has(context)) {
+      this.checkRate(context.tool.name);
+      this.counted.add(context);
+    }
+  }
+
+  /** The first matching rule's effect for one document, or the default. */
+  private decide(
+    action: MutationAction,
+    target: PolicyTarget,
+    tool: string | undefined,
+  ): { effect: PolicyEffect; reason?: string | undefined } {
+    const rule = this.spec.rules.find(
+      (r) =>
+        (!r.documents || r.documents.includes(target.document)) &&
+        (!r.actions || r.actions.includes(action)) &&
+        (!r.subtypes || r.subtypes.some((s) => target.subtypes.includes(s))) &&
+        (!r.tools || (tool !== undefined && r.tools.includes(tool))),
+    );
+    return rule ? { effect: rule.effect, reason: rule.reason } : { effect: this.spec.default };
+  }
+
+  private targets(request: PolicyRequest): PolicyTarget[] {
+    const { type, action, operation, before, world } = request;
+    const parentUuid = typeof operation.parentUuid === 'string' ? operation.parentUuid : null;
+    const ownerType = actorTypeOf(world, parentUuid);
+    const withOwner = (subtype: unknown) =>
+      [typeof subtype === 'string' ? subtype : undefined, ownerType].filter(
+        (s): s is string => s !== undefined,
+      );
+
+    if (action === 'create') {
+      const data = Array.isArray(operation.data) ? operation.data : [];
+      return data.map((d) => {
+        const doc = isRecord(d) ? d : {};
+        return { document: type, label: labelOf(type, doc, 'new'), subtypes: withOwner(doc.type) };
+      });
+    }
+    const updates = Array.isArray(operation.updates) ? operation.updates.filter(isRecord) : [];
+    return targetIds(action, operation).flatMap((id) => {
+      const doc = before.find((d) => d._id === id) ?? { _id: id };
+      const target = {
+        document: type,
+        label: labelOf(type, doc, id),
+        subtypes: withOwner(doc.type),
+      };
+      const diff = updates.find((u) => u._id === id);
+      if (type !== 'Token' || !diff || !flattenPaths(diff).some(([path]) => isDeltaPath(path))) {
+        return [target];
+      }
+      // An unlinked token's delta is its actor's data: the Actor rules apply.
+      const actor = world?.actors.find((a) => a._id === doc.actorId);
+      const synthetic = {
+        document: 'Actor',
+        label: `${labelOf('Actor', actor ? { name: actor.name } : {}, String(doc.actorId))} on ${target.label}`,
+        subtypes: actor ? [actor.type] : [],
+      };
+      return [target, synthetic];
+    });
+  }
+
+  private checkPaths(request: PolicyRequest): void {
+    const { type, operation, before, world } = request;
+    const limitsFor = (name: string) =>
+      this.spec.paths.filter((l) => !l.documents || l.documents.includes(name));
+    const limits = limitsFor(type);
+    const actorLimits = type === 'Token' ? limitsFor('Actor') : [];
+    if (limits.length === 0 && actorLimits.length === 0) {
+      return;
+    }
+    const updates = Array.isArray(operation.updates) ? operation.updates : [];
+    for (const diff of updates) {
+      if (!isRecord(diff)) {
+        continue;
+      }
+      const current = before.find((d) => d._id === diff._id);
+      const label = labelOf(type, current ?? diff, String(diff._id));
+      for (const [path, value] of flattenPaths(diff)) {
+        for (const limit of limits) {
+          if (covers(limit, path)) {
+            checkPathLimit(limit, path, value, current ? valueAt(current, path) : undefined, label);
+          }
+        }
+        if (!isDeltaPath(path)) {
+          continue;
+        }
+        // An unlinked token's delta overrides its actor's data: the Actor
+        // limits apply, against the synthetic actor's current value.
+        const actorPath = path.slice('delta.'.length);
+        for (const limit of actorLimits) {
+          if (covers(limit, actorPath)) {
+            const previous = current ? syntheticValueAt(world, current, actorPath) : undefined;
+            checkPathLimit(limit, actorPath, value, previous, label);
+          }
+        }
+      }
+    }
+  }
+
+  private checkRate(tool: string): void {
+    const limit = this.spec.rateLimits.find((l) => l.tool === tool);
+    if (!limit) {
+      return;
+    }
+    const now = this.now();
+    const windowMs = limit.windowSeconds * 1000;
+    const recent = (this.calls.get(tool) ?? []).filter((t) => now - t < windowMs);
+    if (recent.length >= limit.max) {
+      const retryIn = Math.ceil(((recent[0] as number) + windowMs - now) / 1000);
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Write policy rate limit for ${tool}: at most ${limit.max} call(s) per ${limit.windowSeconds}s; retry in ${retryIn}s`,
+      );
+    }
+    recent.push(now);
+    this.calls.set(tool, recent);
+  }
+}
+
+function checkPathLimit(
+  limit: PathLimit,
+  path: string,
+  value: unknown,
+  previous: unknown,
+  label: string,
+): void {
+  const fail = (detail: string) => {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Write policy limits ${path} on ${label}: ${detail}${limit.reason ? ` (${limit.reason})` : ''}`,
+    );
+  };
+  if (limit.deny) {
+    fail('this path may not be changed');
+  }
+  if (limit.min === undefined && limit.max === undefined && limit.maxDelta === undefined) {
+    return;
+  }
+  if (typeof value !== 'number') {
+    fail('expected a number');
+    return;
+  }
+  if (limit.min !== undefined && value < limit.min) {
+    fail(`${value} is below the minimum of ${limit.min}`);
+  }
+  if (limit.max !== undefined && value > limit.max) {
+    fail(`${value} is above the maximum of ${limit.max}`);
+  }
+  if (limit.maxDelta !== undefined && typeof previous === 'number') {
+    const delta = value - previous;
+    if (Math.abs(delta) > limit.maxDelta) {
+      fail(`change of ${delta > 0 ? '+' : ''}${delta} exceeds ±${limit.maxDelta}`);
+    }
+  }
+}
+
+/**
+ * Leaf paths of an update diff, with nested objects and dot-notation keys
+ * normalised to dot paths. `-=key` deletions are reported as the key with an
+ * undefined value; `_id` is skipped.
+ */
+export function flattenPaths(diff: Record<string, unknown>, prefix = ''): Array<[string, unknown]> {
+  const paths: Array<[string, unknown]> = [];
+  for (const [key, value] of Object.entries(diff)) {
+    if (!prefix && key === '_id') {
+      continue;
+    }
+    const removed = key.split('.').pop()?.startsWith('-=') ?? false;
+    const path = `${prefix}${key.replace(/(^|\.)-=/, '$1')}`;
+    if (removed) {
+      paths.push([path, undefined]);
+    } else if (isRecord(value)) {
+      paths.push(...flattenPaths(value, `${path}.`));
+    } else {
+      paths.push([path, value]);
+    }
+  }
+  return paths;
+}
+
+function isDeltaPath(path: string): boolean {
+  return path.startsWith('delta.');
+}
+
+function covers(limit: PathLimit, path: string): boolean {
+  return path === limit.path || path.startsWith(`${limit.path}.`);
+}
+
+/** A token's actor data at `path`: its delta's value, else the world actor's. */
+function syntheticValueAt(
+  world: WorldData | null,
+  token: Record<string, unknown>,
+  path: string,
+): unknown {
+  const own = isRecord(token.delta) ? valueAt(token.delta, path) : undefined;
+  if (own !== undefined) {
+    return own;
+  }
+  const actor = world?.actors.find((a) => a._id === token.actorId);
+  return actor ? valueAt(actor as unknown as Record<string, unknown>, path) : undefined;
+}
+
+function valueAt(doc: Record<string, unknown>, path: string): unknown {
+  let node: unknown = doc;
+  for (const segment of path.split('.')) {
+    if (!isRecord(node)) {
+      return undefined;
+    }
+    node = node[segment];
+  }
+  return node;
+}
+
+/**
+ * Type of the actor a parent UUID points into (`Actor.<id>` or a token's
+ * synthetic `…Actor.<id>`), from the cached world actors.
+ */
+function actorTypeOf(world: WorldData | null, parentUuid: string | null): string | undefined {
+  const match = parentUuid?.match(/(?:^|\.)Actor\.([a-zA-Z0-9]{16})/);
+  if (!world || !match) {
+    return undefined;
+  }
+  const actor = world.actors.find((a) => a._id === match[1]);
+  return actor?.type;
+}
+
+function labelOf(type: string, doc: Record<string, unknown>, fallback: string): string {
+  return typeof doc.name === 'string' ? `${type} "${doc.name}"` : `${type} ${fallback}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Dry-run collection of `modifyDocument` requests
+ *
+ * In preview mode (a tool's `dryRun` argument, or `FOUNDRY_WRITE_MODE=preview`)
+ * every validation still runs, but the client's `modifyDocument` helper hands
+ * the fully built request to a {@link WritePreview} instead of emitting it.
+ * The preview keeps the exact request and a field-level before/after diff
+ * computed against the world cache, and answers with a synthetic result so
+ * multi-step writes (create a Combat, then its Combatants) can be previewed
+ * end to end.
+ */
+
+import type { MutationAction } from './mutation-journal.js';
+import { mergeUpdate } from './world-sync.js';
+
+/** The request body `modifyDocument` would have emitted. */
+export interface PreviewRequest {
+  type: string;
+  action: MutationAction;
+  operation: Record<string, unknown>;
+}
+
+/** Before/after view of one document touched by a previewed request. */
+export interface PreviewDocumentDiff {
+  id: string;
+  name?: string;
+  /** Changed fields as `path: before → after` (update), or the document summary. */
+  lines: string[];
+}
+
+export interface PreviewEntry {
+  request: PreviewRequest;
+  documents: PreviewDocumentDiff[];
+}
+
+/** Longest rendered value in a diff line before it is truncated. */
+const MAX_VALUE_LENGTH = 80;
+
+export class WritePreview {
+  readonly entries: PreviewEntry[] = [];
+  /** Caveats about the previewed values, shown above the requests. */
+  readonly notes: string[] = [];
+  /** Counter for the placeholder ids given to previewed creates. */
+  private placeholders = 0;
+
+  isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /** Adds a caveat once, however often it applies. */
+  note(text: string): void {
+    if (!this.notes.includes(text)) {
+      this.notes.push(text);
+    }
+  }
+
+  /**
+   * Records a request that was not sent and returns the result the server
+   * would plausibly have acknowledged: created data with placeholder ids,
+   * the update diffs, or the deleted ids.
+   *
+   * @param before - cached copies of the documents an update/delete targets
+   */
+  record(request: PreviewRequest, before: Array<Record<string, unknown>>): unknown[] {
+    const { action, operation } = request;
+    const documents: PreviewDocumentDiff[] = [];
+    let result: unknown[];
+
+    if (action === 'create') {
+      const data = Array.isArray(operation.data) ? operation.data : [];
+      result = data.map((d) =>
+        isRecord(d) && typeof d._id === 'string'
+          ? d
+          : { ...(isRecord(d) ? d : {}), _id: `<new ${request.type} ${++this.placeholders}>` },
+      );
+      for (const doc of result as Array<Record<string, unknown>>) {
+        documents.push(named(doc, [`+ ${truncate(doc)}`]));
+      }
+    } else if (action === 'update') {
+      result = Array.isArray(operation.updates) ? operation.updates : [];
+      for (const diff of result) {
+        if (!isRecord(diff) || typeof diff._id !== 'string') {
+          continue;
+        }
+        const current = before.find((d) => d._id === diff._id);
+        if (!current) {
+          documents.push({ id: diff._id, lines: ['(not in the world cache; no before-image)'] });
+          continue;
+        }
+        const after = structuredClone(current);
+        mergeUpdate(after, diff);
+        const lines = diffLeaves(current, after);
+        documents.push(named(current, lines.length > 0 ? lines : ['(no effective change)']));
+      }
+    } else {
+      result = Array.isArray(operation.ids) ? operation.ids : [];
+      for (const id of result) {
+        const current = before.find((d) => d._id === id);
+        documents.push(
+          current ? named(current, ['− deleted']) : { id: String(id), lines: ['− deleted'] },
+        );
+      }
+    }
+
+    this.entries.push({ request, documents });
+    return result;
+  }
+}
+
+/**
+ * Field-level differences between two versions of a document, as
+ * `path: before → after` lines. Nested objects are walked; arrays and
+ * scalars are compared as whole values.
+ */
+export function diffLeaves(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = '',
+): string[] {
+  const lines: string[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = before[key];
+    const b = after[key];
+    if (isRecord(a) && isRecord(b)) {
+      lines.push(...diffLeaves(a, b, path));
+    } else if (!(key in after)) {
+      lines.push(`${path}: ${truncate(a)} → (removed)`);
+    } else if (!(key in before)) {
+      lines.push(`${path}: (unset) → ${truncate(b)}`);
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      lines.push(`${path}: ${truncate(a)} → ${truncate(b)}`);
+    }
+  }
+  return lines;
+}
+
+function named(doc: Record<string, unknown>, lines: string[]): PreviewDocumentDiff {
+  const diff: PreviewDocumentDiff = { id: String(doc._id), lines };
+  if (typeof doc.name === 'string') {
+    diff.name = doc.name;
+  }
+  return diff;
+}
+
+function truncate(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
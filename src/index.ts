@@ -31,6 +31,7 @@ import dotenv from 'dotenv';
 import { config } from './config/index.js';
 import { DiagnosticsClient } from './diagnostics/client.js';
 import { FoundryClient, type FoundryClientConfig } from './foundry/client.js';
+import { WritePolicy } from './foundry/write-policy.js';
 import {
   getAllResources,
   getAllTools,
@@ -79,6 +80,9 @@ class FoundryMCPServer {
       retryAttempts: config.foundry.retryAttempts,
       retryDelay: config.foundry.retryDelay,
       writeEnabled: config.foundry.writeEnabled,
+      writeMode: config.foundry.writeMode,
+      reconnectMaxAttempts: config.foundry.reconnectMaxAttempts,
+      reconnectMaxDelay: config.foundry.reconnectMaxDelay,
     };
     if (config.foundry.apiKey) {
       clientConfig.apiKey = config.foundry.apiKey;
@@ -92,6 +96,16 @@ class FoundryMCPServer {
     if (config.foundry.userId) {
       clientConfig.userId = config.foundry.userId;
     }
+    if (config.dice.seed) {
+      clientConfig.diceSeed = config.dice.seed;
+    }
+    if (config.foundry.auditLogPath) {
+      clientConfig.auditLogPath = config.foundry.auditLogPath;
+    }
+    if (config.foundry.writePolicyPath) {
+      // An unreadable or invalid policy stops startup rather than allowing writes.
+      clientConfig.writePolicy = WritePolicy.fromFile(config.foundry.writePolicyPath);
+    }
     this.foundryClient = new FoundryClient(clientConfig);
 
     // Initialize DiagnosticsClient
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+import type { WorldActor, WorldItem } from '../../foundry/types.js';
+import { appendParts, d20Term, describeModifier } from '../adapter.js';
+import { abilityModifier, dnd5eAdapter, proficiencyBonus } from '../dnd5e.js';
+import { getSystemAdapter } from '../index.js';
+
+function item(name: string, type: string, system: Record<string, unknown>): WorldItem {
+  return { _id: name.toLowerCase().replace(/\W/g, ''), name, type, system };
+}
+
+function fighter(fields: Partial<WorldActor> = {}, items: WorldItem[] = []): WorldActor {
+  return {
+    _id: 'actor1',
+    name: 'Brienne',
+    type: 'character',
+    system: {
+      abilities: {
+        str: { value: 16, proficient: 1 },
+        dex: { value: 14, bonuses: { check: '1', save: '' } },
+        con: { value: 12 },
+        int: { value: 8 },
+        wis: { value: 10 },
+        cha: { value: 11 },
+      },
+      skills: {
+        ste: { value: 2, ability: 'dex' },
+        ath: { value: 1, ability: 'str', bonuses: { check: '1d4' } },
+        prc: { value: 0, ability: 'wis' },
+      },
+      traits: { weaponProf: { value: ['sim', 'mar'] } },
+      bonuses: { mwak: { attack: '', damage: '' } },
+    },
+    items: [item('Fighter', 'class', { levels: 5 }), ...items],
+    ...fields,
+  };
+}
+
+describe('proficiencyBonus and abilityModifier', () => {
+  it('derive values missing from source data', () => {
+    expect(proficiencyBonus(fighter())).toBe(3);
+    expect(proficiencyBonus(fighter({ type: 'npc', system: { details: { cr: 0.25 } } }))).toBe(2);
+    expect(proficiencyBonus(fighter({ system: { attributes: { prof: 6 } } }))).toBe(6);
+    expect(abilityModifier(fighter(), 'str')).toBe(3);
+    expect(abilityModifier(fighter(), 'int')).toBe(-1);
+  });
+});
+
+describe('dnd5eAdapter.check', () => {
+  it('doubles proficiency for expertise and accepts skill names', () => {
+    const check = dnd5eAdapter.check(fighter(), { kind: 'skill', key: 'Stealth' });
+    expect(check.label).toBe('Dexterity (Stealth) check');
+    expect(appendParts('1d20', check.parts)).toBe('1d20 + 2[dex] + 6[expertise] + 1[check bonus]');
+  });
+
+  it('keeps formula bonuses and applies jack of all trades to unproficient skills', () => {
+    const athletics = dnd5eAdapter.check(fighter(), { kind: 'skill', key: 'ath' });
+    expect(appendParts('1d20', athletics.parts)).toBe(
+      '1d20 + 3[str] + 3[prof] + (1d4)[skill bonus]',
+    );
+    expect(describeModifier(athletics.parts)).toBe('+6 + 1d4 (str +3, prof +3, skill bonus 1d4)');
+
+    const jack = fighter({ flags: { dnd5e: { jackOfAllTrades: true } } });
+    expect(appendParts('1d20', dnd5eAdapter.check(jack, { kind: 'skill', key: 'prc' }).parts)).toBe(
+      '1d20 + 1[jack of all trades]',
+    );
+  });
+
+  it('adds proficiency to saving throws of proficient abilities only', () => {
+    const str = dnd5eAdapter.check(fighter(), { kind: 'save', key: 'str' });
+    expect(str.label).toBe('Strength saving throw');
+    expect(appendParts('1d20', str.parts)).toBe('1d20 + 3[str] + 3[prof]');
+    expect(
+      appendParts('1d20', dnd5eAdapter.check(fighter(), { kind: 'save', key: 'int' }).parts),
+    ).toBe('1d20 - 1[int]');
+  });
+
+  it('rejects unknown keys', () => {
+    expect(() => dnd5eAdapter.check(fighter(), { kind: 'skill', key: 'juggling' })).toThrow(
+      'Unknown skill: juggling',
+    );
+    expect(() => dnd5eAdapter.check(fighter(), { kind: 'ability', key: 'luck' })).toThrow(
+      'Unknown ability: luck',
+    );
+  });
+});
+
+describe('dnd5eAdapter.attack', () => {
+  it('reads 3.x attack bonuses and damage parts', () => {
+    const longsword = item('Longsword +1', 'weapon', {
+      actionType: 'mwak',
+      weaponType: 'martialM',
+      attackBonus: '1',
+      damage: { parts: [['1d8 + @mod + 1', 'slashing']], versatile: '1d10 + @mod + 1' },
+      critical: { threshold: 19, damage: '1d6' },
+    });
+    const attack = dnd5eAdapter.attack(fighter(), longsword, {});
+
+    expect(appendParts(d20Term('advantage'), attack.parts)).toBe(
+      '2d20kh + 3[str] + 3[prof] + 1[item bonus]',
+    );
+    expect(attack.damage).toEqual([{ formula: '1d8 + 3 + 1', type: 'slashing' }]);
+    expect(attack.critThreshold).toBe(19);
+    expect(attack.critBonus).toBe('1d6');
+    expect(dnd5eAdapter.attack(fighter(), longsword, { versatile: true }).damage[0]?.formula).toBe(
+      '1d10 + 3 + 1',
+    );
+  });
+
+  it('reads 4.x activities, magical bonuses and finesse', () => {
+    const rapier = item('Rapier', 'weapon', {
+      type: { value: 'martialM', baseItem: 'rapier' },
+      properties: ['fin', 'mgc'],
+      magicalBonus: 2,
+      damage: { base: { number: 1, denomination: 8, types: ['piercing'] } },
+      activities: { a1: { type: 'attack', attack: { bonus: '', type: { value: 'melee' } } } },
+    });
+    const dexterous = fighter();
+    (dexterous.system.abilities as Record<string, { value: number }>).dex = { value: 18 };
+    const attack = dnd5eAdapter.attack(dexterous, rapier, {});
+
+    expect(appendParts('1d20', attack.parts)).toBe('1d20 + 4[dex] + 3[prof] + 2[magic]');
+    expect(attack.damage).toEqual([{ formula: '1d8 + 4 + 2', type: 'piercing' }]);
+    expect(attack.critThreshold).toBe(20);
+  });
+
+  it('uses a flat activity bonus instead of the ability modifier and proficiency', () => {
+    const dart = item('Poison Dart Trap', 'weapon', {
+      type: { value: 'simpleR' },
+      magicalBonus: 1,
+      damage: { base: { number: 1, denomination: 4, types: ['piercing'] } },
+      activities: {
+        a1: { type: 'attack', attack: { bonus: '7', flat: true, type: { value: 'ranged' } } },
+      },
+    });
+    const attack = dnd5eAdapter.attack(fighter(), dart, {});
+
+    expect(appendParts('1d20', attack.parts)).toBe('1d20 + 7[item bonus]');
+  });
+
+  it('leaves out proficiency for weapons outside the actor training', () => {
+    const whip = item('Whip', 'weapon', { actionType: 'mwak', weaponType: 'martialM' });
+    const untrained = fighter({
+      system: { ...fighter().system, traits: { weaponProf: { value: ['sim'] } } },
+    });
+    expect(appendParts('1d20', dnd5eAdapter.attack(untrained, whip, {}).parts)).toBe(
+      '1d20 + 3[str]',
+    );
+  });
+
+  it('rejects items without an attack', () => {
+    const rope = item('Rope', 'loot', {});
+    expect(() => dnd5eAdapter.attack(fighter(), rope, {})).toThrow('Rope (loot) has no attack');
+  });
+});
+
+describe('dnd5eAdapter.initiative', () => {
+  it('is a Dexterity check with the dex score as tiebreaker', () => {
+    const init = dnd5eAdapter.initiative(fighter());
+    expect(appendParts('1d20', init.parts)).toBe('1d20 + 2[dex] + 1[check bonus]');
+    expect(init.advantage).toBe('normal');
+    expect(init.tiebreaker).toBe(0.14);
+  });
+
+  it('adds the initiative bonus, Alert and advantage flags', () => {
+    const alert = fighter({
+      flags: { dnd5e: { initiativeAlert: true, initiativeAdv: true, jackOfAllTrades: true } },
+    });
+    alert.system.attributes = { init: { ability: 'wis', bonus: '2' } };
+    const init = dnd5eAdapter.initiative(alert);
+    expect(appendParts('1d20', init.parts)).toBe(
+      '1d20 + 1[jack of all trades] + 2[initiative bonus] + 5[alert]',
+    );
+    expect(init.advantage).toBe('advantage');
+    expect(init.tiebreaker).toBe(0.1);
+  });
+});
+
+describe('dnd5eAdapter.adjustDamage', () => {
+  const troll = fighter({
+    name: 'Troll',
+    system: {
+      traits: {
+        di: { value: ['poison'] },
+        dr: { value: ['slashing', 'cold'], bypasses: ['mgc', 'sil'], custom: 'Psychic' },
+        dv: { value: ['fire', 'cold'] },
+      },
+    },
+  });
+
+  it('zeroes, halves and doubles each part', () => {
+    const [fire, poison, piercing] = dnd5eAdapter.adjustDamage(troll, [
+      { amount: 12, type: 'fire' },
+      { amount: 6, type: 'poison' },
+      { amount: 4, type: 'piercing' },
+    ]);
+    expect(fire).toMatchObject({ applied: 24, notes: ['vulnerable to fire (doubled)'] });
+    expect(poison).toMatchObject({ applied: 0, notes: ['immune to poison'] });
+    expect(piercing).toMatchObject({ applied: 4, notes: [] });
+  });
+
+  it('halves before doubling when both apply, rounding down', () => {
+    const [cold] = dnd5eAdapter.adjustDamage(troll, [{ amount: 7, type: 'Cold' }]);
+    expect(cold?.applied).toBe(6);
+    expect(cold?.notes).toEqual(['resistant to cold (halved)', 'vulnerable to cold (doubled)']);
+  });
+
+  it('explains physical resistances and the attacks that bypass them', () => {
+    const [plain, magical, silvered, custom] = dnd5eAdapter.adjustDamage(troll, [
+      { amount: 9, type: 'slashing' },
+      { amount: 9, type: 'slashing', magical: true },
+      { amount: 9, type: 'slashing', silvered: true, adamantine: true },
+      { amount: 9, type: 'psychic', magical: true },
+    ]);
+    expect(plain).toMatchObject({
+      applied: 4,
+      notes: ['resistant to slashing from nonmagical, nonsilvered attacks (halved)'],
+    });
+    expect(magical).toMatchObject({
+      applied: 9,
+      notes: ['resistance to slashing bypassed: magical attack'],
+    });
+    expect(silvered?.applied).toBe(9);
+    expect(custom?.applied).toBe(4);
+  });
+
+  it('reads the legacy physical type as nonmagical bludgeoning, piercing and slashing', () => {
+    const golem = fighter({ system: { traits: { dr: { value: ['physical'] } } } });
+    const [plain, magical] = dnd5eAdapter.adjustDamage(golem, [
+      { amount: 8, type: 'bludgeoning' },
+      { amount: 8, type: 'bludgeoning', magical: true },
+    ]);
+    expect(plain?.applied).toBe(4);
+    expect(magical?.applied).toBe(8);
+  });
+});
+
+describe('getSystemAdapter', () => {
+  it('names the supported systems for unknown ones', () => {
+    expect(getSystemAdapter('dnd5e')).toBe(dnd5eAdapter);
+    expect(() => getSystemAdapter('pf2e')).toThrow('not supported for the pf2e system yet');
+  });
+});
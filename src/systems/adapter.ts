@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Game-system adapters for d20 tests
+ *
+ * Ability checks, saving throws, attack and initiative rolls read modifiers
+ * from an actor's `system` data, whose layout belongs to the game system. An
+ * adapter turns an actor (and a weapon or spell item) into the parts of a
+ * roll — each modifier labelled with where it came from — and the handlers
+ * build, roll and report the formula the same way for every system. Adapters
+ * also read an actor's damage immunities, resistances and vulnerabilities,
+ * so damage can be adjusted before it is applied.
+ */
+
+import type { WorldActor, WorldItem } from '../foundry/types.js';
+
+export type Advantage = 'normal' | 'advantage' | 'disadvantage';
+
+export type CheckKind = 'ability' | 'save' | 'skill';
+
+export interface CheckRequest {
+  kind: CheckKind;
+  /** Ability or skill id or name, e.g. `dex`, `Dexterity`, `ste`, `Stealth`. */
+  key: string;
+}
+
+/** One labelled modifier of a roll: a number, or a formula such as `1d4`. */
+export interface ModifierPart {
+  label: string;
+  value: number | string;
+}
+
+export interface CheckRoll {
+  /** e.g. `Dexterity (Stealth) check`. */
+  label: string;
+  parts: ModifierPart[];
+}
+
+export interface DamagePart {
+  formula: string;
+  /** Damage type, e.g. `slashing`. */
+  type?: string;
+}
+
+export interface AttackRoll {
+  /** The item's name. */
+  label: string;
+  parts: ModifierPart[];
+  damage: DamagePart[];
+  /** Lowest natural d20 that is a critical hit. */
+  critThreshold: number;
+  /** Extra damage added on a critical hit, after the dice are doubled. */
+  critBonus?: string;
+}
+
+export interface InitiativeRoll {
+  parts: ModifierPart[];
+  /** Advantage granted by the actor's features, e.g. a dnd5e flag. */
+  advantage: Advantage;
+  /** Added to the total to break ties, e.g. the Dexterity score / 100. */
+  tiebreaker?: number;
+}
+
+/** Rolled damage of one type, as it reaches the target. */
+export interface DamageInstance {
+  amount: number;
+  /** Damage type, e.g. `fire`; untyped damage is never adjusted. */
+  type?: string;
+  /** Attack properties that can bypass physical resistances. */
+  magical?: boolean;
+  silvered?: boolean;
+  adamantine?: boolean;
+}
+
+export interface DamageAdjustment {
+  part: DamageInstance;
+  /** Damage after immunity, resistance and vulnerability. */
+  applied: number;
+  /** Why the amount changed (or did not), e.g. `vulnerable to fire (doubled)`. */
+  notes: string[];
+}
+
+export interface SystemAdapter {
+  /** Game system id, as in `game.system.id`. */
+  readonly id: string;
+  /** @throws Error for an unknown ability or skill */
+  check(actor: WorldActor, request: CheckRequest): CheckRoll;
+  /** @throws Error when the item cannot make an attack */
+  attack(actor: WorldActor, item: WorldItem, options: { versatile?: boolean }): AttackRoll;
+  initiative(actor: WorldActor): InitiativeRoll;
+  /** Adjusts each part of the damage for the actor's damage traits. */
+  adjustDamage(actor: WorldActor, parts: DamageInstance[]): DamageAdjustment[];
+}
+
+/** The d20 term for an advantage state. */
+export function d20Term(advantage: Advantage = 'normal'): string {
+  return advantage === 'advantage' ? '2d20kh' : advantage === 'disadvantage' ? '2d20kl' : '1d20';
+}
+
+/**
+ * Appends labelled parts to a formula as flavored terms, e.g.
+ * `1d20 + 3[dex] - 1[penalty] + (1d4)[bless]`. Zero parts are left out.
+ */
+export function appendParts(formula: string, parts: ModifierPart[]): string {
+  return parts.reduce((text, { label, value }) => {
+    if (typeof value === 'number') {
+      if (value === 0) {
+        return text;
+      }
+      return `${text} ${value < 0 ? '-' : '+'} ${Math.abs(value)}[${label}]`;
+    }
+    return `${text} + (${value})[${label}]`;
+  }, formula);
+}
+
+/** The sum of the numeric parts, e.g. `+5`; formula parts are listed after it. */
+export function describeModifier(parts: ModifierPart[]): string {
+  const total = parts.reduce((sum, p) => sum + (typeof p.value === 'number' ? p.value : 0), 0);
+  const formulas = parts.filter((p) => typeof p.value === 'string').map((p) => p.value);
+  const shown = parts
+    .filter((p) => p.value !== 0)
+    .map((p) => `${p.label} ${typeof p.value === 'number' && p.value >= 0 ? '+' : ''}${p.value}`);
+  return `${total >= 0 ? '+' : ''}${total}${formulas.length ? ` + ${formulas.join(' + ')}` : ''}${
+    shown.length ? ` (${shown.join(', ')})` : ''
+  }`;
+}
@@ -0,0 +1,578 @@
+/**
+ * @fileoverview D&D 5e adapter for checks, saves, attacks, initiative and damage traits
+ *
+ * Works on the source data in the world snapshot, which lacks the values the
+ * system derives in the browser (`abilities.*.mod`, `attributes.prof`,
+ * `skills.*.total`), so those are recomputed here: ability modifiers from
+ * scores, the proficiency bonus from class levels or challenge rating, and
+ * skill proficiency from its multiplier (½ rounds down, expertise doubles).
+ *
+ * Item data is read in both layouts in use: dnd5e 3.x (`actionType`,
+ * `attackBonus`, `damage.parts` of `[formula, type]` pairs) and 4.x+
+ * (`activities`, `damage.base`, `magicalBonus`).
+ *
+ * Initiative is a check of `attributes.init.ability` (Dexterity by default)
+ * plus `attributes.init.bonus`, the Alert feat and advantage flags, with the
+ * ability score / 100 as the tiebreaker (the system's Dexterity tiebreaker
+ * setting).
+ *
+ * Damage traits are `traits.di`, `traits.dr` and `traits.dv`; their
+ * `bypasses` (magical, silvered, adamantine) only ever exempt bludgeoning,
+ * piercing and slashing damage.
+ */
+
+import type { WorldActor, WorldItem } from '../foundry/types.js';
+import type {
+  AttackRoll,
+  CheckRequest,
+  CheckRoll,
+  DamageAdjustment,
+  DamageInstance,
+  DamagePart,
+  InitiativeRoll,
+  ModifierPart,
+  SystemAdapter,
+} from './adapter.js';
+
+const ABILITIES: Record<string, string> = {
+  str: 'Strength',
+  dex: 'Dexterity',
+  con: 'Constitution',
+  int: 'Intelligence',
+  wis: 'Wisdom',
+  cha: 'Charisma',
+};
+
+/** Skill ids with their names and default abilities. */
+const SKILLS: Record<string, { name: string; ability: string }> = {
+  acr: { name: 'Acrobatics', ability: 'dex' },
+  ani: { name: 'Animal Handling', ability: 'wis' },
+  arc: { name: 'Arcana', ability: 'int' },
+  ath: { name: 'Athletics', ability: 'str' },
+  dec: { name: 'Deception', ability: 'cha' },
+  his: { name: 'History', ability: 'int' },
+  ins: { name: 'Insight', ability: 'wis' },
+  itm: { name: 'Intimidation', ability: 'cha' },
+  inv: { name: 'Investigation', ability: 'int' },
+  med: { name: 'Medicine', ability: 'wis' },
+  nat: { name: 'Nature', ability: 'int' },
+  prc: { name: 'Perception', ability: 'wis' },
+  prf: { name: 'Performance', ability: 'cha' },
+  per: { name: 'Persuasion', ability: 'cha' },
+  rel: { name: 'Religion', ability: 'int' },
+  slt: { name: 'Sleight of Hand', ability: 'dex' },
+  ste: { name: 'Stealth', ability: 'dex' },
+  sur: { name: 'Survival', ability: 'wis' },
+};
+
+type ActionType = 'mwak' | 'rwak' | 'msak' | 'rsak';
+
+export const dnd5eAdapter: SystemAdapter = {
+  id: 'dnd5e',
+
+  check(actor: WorldActor, { kind, key }: CheckRequest): CheckRoll {
+    const sys = actor.system;
+    const prof = proficiencyBonus(actor);
+    const jack = flag(actor, 'jackOfAllTrades') ? Math.floor(prof / 2) : 0;
+    const parts: ModifierPart[] = [];
+
+    if (kind === 'skill') {
+      const skill = findKey('skill', SKILLS, key, (s) => s.name);
+      const { name, ability: defaultAbility } = SKILLS[skill] as { name: string; ability: string };
+      const data = record(record(sys.skills)[skill]);
+      const ability =
+        typeof data.ability === 'string' && data.ability ? data.ability : defaultAbility;
+      const multiplier = numberOr(data.value, 0);
+      parts.push({ label: ability, value: abilityModifier(actor, ability) });
+      parts.push(
+        multiplier > 0
+          ? { label: multiplier >= 2 ? 'expertise' : 'prof', value: Math.floor(prof * multiplier) }
+          : { label: 'jack of all trades', value: jack },
+      );
+      parts.push(...bonusParts(record(data.bonuses).check, 'skill bonus'));
+      parts.push(...bonusParts(abilityBonus(actor, ability).check, 'check bonus'));
+      parts.push(...bonusParts(globalBonus(actor, 'abilities').check, 'global check bonus'));
+      parts.push(...bonusParts(globalBonus(actor, 'abilities').skill, 'global skill bonus'));
+      return {
+        label: `${ABILITIES[ability] ?? ability} (${name}) check`,
+        parts,
+      };
+    }
+
+    const ability = findKey('ability', ABILITIES, key, (name) => name);
+    const name = ABILITIES[ability] as string;
+    parts.push({ label: ability, value: abilityModifier(actor, ability) });
+    if (kind === 'save') {
+      const proficient = numberOr(record(record(sys.abilities)[ability]).proficient, 0);
+      parts.push({ label: 'prof', value: Math.floor(prof * proficient) });
+      parts.push(...bonusParts(abilityBonus(actor, ability).save, 'save bonus'));
+      parts.push(...bonusParts(globalBonus(actor, 'abilities').save, 'global save bonus'));
+      return { label: `${name} saving throw`, parts };
+    }
+    parts.push({ label: 'jack of all trades', value: jack });
+    parts.push(...bonusParts(abilityBonus(actor, ability).check, 'check bonus'));
+    parts.push(...bonusParts(globalBonus(actor, 'abilities').check, 'global check bonus'));
+    return { label: `${name} check`, parts };
+  },
+
+  attack(actor: WorldActor, item: WorldItem, { versatile = false }): AttackRoll {
+    const sys = item.system;
+    const activity = attackActivity(item);
+    const actionType = attackType(item, activity);
+    if (!actionType) {
+      throw new Error(`${item.name} (${item.type}) has no attack`);
+    }
+    const spell = actionType === 'msak' || actionType === 'rsak';
+    const attack = record(activity?.attack);
+
+    const ability = attackAbility(actor, item, actionType, attack.ability);
+    const mod = ability ? abilityModifier(actor, ability) : 0;
+    const magical = numberOr(sys.magicalBonus, 0);
+    // A 4.x flat attack bonus replaces the ability modifier, proficiency and magic bonus.
+    const flat = attack.flat === true;
+    const parts: ModifierPart[] = [];
+    if (ability && !flat) {
+      parts.push({ label: ability, value: mod });
+    }
+    if (!flat && (spell || isProficient(actor, item))) {
+      parts.push({ label: 'prof', value: proficiencyBonus(actor) });
+    }
+    parts.push(...bonusParts(attack.bonus ?? sys.attackBonus, 'item bonus'));
+    if (magical && !flat) {
+      parts.push({ label: 'magic', value: magical });
+    }
+    parts.push(...bonusParts(globalBonus(actor, actionType).attack, `${actionType} bonus`));
+
+    const damage = damageParts(item, activity, mod, magical, versatile);
+    const actorDamage = globalBonus(actor, actionType).damage;
+    if (typeof actorDamage === 'string' && actorDamage.trim() && damage.length > 0) {
+      damage.push({ formula: actorDamage.trim() });
+    }
+
+    const critical = record(sys.critical);
+    const threshold = Math.min(
+      numberOr(record(attack.critical).threshold, 20),
+      numberOr(critical.threshold, 20),
+      numberOr(flag(actor, spell ? 'spellCriticalThreshold' : 'weaponCriticalThreshold'), 20),
+    );
+    const roll: AttackRoll = { label: item.name, parts, damage, critThreshold: threshold };
+    const extra =
+      typeof critical.damage === 'string'
+        ? critical.damage
+        : record(record(activity?.damage).critical).bonus;
+    if (typeof extra === 'string' && extra.trim()) {
+      roll.critBonus = extra.trim();
+    }
+    return roll;
+  },
+
+  initiative(actor: WorldActor): InitiativeRoll {
+    const init = record(record(actor.system.attributes).init);
+    const ability = typeof init.ability === 'string' && init.ability ? init.ability : 'dex';
+    // Initiative is an ability check, so check bonuses and Jack of All Trades apply.
+    const { parts } = dnd5eAdapter.check(actor, { kind: 'ability', key: ability });
+    parts.push(...bonusParts(init.bonus, 'initiative bonus'));
+    if (flag(actor, 'initiativeAlert')) {
+      parts.push({ label: 'alert', value: 5 });
+    }
+    const score = numberOr(record(record(actor.system.abilities)[ability]).value, 10);
+    return {
+      parts,
+      advantage: flag(actor, 'initiativeAdv') ? 'advantage' : 'normal',
+      tiebreaker: score / 100,
+    };
+  },
+
+  adjustDamage(actor: WorldActor, parts: DamageInstance[]): DamageAdjustment[] {
+    const traits = record(actor.system.traits);
+    const immunities = damageTrait(traits.di);
+    const resistances = damageTrait(traits.dr);
+    const vulnerabilities = damageTrait(traits.dv);
+
+    return parts.map((part) => {
+      const type = part.type?.trim().toLowerCase();
+      if (!type) {
+        return { part, applied: part.amount, notes: [] };
+      }
+      const notes: string[] = [];
+      // Whether a trait covers this part, noting when the attack bypasses it.
+      const applies = (trait: DamageTrait, noun: string) => {
+        if (!trait.types.has(type)) {
+          return false;
+        }
+        const bypass = PHYSICAL_TYPES.has(type)
+          ? trait.bypasses.find((id) => part[BYPASSES[id] as keyof DamageInstance] === true)
+          : undefined;
+        if (bypass) {
+          notes.push(`${noun} to ${type} bypassed: ${BYPASSES[bypass]} attack`);
+          return false;
+        }
+        return true;
+      };
+
+      let applied = part.amount;
+      if (applies(immunities, 'immunity')) {
+        notes.push(`immune to ${describeTrait(immunities, type)}`);
+        return { part, applied: 0, notes };
+      }
+      // Resistance before vulnerability, as the rules order them.
+      if (applies(resistances, 'resistance')) {
+        applied = Math.floor(applied / 2);
+        notes.push(`resistant to ${describeTrait(resistances, type)} (halved)`);
+      }
+      if (applies(vulnerabilities, 'vulnerability')) {
+        applied *= 2;
+        notes.push(`vulnerable to ${describeTrait(vulnerabilities, type)} (doubled)`);
+      }
+      return { part, applied, notes };
+    });
+  },
+};
+
+const PHYSICAL_TYPES = new Set(['bludgeoning', 'piercing', 'slashing']);
+
+/** Trait bypass ids and the attack property each stands for. */
+const BYPASSES: Record<string, 'magical' | 'silvered' | 'adamantine'> = {
+  mgc: 'magical',
+  sil: 'silvered',
+  ada: 'adamantine',
+};
+
+interface DamageTrait {
+  types: Set<string>;
+  /** Attack properties that get through the trait's physical types. */
+  bypasses: string[];
+}
+
+/**
+ * A `traits.di`/`dr`/`dv` entry: `value` types (a Set serialized as an
+ * array), `custom` types separated by semicolons, and `bypasses`. The
+ * pre-2.0 `physical` type means nonmagical bludgeoning, piercing and slashing.
+ */
+function damageTrait(value: unknown): DamageTrait {
+  const data = record(value);
+  const types = new Set(stringList(data.value).map((t) => t.toLowerCase()));
+  const bypasses = stringList(data.bypasses).filter((id) => id in BYPASSES);
+  if (typeof data.custom === 'string') {
+    for (const custom of data.custom.split(';')) {
+      if (custom.trim()) {
+        types.add(custom.trim().toLowerCase());
+      }
+    }
+  }
+  if (types.delete('physical')) {
+    for (const type of PHYSICAL_TYPES) {
+      types.add(type);
+    }
+    if (!bypasses.includes('mgc')) {
+      bypasses.push('mgc');
+    }
+  }
+  return { types, bypasses };
+}
+
+/** e.g. `slashing`, or `slashing from nonmagical, nonsilvered attacks`. */
+function describeTrait(trait: DamageTrait, type: string): string {
+  if (!PHYSICAL_TYPES.has(type) || trait.bypasses.length === 0) {
+    return type;
+  }
+  const kinds = trait.bypasses.map((id) => `non${BYPASSES[id]}`);
+  return `${type} from ${kinds.join(', ')} attacks`;
+}
+
+/**
+ * The proficiency bonus: `attributes.prof` when the data is prepared,
+ * otherwise from total class levels (or `details.level`) for characters and
+ * from challenge rating for NPCs.
+ */
+export function proficiencyBonus(actor: WorldActor): number {
+  const sys = actor.system;
+  const attributes = record(sys.attributes);
+  if (typeof attributes.prof === 'number') {
+    return attributes.prof;
+  }
+  const details = record(sys.details);
+  if (actor.type === 'npc') {
+    return Math.max(2, Math.floor((Math.max(numberOr(details.cr, 0), 1) + 7) / 4));
+  }
+  const classLevels = (actor.items ?? [])
+    .filter((i) => i.type === 'class')
+    .reduce((sum, i) => sum + numberOr(i.system.levels, 0), 0);
+  const level = classLevels || numberOr(details.level, 1);
+  return Math.floor((Math.max(level, 1) + 7) / 4);
+}
+
+/** The ability modifier: `abilities.*.mod` when prepared, otherwise from the score. */
+export function abilityModifier(actor: WorldActor, ability: string): number {
+  const data = record(record(actor.system.abilities)[ability]);
+  if (typeof data.mod === 'number') {
+    return data.mod;
+  }
+  return Math.floor((numberOr(data.value, 10) - 10) / 2);
+}
+
+/** Resolves an id (`ste`) or a name (`Stealth`, case-insensitive) to an id. */
+function findKey<T>(
+  kind: string,
+  table: Record<string, T>,
+  key: string,
+  name: (entry: T) => string,
+): string {
+  const wanted = key.trim().toLowerCase();
+  const found =
+    Object.keys(table).find((id) => id === wanted) ??
+    Object.keys(table).find((id) => name(table[id] as T).toLowerCase() === wanted);
+  if (!found) {
+    throw new Error(`Unknown ${kind}: ${key}. Expected one of ${Object.keys(table).join(', ')}`);
+  }
+  return found;
+}
+
+function abilityBonus(actor: WorldActor, ability: string): Record<string, unknown> {
+  return record(record(record(actor.system.abilities)[ability]).bonuses);
+}
+
+function globalBonus(actor: WorldActor, key: string): Record<string, unknown> {
+  return record(record(actor.system.bonuses)[key]);
+}
+
+/** A bonus field (a number or a formula string) as parts; empty when unset. */
+function bonusParts(value: unknown, label: string): ModifierPart[] {
+  if (typeof value === 'number') {
+    return value ? [{ label, value }] : [];
+  }
+  if (typeof value !== 'string' || !value.trim() || value.trim() === '0') {
+    return [];
+  }
+  const text = value.trim();
+  return [{ label, value: /^[+-]?\d+$/.test(text) ? Number(text) : text.replace(/^\+\s*/, '') }];
+}
+
+/** The first attack activity of a 4.x item. */
+function attackActivity(item: WorldItem): Record<string, unknown> | undefined {
+  const activities = record(item.system.activities);
+  return Object.values(activities).find(
+    (a): a is Record<string, unknown> => isRecord(a) && a.type === 'attack',
+  );
+}
+
+function attackType(
+  item: WorldItem,
+  activity: Record<string, unknown> | undefined,
+): ActionType | undefined {
+  const sys = item.system;
+  if (activity) {
+    const type = record(record(activity.attack).type);
+    const ranged = type.value === 'ranged';
+    const spell =
+      type.classification === 'spell' || (!type.classification && item.type === 'spell');
+    return spell ? (ranged ? 'rsak' : 'msak') : ranged ? 'rwak' : 'mwak';
+  }
+  if (
+    sys.actionType === 'mwak' ||
+    sys.actionType === 'rwak' ||
+    sys.actionType === 'msak' ||
+    sys.actionType === 'rsak'
+  ) {
+    return sys.actionType;
+  }
+  if (item.type === 'weapon') {
+    return weaponCategory(item).endsWith('R') ? 'rwak' : 'mwak';
+  }
+  return undefined;
+}
+
+/** `simpleM`, `martialR`, … from `type.value` (4.x) or `weaponType` (3.x). */
+function weaponCategory(item: WorldItem): string {
+  const type = record(item.system.type).value ?? item.system.weaponType;
+  return typeof type === 'string' ? type : '';
+}
+
+function hasProperty(item: WorldItem, property: string): boolean {
+  const properties = item.system.properties;
+  if (Array.isArray(properties)) {
+    return properties.includes(property);
+  }
+  return record(properties)[property] === true;
+}
+
+/**
+ * The attack ability: explicit on the item or activity, else the
+ * spellcasting ability for spells, the better of STR and DEX for finesse
+ * weapons, DEX for ranged and STR for melee weapons.
+ */
+function attackAbility(
+  actor: WorldActor,
+  item: WorldItem,
+  actionType: ActionType,
+  activityAbility: unknown,
+): string | undefined {
+  for (const explicit of [activityAbility, item.system.ability]) {
+    if (explicit === 'none') {
+      return undefined;
+    }
+    if (typeof explicit === 'string' && explicit in ABILITIES) {
+      return explicit;
+    }
+  }
+  if (actionType === 'msak' || actionType === 'rsak') {
+    const spellcasting = record(actor.system.attributes).spellcasting;
+    return typeof spellcasting === 'string' && spellcasting in ABILITIES ? spellcasting : 'int';
+  }
+  if (hasProperty(item, 'fin')) {
+    return abilityModifier(actor, 'dex') > abilityModifier(actor, 'str') ? 'dex' : 'str';
+  }
+  return actionType === 'rwak' ? 'dex' : 'str';
+}
+
+/**
+ * Weapon proficiency: `proficient` when set, otherwise (automatic) NPCs are
+ * proficient and characters when `traits.weaponProf` lists the weapon's
+ * category or base item.
+ */
+function isProficient(actor: WorldActor, item: WorldItem): boolean {
+  const proficient = item.system.proficient;
+  if (typeof proficient === 'number' || typeof proficient === 'boolean') {
+    return Boolean(proficient);
+  }
+  if (actor.type === 'npc' || item.type !== 'weapon') {
+    return true;
+  }
+  const known = record(record(actor.system.traits).weaponProf).value;
+  if (!Array.isArray(known)) {
+    return true;
+  }
+  const category = weaponCategory(item);
+  const base = record(item.system.type).baseItem ?? item.system.baseItem;
+  return (
+    (category.startsWith('simple') && known.includes('sim')) ||
+    (category.startsWith('martial') && known.includes('mar')) ||
+    (typeof base === 'string' && known.includes(base))
+  );
+}
+
+/**
+ * Damage of an attack. 3.x parts carry their own `@mod`; the 4.x weapon
+ * base damage adds the ability modifier implicitly.
+ */
+function damageParts(
+  item: WorldItem,
+  activity: Record<string, unknown> | undefined,
+  mod: number,
+  magical: number,
+  versatile: boolean,
+): DamagePart[] {
+  const damage = record(item.system.damage);
+  const withMod = (formula: string) => formula.replace(/@mod\b/g, String(mod));
+  const parts: DamagePart[] = [];
+
+  if (Array.isArray(damage.parts)) {
+    damage.parts.forEach((part, i) => {
+      if (!Array.isArray(part) || typeof part[0] !== 'string' || !part[0].trim()) {
+        return;
+      }
+      const formula =
+        i === 0 && versatile && typeof damage.versatile === 'string' && damage.versatile.trim()
+          ? damage.versatile
+          : part[0];
+      const entry: DamagePart = { formula: withMod(formula) };
+      if (typeof part[1] === 'string' && part[1]) {
+        entry.type = part[1];
+      }
+      parts.push(entry);
+    });
+    return parts;
+  }
+
+  const includeBase = record(activity?.damage).includeBase !== false;
+  const base = record(damage.base);
+  const dice = damageFormula(
+    versatile ? versatileBase(item, base, record(damage.versatile)) : base,
+  );
+  if (item.type === 'weapon' && includeBase && dice) {
+    const modText = mod ? ` ${mod < 0 ? '-' : '+'} ${Math.abs(mod)}` : '';
+    const magicText = magical ? ` + ${magical}` : '';
+    parts.push(withType({ formula: `${dice}${modText}${magicText}` }, base.types));
+  }
+  const activityParts = record(activity?.damage).parts;
+  if (Array.isArray(activityParts)) {
+    for (const part of activityParts) {
+      const formula = damageFormula(record(part));
+      if (formula) {
+        parts.push(withType({ formula: withMod(formula) }, record(part).types));
+      }
+    }
+  }
+  return parts;
+}
+
+/**
+ * 4.x versatile damage: the `versatile` fields that are set over the base,
+ * or the base die one size up when a versatile weapon sets none.
+ */
+function versatileBase(
+  item: WorldItem,
+  base: Record<string, unknown>,
+  versatile: Record<string, unknown>,
+): Record<string, unknown> {
+  if (typeof versatile.denomination === 'number' && versatile.denomination) {
+    return {
+      ...base,
+      ...Object.fromEntries(Object.entries(versatile).filter(([, v]) => v != null)),
+    };
+  }
+  if (!hasProperty(item, 'ver') || typeof base.denomination !== 'number') {
+    return base;
+  }
+  const steps = [4, 6, 8, 10, 12];
+  const next = steps[steps.indexOf(base.denomination) + 1];
+  return next ? { ...base, denomination: next } : base;
+}
+
+/** A 4.x damage part: `custom.formula`, or `number`d`denomination` + `bonus`. */
+function damageFormula(part: Record<string, unknown>): string | undefined {
+  const custom = record(part.custom);
+  if (custom.enabled === true && typeof custom.formula === 'string' && custom.formula.trim()) {
+    return custom.formula.trim();
+  }
+  const dice =
+    typeof part.number === 'number' && typeof part.denomination === 'number' && part.denomination
+      ? `${part.number}d${part.denomination}`
+      : '';
+  const bonus = typeof part.bonus === 'string' ? part.bonus.trim() : '';
+  if (!dice) {
+    return bonus || undefined;
+  }
+  return bonus ? `${dice} + ${bonus}` : dice;
+}
+
+function withType(part: DamagePart, types: unknown): DamagePart {
+  const [type] = stringList(types);
+  if (type) {
+    part.type = type;
+  }
+  return part;
+}
+
+/** The strings of an array or Set (`SetField`s serialize to arrays). */
+function stringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value instanceof Set ? [...value] : [];
+  return list.filter((v): v is string => typeof v === 'string');
+}
+
+/** A `flags.dnd5e` value of the actor. */
+function flag(actor: WorldActor, name: string): unknown {
+  return record(record(actor.flags).dnd5e)[name];
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function record(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
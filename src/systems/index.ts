@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Registry of game-system adapters
+ *
+ * Adding a system means implementing {@link SystemAdapter} in its own module
+ * and listing it here.
+ */
+
+import type { SystemAdapter } from './adapter.js';
+import { dnd5eAdapter } from './dnd5e.js';
+
+const ADAPTERS = new Map<string, SystemAdapter>([[dnd5eAdapter.id, dnd5eAdapter]]);
+
+/**
+ * The adapter for a game system id.
+ *
+ * @throws Error when the system has no adapter yet
+ */
+export function getSystemAdapter(systemId: string): SystemAdapter {
+  const adapter = ADAPTERS.get(systemId);
+  if (!adapter) {
+    throw new Error(
+      `Checks, attacks and damage traits are not supported for the ${systemId} system yet (supported: ${[...ADAPTERS.keys()].join(', ')})`,
+    );
+  }
+  return adapter;
+}
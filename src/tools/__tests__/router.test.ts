@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Tests for tool routing — dry-run / preview mode and audit attribution
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import type { DiagnosticsClient } from '../../diagnostics/client.js';
+import { FoundryClient, type FoundryClientConfig } from '../../foundry/client.js';
+import { WritePolicy } from '../../foundry/write-policy.js';
+import type { DiagnosticSystem } from '../../utils/diagnostics.js';
+import { routeToolRequest } from '../router.js';
+
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+/** A real client with a cached actor; writes are disabled unless asked. */
+function buildClient(config: Omit<FoundryClientConfig, 'baseUrl'> = {}) {
+  const client = new FoundryClient({ baseUrl: 'http://localhost:30000', ...config });
+  (client as unknown as { worldData: unknown }).worldData = {
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Aria',
+        type: 'character',
+        system: {},
+        items: [{ _id: ITEM_ID, name: 'Longsword', type: 'weapon', system: { damage: '1d8' } }],
+      },
+    ],
+  };
+  const emit = vi.fn();
+  (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+  return { client, emit };
+}
+
+const route = (name: string, args: Record<string, unknown>, client: FoundryClient) =>
+  routeToolRequest(
+    name,
+    args,
+    client,
+    {} as unknown as DiagnosticsClient,
+    {} as unknown as DiagnosticSystem,
+  );
+
+describe('routeToolRequest write context', () => {
+  it('returns the request and a diff for dryRun without emitting', async () => {
+    const { client, emit } = buildClient();
+
+    const result = await route(
+      'update_actor_item',
+      { actorId: ACTOR_ID, itemId: ITEM_ID, patch: { damage: '2d6' }, dryRun: true },
+      client,
+    );
+    const text = result.content[0]?.text ?? '';
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(text).toContain('Preview — no changes made');
+    expect(text).toContain('**Longsword** (iiiiiiiiiiiiiiii)');
+    expect(text).toContain('system.damage: "1d8" → "2d6"');
+    expect(text).toContain('"parentUuid": "Actor.aaaaaaaaaaaaaaaa"');
+    // The cache and the journal are untouched.
+    expect(client.getRawActor(ACTOR_ID)?.items?.[0]?.system).toEqual({ damage: '1d8' });
+    expect(client.getRecentChanges()).toEqual([]);
+  });
+
+  it('previews the chat message a roll would post', async () => {
+    const { client, emit } = buildClient();
+
+    const result = await route(
+      'roll_dice',
+      { formula: '1d20', actorId: ACTOR_ID, postToChat: true, dryRun: true },
+      client,
+    );
+    const text = result.content[0]?.text ?? '';
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(text).toContain('**1. create ChatMessage**');
+    expect(text).toContain('"alias": "Aria"');
+  });
+
+  it('rolls a previewed chat roll off the committed seed', async () => {
+    const { client } = buildClient();
+
+    const result = await route(
+      'roll_dice',
+      { formula: '1d20', postToChat: true, dryRun: true },
+      client,
+    );
+
+    expect(result.content[0]?.text).toContain('placeholders outside the committed seed');
+    expect(client.getDiceCommitment().rolls).toBe(0);
+  });
+
+  it('checks writes are possible before rolling for chat', async () => {
+    const { client } = buildClient();
+
+    await expect(route('roll_dice', { formula: '1d20', postToChat: true }, client)).rejects.toThrow(
+      /Write operations are disabled/,
+    );
+    expect(client.getDiceCommitment().rolls).toBe(0);
+    await route('roll_dice', { formula: '1d20' }, client);
+    expect(client.getDiceCommitment().rolls).toBe(1);
+  });
+
+  it('previews rolled initiative without spending committed rolls', async () => {
+    const { client, emit } = buildClient({ writeEnabled: true, writeMode: 'preview' });
+    const world = (client as unknown as { worldData: Record<string, unknown> }).worldData;
+    world.combats = [
+      {
+        _id: 'cccccccccccccccc',
+        active: true,
+        round: 1,
+        turn: 0,
+        started: true,
+        combatants: [
+          {
+            _id: 'bbbbbbbbbbbbbbbb',
+            name: 'Goblin',
+            initiative: null,
+            hidden: false,
+            defeated: false,
+          },
+        ],
+      },
+    ];
+    world.scenes = [];
+    world.world = { id: 'w' };
+    world.system = { id: 'dnd5e' };
+    world.release = {};
+
+    const result = await route('roll_initiative', {}, client);
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(result.content[0]?.text).toContain('**1. update Combatant**');
+    expect(result.content[0]?.text).toContain('placeholders outside the committed seed');
+    expect(client.getDiceCommitment().rolls).toBe(0);
+  });
+
+  it('previews every write under FOUNDRY_WRITE_MODE=preview', async () => {
+    const { client, emit } = buildClient({ writeEnabled: true, writeMode: 'preview' });
+
+    const result = await route('delete_actor_item', { actorId: ACTOR_ID, itemId: ITEM_ID }, client);
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(result.content[0]?.text).toContain('**1. delete Item** in Actor.aaaaaaaaaaaaaaaa');
+  });
+
+  it('still runs validation in preview mode', async () => {
+    const { client } = buildClient();
+    await expect(
+      route(
+        'update_actor_item',
+        { actorId: 'bad', itemId: ITEM_ID, patch: {}, dryRun: true },
+        client,
+      ),
+    ).rejects.toThrow(/Invalid actorId format/);
+  });
+
+  it('attributes live writes to the tool call in the audit log', async () => {
+    const { client, emit } = buildClient({ writeEnabled: true });
+    emit.mockImplementation((_event, payload, cb) =>
+      cb({ result: (payload as { operation: { ids: unknown[] } }).operation.ids }),
+    );
+
+    await route('delete_actor_item', { actorId: ACTOR_ID, itemId: ITEM_ID }, client);
+
+    expect(client.getAuditLog()[0]).toMatchObject({
+      tool: 'delete_actor_item',
+      args: { actorId: ACTOR_ID, itemId: ITEM_ID },
+    });
+  });
+
+  it('passes confirm through to the write policy', async () => {
+    const { client, emit } = buildClient({
+      writeEnabled: true,
+      writePolicy: new WritePolicy({ rules: [{ effect: 'confirm', actions: ['delete'] }] }),
+    });
+    emit.mockImplementation((_event, payload, cb) =>
+      cb({ result: (payload as { operation: { ids: unknown[] } }).operation.ids }),
+    );
+    const args = { actorId: ACTOR_ID, itemId: ITEM_ID };
+
+    await expect(route('delete_actor_item', args, client)).rejects.toThrow(
+      /requires confirmation to delete Item "Longsword"/,
+    );
+    expect(emit).not.toHaveBeenCalled();
+    expect(client.getAuditLog()[0]).toMatchObject({
+      tool: 'delete_actor_item',
+      outcome: 'denied',
+      uuids: [`Actor.${ACTOR_ID}.Item.${ITEM_ID}`],
+      error: expect.stringMatching(/requires confirmation/),
+    });
+
+    await route('delete_actor_item', { ...args, confirm: true }, client);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks apply_damage on an unlinked token against the Actor rules', async () => {
+    const { client, emit } = buildClient({
+      writeEnabled: true,
+      writePolicy: new WritePolicy({
+        rules: [
+          {
+            effect: 'deny',
+            documents: ['Actor'],
+            subtypes: ['npc'],
+            reason: 'NPCs are off limits',
+          },
+        ],
+      }),
+    });
+    const npcId = 'nnnnnnnnnnnnnnnn';
+    const tokenId = 'tttttttttttttttt';
+    (client as unknown as { worldData: unknown }).worldData = {
+      actors: [
+        {
+          _id: npcId,
+          name: 'Goblin',
+          type: 'npc',
+          system: { attributes: { hp: { value: 7, max: 7 } } },
+        },
+      ],
+      scenes: [
+        {
+          _id: 'ssssssssssssssss',
+          name: 'Cave',
+          tokens: [{ _id: tokenId, name: 'Goblin Scout', actorId: npcId, actorLink: false }],
+        },
+      ],
+      combats: [],
+    };
+
+    await expect(route('apply_damage', { tokenId, amount: 3 }, client)).rejects.toThrow(
+      'Write policy denies update Actor "Goblin" on Token "Goblin Scout": NPCs are off limits',
+    );
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('leaves read-only tools unaffected', async () => {
+    const { client } = buildClient({ writeMode: 'preview' });
+    const result = await route('list_recent_changes', {}, client);
+    expect(result.content[0]?.text).toContain('Recent Changes');
+  });
+});
@@ -5,28 +5,221 @@
  * Tools are separated into logical groups for better maintainability.
  */
 
+/**
+ * Arguments accepted by every write tool. `dryRun` validates the input and
+ * returns the exact `modifyDocument` request with a before/after diff,
+ * without sending it; `confirm` approves writes the write policy marks as
+ * needing confirmation.
+ */
+const writeOptionProperties = {
+  dryRun: {
+    type: 'boolean',
+    description:
+      'Validate and return the exact modifyDocument request with a before/after diff, without applying it',
+    default: false,
+  },
+  confirm: {
+    type: 'boolean',
+    description:
+      'Set only after the user has approved a write the write policy requires confirmation for',
+    default: false,
+  },
+};
+
 /**
  * Dice rolling tool definitions
  */
 export const diceTools = [
   {
     name: 'roll_dice',
-    description: 'Roll dice using standard RPG notation (e.g., 1d20, 3d6+4)',
+    description:
+      'Roll dice using FoundryVTT formula syntax: keep/drop (2d20kh1, 4d6dl1), exploding (1d6x, 1d6xo), rerolls (2d6r<2, 1d20rr1), success counting (6d10cs>=7), arithmetic with + - * / and floor/ceil/round/abs/min/max, flavor tags (2d6[fire]), percentile (d%) and Fudge (4dF) dice',
     inputSchema: {
       type: 'object',
       properties: {
         formula: {
           type: 'string',
-          description: 'Dice formula (e.g., "1d20+5", "3d6")',
+          description: 'Dice formula (e.g., "1d20+5", "2d20kh1+7", "8d6[fire]", "floor(1d8/2)")',
+        },
+        actorId: {
+          type: 'string',
+          description:
+            'Actor whose system data fills in @ references such as @abilities.dex.mod or @prof',
         },
         reason: {
           type: 'string',
           description: 'Optional reason for the roll',
         },
+        postToChat: {
+          type: 'boolean',
+          description:
+            'Also post the roll to the Foundry chat log as a ChatMessage (WRITE — requires FOUNDRY_WRITE_ENABLED=true); the reason becomes its flavor and actorId its speaker',
+          default: false,
+        },
+        rollMode: {
+          type: 'string',
+          enum: ['publicroll', 'gmroll', 'blindroll', 'selfroll'],
+          description: 'Who sees the posted roll (default publicroll)',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['formula'],
+    },
+  },
+  {
+    name: 'dice_odds',
+    description:
+      'Exact (or simulated) probability distribution of a dice formula: mean, range, the chance to meet a target such as a save DC, ' +
+      'and for attacks the hit and crit chance against an AC (natural 1 misses, natural 20 crits) plus expected damage including crits',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        formula: {
+          type: 'string',
+          description:
+            'Formula to analyse, e.g. "1d20 + 5" (save), "2d20kh1 + 7" (attack at advantage), "8d6" (damage)',
+        },
+        target: {
+          type: 'number',
+          description: 'DC or AC to compare the total against',
+        },
+        comparison: {
+          type: 'string',
+          enum: ['>=', '>', '<=', '<', '='],
+          description: 'How the total must compare to the target (default >=, i.e. meet or beat)',
+        },
+        attack: {
+          type: 'boolean',
+          description:
+            'Treat the formula as an attack roll against target (AC): natural 1 always misses, natural 20 always hits and crits. Implied by damage',
+        },
+        damage: {
+          type: 'string',
+          description: 'Damage formula on a hit, for expected damage per attack',
+        },
+        critDamage: {
+          type: 'string',
+          description: 'Damage formula on a crit (default: damage with its dice doubled)',
+        },
+        critRange: {
+          type: 'integer',
+          minimum: 2,
+          maximum: 20,
+          description: 'Lowest natural d20 that crits (default 20; 19 for Improved Critical)',
+        },
+        actorId: {
+          type: 'string',
+          description: 'Actor whose system data fills in @ references in the formulas',
+        },
+        samples: {
+          type: 'integer',
+          minimum: 1000,
+          maximum: 200000,
+          description:
+            'Rolls to simulate when an exact answer is not feasible (default 100000; formulas rolling many dice get fewer)',
+        },
       },
       required: ['formula'],
     },
   },
+  {
+    name: 'get_dice_commitment',
+    description:
+      'Show the SHA-256 commitment to the secret seed that local dice rolls are drawn from, published before the rolls so ' +
+      'players can later verify them with reveal_dice_seed',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'reveal_dice_seed',
+    description:
+      'End the dice session: reveal its seed and the log of every local roll, check the log replays from the seed, ' +
+      'and start a new session with a fresh committed seed',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+/**
+ * System-aware check and attack tool definitions
+ */
+const advantageProperty = {
+  type: 'string',
+  enum: ['normal', 'advantage', 'disadvantage'],
+  description: 'Roll 2d20 and keep the higher (advantage) or lower (disadvantage); default normal',
+};
+
+export const checkTools = [
+  {
+    name: 'roll_check',
+    description:
+      "Roll an ability check, saving throw or skill check for an actor, with the modifier read from the actor's " +
+      'game-system data (ability modifier, proficiency, expertise and bonuses). Supported systems: dnd5e',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        actorId: {
+          type: 'string',
+          description: 'Actor ID',
+        },
+        kind: {
+          type: 'string',
+          enum: ['ability', 'save', 'skill'],
+          description: 'Ability check, saving throw or skill check',
+        },
+        key: {
+          type: 'string',
+          description: 'Ability or skill id or name, e.g. "dex", "Dexterity", "ste", "Stealth"',
+        },
+        advantage: advantageProperty,
+        dc: {
+          type: 'number',
+          description: 'Difficulty class; reports success or failure when given',
+        },
+      },
+      required: ['actorId', 'kind', 'key'],
+    },
+  },
+  {
+    name: 'roll_attack',
+    description:
+      "Roll an attack with one of an actor's weapons or spells: the attack bonus (ability, proficiency, " +
+      'magic and item bonuses) and damage parts come from the game-system data. Reports critical hits and fumbles, ' +
+      'the result against a target AC, and rolls damage on a hit (dice doubled on a critical). Supported systems: dnd5e',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        actorId: {
+          type: 'string',
+          description: 'Actor ID',
+        },
+        item: {
+          type: 'string',
+          description: "Item id or name among the actor's items",
+        },
+        advantage: advantageProperty,
+        targetAc: {
+          type: 'number',
+          description: "Target's armor class; reports hit or miss when given",
+        },
+        versatile: {
+          type: 'boolean',
+          description: 'Use the versatile (two-handed) damage',
+          default: false,
+        },
+        rollDamage: {
+          type: 'boolean',
+          description: 'Roll damage when the attack hits (or when no targetAc is given)',
+          default: true,
+        },
+      },
+      required: ['actorId', 'item'],
+    },
+  },
 ];
 
 /**
@@ -102,6 +295,7 @@ export const actorMutationTools = [
             type: ['number', 'string', 'boolean'],
           },
         },
+        ...writeOptionProperties,
       },
       required: ['actorId', 'patch'],
     },
@@ -147,7 +341,7 @@ export const compendiumTools = [
   {
     name: 'search_compendium',
     description:
-      'Search FoundryVTT compendium packs by name and metadata. Searches all enabled compendiums by default; the compendiumId filter scopes to one pack. Requires the REST API module (FOUNDRY_API_KEY).',
+      'Search FoundryVTT compendium packs by name and metadata. Searches all enabled compendiums by default; the compendiumId filter scopes to one pack. Packs are read over the Socket.IO session (or the REST API module when FOUNDRY_API_KEY is set).',
     inputSchema: {
       type: 'object',
       properties: {
@@ -208,7 +402,7 @@ export const itemMutationTools = [
   {
     name: 'create_actor_item',
     description:
-      'Create an item on an actor from an inline item document (requires FOUNDRY_WRITE_ENABLED + active Socket.IO connection). Compendium-source create is not yet supported over Socket.IO (see issue #159). Canonical target: D&D 5e v4+ activity schema.',
+      'Create an item on an actor from a compendium entry or an inline item document (requires FOUNDRY_WRITE_ENABLED + active Socket.IO connection). Compendium entries are read over the same socket; use search_compendium to find the compendiumId/itemId. Canonical target: D&D 5e v4+ activity schema.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -241,6 +435,7 @@ export const itemMutationTools = [
           },
           required: ['type'],
         },
+        ...writeOptionProperties,
       },
       required: ['actorId', 'source'],
     },
@@ -265,6 +460,7 @@ export const itemMutationTools = [
           description:
             'JSON merge patch applied to item.system; nested paths supported (e.g. activities.{id}.consumption.targets)',
         },
+        ...writeOptionProperties,
       },
       required: ['actorId', 'itemId', 'patch'],
     },
@@ -284,6 +480,7 @@ export const itemMutationTools = [
           type: 'string',
           description: 'The ID of the item to delete',
         },
+        ...writeOptionProperties,
       },
       required: ['actorId', 'itemId'],
     },
@@ -334,6 +531,10 @@ export const generationTools = [
           type: 'string',
           description: 'Character class (optional)',
         },
+        seed: {
+          type: 'string',
+          description: 'Seed for a reproducible result (optional; default: unseeded)',
+        },
       },
     },
   },
@@ -353,6 +554,10 @@ export const generationTools = [
           type: 'string',
           description: 'Type of treasure (hoard, individual, etc.)',
         },
+        seed: {
+          type: 'string',
+          description: 'Seed for a reproducible result (optional; default: unseeded)',
+        },
       },
     },
   },
@@ -467,10 +672,32 @@ export const diagnosticsTools = [
 export const combatTools = [
   {
     name: 'get_combat_state',
-    description: 'Get the current active combat state including initiative order, HP, and AC',
+    description:
+      'Get the current active combat state including initiative order, HP, and AC. ' +
+      'Pass combatId to read another encounter (see list_combats).',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+      },
+    },
+  },
+  {
+    name: 'list_combats',
+    description:
+      'List every combat encounter across all scenes with its scene, whether it is active, the round and who is acting. ' +
+      'Use the IDs as combatId on the other combat tools.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sceneId: {
+          type: 'string',
+          description: 'Only list combats on this Scene document ID',
+        },
+      },
     },
   },
 ];
@@ -480,7 +707,8 @@ export const combatTools = [
  *
  * WRITE operations — require FOUNDRY_WRITE_ENABLED=true and an active Socket.IO
  * connection (mutations use the core `modifyDocument` protocol). All operate on
- * the *active* combat; the connected user needs GM/owner permission.
+ * the *active* combat unless a combatId picks another; the connected user needs
+ * GM/owner permission.
  */
 export const combatMutationTools = [
   {
@@ -497,17 +725,46 @@ export const combatMutationTools = [
           description:
             "Skip combatants flagged as defeated when advancing. Defaults to the combat's skipDefeated setting, or false.",
         },
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
       },
     },
   },
   {
     name: 'end_combat',
     description:
-      'End (delete) the active combat encounter. ' +
+      'End (delete) the active combat encounter, or the one given by combatId. ' +
       'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
+      },
+    },
+  },
+  {
+    name: 'activate_combat',
+    description:
+      'Make a combat the active encounter of its scene, deactivating the other active combats on that scene. ' +
+      'Combats on other scenes keep running. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        combatId: {
+          type: 'string',
+          description: 'The Combat document ID to activate (see list_combats)',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['combatId'],
     },
   },
   {
@@ -530,145 +787,812 @@ export const combatMutationTools = [
           type: 'string',
           description: 'Optional Combat document ID; defaults to the active combat',
         },
+        ...writeOptionProperties,
       },
       required: ['combatantId', 'initiative'],
     },
   },
   {
-    name: 'start_combat',
+    name: 'previous_turn',
     description:
-      'Start a new combat encounter, seeding combatants from tokens. ' +
-      'Provide explicit tokenIds, or omit them to seed every token on the scene. ' +
-      'Defaults to the active scene when sceneId is omitted. ' +
-      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection (GM permission).',
+      'Step the combat back one turn, into the previous round from the first combatant. ' +
+      'When skipDefeated is true, defeated combatants are skipped. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
       properties: {
-        tokenIds: {
-          type: 'array',
-          items: { type: 'string' },
+        skipDefeated: {
+          type: 'boolean',
           description:
-            'Optional list of Token document IDs to add as combatants. Defaults to all tokens on the scene.',
+            "Skip combatants flagged as defeated. Defaults to the combat's skipDefeated setting, or false.",
         },
-        sceneId: {
+        combatId: {
           type: 'string',
-          description: 'Optional Scene document ID; defaults to the active scene.',
+          description: 'Optional Combat document ID; defaults to the active combat',
         },
+        ...writeOptionProperties,
       },
     },
   },
-];
-
-/**
- * Token manipulation mutation tool definitions (FR-019)
- *
- * WRITE operations — require FOUNDRY_WRITE_ENABLED=true and an active Socket.IO
- * connection (mutations use the core `modifyDocument` protocol). The connected
- * user needs GM/owner permission.
- */
-export const tokenMutationTools = [
   {
-    name: 'move_token',
+    name: 'set_turn',
     description:
-      'Move a token to new x/y pixel coordinates on its scene. ' +
-      'The token is located across scenes by id (optionally scoped with sceneId). ' +
+      'Give the turn to a specific combatant, optionally setting the round. ' +
       'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
       properties: {
-        tokenId: {
+        combatantId: {
           type: 'string',
-          description: 'The ID of the token to move',
-        },
-        x: {
-          type: 'number',
-          description: 'Target x pixel coordinate on the scene',
+          description: 'The ID of the combatant whose turn it becomes',
         },
-        y: {
+        round: {
           type: 'number',
-          description: 'Target y pixel coordinate on the scene',
+          description: 'Optional round number (positive integer); defaults to the current round',
         },
-        sceneId: {
+        combatId: {
           type: 'string',
-          description: 'Optional Scene ID to scope the token lookup',
+          description: 'Optional Combat document ID; defaults to the active combat',
         },
+        ...writeOptionProperties,
       },
-      required: ['tokenId', 'x', 'y'],
+      required: ['combatantId'],
     },
   },
   {
-    name: 'apply_status_effect',
+    name: 'add_combatants',
     description:
-      "Apply or remove a status condition (e.g. 'prone', 'stunned') on a token's actor. " +
-      'Set active=false to remove. Matches by status id, so re-applying or clearing-when-absent is a no-op. ' +
+      'Add scene tokens to a running combat, e.g. reinforcements. Tokens already in the combat are skipped; ' +
+      'new combatants have no initiative until rolled. ' +
       'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
       properties: {
-        tokenId: {
-          type: 'string',
-          description: 'The ID of the token whose actor to affect',
+        tokenIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Token document IDs to add as combatants',
         },
-        statusId: {
+        sceneId: {
           type: 'string',
-          description: "The status condition id (e.g. 'prone', 'stunned', 'blinded')",
-        },
-        active: {
-          type: 'boolean',
-          description: 'true to apply the effect (default), false to remove it',
-          default: true,
+          description: "Scene of the tokens; defaults to the combat's scene, then the active scene",
         },
-        sceneId: {
+        combatId: {
           type: 'string',
-          description: 'Optional Scene ID to scope the token lookup',
+          description: 'Optional Combat document ID; defaults to the active combat',
         },
+        ...writeOptionProperties,
       },
-      required: ['tokenId', 'statusId'],
+      required: ['tokenIds'],
     },
   },
-];
-
-/**
- * Chat message tool definitions
- */
-export const chatTools = [
   {
-    name: 'get_chat_messages',
-    description: 'Get recent chat messages from the game',
+    name: 'remove_combatants',
+    description:
+      'Remove combatants from a combat, e.g. fleeing enemies. The acting combatant keeps the turn; ' +
+      'if it is removed, the next combatant in order acts. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
       properties: {
-        limit: {
-          type: 'number',
-          description: 'Number of messages to retrieve (default 20)',
-          default: 20,
-          minimum: 1,
-          maximum: 100,
+        combatantIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Combatant IDs to remove',
         },
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
       },
+      required: ['combatantIds'],
     },
   },
-];
-
-/**
- * User tool definitions
- */
-export const userTools = [
   {
-    name: 'get_users',
-    description: 'Get the list of users with their online status and roles',
+    name: 'toggle_combatant_defeated',
+    description:
+      'Mark a combatant defeated or not; toggles when defeated is omitted. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
     inputSchema: {
       type: 'object',
-      properties: {},
-    },
-  },
-];
-
-/**
- * Journal tool definitions
- */
-export const journalTools = [
-  {
+      properties: {
+        combatantId: {
+          type: 'string',
+          description: 'The ID of the combatant',
+        },
+        defeated: {
+          type: 'boolean',
+          description: 'true to mark defeated, false to clear; omit to toggle',
+        },
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['combatantId'],
+    },
+  },
+  {
+    name: 'toggle_combatant_hidden',
+    description:
+      'Hide a combatant from players in the combat tracker, or reveal it; toggles when hidden is omitted. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        combatantId: {
+          type: 'string',
+          description: 'The ID of the combatant',
+        },
+        hidden: {
+          type: 'boolean',
+          description: 'true to hide, false to reveal; omit to toggle',
+        },
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['combatantId'],
+    },
+  },
+  {
+    name: 'roll_initiative',
+    description:
+      'Roll initiative for combatants in the active combat and write every result in one batched update. ' +
+      'Rolls for the given combatantIds, otherwise for all (or only NPC) combatants without initiative. ' +
+      "Uses each actor's initiative modifier, bonuses and advantage flags, with the system's tiebreaker " +
+      '(dnd5e: Dexterity score / 100). Optionally posts each roll to chat. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        combatantIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Combatants to roll for (rolled even if they already have initiative)',
+        },
+        scope: {
+          type: 'string',
+          enum: ['all', 'npcs'],
+          description:
+            'Without combatantIds: roll for all combatants, or only those no player owns (default all)',
+          default: 'all',
+        },
+        rerollExisting: {
+          type: 'boolean',
+          description: 'Without combatantIds: also reroll combatants that already have initiative',
+          default: false,
+        },
+        postToChat: {
+          type: 'boolean',
+          description: 'Post each roll to the chat log (hidden combatants are whispered to GMs)',
+          default: false,
+        },
+        rollMode: {
+          type: 'string',
+          enum: ['publicroll', 'gmroll', 'blindroll', 'selfroll'],
+          description: 'Roll mode of the chat messages (default publicroll)',
+        },
+        combatId: {
+          type: 'string',
+          description: 'Optional Combat document ID; defaults to the active combat',
+        },
+        ...writeOptionProperties,
+      },
+    },
+  },
+  {
+    name: 'start_combat',
+    description:
+      'Start a new combat encounter, seeding combatants from tokens. ' +
+      'Provide explicit tokenIds, or omit them to seed every token on the scene. ' +
+      'Defaults to the active scene when sceneId is omitted. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection (GM permission).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenIds: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Optional list of Token document IDs to add as combatants. Defaults to all tokens on the scene.',
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Optional Scene document ID; defaults to the active scene.',
+        },
+        ...writeOptionProperties,
+      },
+    },
+  },
+];
+
+/**
+ * Token manipulation mutation tool definitions (FR-019)
+ *
+ * WRITE operations — require FOUNDRY_WRITE_ENABLED=true and an active Socket.IO
+ * connection (mutations use the core `modifyDocument` protocol). The connected
+ * user needs GM/owner permission.
+ */
+export const tokenMutationTools = [
+  {
+    name: 'move_token',
+    description:
+      'Move a token to new x/y pixel coordinates on its scene. ' +
+      'The token is located across scenes by id (optionally scoped with sceneId). ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenId: {
+          type: 'string',
+          description: 'The ID of the token to move',
+        },
+        x: {
+          type: 'number',
+          description: 'Target x pixel coordinate on the scene',
+        },
+        y: {
+          type: 'number',
+          description: 'Target y pixel coordinate on the scene',
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Optional Scene ID to scope the token lookup',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['tokenId', 'x', 'y'],
+    },
+  },
+  {
+    name: 'apply_status_effect',
+    description:
+      "Apply or remove a status condition (e.g. 'prone', 'stunned') on a token's actor. " +
+      'Set active=false to remove. Matches by status id, so re-applying or clearing-when-absent is a no-op. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenId: {
+          type: 'string',
+          description: 'The ID of the token whose actor to affect',
+        },
+        statusId: {
+          type: 'string',
+          description: "The status condition id (e.g. 'prone', 'stunned', 'blinded')",
+        },
+        active: {
+          type: 'boolean',
+          description: 'true to apply the effect (default), false to remove it',
+          default: true,
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Optional Scene ID to scope the token lookup',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['tokenId', 'statusId'],
+    },
+  },
+  {
+    name: 'apply_damage',
+    description:
+      "Apply damage to a token's or combatant's actor. Temporary HP absorb damage first; HP stop at 0. " +
+      "Typed damage parts are halved, zeroed or doubled by the target's resistances, immunities and vulnerabilities (dnd5e), " +
+      'honouring magical, silvered and adamantine bypasses; each adjustment is explained. ' +
+      'Linked tokens change the world actor, unlinked tokens their own delta. ' +
+      'Set markDefeated to mark the combatant defeated when it drops to 0 HP. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenId: {
+          type: 'string',
+          description: 'The ID of the token whose actor to affect (or give combatantId)',
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Optional Scene ID to scope the token lookup',
+        },
+        combatantId: {
+          type: 'string',
+          description: 'The ID of the combatant whose actor to affect (instead of tokenId)',
+        },
+        combatId: {
+          type: 'string',
+          description:
+            'Optional Combat document ID; defaults to the active combat, or for a tokenId the active combat it is in',
+        },
+        amount: {
+          type: 'number',
+          description: 'Untyped damage to apply (non-negative integer); give this or damage',
+        },
+        damage: {
+          type: 'array',
+          description:
+            'Typed damage parts, e.g. [{ "amount": 12, "type": "fire" }, { "amount": 4, "type": "piercing", "magical": true }]',
+          items: {
+            type: 'object',
+            properties: {
+              amount: { type: 'number', description: 'Damage of this type (non-negative integer)' },
+              type: { type: 'string', description: "Damage type, e.g. 'fire', 'slashing'" },
+              magical: { type: 'boolean', description: 'The attack is magical' },
+              silvered: { type: 'boolean', description: 'The weapon is silvered' },
+              adamantine: { type: 'boolean', description: 'The weapon is adamantine' },
+            },
+            required: ['amount'],
+          },
+        },
+        markDefeated: {
+          type: 'boolean',
+          description: 'Mark the combatant defeated if this brings it to 0 HP (default false)',
+          default: false,
+        },
+        ...writeOptionProperties,
+      },
+    },
+  },
+  {
+    name: 'apply_healing',
+    description:
+      "Heal a token's or combatant's actor, up to its maximum HP (including any temporary maximum). " +
+      'Set temp=true to grant temporary HP instead; they do not stack, so the higher amount is kept. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tokenId: {
+          type: 'string',
+          description: 'The ID of the token whose actor to affect (or give combatantId)',
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Optional Scene ID to scope the token lookup',
+        },
+        combatantId: {
+          type: 'string',
+          description: 'The ID of the combatant whose actor to affect (instead of tokenId)',
+        },
+        combatId: {
+          type: 'string',
+          description:
+            'Optional Combat document ID; defaults to the active combat, or for a tokenId the active combat it is in',
+        },
+        amount: {
+          type: 'number',
+          description: 'Hit points to restore, or temporary HP to grant (non-negative integer)',
+        },
+        temp: {
+          type: 'boolean',
+          description: 'Grant temporary hit points instead of healing (default false)',
+          default: false,
+        },
+        ...writeOptionProperties,
+      },
+      required: ['amount'],
+    },
+  },
+];
+
+/**
+ * Batch mutation tool definitions
+ *
+ * WRITE operation — requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO
+ * connection.
+ */
+export const batchMutationTools = [
+  {
+    name: 'batch_update',
+    description:
+      'Apply many document changes at once — e.g. damage five goblins, knock two prone and advance the turn. ' +
+      'Operations are grouped into one modifyDocument request per document type, action and parent. ' +
+      'All or nothing: if a request fails, the requests already applied are reverted. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operations: {
+          type: 'array',
+          description: 'Single-document operations, applied in order of first appearance per group',
+          minItems: 1,
+          maxItems: 100,
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                description: 'Document name, e.g. "Actor", "Combat", "Token", "ActiveEffect"',
+              },
+              action: {
+                type: 'string',
+                enum: ['create', 'update', 'delete'],
+              },
+              parentUuid: {
+                type: 'string',
+                description:
+                  'Parent UUID for embedded documents (e.g. "Actor.<id>" for an ActiveEffect, "Scene.<id>" for a Token)',
+              },
+              id: {
+                type: 'string',
+                description: 'Target document id (update / delete)',
+              },
+              changes: {
+                type: 'object',
+                description:
+                  'Fields to change (update), nested or dot-notation, e.g. {"system.attributes.hp.value": 3}',
+                additionalProperties: true,
+              },
+              data: {
+                type: 'object',
+                description: 'Document data (create)',
+                additionalProperties: true,
+              },
+            },
+            required: ['type', 'action'],
+          },
+        },
+        ...writeOptionProperties,
+      },
+      required: ['operations'],
+    },
+  },
+];
+
+/**
+ * Mutation journal tool definitions
+ *
+ * `list_recent_changes` is read-only. `undo_change` is a WRITE operation —
+ * it requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.
+ */
+export const changeJournalTools = [
+  {
+    name: 'list_recent_changes',
+    description:
+      'List the most recent game-state changes made through this server (newest first), with the change ids accepted by undo_change.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Maximum number of changes to list',
+          default: 20,
+        },
+      },
+    },
+  },
+  {
+    name: 'undo_change',
+    description:
+      'Reverse a change made through this server by issuing the inverse operation: delete what was created, restore updated fields, or re-create a deleted document with its original id. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        changeId: {
+          type: 'string',
+          description: 'Change id from list_recent_changes (e.g. "chg-3")',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['changeId'],
+    },
+  },
+  {
+    name: 'get_audit_log',
+    description:
+      'Show the audit trail of writes made through this server (newest first): the tool and arguments behind each write, the documents touched, the FoundryVTT user, the server result and timing. Writes the write policy refused are listed as denied. ' +
+      "Filter by document, tool or time range — e.g. to find out who set an actor's HP.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        documentUuid: {
+          type: 'string',
+          description:
+            'Only writes touching this document UUID or documents embedded in it (e.g. "Actor.abc123")',
+        },
+        tool: {
+          type: 'string',
+          description: 'Only writes made by this tool (e.g. "update_actor_attributes")',
+        },
+        since: {
+          type: 'string',
+          description: 'Only writes at or after this ISO 8601 timestamp',
+        },
+        until: {
+          type: 'string',
+          description: 'Only writes at or before this ISO 8601 timestamp',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of entries to return',
+          default: 20,
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Chat message tool definitions
+ */
+export const chatTools = [
+  {
+    name: 'get_chat_messages',
+    description:
+      'Get chat messages from the game, newest page first, with each roll parsed into formula, total and dice. ' +
+      'Filter by speaker actor, author, time window, visibility, rolls and text, e.g. to find what a character rolled for Stealth',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Number of messages per page (default 20)',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
+        },
+        offset: {
+          type: 'number',
+          description: 'Matching messages to skip, counting back from the newest (for older pages)',
+          minimum: 0,
+        },
+        actorId: {
+          type: 'string',
+          description: 'Only messages spoken as this actor',
+        },
+        user: {
+          type: 'string',
+          description: 'Only messages posted by this user (id or name)',
+        },
+        since: {
+          type: 'string',
+          description: 'Only messages at or after this ISO 8601 date-time',
+        },
+        until: {
+          type: 'string',
+          description: 'Only messages at or before this ISO 8601 date-time',
+        },
+        visibility: {
+          type: 'string',
+          enum: ['public', 'whisper', 'blind'],
+          description: 'Only public, whispered or blind messages',
+        },
+        rollsOnly: {
+          type: 'boolean',
+          description: 'Only messages that carry dice rolls',
+          default: false,
+        },
+        search: {
+          type: 'string',
+          description: 'Case-insensitive text in the content, flavor, speaker or roll formulas',
+        },
+        fullContent: {
+          type: 'boolean',
+          description: 'Return whole messages instead of the first 200 characters',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'export_session_log',
+    description:
+      'Export a time range of the chat log as a Markdown or HTML session transcript for a recap: speakers resolved ' +
+      'to actor and player names, in-character and out-of-character speech told apart, whispers marked, rolls ' +
+      'written out, and scene changes and combat rounds where known. The transcript is returned as the second content item',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description:
+            'Start of the session (ISO 8601 date-time); default the start of the chat log',
+        },
+        until: {
+          type: 'string',
+          description: 'End of the session (ISO 8601 date-time); default now',
+        },
+        format: {
+          type: 'string',
+          enum: ['markdown', 'html'],
+          description: 'Transcript format (default markdown)',
+        },
+        excludeWhispers: {
+          type: 'boolean',
+          description: 'Leave out whispered and blind messages instead of marking them',
+          default: false,
+        },
+        title: {
+          type: 'string',
+          description: 'Transcript heading (default "Session Log — <world title>")',
+        },
+      },
+    },
+  },
+  {
+    name: 'roll_statistics',
+    description:
+      'd20 statistics from the chat log per player and per character: natural 20s and 1s, average roll against ' +
+      'what fair dice would give, success rate against DCs where the roll states one, and longest hot and cold ' +
+      'streaks. Flags players or characters whose dice stray unusually far from a fair d20',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description: 'Start of the range (ISO 8601 date-time), e.g. the start of the session',
+        },
+        until: {
+          type: 'string',
+          description: 'End of the range (ISO 8601 date-time)',
+        },
+        actorId: {
+          type: 'string',
+          description: 'Only rolls spoken as this actor',
+        },
+        user: {
+          type: 'string',
+          description: 'Only rolls posted by this user (id or name)',
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Chat mutation tool definitions
+ *
+ * WRITE operation — requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO
+ * connection.
+ */
+export const chatMutationTools = [
+  {
+    name: 'send_chat_message',
+    description:
+      'Post a message to the Foundry chat log, optionally as an actor or token, whispered to users, ' +
+      'or with a GM/blind/self roll mode. To post a dice roll, use roll_dice with postToChat. ' +
+      'Requires FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        content: {
+          type: 'string',
+          description: 'Message text (HTML allowed)',
+        },
+        flavor: {
+          type: 'string',
+          description: 'Optional flavor text shown above the message',
+        },
+        actorId: {
+          type: 'string',
+          description: 'Speak as this actor',
+        },
+        tokenId: {
+          type: 'string',
+          description: 'Speak as this token (requires sceneId)',
+        },
+        sceneId: {
+          type: 'string',
+          description: 'Scene of the speaking token',
+        },
+        alias: {
+          type: 'string',
+          description: 'Speaker name to display (defaults to the actor or token name)',
+        },
+        whisper: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'User ids or names to whisper to',
+        },
+        rollMode: {
+          type: 'string',
+          enum: ['publicroll', 'gmroll', 'blindroll', 'selfroll'],
+          description:
+            'gmroll whispers to the GMs, blindroll also hides it from the sender, selfroll whispers to yourself',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['content'],
+    },
+  },
+];
+
+/**
+ * User tool definitions
+ */
+export const userTools = [
+  {
+    name: 'get_users',
+    description: 'Get the list of users with their online status and roles',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+/**
+ * RollTable tool definitions
+ *
+ * draw_from_table WRITEs only with markDrawn or postToChat — those require
+ * FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.
+ */
+export const tableTools = [
+  {
+    name: 'list_roll_tables',
+    description:
+      "List the world's RollTables (random encounters, weather, loot, …) with their formula and result counts",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Filter by table name (case-insensitive substring)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of tables to list (default 50)',
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+    },
+  },
+  {
+    name: 'draw_from_table',
+    description:
+      'Draw from a world RollTable as FoundryVTT does: roll its formula, take the results whose range covers the total, ' +
+      'skip drawn results on tables without replacement and follow results that link other tables. ' +
+      'Optionally mark the results drawn and post the draw to chat (WRITE — requires FOUNDRY_WRITE_ENABLED=true)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        table: {
+          type: 'string',
+          description: 'RollTable id or name',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of draws (default 1)',
+          minimum: 1,
+          maximum: 20,
+        },
+        markDrawn: {
+          type: 'boolean',
+          description:
+            'Flag the drawn results as drawn on tables without replacement, so later draws skip them (WRITE)',
+          default: false,
+        },
+        postToChat: {
+          type: 'boolean',
+          description: 'Post the draw to the Foundry chat log as a table result card (WRITE)',
+          default: false,
+        },
+        rollMode: {
+          type: 'string',
+          enum: ['publicroll', 'gmroll', 'blindroll', 'selfroll'],
+          description: 'Who sees the posted draw (default publicroll)',
+        },
+        ...writeOptionProperties,
+      },
+      required: ['table'],
+    },
+  },
+];
+
+/**
+ * Journal tool definitions
+ */
+export const journalTools = [
+  {
     name: 'search_journals',
     description: 'Search journal entries by name or content',
     inputSchema: {
@@ -707,6 +1631,28 @@ export const journalTools = [
  * World-level tool definitions
  */
 export const worldTools = [
+  {
+    name: 'get_document',
+    description:
+      'Fetch any document by its FoundryVTT UUID — e.g. "Actor.<id>", "JournalEntry.<id>.JournalEntryPage.<id>", "Scene.<id>.Token.<id>.Actor.<id>" or "Compendium.<package>.<pack>.<Type>.<id>". ' +
+      'Accepts a whole @UUID[…]{label} link from journal or chat text, and lists the links found in the document.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        uuid: {
+          type: 'string',
+          description: 'Document UUID, or an @UUID[…] link',
+        },
+        maxLength: {
+          type: 'number',
+          description: 'Maximum characters of document JSON to return (default 6000)',
+          default: 6000,
+          minimum: 100,
+        },
+      },
+      required: ['uuid'],
+    },
+  },
   {
     name: 'search_world',
     description: 'Search across all collections (actors, items, scenes, journals) by name',
@@ -750,6 +1696,7 @@ export const worldTools = [
 export function getAllTools() {
   return [
     ...diceTools,
+    ...checkTools,
     ...actorTools,
     ...actorMutationTools,
     ...itemTools,
@@ -759,7 +1706,11 @@ export function getAllTools() {
     ...combatTools,
     ...combatMutationTools,
     ...tokenMutationTools,
+    ...batchMutationTools,
+    ...changeJournalTools,
     ...chatTools,
+    ...chatMutationTools,
+    ...tableTools,
     ...userTools,
     ...journalTools,
     ...worldTools,
@@ -0,0 +1,104 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it, vi } from 'vitest';
+import { FoundryClient } from '../../../foundry/client.js';
+import { runWithWriteContext } from '../../../foundry/write-context.js';
+import { WritePreview } from '../../../foundry/write-preview.js';
+import { handleGetAuditLog } from '../audit.js';
+
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+const USER_ID = 'uuuuuuuuuuuuuuuu';
+
+type SocketEmitMock = (event: string, payload: unknown, cb: (response: unknown) => void) => void;
+
+/**
+ * Builds a real client over a mocked socket whose acks echo the request, or
+ * reject it when `reject` is set.
+ */
+function buildClient(reject?: string) {
+  const client = new FoundryClient({ baseUrl: 'http://localhost:30000', writeEnabled: true });
+  (client as unknown as { worldData: unknown }).worldData = {
+    userId: USER_ID,
+    users: [{ _id: USER_ID, name: 'Gamemaster', role: 4 }],
+    activeUsers: [USER_ID],
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Goblin',
+        type: 'npc',
+        system: {},
+        items: [{ _id: ITEM_ID, name: 'Scimitar', type: 'weapon', system: { damage: '1d6' } }],
+      },
+    ],
+  };
+  const emit = vi.fn(((_event, payload, cb) => {
+    if (reject) {
+      cb({ error: { message: reject } });
+      return;
+    }
+    const op = (payload as { operation: { updates?: unknown[]; ids?: unknown[] } }).operation;
+    cb({ result: op.updates ?? op.ids ?? [] });
+  }) as SocketEmitMock);
+  (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+  return client;
+}
+
+const asTool = <T>(name: string, args: Record<string, unknown>, fn: () => Promise<T>) =>
+  runWithWriteContext({ tool: { name, args } }, fn);
+
+describe('handleGetAuditLog', () => {
+  it('records who made a write, with which tool and arguments', async () => {
+    const client = buildClient();
+    const args = { actorId: ACTOR_ID, itemId: ITEM_ID, patch: { damage: '1d8' } };
+    await asTool('update_actor_item', args, () =>
+      client.updateActorItem(ACTOR_ID, ITEM_ID, { damage: '1d8' }),
+    );
+
+    const [audited] = client.getAuditLog();
+    expect(audited).toMatchObject({
+      tool: 'update_actor_item',
+      args,
+      type: 'Item',
+      action: 'update',
+      uuids: [`Actor.${ACTOR_ID}.Item.${ITEM_ID}`],
+      userId: USER_ID,
+      outcome: 'ok',
+      changeId: 'chg-1',
+    });
+
+    const result = await handleGetAuditLog({ documentUuid: `Actor.${ACTOR_ID}` }, client);
+    const text = result.content[0]?.text ?? '';
+    expect(text).toContain('Audit Log** (1)');
+    expect(text).toContain('**update_actor_item** update Item by Gamemaster ✅');
+    expect(text).toContain(`Documents: Actor.${ACTOR_ID}.Item.${ITEM_ID}`);
+  });
+
+  it('records rejected writes', async () => {
+    const client = buildClient('You lack permission');
+    await expect(
+      asTool('delete_actor_item', {}, () => client.deleteActorItem(ACTOR_ID, ITEM_ID)),
+    ).rejects.toThrow(/You lack permission/);
+
+    const result = await handleGetAuditLog({ tool: 'delete_actor_item' }, client);
+    expect(result.content[0]?.text).toContain('❌ You lack permission');
+    expect(client.getRecentChanges()).toEqual([]);
+  });
+
+  it('does not audit dry runs', async () => {
+    const client = buildClient();
+    await runWithWriteContext({ preview: new WritePreview() }, () =>
+      client.deleteActorItem(ACTOR_ID, ITEM_ID),
+    );
+
+    const result = await handleGetAuditLog({}, client);
+    expect(result.content[0]?.text).toContain('No matching writes have been recorded.');
+  });
+
+  it('rejects malformed filters', async () => {
+    const client = buildClient();
+    await expect(handleGetAuditLog({ since: 'last tuesday' }, client)).rejects.toBeInstanceOf(
+      McpError,
+    );
+    await expect(handleGetAuditLog({ limit: 0 }, client)).rejects.toThrow(/limit/);
+  });
+});
@@ -0,0 +1,135 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it, vi } from 'vitest';
+import type { BatchOperation } from '../../../foundry/batch.js';
+import { FoundryClient } from '../../../foundry/client.js';
+import { runWithWriteContext } from '../../../foundry/write-context.js';
+import { WritePreview } from '../../../foundry/write-preview.js';
+import { handleBatchUpdate } from '../batch.js';
+
+const GOBLIN_1 = 'gggggggggggggg01';
+const GOBLIN_2 = 'gggggggggggggg02';
+const EFFECT_ID = 'eeeeeeeeeeeeeeee';
+const COMBAT_ID = 'cccccccccccccccc';
+
+type SocketEmitMock = (event: string, payload: unknown, cb: (response: unknown) => void) => void;
+type Request = {
+  type: string;
+  action: string;
+  operation: { data?: unknown[]; updates?: unknown[]; ids?: unknown[] };
+};
+
+const goblin = (id: string) => ({
+  _id: id,
+  name: `Goblin ${id.slice(-1)}`,
+  type: 'npc',
+  system: { attributes: { hp: { value: 7, max: 7 } } },
+  effects: [],
+});
+
+/**
+ * Builds a real client over a mocked socket whose acks echo the request;
+ * `rejectType` makes requests for that document type fail.
+ */
+function buildClient(rejectType?: string) {
+  const client = new FoundryClient({ baseUrl: 'http://localhost:30000', writeEnabled: true });
+  (client as unknown as { worldData: unknown }).worldData = {
+    actors: [goblin(GOBLIN_1), goblin(GOBLIN_2)],
+    combats: [{ _id: COMBAT_ID, round: 1, turn: 0, combatants: [] }],
+  };
+  const emit = vi.fn(((_event, payload, cb) => {
+    const { type, operation } = payload as Request;
+    if (type === rejectType) {
+      cb({ error: { message: 'Combat not found' } });
+      return;
+    }
+    const data = operation.data?.map((d) => ({ _id: EFFECT_ID, ...(d as object) }));
+    cb({ result: data ?? operation.updates ?? operation.ids ?? [] });
+  }) as SocketEmitMock);
+  (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+  return { client, emit };
+}
+
+const hp = (client: FoundryClient, id: string) =>
+  (client.getRawActor(id)?.system as { attributes: { hp: { value: number } } }).attributes.hp.value;
+
+const AOE: BatchOperation[] = [
+  { type: 'Actor', action: 'update', id: GOBLIN_1, changes: { 'system.attributes.hp.value': 0 } },
+  { type: 'Actor', action: 'update', id: GOBLIN_2, changes: { 'system.attributes.hp.value': 2 } },
+  {
+    type: 'ActiveEffect',
+    action: 'create',
+    parentUuid: `Actor.${GOBLIN_2}`,
+    data: { name: 'Prone', statuses: ['prone'] },
+  },
+];
+
+describe('handleBatchUpdate', () => {
+  it('sends one request per group and journals each', async () => {
+    const { client, emit } = buildClient();
+
+    const result = await handleBatchUpdate({ operations: AOE }, client);
+    const text = result.content[0]?.text ?? '';
+
+    expect(emit).toHaveBeenCalledTimes(2);
+    expect((emit.mock.calls[0]?.[1] as Request).operation.updates).toHaveLength(2);
+    expect(text).toContain('**Operations:** 3 in 2 request(s)');
+    expect(text).toContain('`chg-1` update Actor (2)');
+    expect(text).toContain(`\`chg-2\` create ActiveEffect (1) in Actor.${GOBLIN_2}`);
+    expect(hp(client, GOBLIN_1)).toBe(0);
+    expect(client.getRawActor(GOBLIN_2)?.effects).toHaveLength(1);
+  });
+
+  it('reverts earlier requests when a later one fails', async () => {
+    const { client, emit } = buildClient('Combat');
+    const operations: BatchOperation[] = [
+      ...AOE,
+      { type: 'Combat', action: 'update', id: COMBAT_ID, changes: { turn: 1 } },
+    ];
+
+    await expect(handleBatchUpdate({ operations }, client)).rejects.toThrow(
+      /Batch failed at request 3 of 3 \(update Combat\): .*Combat not found\. Reverted 2 earlier request\(s\)\./,
+    );
+
+    // Two groups, the failing request, then the two reverts newest first.
+    const sent = emit.mock.calls.map(
+      (c) => `${(c[1] as Request).action} ${(c[1] as Request).type}`,
+    );
+    expect(sent).toEqual([
+      'update Actor',
+      'create ActiveEffect',
+      'update Combat',
+      'delete ActiveEffect',
+      'update Actor',
+    ]);
+    expect(hp(client, GOBLIN_1)).toBe(7);
+    expect(hp(client, GOBLIN_2)).toBe(7);
+    expect(client.getRawActor(GOBLIN_2)?.effects).toEqual([]);
+  });
+
+  it('refuses targets missing from the world cache before sending anything', async () => {
+    const { client, emit } = buildClient();
+    await expect(
+      handleBatchUpdate(
+        { operations: [{ type: 'Actor', action: 'delete', id: 'zzzzzzzzzzzzzzzz' }] },
+        client,
+      ),
+    ).rejects.toThrow(/not in the world cache/);
+    expect(emit).not.toHaveBeenCalled();
+  });
+
+  it('collects every group in a dry run', async () => {
+    const { client, emit } = buildClient();
+    const preview = new WritePreview();
+    await runWithWriteContext({ preview }, () => handleBatchUpdate({ operations: AOE }, client));
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(preview.entries).toHaveLength(2);
+  });
+
+  it('rejects a missing operations list', async () => {
+    const { client } = buildClient();
+    await expect(
+      handleBatchUpdate({ operations: [] as BatchOperation[] }, client),
+    ).rejects.toBeInstanceOf(McpError);
+  });
+});
@@ -0,0 +1,100 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it, vi } from 'vitest';
+import { FoundryClient } from '../../../foundry/client.js';
+import { handleListRecentChanges, handleUndoChange } from '../changes.js';
+
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const ITEM_ID = 'iiiiiiiiiiiiiiii';
+
+type SocketEmitMock = (event: string, payload: unknown, cb: (response: unknown) => void) => void;
+
+/**
+ * Builds a real client over a mocked socket whose acks echo the request, so
+ * writes round-trip through the journal and the world cache.
+ */
+function buildClient() {
+  const client = new FoundryClient({ baseUrl: 'http://localhost:30000', writeEnabled: true });
+  (client as unknown as { worldData: unknown }).worldData = {
+    actors: [
+      {
+        _id: ACTOR_ID,
+        name: 'Goblin',
+        type: 'npc',
+        system: {},
+        items: [{ _id: ITEM_ID, name: 'Scimitar', type: 'weapon', system: { damage: '1d6' } }],
+      },
+    ],
+  };
+  const emit = vi.fn(((_event, payload, cb) => {
+    const op = (
+      payload as { operation: { data?: unknown[]; updates?: unknown[]; ids?: unknown[] } }
+    ).operation;
+    cb({ result: op.data ?? op.updates ?? op.ids ?? [] });
+  }) as SocketEmitMock);
+  (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+  return { client, emit };
+}
+
+describe('Mutation journal handlers', () => {
+  it('lists changes newest first', async () => {
+    const { client } = buildClient();
+    await client.deleteActorItem(ACTOR_ID, ITEM_ID);
+
+    const result = await handleListRecentChanges({}, client);
+    const text = result.content[0]?.text ?? '';
+
+    expect(text).toContain('Recent Changes** (1)');
+    expect(text).toContain('`chg-1`');
+    expect(text).toContain(`delete Item **Scimitar** in Actor.${ACTOR_ID}`);
+  });
+
+  it('reports an empty journal', async () => {
+    const { client } = buildClient();
+    const result = await handleListRecentChanges({}, client);
+    expect(result.content[0]?.text).toContain('No changes have been made');
+  });
+
+  it('re-creates a deleted item with its original id', async () => {
+    const { client, emit } = buildClient();
+    await client.deleteActorItem(ACTOR_ID, ITEM_ID);
+
+    const result = await handleUndoChange({ changeId: 'chg-1' }, client);
+
+    expect(emit.mock.calls[1]?.[1]).toMatchObject({
+      type: 'Item',
+      action: 'create',
+      operation: {
+        data: [{ _id: ITEM_ID, name: 'Scimitar', system: { damage: '1d6' } }],
+        keepId: true,
+        parentUuid: `Actor.${ACTOR_ID}`,
+      },
+    });
+    expect(result.content[0]?.text).toContain('**Undo Change ID:** chg-2');
+    expect(client.getRawActor(ACTOR_ID)?.items?.[0]?._id).toBe(ITEM_ID);
+    expect(client.getRecentChanges()[1]?.undoneBy).toBe('chg-2');
+  });
+
+  it('refuses to undo the same change twice', async () => {
+    const { client } = buildClient();
+    await client.deleteActorItem(ACTOR_ID, ITEM_ID);
+    await handleUndoChange({ changeId: 'chg-1' }, client);
+
+    await expect(handleUndoChange({ changeId: 'chg-1' }, client)).rejects.toThrow(
+      /already undone by chg-2/,
+    );
+  });
+
+  it('rejects an unknown change id', async () => {
+    const { client } = buildClient();
+    await expect(handleUndoChange({ changeId: 'chg-9' }, client)).rejects.toThrow(
+      /Change not found/,
+    );
+  });
+
+  it('requires a changeId', async () => {
+    const { client } = buildClient();
+    await expect(
+      handleUndoChange({} as unknown as { changeId: string }, client),
+    ).rejects.toBeInstanceOf(McpError);
+  });
+});
@@ -1,10 +1,17 @@
 /**
- * @fileoverview Unit tests for chat handler — get_chat_messages limit clamp
+ * @fileoverview Unit tests for chat handlers — get_chat_messages, export_session_log,
+ * roll_statistics and send_chat_message
  */
 
 import { describe, expect, it, vi } from 'vitest';
+import type { ChatMessageQuery } from '../../../foundry/chat-log.js';
 import type { FoundryClient } from '../../../foundry/client.js';
-import { handleGetChatMessages } from '../chat.js';
+import {
+  handleExportSessionLog,
+  handleGetChatMessages,
+  handleRollStatistics,
+  handleSendChatMessage,
+} from '../chat.js';
 
 interface MockChatMessage {
   _id: string;
@@ -12,6 +19,10 @@ interface MockChatMessage {
   user: string;
   timestamp: number;
   speaker?: { alias?: string };
+  flavor?: string;
+  whisper?: string[];
+  blind?: boolean;
+  rolls?: string[];
 }
 
 function buildMessages(count: number): MockChatMessage[] {
@@ -26,7 +37,11 @@ function buildMessages(count: number): MockChatMessage[] {
 
 function mockFoundryClient(allMessages: MockChatMessage[]): FoundryClient {
   return {
-    getChatMessages: vi.fn((limit: number) => allMessages.slice(0, limit)),
+    queryChatMessages: vi.fn((query: ChatMessageQuery) => ({
+      messages: allMessages.slice(0, query.limit),
+      total: allMessages.length,
+      offset: 0,
+    })),
     getUsers: vi.fn(() => ({ users: [{ _id: 'user-1', name: 'Alice' }] })),
   } as unknown as FoundryClient;
 }
@@ -48,25 +63,287 @@ describe('handleGetChatMessages — limit clamp', () => {
     const result = await handleGetChatMessages({ limit: 500 }, client);
     expect(countLines(result)).toBeLessThanOrEqual(100);
     // Verify the clamped value was passed to the client, not the raw 500
-    expect(client.getChatMessages).toHaveBeenCalledWith(100);
+    expect(client.queryChatMessages).toHaveBeenCalledWith({ limit: 100 });
   });
 
   it('clamps limit at 100 when caller requests 10000', async () => {
     const client = mockFoundryClient(buildMessages(1000));
     await handleGetChatMessages({ limit: 10_000 }, client);
-    expect(client.getChatMessages).toHaveBeenCalledWith(100);
+    expect(client.queryChatMessages).toHaveBeenCalledWith({ limit: 100 });
   });
 
   it('uses default limit of 20 when no limit supplied', async () => {
     const client = mockFoundryClient(buildMessages(50));
     const result = await handleGetChatMessages({}, client);
     expect(countLines(result)).toBeLessThanOrEqual(20);
-    expect(client.getChatMessages).toHaveBeenCalledWith(20);
+    expect(client.queryChatMessages).toHaveBeenCalledWith({ limit: 20 });
   });
 
   it('passes through small limits unchanged', async () => {
     const client = mockFoundryClient(buildMessages(50));
     await handleGetChatMessages({ limit: 5 }, client);
-    expect(client.getChatMessages).toHaveBeenCalledWith(5);
+    expect(client.queryChatMessages).toHaveBeenCalledWith({ limit: 5 });
+  });
+});
+
+describe('handleGetChatMessages — filters and rolls', () => {
+  const stealth: MockChatMessage = {
+    _id: 'roll-1',
+    content: '<span class="total">18</span>',
+    user: 'user-1',
+    timestamp: Date.UTC(2024, 0, 1, 20, 15, 0),
+    speaker: { alias: 'Vex' },
+    flavor: 'Dexterity (Stealth) Check',
+    whisper: ['gm'],
+    rolls: [
+      JSON.stringify({
+        class: 'Roll',
+        formula: '2d20kh + 7',
+        total: 18,
+        terms: [
+          {
+            class: 'Die',
+            faces: 20,
+            number: 2,
+            results: [
+              { result: 11, active: true },
+              { result: 4, active: false, discarded: true },
+            ],
+          },
+          { class: 'OperatorTerm', operator: '+' },
+          { class: 'NumericTerm', number: 7 },
+        ],
+      }),
+    ],
+  };
+
+  it('passes the filters and parses rolls', async () => {
+    const client = mockFoundryClient([stealth]);
+    const result = await handleGetChatMessages(
+      {
+        actorId: 'actor-1',
+        user: 'Alice',
+        since: '2024-01-01T20:00:00Z',
+        visibility: 'whisper',
+        rollsOnly: true,
+        search: 'stealth',
+      },
+      client,
+    );
+    const text = (result as { content: Array<{ text: string }> }).content[0]?.text ?? '';
+
+    expect(client.queryChatMessages).toHaveBeenCalledWith({
+      limit: 20,
+      actorId: 'actor-1',
+      user: 'Alice',
+      since: Date.UTC(2024, 0, 1, 20, 0, 0),
+      visibility: 'whisper',
+      rollsOnly: true,
+      search: 'stealth',
+    });
+    expect(text).toContain(
+      '[2024-01-01T20:15:00Z] **Vex** (whisper): _Dexterity (Stealth) Check_ 18',
+    );
+    expect(text).toContain('🎲 2d20kh + 7 = 18 (d20: 11, ~~4~~)');
+  });
+
+  it('points at the next page', async () => {
+    const client = mockFoundryClient(buildMessages(3));
+    vi.mocked(client.queryChatMessages).mockReturnValue({
+      messages: buildMessages(2) as never,
+      total: 3,
+      offset: 0,
+      nextOffset: 2,
+    });
+    const result = await handleGetChatMessages({ limit: 2 }, client);
+    const text = (result as { content: Array<{ text: string }> }).content[0]?.text ?? '';
+    expect(text).toContain('**Recent Chat Messages** (2 of 3 · older: offset 2)');
+  });
+
+  it('validates its arguments', async () => {
+    const client = mockFoundryClient([]);
+    await expect(handleGetChatMessages({ since: 'last tuesday' }, client)).rejects.toThrow(
+      'since must be an ISO 8601 date-time',
+    );
+    await expect(handleGetChatMessages({ visibility: 'secret' as never }, client)).rejects.toThrow(
+      'visibility must be one of',
+    );
+    await expect(handleGetChatMessages({ offset: -1 }, client)).rejects.toThrow(
+      'offset must be a non-negative integer',
+    );
+  });
+});
+
+describe('handleSendChatMessage', () => {
+  function mockSender() {
+    return {
+      sendChatMessage: vi.fn(async () => ({
+        _id: 'msg-1',
+        speaker: { alias: 'Goblin' },
+        whisper: ['gm', 'co-gm'],
+        blind: true,
+      })),
+    } as unknown as FoundryClient;
+  }
+
+  it('builds the speaker, whisper and roll mode', async () => {
+    const client = mockSender();
+    const result = await handleSendChatMessage(
+      { content: 'Boo', actorId: 'actor-1', whisper: ['Alice'], rollMode: 'blindroll' },
+      client,
+    );
+    const text = (result as { content: Array<{ text: string }> }).content[0]?.text ?? '';
+
+    expect(client.sendChatMessage).toHaveBeenCalledWith({
+      content: 'Boo',
+      speaker: { actorId: 'actor-1' },
+      whisper: ['Alice'],
+      rollMode: 'blindroll',
+    });
+    expect(text).toContain('**Message ID:** msg-1');
+    expect(text).toContain('**Speaker:** Goblin');
+    expect(text).toContain('**Visibility:** whispered to 2 user(s), blind');
+  });
+
+  it('validates its arguments', async () => {
+    const client = mockSender();
+    await expect(handleSendChatMessage({ content: ' ' }, client)).rejects.toThrow(
+      'content is required',
+    );
+    await expect(
+      handleSendChatMessage({ content: 'x', whisper: 'Alice' as unknown as string[] }, client),
+    ).rejects.toThrow('whisper must be an array');
+    await expect(handleSendChatMessage({ content: 'x', tokenId: 't' }, client)).rejects.toThrow(
+      'sceneId is required',
+    );
+    expect(client.sendChatMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleExportSessionLog', () => {
+  function mockExporter() {
+    return {
+      getSessionLog: vi.fn(() => ({
+        document: '# Session Log — Saltmarsh\n',
+        messages: 42,
+        from: Date.UTC(2024, 2, 9, 19, 0),
+        to: Date.UTC(2024, 2, 9, 23, 0),
+      })),
+    } as unknown as FoundryClient;
+  }
+
+  it('returns a summary and the transcript', async () => {
+    const client = mockExporter();
+    const result = await handleExportSessionLog(
+      { since: '2024-03-09T18:00:00Z', format: 'html', excludeWhispers: true },
+      client,
+    );
+    const [summary, transcript] = (result as { content: Array<{ text: string }> }).content;
+
+    expect(client.getSessionLog).toHaveBeenCalledWith({
+      format: 'html',
+      excludeWhispers: true,
+      since: Date.UTC(2024, 2, 9, 18, 0),
+    });
+    expect(summary?.text).toContain('42 messages from 2024-03-09T19:00:00.000Z');
+    expect(summary?.text).toContain('whispers left out');
+    expect(summary?.text).toContain('session-2024-03-09.html');
+    expect(transcript?.text).toBe('# Session Log — Saltmarsh\n');
+  });
+
+  it('validates its arguments', async () => {
+    const client = mockExporter();
+    await expect(handleExportSessionLog({ format: 'pdf' as never }, client)).rejects.toThrow(
+      'format must be one of: markdown, html',
+    );
+    await expect(handleExportSessionLog({ until: 'soon' }, client)).rejects.toThrow(
+      'until must be an ISO 8601 date-time',
+    );
+  });
+});
+
+describe('handleRollStatistics', () => {
+  const stats = (name: string, fields: Record<string, number> = {}) => ({
+    name,
+    rolls: 40,
+    natural20s: 4,
+    natural1s: 1,
+    average: 12.25,
+    expected: 10.5,
+    faces: 40,
+    faceAverage: 12.25,
+    z: 1.9,
+    checks: 8,
+    successes: 6,
+    longestHighStreak: 5,
+    longestLowStreak: 2,
+    ...fields,
+  });
+
+  it('reports each player and character and flags unusual dice', async () => {
+    const client = {
+      getRollStatistics: vi.fn(() => ({
+        overall: stats('Everyone'),
+        byUser: [stats('Alice', { faceAverage: 14, z: 3.8 })],
+        byActor: [stats('Vex', { faceAverage: 14, z: 3.8 })],
+        from: Date.UTC(2024, 0, 1, 20),
+        to: Date.UTC(2024, 0, 1, 23),
+      })),
+    } as unknown as FoundryClient;
+
+    const result = await handleRollStatistics(
+      { user: 'Alice', since: '2024-01-01T00:00:00Z' },
+      client,
+    );
+    const text = (result as { content: Array<{ text: string }> }).content[0]?.text ?? '';
+
+    expect(client.getRollStatistics).toHaveBeenCalledWith({
+      since: Date.UTC(2024, 0, 1),
+      user: 'Alice',
+    });
+    expect(text).toContain(
+      '**Everyone:** 40 rolls · avg 12.3 (expected 10.5) · nat 20 ×4 (10%) · nat 1 ×1 (3%) · ' +
+        'vs DC 6/8 (75%) · longest streaks 5 above 10, 2 at 10 or below',
+    );
+    expect(text).toContain('- **Alice:** 40 rolls');
+    expect(text).toContain('- **Vex:** 40 rolls');
+    expect(text).toContain(
+      '⚠️ Alice: 40 d20 faces average 14.00, 3.8 standard deviations above a fair die',
+    );
+    expect(text).not.toContain('⚠️ Everyone');
+  });
+
+  it('tells apart characters with the same name by id', async () => {
+    const client = {
+      getRollStatistics: vi.fn(() => ({
+        overall: stats('Everyone'),
+        byUser: [{ id: 'gm', ...stats('Gamemaster') }],
+        byActor: [
+          { id: 'gob1', ...stats('Goblin') },
+          { id: 'gob2', ...stats('Goblin') },
+        ],
+      })),
+    } as unknown as FoundryClient;
+
+    const result = await handleRollStatistics({}, client);
+    const text = (result as { content: Array<{ text: string }> }).content[0]?.text ?? '';
+
+    expect(text).toContain('- **Gamemaster:** 40 rolls');
+    expect(text).toContain('- **Goblin (gob1):** 40 rolls');
+    expect(text).toContain('- **Goblin (gob2):** 40 rolls');
+  });
+
+  it('says so when there are no d20 rolls', async () => {
+    const client = {
+      getRollStatistics: vi.fn(() => ({
+        overall: stats('Everyone', { rolls: 0 }),
+        byUser: [],
+        byActor: [],
+      })),
+    } as unknown as FoundryClient;
+    const result = await handleRollStatistics({}, client);
+    expect((result as { content: Array<{ text: string }> }).content[0]?.text).toContain(
+      'No d20 rolls found',
+    );
   });
 });
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Unit tests for check and attack handlers — roll_check and roll_attack
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { evaluateRoll } from '../../../dice/roller.js';
+import type { FoundryClient } from '../../../foundry/client.js';
+import type { WorldActor } from '../../../foundry/types.js';
+import { damageFormulaOf, handleRollAttack, handleRollCheck } from '../checks.js';
+
+function getText(result: { content: Array<{ type: string; text: string }> }): string {
+  return result.content[0]?.text ?? '';
+}
+
+const rogue: WorldActor = {
+  _id: 'actor1',
+  name: 'Vex',
+  type: 'character',
+  system: {
+    attributes: { prof: 2 },
+    abilities: { str: { value: 10 }, dex: { value: 16 } },
+    skills: { ste: { value: 2, ability: 'dex' } },
+  },
+  items: [
+    {
+      _id: 'dagger1',
+      name: 'Dagger',
+      type: 'weapon',
+      system: {
+        actionType: 'mwak',
+        weaponType: 'simpleM',
+        properties: ['fin'],
+        damage: { parts: [['1d4 + @mod', 'piercing']] },
+      },
+    },
+  ],
+};
+
+/** A client whose rolls come up with `face` on every d20 (and the matching fraction on other dice). */
+function mockClient(face: number, system = 'dnd5e'): FoundryClient {
+  return {
+    getRawActor: vi.fn((id: string) => (id === rogue._id ? rogue : undefined)),
+    getWorldInfo: vi.fn(async () => ({ system })),
+    rollDice: vi.fn(async (formula: string) => ({
+      ...evaluateRoll(formula, () => (face - 1) / 20),
+      timestamp: '2026-01-01T00:00:00.000Z',
+    })),
+  } as unknown as FoundryClient;
+}
+
+describe('handleRollCheck', () => {
+  it('rolls the derived modifier against a DC', async () => {
+    const client = mockClient(10);
+    const text = getText(
+      await handleRollCheck({ actorId: 'actor1', kind: 'skill', key: 'stealth', dc: 15 }, client),
+    );
+
+    expect(client.rollDice).toHaveBeenCalledWith(
+      '1d20 + 3[dex] + 4[expertise]',
+      'Vex: Dexterity (Stealth) check',
+      { actorId: 'actor1' },
+    );
+    expect(text).toContain('**Modifier:** +7 (dex +3, expertise +4)');
+    expect(text).toContain('**Total:** 17');
+    expect(text).toContain('**DC 15:** ✅ Success');
+  });
+
+  it('rolls 2d20 for advantage and notes a natural 20', async () => {
+    const client = mockClient(20);
+    const text = getText(
+      await handleRollCheck(
+        { actorId: 'actor1', kind: 'ability', key: 'str', advantage: 'advantage' },
+        client,
+      ),
+    );
+
+    expect(vi.mocked(client.rollDice).mock.calls[0]?.[0]).toBe('2d20kh');
+    expect(text).toContain('(advantage)');
+    expect(text).toContain('**Total:** 20 (natural 20)');
+  });
+
+  it('rejects bad arguments and unsupported systems', async () => {
+    await expect(
+      handleRollCheck({ actorId: 'actor1', kind: 'luck' as never, key: 'str' }, mockClient(10)),
+    ).rejects.toThrow('kind must be one of');
+    await expect(
+      handleRollCheck({ actorId: 'actor1', kind: 'save', key: 'dex' }, mockClient(10, 'pf2e')),
+    ).rejects.toThrow('not supported for the pf2e system yet');
+  });
+});
+
+describe('handleRollAttack', () => {
+  it('hits, rolls damage and resolves the item by name', async () => {
+    const client = mockClient(12);
+    const text = getText(
+      await handleRollAttack({ actorId: 'actor1', item: 'dagger', targetAc: 14 }, client),
+    );
+
+    expect(client.rollDice).toHaveBeenCalledWith('1d20 + 3[dex] + 2[prof]', 'Vex: Dagger attack', {
+      actorId: 'actor1',
+    });
+    expect(text).toContain('**Total:** 17');
+    expect(text).toContain('**vs AC 14:** ✅ Hit');
+    expect(vi.mocked(client.rollDice).mock.calls[1]?.[0]).toBe('(1d4 + 3)[piercing]');
+    expect(text).toContain('piercing');
+  });
+
+  it('doubles damage dice on a critical hit and misses on a natural 1', async () => {
+    const crit = getText(
+      await handleRollAttack({ actorId: 'actor1', item: 'dagger1', targetAc: 30 }, mockClient(20)),
+    );
+    expect(crit).toContain('CRITICAL HIT');
+    expect(crit).toContain('**vs AC 30:** ✅ Hit');
+    expect(crit).toContain('**Damage (critical):**');
+
+    const client = mockClient(1);
+    const fumble = getText(
+      await handleRollAttack({ actorId: 'actor1', item: 'dagger', targetAc: 1 }, client),
+    );
+    expect(fumble).toContain('automatic miss');
+    expect(fumble).toContain('**vs AC 1:** ❌ Miss');
+    expect(client.rollDice).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a missing item', async () => {
+    await expect(
+      handleRollAttack({ actorId: 'actor1', item: 'bow' }, mockClient(10)),
+    ).rejects.toThrow('Vex has no item bow');
+  });
+});
+
+describe('damageFormulaOf', () => {
+  it('flavors parts with their type and doubles dice on a critical', () => {
+    const parts = [{ formula: '1d8 + 3', type: 'slashing' }, { formula: 'd6' }];
+    expect(damageFormulaOf(parts, false)).toBe('(1d8 + 3)[slashing] + (d6)');
+    expect(damageFormulaOf(parts, true, '1d6')).toBe(
+      '(2d8 + 3)[slashing] + (2d6) + (1d6)[critical]',
+    );
+  });
+
+  it('doubles dice that carry modifiers, leaving roll data alone', () => {
+    const parts = [{ formula: '2d6r<3 + @mod', type: 'slashing' }, { formula: '2d10kh1 + 1d8x' }];
+    expect(damageFormulaOf(parts, true)).toBe('(4d6r<3 + @mod)[slashing] + (4d10kh1 + 2d8x)');
+  });
+});
@@ -1,13 +1,24 @@
 import { McpError } from '@modelcontextprotocol/sdk/types.js';
 import { describe, expect, it, vi } from 'vitest';
 import { FoundryClient } from '../../../foundry/client.js';
-import type { WorldCombat } from '../../../foundry/types.js';
+import type { WorldActor, WorldCombat } from '../../../foundry/types.js';
 import {
   computeNextTurn,
+  computePreviousTurn,
+  handleActivateCombat,
+  handleAddCombatants,
   handleEndCombat,
   handleNextTurn,
+  handlePreviousTurn,
+  handleRemoveCombatants,
+  handleRollInitiative,
   handleSetInitiative,
+  handleSetTurn,
   handleStartCombat,
+  handleToggleCombatantDefeated,
+  handleToggleCombatantHidden,
+  turnAfterInitiative,
+  turnAfterRemoval,
 } from '../combat-mutations.js';
 
 const COMBAT_ID = 'cccccccccccccccc'; // 16 alphanumeric chars
@@ -115,10 +126,111 @@ describe('computeNextTurn', () => {
   });
 });
 
+describe('computePreviousTurn', () => {
+  it('steps back to the previous combatant mid-round', () => {
+    expect(computePreviousTurn(makeCombat({ turn: 1, round: 2 }))).toEqual({ turn: 0, round: 2 });
+  });
+
+  it('wraps to the last combatant of the previous round', () => {
+    expect(computePreviousTurn(makeCombat({ turn: 0, round: 2 }))).toEqual({ turn: 1, round: 1 });
+  });
+
+  it('skips defeated combatants when asked', () => {
+    const combat = makeCombat({ turn: 0, round: 2 });
+    (combat.combatants[1] as { defeated: boolean }).defeated = true;
+    expect(computePreviousTurn(combat, true)).toEqual({ turn: 0, round: 1 });
+  });
+
+  it('refuses to go back before the first turn of round 1', () => {
+    expect(() => computePreviousTurn(makeCombat({ turn: 0, round: 1 }))).toThrow(/round 1/);
+  });
+});
+
+describe('turnAfterRemoval', () => {
+  const trio = (turn: number | null) =>
+    makeCombat({
+      turn,
+      combatants: ['a', 'b', 'c'].map((n) => ({
+        _id: n.repeat(16),
+        name: n,
+        initiative: null,
+        hidden: false,
+        defeated: false,
+      })),
+    });
+
+  it('keeps the acting combatant acting', () => {
+    expect(turnAfterRemoval(trio(2), ['a'.repeat(16)])).toBe(1);
+    expect(turnAfterRemoval(trio(0), ['c'.repeat(16)])).toBeNull();
+  });
+
+  it('passes the turn on when the acting combatant is removed', () => {
+    expect(turnAfterRemoval(trio(1), ['b'.repeat(16)])).toBeNull();
+    expect(turnAfterRemoval(trio(1), ['a'.repeat(16), 'b'.repeat(16)])).toBe(0);
+    expect(turnAfterRemoval(trio(2), ['c'.repeat(16)])).toBe(1);
+  });
+
+  it('leaves a combat without a turn alone', () => {
+    expect(turnAfterRemoval(trio(null), ['a'.repeat(16)])).toBeNull();
+  });
+});
+
+describe('turnAfterInitiative', () => {
+  it('follows the acting combatant to its new place in the order', () => {
+    // Alice (15) acts at turn 0 until Bob rolls 20.
+    const combat = makeCombat({ turn: 0 });
+    expect(turnAfterInitiative(combat, [{ combatantId: 'eeeeeeeeeeeeeeee', initiative: 20 }])).toBe(
+      1,
+    );
+    expect(
+      turnAfterInitiative(combat, [{ combatantId: 'eeeeeeeeeeeeeeee', initiative: 12 }]),
+    ).toBeNull();
+    expect(turnAfterInitiative(makeCombat({ turn: null }), [])).toBeNull();
+  });
+});
+
+describe('turn order', () => {
+  // Created Goblin, Alice, Bob; initiative order is Alice, Bob, Goblin.
+  const unsorted = (turn: number | null, round = 2) =>
+    makeCombat({
+      turn,
+      round,
+      combatants: [
+        { _id: 'gggggggggggggggg', name: 'Goblin', initiative: 5, hidden: false, defeated: false },
+        { _id: 'aaaaaaaaaaaaaaaa', name: 'Alice', initiative: 20, hidden: false, defeated: false },
+        { _id: 'bbbbbbbbbbbbbbbb', name: 'Bob', initiative: 12, hidden: false, defeated: false },
+      ],
+    });
+
+  it('indexes turns by initiative order, not creation order', () => {
+    expect(computeNextTurn(unsorted(0))).toEqual({ turn: 1, round: 2 });
+    expect(computePreviousTurn(unsorted(0))).toEqual({ turn: 2, round: 1 });
+    // Bob acts (turn 1); removing Alice moves him to turn 0.
+    expect(turnAfterRemoval(unsorted(1), ['aaaaaaaaaaaaaaaa'])).toBe(0);
+    expect(turnAfterRemoval(unsorted(1), ['gggggggggggggggg'])).toBeNull();
+  });
+
+  it('gives set_turn and previous_turn to the right combatant', async () => {
+    const client = {
+      getCombatState: vi.fn(() => unsorted(1)),
+      updateCombat: vi.fn(async () => ({})),
+    } as unknown as FoundryClient;
+
+    const set = await handleSetTurn({ combatantId: 'gggggggggggggggg' }, client);
+    expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 2, round: 2 });
+    expect(set.content[0].text).toContain('**Now acting:** Goblin');
+
+    const back = await handlePreviousTurn({}, client);
+    expect(client.updateCombat).toHaveBeenLastCalledWith(COMBAT_ID, { turn: 0, round: 2 });
+    expect(back.content[0].text).toContain('**Now acting:** Alice');
+  });
+});
+
 describe('Combat mutation handlers', () => {
   const createMockClient = (opts: {
     combat?: WorldCombat | null;
     scenes?: Array<Record<string, unknown>>;
+    deactivated?: string[];
     updateCombat?: (id: string, patch: { turn?: number; round?: number }) => unknown;
     endCombat?: (id: string) => unknown;
     setInitiative?: (combatId: string, combatantId: string, initiative: number) => unknown;
@@ -129,7 +241,15 @@ describe('Combat mutation handlers', () => {
   }): FoundryClient =>
     ({
       getCombatState: vi.fn(() => opts.combat ?? null),
+      getCombat: vi.fn((id: string) => (opts.combat?._id === id ? opts.combat : null)),
       getScenes: vi.fn(() => opts.scenes ?? []),
+      activateCombat: vi.fn(async () => opts.deactivated ?? []),
+      addCombatants: vi.fn(async (_combatId: string, seeds: Array<{ tokenId: string }>) =>
+        seeds.map((seed, i) => ({ _id: `new${i}`.padEnd(16, 'x'), name: seed.tokenId })),
+      ),
+      removeCombatants: vi.fn(async (_combatId: string, ids: string[]) => ids),
+      setCombatantDefeated: vi.fn(async () => ({})),
+      setCombatantHidden: vi.fn(async () => ({})),
       updateCombat: vi.fn(opts.updateCombat ?? (() => ({}))),
       endCombat: vi.fn(opts.endCombat ?? (() => undefined)),
       setCombatantInitiative: vi.fn(opts.setInitiative ?? (() => ({}))),
@@ -161,6 +281,14 @@ describe('Combat mutation handlers', () => {
       expect(client.updateCombat).not.toHaveBeenCalled();
     });
 
+    it('advances the combat given by combatId instead of the active one', async () => {
+      const client = createMockClient({ combat: makeCombat({ active: false, turn: 1 }) });
+      await handleNextTurn({ combatId: COMBAT_ID }, client);
+
+      expect(client.getCombatState).not.toHaveBeenCalled();
+      expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 0, round: 2 });
+    });
+
     it('propagates the write-disabled guard error', async () => {
       const client = createMockClient({
         combat: makeCombat(),
@@ -285,6 +413,188 @@ describe('Combat mutation handlers', () => {
       await expect(handleEndCombat({}, client)).rejects.toThrow(McpError);
       expect(client.endCombat).not.toHaveBeenCalled();
     });
+
+    it('ends the combat given by combatId', async () => {
+      const client = createMockClient({ combat: makeCombat({ active: false }) });
+      await handleEndCombat({ combatId: COMBAT_ID }, client);
+
+      expect(client.getCombat).toHaveBeenCalledWith(COMBAT_ID);
+      expect(client.getCombatState).not.toHaveBeenCalled();
+      expect(client.endCombat).toHaveBeenCalledWith(COMBAT_ID);
+      await expect(handleEndCombat({ combatId: 'ffffffffffffffff' }, client)).rejects.toThrow(
+        'Combat not found: ffffffffffffffff',
+      );
+    });
+  });
+
+  describe('handleActivateCombat', () => {
+    it('activates the combat and reports the combats it deactivated', async () => {
+      const client = createMockClient({
+        combat: makeCombat({ active: false, scene: 'ssssssssssssssss' }),
+        scenes: [{ _id: 'ssssssssssssssss', name: 'Tower' }],
+        deactivated: ['ffffffffffffffff'],
+      });
+      const result = await handleActivateCombat({ combatId: COMBAT_ID }, client);
+
+      expect(client.activateCombat).toHaveBeenCalledWith(COMBAT_ID);
+      const text = result.content[0].text;
+      expect(text).toContain('Combat Activated');
+      expect(text).toContain('**Scene:** Tower (ssssssssssssssss)');
+      expect(text).toContain('**Deactivated:** ffffffffffffffff');
+    });
+
+    it('says so when the combat was already active', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+      const result = await handleActivateCombat({ combatId: COMBAT_ID }, client);
+
+      expect(result.content[0].text).toContain('already active');
+    });
+
+    it('requires a known combatId', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+      await expect(handleActivateCombat({} as { combatId: string }, client)).rejects.toThrow(
+        McpError,
+      );
+      await expect(handleActivateCombat({ combatId: 'ffffffffffffffff' }, client)).rejects.toThrow(
+        'Combat not found',
+      );
+      expect(client.activateCombat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePreviousTurn', () => {
+    it('steps the active combat back and reports who acts', async () => {
+      const client = createMockClient({ combat: makeCombat({ turn: 1, round: 3 }) });
+      const result = await handlePreviousTurn({}, client);
+
+      expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 0, round: 3 });
+      expect(result.content[0].text).toContain('**Now acting:** Alice');
+    });
+
+    it('fails at the first turn of round 1', async () => {
+      const client = createMockClient({ combat: makeCombat({ turn: 0, round: 1 }) });
+      await expect(handlePreviousTurn({}, client)).rejects.toThrow(/round 1/);
+      expect(client.updateCombat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSetTurn', () => {
+    it("moves the turn to the combatant's place in the order", async () => {
+      const client = createMockClient({ combat: makeCombat({ turn: 0, round: 2 }) });
+      const result = await handleSetTurn({ combatantId: 'eeeeeeeeeeeeeeee' }, client);
+
+      expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 1, round: 2 });
+      expect(result.content[0].text).toContain('**Now acting:** Bob');
+    });
+
+    it('rejects unknown combatants and bad rounds', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+      await expect(handleSetTurn({ combatantId: 'zzzzzzzzzzzzzzzz' }, client)).rejects.toThrow(
+        McpError,
+      );
+      await expect(handleSetTurn({ combatantId: COMBATANT_ID, round: 0 }, client)).rejects.toThrow(
+        McpError,
+      );
+      expect(client.updateCombat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleAddCombatants', () => {
+    const SCENE = 'sceneididididid1';
+    const scenes = [
+      {
+        _id: SCENE,
+        name: 'Battlefield',
+        active: true,
+        tokens: [
+          { _id: 'tokenaaaaaaaaaaa', actorId: 'actoraaaaaaaaaaa' },
+          { _id: 'tokenbbbbbbbbbbb' },
+        ],
+      },
+    ];
+
+    it("adds tokens from the combat's scene, skipping those already fighting", async () => {
+      const combat = makeCombat({ scene: SCENE });
+      (combat.combatants[0] as { tokenId?: string }).tokenId = 'tokenbbbbbbbbbbb';
+      const client = createMockClient({ combat, scenes });
+
+      const result = await handleAddCombatants(
+        { tokenIds: ['tokenaaaaaaaaaaa', 'tokenbbbbbbbbbbb'] },
+        client,
+      );
+
+      expect(client.addCombatants).toHaveBeenCalledWith(COMBAT_ID, [
+        { tokenId: 'tokenaaaaaaaaaaa', sceneId: SCENE, actorId: 'actoraaaaaaaaaaa' },
+      ]);
+      const text = result.content[0].text;
+      expect(text).toContain('**Added:** 1');
+      expect(text).toContain('**Already in combat:** tokenbbbbbbbbbbb');
+      expect(text).toContain('roll_initiative');
+    });
+
+    it('rejects tokens that are not on the scene', async () => {
+      const client = createMockClient({ combat: makeCombat({ scene: SCENE }), scenes });
+      await expect(handleAddCombatants({ tokenIds: ['tokenzzzzzzzzzzz'] }, client)).rejects.toThrow(
+        McpError,
+      );
+      await expect(handleAddCombatants({ tokenIds: [] }, client)).rejects.toThrow(McpError);
+    });
+  });
+
+  describe('handleRemoveCombatants', () => {
+    it('removes combatants and keeps the acting one acting', async () => {
+      const client = createMockClient({ combat: makeCombat({ turn: 1 }) });
+
+      const result = await handleRemoveCombatants({ combatantIds: [COMBATANT_ID] }, client);
+
+      expect(client.removeCombatants).toHaveBeenCalledWith(COMBAT_ID, [COMBATANT_ID]);
+      expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 0 });
+      expect(result.content[0].text).toContain('**Removed:** Alice');
+      expect(result.content[0].text).toContain('**Now acting:** Bob');
+    });
+
+    it('rejects combatants that are not in the combat', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+      await expect(
+        handleRemoveCombatants({ combatantIds: ['zzzzzzzzzzzzzzzz'] }, client),
+      ).rejects.toThrow(/not found/);
+      expect(client.removeCombatants).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleToggleCombatantDefeated / Hidden', () => {
+    it('toggles the flag when no value is given', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+
+      const result = await handleToggleCombatantDefeated({ combatantId: COMBATANT_ID }, client);
+      await handleToggleCombatantHidden({ combatantId: COMBATANT_ID }, client);
+
+      expect(client.setCombatantDefeated).toHaveBeenCalledWith(COMBAT_ID, COMBATANT_ID, true);
+      expect(client.setCombatantHidden).toHaveBeenCalledWith(COMBAT_ID, COMBATANT_ID, true);
+      expect(result.content[0].text).toContain('Defeated');
+    });
+
+    it('leaves a combatant already in the requested state alone', async () => {
+      const client = createMockClient({ combat: makeCombat() });
+
+      const result = await handleToggleCombatantHidden(
+        { combatantId: COMBATANT_ID, hidden: false },
+        client,
+      );
+
+      expect(client.setCombatantHidden).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('(unchanged)');
+    });
+
+    it('honours an explicit combatId', async () => {
+      const client = createMockClient({ combat: makeCombat({ active: false }) });
+      await handleToggleCombatantDefeated(
+        { combatantId: COMBATANT_ID, defeated: true, combatId: COMBAT_ID },
+        client,
+      );
+      expect(client.getCombat).toHaveBeenCalledWith(COMBAT_ID);
+      expect(client.setCombatantDefeated).toHaveBeenCalledWith(COMBAT_ID, COMBATANT_ID, true);
+    });
   });
 
   describe('handleSetInitiative', () => {
@@ -300,6 +610,18 @@ describe('Combat mutation handlers', () => {
       expect(client.setCombatantInitiative).toHaveBeenCalledWith(COMBAT_ID, COMBATANT_ID, 18);
     });
 
+    it('keeps the acting combatant on its turn when the order changes', async () => {
+      // Alice (15) acts at turn 0; Bob jumping to 20 moves her to turn 1.
+      const client = createMockClient({ combat: makeCombat({ turn: 0 }) });
+      await handleSetInitiative({ combatantId: 'eeeeeeeeeeeeeeee', initiative: 20 }, client);
+      expect(client.setCombatantInitiative).toHaveBeenCalledWith(COMBAT_ID, 'eeeeeeeeeeeeeeee', 20);
+      expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 1 });
+
+      const unchanged = createMockClient({ combat: makeCombat({ turn: 0 }) });
+      await handleSetInitiative({ combatantId: COMBATANT_ID, initiative: 18 }, unchanged);
+      expect(unchanged.updateCombat).not.toHaveBeenCalled();
+    });
+
     it('honours an explicit combatId', async () => {
       const client = createMockClient({ combat: null });
       await handleSetInitiative(
@@ -335,6 +657,149 @@ describe('Combat mutation handlers', () => {
   });
 });
 
+describe('handleRollInitiative', () => {
+  const PC_ID = 'pcpcpcpcpcpcpcpc';
+  const NPC_ID = 'npcnpcnpcnpcnpc1';
+  const actor = (id: string, dex: number, extra: Partial<WorldActor> = {}): WorldActor => ({
+    _id: id,
+    name: id,
+    type: 'character',
+    system: { abilities: { dex: { value: dex } } },
+    ...extra,
+  });
+  const actors = [
+    actor(PC_ID, 16, {
+      ownership: { default: 0, player1: 3 },
+      flags: { dnd5e: { initiativeAlert: true } },
+    }),
+    actor(NPC_ID, 12),
+  ];
+  const users = [{ _id: 'player1', name: 'Pat', role: 1, color: '#fff' }];
+  const combat = () =>
+    makeCombat({
+      combatants: [
+        {
+          _id: COMBATANT_ID,
+          actorId: PC_ID,
+          name: 'Alice',
+          initiative: null,
+          hidden: false,
+          defeated: false,
+        },
+        {
+          _id: 'eeeeeeeeeeeeeeee',
+          actorId: NPC_ID,
+          name: 'Goblin',
+          initiative: null,
+          hidden: true,
+          defeated: false,
+        },
+        { _id: 'ffffffffffffffff', name: 'Trap', initiative: 14, hidden: false, defeated: false },
+      ],
+    });
+
+  const mockClient = (c: WorldCombat | null = combat()) =>
+    ({
+      getCombatState: vi.fn(() => c),
+      getCombat: vi.fn((id: string) => (c?._id === id ? c : null)),
+      getUsers: vi.fn(() => ({ users, activeUsers: [] })),
+      getRawActor: vi.fn((id: string) => actors.find((a) => a._id === id)),
+      findToken: vi.fn(() => null),
+      getWorldInfo: vi.fn(async () => ({ system: 'dnd5e' })),
+      // Every d20 lands on 10, so totals are 10 + the flat modifiers.
+      rollDice: vi.fn(async (formula: string) => {
+        const modifier = [...formula.matchAll(/([+-]) (\d+)\[/g)].reduce(
+          (sum, [, sign, n]) => sum + (sign === '-' ? -1 : 1) * Number(n),
+          0,
+        );
+        return { formula, total: 10 + modifier, breakdown: `${formula} = ${10 + modifier}` };
+      }),
+      setCombatantInitiatives: vi.fn(async () => []),
+      updateCombat: vi.fn(async () => ({})),
+      sendChatMessage: vi.fn(async () => ({ _id: 'mmmmmmmmmmmmmmmm' })),
+    }) as unknown as FoundryClient;
+
+  it('rolls everyone without initiative and writes one batched update', async () => {
+    const client = mockClient();
+
+    const result = await handleRollInitiative({}, client);
+
+    expect(client.rollDice).toHaveBeenCalledTimes(2);
+    expect(client.rollDice).toHaveBeenCalledWith('1d20 + 3[dex] + 5[alert]', 'Alice: Initiative', {
+      actorId: PC_ID,
+      forWrite: true,
+    });
+    expect(client.setCombatantInitiatives).toHaveBeenCalledTimes(1);
+    expect(client.setCombatantInitiatives).toHaveBeenCalledWith(COMBAT_ID, [
+      { combatantId: COMBATANT_ID, initiative: 18.16 },
+      { combatantId: 'eeeeeeeeeeeeeeee', initiative: 11.12 },
+    ]);
+    const text = result.content[0].text;
+    expect(text).toContain('Initiative Rolled');
+    expect(text.indexOf('Alice')).toBeLessThan(text.indexOf('Goblin'));
+    expect(client.sendChatMessage).not.toHaveBeenCalled();
+  });
+
+  it('keeps the acting combatant on its turn once the order re-sorts', async () => {
+    // Trap (14) acts first until Alice rolls 18.16 and sorts ahead of it.
+    const client = mockClient();
+    await handleRollInitiative({}, client);
+    expect(client.updateCombat).toHaveBeenCalledWith(COMBAT_ID, { turn: 1 });
+
+    // Only the Goblin rolls and sorts behind Trap, so Trap keeps turn 0.
+    const unchanged = mockClient();
+    await handleRollInitiative({ scope: 'npcs' }, unchanged);
+    expect(unchanged.updateCombat).not.toHaveBeenCalled();
+  });
+
+  it('rolls only NPCs, or the selected combatants', async () => {
+    const client = mockClient();
+    await handleRollInitiative({ scope: 'npcs' }, client);
+    expect(client.setCombatantInitiatives).toHaveBeenLastCalledWith(COMBAT_ID, [
+      { combatantId: 'eeeeeeeeeeeeeeee', initiative: 11.12 },
+    ]);
+
+    await handleRollInitiative({ combatantIds: ['ffffffffffffffff'] }, client);
+    expect(client.rollDice).toHaveBeenLastCalledWith('1d20', 'Trap: Initiative', {
+      forWrite: true,
+    });
+    expect(client.setCombatantInitiatives).toHaveBeenLastCalledWith(COMBAT_ID, [
+      { combatantId: 'ffffffffffffffff', initiative: 10 },
+    ]);
+  });
+
+  it('posts each roll to chat, hidden combatants as gmroll', async () => {
+    const client = mockClient();
+
+    await handleRollInitiative({ postToChat: true, rollMode: 'publicroll' }, client);
+
+    expect(client.sendChatMessage).toHaveBeenCalledTimes(2);
+    expect(client.sendChatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ flavor: 'Alice rolls for Initiative!', rollMode: 'publicroll' }),
+    );
+    expect(client.sendChatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ flavor: 'Goblin rolls for Initiative!', rollMode: 'gmroll' }),
+    );
+  });
+
+  it('reports when there is nothing to roll', async () => {
+    const client = mockClient(makeCombat());
+    const result = await handleRollInitiative({}, client);
+    expect(result.content[0].text).toContain('nothing to roll');
+    expect(client.setCombatantInitiatives).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown combatants, scopes and missing combats', async () => {
+    await expect(
+      handleRollInitiative({ combatantIds: ['zzzzzzzzzzzzzzzz'] }, mockClient()),
+    ).rejects.toThrow(/Combatants not found/);
+    await expect(
+      handleRollInitiative({ scope: 'pcs' as unknown as 'all' }, mockClient()),
+    ).rejects.toThrow(McpError);
+    await expect(handleRollInitiative({}, mockClient(null))).rejects.toThrow(McpError);
+  });
+});
+
 // --------------------------------------------------------------------------
 // Client-level: exercise the real methods with a mock socket, asserting the
 // emitted modifyDocument body (mirrors actor-mutations.test.ts).
@@ -412,6 +877,98 @@ describe('FoundryClient combat mutations', () => {
     });
   });
 
+  it('setCombatantInitiatives batches every combatant into one Combatant update', async () => {
+    const { client, emit } = buildClient({});
+    await client.setCombatantInitiatives(COMBAT_ID, [
+      { combatantId: COMBATANT_ID, initiative: 18.16 },
+      { combatantId: 'eeeeeeeeeeeeeeee', initiative: 7 },
+    ]);
+    expect(emit).toHaveBeenCalledTimes(1);
+    const [, body] = emit.mock.calls[0] as unknown[] as [string, Record<string, unknown>];
+    expect(body).toMatchObject({
+      type: 'Combatant',
+      action: 'update',
+      operation: {
+        updates: [
+          { _id: COMBATANT_ID, initiative: 18.16 },
+          { _id: 'eeeeeeeeeeeeeeee', initiative: 7 },
+        ],
+        parentUuid: `Combat.${COMBAT_ID}`,
+      },
+    });
+  });
+
+  it('addCombatants and removeCombatants create and delete embedded Combatants', async () => {
+    const { client, emit } = buildClient({});
+    await client.addCombatants(COMBAT_ID, [
+      { tokenId: 'tokenididididid1', sceneId: 'sceneididididid1' },
+    ]);
+    await client.removeCombatants(COMBAT_ID, [COMBATANT_ID]);
+
+    expect(emit.mock.calls[0]?.[1]).toMatchObject({
+      type: 'Combatant',
+      action: 'create',
+      operation: {
+        data: [{ tokenId: 'tokenididididid1', sceneId: 'sceneididididid1' }],
+        parentUuid: `Combat.${COMBAT_ID}`,
+      },
+    });
+    expect(emit.mock.calls[1]?.[1]).toMatchObject({
+      type: 'Combatant',
+      action: 'delete',
+      operation: { ids: [COMBATANT_ID], parentUuid: `Combat.${COMBAT_ID}` },
+    });
+  });
+
+  it('activateCombat activates one combat and deactivates the others on its scene', async () => {
+    const { client, emit } = buildClient({});
+    const combat = (_id: string, scene: string, active: boolean) => ({
+      _id,
+      scene,
+      active,
+      round: 0,
+      turn: null,
+      started: false,
+      combatants: [],
+    });
+    (client as unknown as { worldData: unknown }).worldData = {
+      combats: [
+        combat('aaaaaaaaaaaaaaaa', 'sceneididididid1', true),
+        combat('bbbbbbbbbbbbbbbb', 'sceneididididid2', true),
+        combat(COMBAT_ID, 'sceneididididid1', false),
+      ],
+    };
+
+    expect(await client.activateCombat(COMBAT_ID)).toEqual(['aaaaaaaaaaaaaaaa']);
+    expect(emit).toHaveBeenCalledTimes(1);
+    expect(emit.mock.calls[0]?.[1]).toMatchObject({
+      type: 'Combat',
+      action: 'update',
+      operation: {
+        updates: [
+          { _id: 'aaaaaaaaaaaaaaaa', active: false },
+          { _id: COMBAT_ID, active: true },
+        ],
+      },
+    });
+
+    expect(await client.activateCombat('bbbbbbbbbbbbbbbb')).toEqual([]);
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+
+  it('setCombatantHidden emits a Combatant update of hidden', async () => {
+    const { client, emit } = buildClient({});
+    await client.setCombatantHidden(COMBAT_ID, COMBATANT_ID, true);
+    expect(emit.mock.calls[0]?.[1]).toMatchObject({
+      type: 'Combatant',
+      action: 'update',
+      operation: {
+        updates: [{ _id: COMBATANT_ID, hidden: true }],
+        parentUuid: `Combat.${COMBAT_ID}`,
+      },
+    });
+  });
+
   it('startCombat creates a Combat then embedded Combatants with parentUuid', async () => {
     const SCENE_ID = 'sceneididididid1';
     const TOKEN_ID = 'tokenididididid1';
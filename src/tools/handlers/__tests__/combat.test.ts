@@ -1,11 +1,12 @@
 /**
- * @fileoverview Unit tests for combat handler — get_combat_state
+ * @fileoverview Unit tests for combat handlers — get_combat_state and list_combats
  */
 
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { describe, expect, it, vi } from 'vitest';
 import type { FoundryClient } from '../../../foundry/client.js';
 import type { WorldActor, WorldCombat } from '../../../foundry/types.js';
-import { handleGetCombatState } from '../combat.js';
+import { handleGetCombatState, handleListCombats } from '../combat.js';
 
 function getText(result: { content: Array<{ type: string; text: string }> }): string {
   return result.content[0]?.text ?? '';
@@ -175,4 +176,77 @@ describe('handleGetCombatState', () => {
 
     expect(text).toContain('Round 2');
   });
+
+  it('reads the combat given by combatId, active or not', async () => {
+    const combat = buildCombat({ _id: 'combat-2', active: false, round: 4 });
+    const client = {
+      getCombat: vi.fn((id: string) => (id === 'combat-2' ? combat : null)),
+      getCombatState: vi.fn(),
+      getRawActor: vi.fn(),
+    } as unknown as FoundryClient;
+
+    const text = getText(await handleGetCombatState({ combatId: 'combat-2' }, client));
+
+    expect(text).toContain('**Inactive Combat** (combat-2) — Round 4');
+    expect(client.getCombatState).not.toHaveBeenCalled();
+    await expect(handleGetCombatState({ combatId: 'missing' }, client)).rejects.toThrow(McpError);
+    // The same code every combat tool raises for an unknown combatId.
+    await expect(handleGetCombatState({ combatId: 'missing' }, client)).rejects.toMatchObject({
+      code: ErrorCode.InvalidRequest,
+    });
+  });
+});
+
+describe('handleListCombats', () => {
+  const cave = buildCombat({
+    _id: 'combat-1',
+    scene: 'scene-1',
+    round: 2,
+    // Turn 0 is Alice: the turn indexes initiative order, not creation order.
+    turn: 0,
+    combatants: [
+      buildCombatant({ _id: 'a', name: 'Bob', initiative: 5 }),
+      buildCombatant({ _id: 'b', name: 'Alice', initiative: 18 }),
+    ],
+  });
+  const tower = buildCombat({ _id: 'combat-2', scene: 'scene-2', started: false });
+  const stale = buildCombat({ _id: 'combat-3', scene: 'scene-1', active: false });
+
+  const createClient = (combats: WorldCombat[]) =>
+    ({
+      getCombats: vi.fn(() => combats),
+      getCombatState: vi.fn(() => combats.find((c) => c.active) ?? null),
+      getScenes: vi.fn(() => [
+        { _id: 'scene-1', name: 'Cave' },
+        { _id: 'scene-2', name: 'Tower' },
+      ]),
+    }) as unknown as FoundryClient;
+
+  it('lists the combats on every scene and marks the default one', async () => {
+    const text = getText(await handleListCombats({}, createClient([cave, tower, stale])));
+
+    expect(text).toContain('**Combats** (3)');
+    expect(text).toContain(
+      '- **combat-1** — Cave (scene-1) · 🟢 active · round 2, Alice acting · 2 combatants <-- DEFAULT',
+    );
+    expect(text).toContain(
+      '- **combat-2** — Tower (scene-2) · 🟢 active · not started · 0 combatants\n',
+    );
+    expect(text).toContain('- **combat-3** — Cave (scene-1) · ⚪ inactive');
+  });
+
+  it('filters by scene', async () => {
+    const text = getText(
+      await handleListCombats({ sceneId: 'scene-2' }, createClient([cave, tower, stale])),
+    );
+
+    expect(text).toContain('**Combats** (1)');
+    expect(text).not.toContain('combat-1');
+  });
+
+  it('reports when there are no combats', async () => {
+    const text = getText(await handleListCombats({}, createClient([])));
+
+    expect(text).toBe('No combat encounters found.');
+  });
 });
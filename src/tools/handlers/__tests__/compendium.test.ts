@@ -68,7 +68,7 @@ describe('Compendium handlers', () => {
       );
     });
 
-    it('surfaces a REST-required note on graceful empty', async () => {
+    it('surfaces a connection-required note on graceful empty', async () => {
       const mockClient = createMockClient({
         results: [],
         total: 0,
@@ -81,7 +81,7 @@ describe('Compendium handlers', () => {
 
       const text = result.content[0].text;
       expect(text).toContain('No compendium entries found');
-      expect(text).toContain('requires FOUNDRY_API_KEY');
+      expect(text).toContain('requires a live FoundryVTT connection');
     });
 
     it('surfaces the next-page cursor when more results remain', async () => {
@@ -1,11 +1,12 @@
 /**
- * @fileoverview Unit tests for diagnostics handler — get_recent_logs filtering
+ * @fileoverview Unit tests for diagnostics handlers — get_recent_logs filtering, health status
  */
 
 import { describe, expect, it, vi } from 'vitest';
 import type { DiagnosticsClient } from '../../../diagnostics/client.js';
 import type { LogEntry } from '../../../diagnostics/types.js';
-import { handleGetRecentLogs } from '../diagnostics.js';
+import type { FoundryClient } from '../../../foundry/client.js';
+import { handleGetHealthStatus, handleGetRecentLogs } from '../diagnostics.js';
 
 // Minimal LogEntry factory
 function makeEntry(
@@ -204,3 +205,33 @@ describe('handleGetRecentLogs', () => {
     });
   });
 });
+
+describe('handleGetHealthStatus', () => {
+  it('reports the connection state and recent transitions', async () => {
+    const foundryClient = {
+      getWorldInfo: vi.fn().mockRejectedValue(new Error('offline')),
+      isConnected: vi.fn().mockReturnValue(false),
+      getConnectionStatus: vi.fn().mockReturnValue({
+        state: 'degraded',
+        since: '2024-06-01T12:00:00.000Z',
+        failedAttempts: 2,
+        lastError: 'ECONNREFUSED',
+        transitions: [
+          { state: 'connected', at: '2024-06-01T11:00:00.000Z' },
+          { state: 'degraded', at: '2024-06-01T12:00:00.000Z', reason: 'transport close' },
+        ],
+      }),
+    } as unknown as FoundryClient;
+    const diagnosticsClient = {
+      getSystemHealth: vi.fn().mockRejectedValue(new Error('no REST')),
+    } as unknown as DiagnosticsClient;
+
+    const result = await handleGetHealthStatus({}, foundryClient, diagnosticsClient);
+    const text = result.content[0]?.text ?? '';
+
+    expect(text).toContain('**State:** degraded');
+    expect(text).toContain('**Failed reconnect attempts:** 2');
+    expect(text).toContain('**Last error:** ECONNREFUSED');
+    expect(text).toContain('→ degraded (transport close)');
+  });
+});
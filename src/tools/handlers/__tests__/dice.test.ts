@@ -4,12 +4,18 @@
 
 import { describe, expect, it, vi } from 'vitest';
 import type { FoundryClient } from '../../../foundry/client.js';
-import { handleRollDice } from '../dice.js';
+import {
+  handleDiceOdds,
+  handleGetDiceCommitment,
+  handleRevealDiceSeed,
+  handleRollDice,
+} from '../dice.js';
 
 interface MockDiceRoll {
   formula: string;
   total: number;
   breakdown: string;
+  substitutions?: Array<{ reference: string; value: string }>;
   reason?: string;
   timestamp: string;
 }
@@ -44,7 +50,7 @@ describe('handleRollDice', () => {
       expect(text).toContain('**Timestamp:** 2024-06-01T12:00:00.000Z');
       // No reason supplied — that line should be absent
       expect(text).not.toContain('**Reason:**');
-      expect(client.rollDice).toHaveBeenCalledWith('1d20', undefined);
+      expect(client.rollDice).toHaveBeenCalledWith('1d20', undefined, {});
     });
 
     it('includes the reason line when supplied', async () => {
@@ -62,7 +68,82 @@ describe('handleRollDice', () => {
       expect(text).toContain('**Formula:** 3d6+4');
       expect(text).toContain('**Total:** 17');
       expect(text).toContain('**Reason:** Damage roll');
-      expect(client.rollDice).toHaveBeenCalledWith('3d6+4', 'Damage roll');
+      expect(client.rollDice).toHaveBeenCalledWith('3d6+4', 'Damage roll', {});
+    });
+  });
+
+  describe('roll data', () => {
+    it('passes actorId through and lists the substituted values', async () => {
+      const client = mockFoundryClient({
+        formula: '1d20 + @abilities.dex.mod + @prof',
+        total: 19,
+        breakdown: '1d20 (14) + 3[@abilities.dex.mod] + 2[@prof] = 19',
+        substitutions: [
+          { reference: '@abilities.dex.mod', value: '3' },
+          { reference: '@prof', value: '2' },
+        ],
+        timestamp: '2024-06-01T12:00:00.000Z',
+      });
+
+      const text = getText(
+        await handleRollDice(
+          { formula: '1d20 + @abilities.dex.mod + @prof', actorId: 'actor-1' },
+          client,
+        ),
+      );
+
+      expect(client.rollDice).toHaveBeenCalledWith('1d20 + @abilities.dex.mod + @prof', undefined, {
+        actorId: 'actor-1',
+      });
+      expect(text).toContain('**Breakdown:** 1d20 (14) + 3[@abilities.dex.mod] + 2[@prof] = 19');
+      expect(text).toContain('**Roll Data:** @abilities.dex.mod = 3, @prof = 2');
+    });
+  });
+
+  describe('postToChat', () => {
+    it('posts the roll with the reason as flavor and the actor as speaker', async () => {
+      const roll = { class: 'Roll', formula: '1d20', total: 14 };
+      const client = {
+        rollDice: vi.fn(async () => ({
+          formula: '1d20',
+          total: 14,
+          breakdown: '1d20 (14) = 14',
+          roll,
+          reason: 'Stealth',
+          timestamp: '2024-06-01T12:00:00.000Z',
+        })),
+        sendChatMessage: vi.fn(async () => ({ _id: 'msg-1' })),
+      } as unknown as FoundryClient;
+
+      const text = getText(
+        await handleRollDice(
+          {
+            formula: '1d20',
+            reason: 'Stealth',
+            actorId: 'actor-1',
+            postToChat: true,
+            rollMode: 'gmroll',
+          },
+          client,
+        ),
+      );
+
+      expect(client.sendChatMessage).toHaveBeenCalledWith({
+        rolls: [roll],
+        flavor: 'Stealth',
+        speaker: { actorId: 'actor-1' },
+        rollMode: 'gmroll',
+      });
+      expect(text).toContain('**Posted to chat:** msg-1 (gmroll)');
+    });
+
+    it('does not post unless asked', async () => {
+      const client = {
+        ...mockFoundryClient({ formula: '1d20', total: 3, breakdown: '', timestamp: '' }),
+        sendChatMessage: vi.fn(),
+      } as unknown as FoundryClient;
+      await handleRollDice({ formula: '1d20' }, client);
+      expect(client.sendChatMessage).not.toHaveBeenCalled();
     });
   });
 
@@ -78,3 +159,85 @@ describe('handleRollDice', () => {
     });
   });
 });
+
+describe('handleDiceOdds', () => {
+  const client = {
+    resolveRollData: vi.fn((formula: string) => ({ formula, substitutions: [] })),
+  } as unknown as FoundryClient;
+
+  it('reports the chance to meet a DC', async () => {
+    const text = getText(await handleDiceOdds({ formula: '1d20 + 5', target: 15 }, client));
+
+    expect(text).toContain('**Method:** exact');
+    expect(text).toContain('**Range:** 6 – 25');
+    expect(text).toContain('**Mean:** 15.5');
+    expect(text).toContain('**P(total ≥ 15):** 55.00%');
+    expect(text).toContain('| 25 | 5.00% | 5.00% |');
+  });
+
+  it('reports hit, crit and expected damage for an attack', async () => {
+    const text = getText(
+      await handleDiceOdds({ formula: '1d20 + 7', target: 17, damage: '1d8 + 4' }, client),
+    );
+
+    expect(text).toContain('**Attack vs AC 17:** hit 55.00% · crit 5.00%');
+    expect(text).toContain('mean 8.5 on a hit, 13 on a crit');
+    // 0.5 × 8.5 + 0.05 × 13
+    expect(text).toContain('**Expected damage per attack:** 4.9');
+  });
+
+  it('resolves @ references against the actor', async () => {
+    const resolving = {
+      resolveRollData: vi.fn(() => ({ formula: '1d20 + 3[@prof]', substitutions: [] })),
+    } as unknown as FoundryClient;
+
+    await handleDiceOdds({ formula: '1d20 + @prof', actorId: 'a1' }, resolving);
+    expect(resolving.resolveRollData).toHaveBeenCalledWith('1d20 + @prof', 'a1');
+  });
+
+  it('requires a target for attacks', async () => {
+    await expect(handleDiceOdds({ formula: '1d20', damage: '1d6' }, client)).rejects.toThrow(
+      /target/,
+    );
+  });
+});
+
+describe('dice commitment', () => {
+  it('shows the commitment of the current session', async () => {
+    const client = {
+      getDiceCommitment: vi.fn(() => ({
+        commitment: 'c0ffee',
+        configuredSeed: false,
+        startedAt: '2024-06-01T12:00:00.000Z',
+        rolls: 4,
+      })),
+    } as unknown as FoundryClient;
+
+    const text = getText(await handleGetDiceCommitment({}, client));
+    expect(text).toContain('sha256(seed) = c0ffee');
+    expect(text).toContain('**Seed:** random');
+    expect(text).toContain('**Rolls so far:** 4');
+  });
+
+  it('reveals the seed, the roll log and the next commitment', async () => {
+    const client = {
+      revealDiceSeed: vi.fn(() => ({
+        commitment: 'c0ffee',
+        configuredSeed: false,
+        startedAt: '2024-06-01T12:00:00.000Z',
+        revealedAt: '2024-06-01T16:00:00.000Z',
+        rolls: 1,
+        seed: 'deadbeef',
+        log: [{ index: 1, formula: '1d20 + 5', total: 17, timestamp: '2024-06-01T13:00:00.000Z' }],
+        verified: true,
+      })),
+      getDiceCommitment: vi.fn(() => ({ commitment: 'f00d', rolls: 0 })),
+    } as unknown as FoundryClient;
+
+    const text = getText(await handleRevealDiceSeed({}, client));
+    expect(text).toContain('**Seed:** deadbeef');
+    expect(text).toContain('✅ every total reproduces');
+    expect(text).toContain('| 1 | 1d20 + 5 | 17 |');
+    expect(text).toContain('**New session commitment:** f00d');
+  });
+});
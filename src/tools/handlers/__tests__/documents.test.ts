@@ -0,0 +1,93 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it, vi } from 'vitest';
+import { FoundryClient } from '../../../foundry/client.js';
+import { handleGetDocument } from '../documents.js';
+
+const JOURNAL_ID = 'jjjjjjjjjjjjjjjj';
+const PAGE_ID = 'pppppppppppppppp';
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const SPELL_ID = 'smite00000000001';
+
+function buildClient() {
+  const client = new FoundryClient({ baseUrl: 'http://localhost:30000' });
+  (client as unknown as { worldData: unknown }).worldData = {
+    actors: [{ _id: ACTOR_ID, name: 'Sildar', type: 'npc', system: {} }],
+    journal: [
+      {
+        _id: JOURNAL_ID,
+        name: 'Phandalin',
+        pages: [
+          {
+            _id: PAGE_ID,
+            name: 'Townsfolk',
+            type: 'text',
+            text: {
+              content: `<p>Speak to @UUID[Actor.${ACTOR_ID}]{Sildar Hallwinter}, who knows @UUID[Compendium.dnd5e.spells.Item.${SPELL_ID}]{Divine Smite}.</p>`,
+            },
+          },
+        ],
+      },
+    ],
+    packs: [{ id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' }],
+  };
+  const emit = vi.fn((_event: string, _payload: unknown, cb: (r: unknown) => void) =>
+    cb({ result: [{ _id: SPELL_ID, name: 'Divine Smite', type: 'spell', system: { level: 1 } }] }),
+  );
+  (client as unknown as { socket: unknown }).socket = { connected: true, emit };
+  return { client, emit };
+}
+
+describe('handleGetDocument', () => {
+  it('resolves an embedded document and lists its links', async () => {
+    const { client } = buildClient();
+
+    const result = await handleGetDocument(
+      { uuid: `JournalEntry.${JOURNAL_ID}.JournalEntryPage.${PAGE_ID}` },
+      client,
+    );
+    const text = result.content[0]?.text ?? '';
+
+    expect(text).toContain('📄 **Townsfolk** (JournalEntryPage: text)');
+    expect(text).toContain('**Source:** world');
+    expect(text).toContain(`- \`Actor.${ACTOR_ID}\` — Sildar Hallwinter`);
+    expect(text).toContain(`- \`Compendium.dnd5e.spells.Item.${SPELL_ID}\` — Divine Smite`);
+  });
+
+  it('follows a compendium link pasted as @UUID[…]{label}', async () => {
+    const { client, emit } = buildClient();
+
+    const result = await handleGetDocument(
+      { uuid: `@UUID[Compendium.dnd5e.spells.Item.${SPELL_ID}]{Divine Smite}` },
+      client,
+    );
+
+    expect(emit.mock.calls[0]?.[1]).toMatchObject({
+      type: 'Item',
+      action: 'get',
+      operation: { pack: 'dnd5e.spells', query: { _id: SPELL_ID } },
+    });
+    expect(result.content[0]?.text).toContain('**Source:** compendium `dnd5e.spells`');
+  });
+
+  it('truncates long documents', async () => {
+    const { client } = buildClient();
+    const result = await handleGetDocument(
+      { uuid: `JournalEntry.${JOURNAL_ID}`, maxLength: 100 },
+      client,
+    );
+    expect(result.content[0]?.text).toMatch(/Truncated to 100 of \d+ characters/);
+  });
+
+  it('rejects malformed and unknown UUIDs', async () => {
+    const { client } = buildClient();
+    await expect(handleGetDocument({ uuid: 'Actor.nope' }, client)).rejects.toThrow(
+      /Invalid document UUID/,
+    );
+    await expect(handleGetDocument({ uuid: `Actor.${PAGE_ID}` }, client)).rejects.toBeInstanceOf(
+      McpError,
+    );
+    await expect(
+      handleGetDocument({ uuid: `Compendium.dnd5e.spells.Actor.${SPELL_ID}` }, client),
+    ).rejects.toThrow(/holds Item documents, not Actor/);
+  });
+});
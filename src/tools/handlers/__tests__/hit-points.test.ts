@@ -0,0 +1,227 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it, vi } from 'vitest';
+import type { HitPoints } from '../../../combat/hit-points.js';
+import type { FoundryClient, HitPointTarget } from '../../../foundry/client.js';
+import type { WorldActor, WorldCombat, WorldScene } from '../../../foundry/types.js';
+import { handleApplyDamage, handleApplyHealing } from '../hit-points.js';
+
+const SCENE_ID = 'ssssssssssssssss';
+const TOKEN_ID = 'tttttttttttttttt';
+const ACTOR_ID = 'aaaaaaaaaaaaaaaa';
+const COMBAT_ID = 'cccccccccccccccc';
+const COMBATANT_ID = 'dddddddddddddddd';
+
+const scene = { _id: SCENE_ID, name: 'Cave' } as WorldScene;
+const actor = { _id: ACTOR_ID, name: 'Goblin', type: 'npc' } as WorldActor;
+
+const combat = (defeated = false): WorldCombat => ({
+  _id: COMBAT_ID,
+  scene: SCENE_ID,
+  active: true,
+  round: 1,
+  turn: 0,
+  started: true,
+  combatants: [
+    {
+      _id: COMBATANT_ID,
+      actorId: ACTOR_ID,
+      tokenId: TOKEN_ID,
+      name: 'Goblin',
+      initiative: 12,
+      hidden: false,
+      defeated,
+    },
+  ],
+});
+
+describe('Hit point handlers', () => {
+  const createMockClient = (opts: {
+    hp?: HitPoints;
+    actorLink?: boolean;
+    token?: boolean;
+    combat?: WorldCombat | null;
+    actor?: WorldActor;
+    system?: string;
+  }): FoundryClient =>
+    ({
+      findToken: vi.fn(() =>
+        opts.token === false
+          ? null
+          : {
+              scene,
+              token: {
+                _id: TOKEN_ID,
+                name: 'Goblin Scout',
+                actorId: ACTOR_ID,
+                actorLink: opts.actorLink ?? false,
+              },
+            },
+      ),
+      getRawActor: vi.fn(() => actor),
+      getTargetActor: vi.fn(() => opts.actor ?? actor),
+      getWorldInfo: vi.fn(async () => ({ system: opts.system ?? 'dnd5e' })),
+      getCombatState: vi.fn(() => opts.combat ?? null),
+      getCombat: vi.fn(() => opts.combat ?? null),
+      getCombats: vi.fn(() => (opts.combat ? [opts.combat] : [])),
+      getHitPoints: vi.fn((_target: HitPointTarget) => opts.hp),
+      updateHitPoints: vi.fn(async () => ({})),
+      setCombatantDefeated: vi.fn(async () => ({})),
+    }) as unknown as FoundryClient;
+
+  describe('handleApplyDamage', () => {
+    it("writes an unlinked token's damage to its delta, temporary HP first", async () => {
+      const client = createMockClient({ hp: { current: 7, max: 7, temp: 3 } });
+
+      const result = await handleApplyDamage({ tokenId: TOKEN_ID, amount: 5 }, client);
+
+      expect(client.updateHitPoints).toHaveBeenCalledWith(
+        { actorId: ACTOR_ID, sceneId: SCENE_ID, tokenId: TOKEN_ID },
+        { current: 5, temp: 0 },
+      );
+      const text = result.content[0].text;
+      expect(text).toContain('Goblin Scout');
+      expect(text).toContain('**HP:** 7 → 5 / 7');
+      expect(text).toContain('(absorbed 3)');
+      expect(text).toContain('unlinked token');
+    });
+
+    it('writes a linked token to the world actor', async () => {
+      const client = createMockClient({ hp: { current: 20, max: 20 }, actorLink: true });
+
+      await handleApplyDamage({ tokenId: TOKEN_ID, amount: 4 }, client);
+
+      expect(client.updateHitPoints).toHaveBeenCalledWith({ actorId: ACTOR_ID }, { current: 16 });
+    });
+
+    it('marks a combatant at 0 HP defeated when asked', async () => {
+      const client = createMockClient({ hp: { current: 3, max: 7 }, combat: combat() });
+
+      const result = await handleApplyDamage(
+        { combatantId: COMBATANT_ID, amount: 10, markDefeated: true },
+        client,
+      );
+
+      expect(client.findToken).toHaveBeenCalledWith(TOKEN_ID, SCENE_ID);
+      expect(client.setCombatantDefeated).toHaveBeenCalledWith(COMBAT_ID, COMBATANT_ID, true);
+      expect(result.content[0].text).toContain('**Overflow:** 7 beyond 0 HP');
+      expect(result.content[0].text).toContain('marked defeated');
+    });
+
+    it('leaves the combatant alone without markDefeated or when already defeated', async () => {
+      const client = createMockClient({ hp: { current: 3, max: 7 }, combat: combat(true) });
+
+      await handleApplyDamage({ tokenId: TOKEN_ID, amount: 10 }, client);
+      const result = await handleApplyDamage(
+        { tokenId: TOKEN_ID, amount: 10, markDefeated: true },
+        client,
+      );
+
+      expect(client.setCombatantDefeated).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('already marked');
+    });
+
+    it('falls back to the actor of a combatant without a token', async () => {
+      const client = createMockClient({ hp: { current: 5 }, token: false, combat: combat() });
+
+      await handleApplyDamage({ combatantId: COMBATANT_ID, amount: 2 }, client);
+
+      expect(client.updateHitPoints).toHaveBeenCalledWith({ actorId: ACTOR_ID }, { current: 3 });
+    });
+
+    it('rejects bad arguments before reaching the client', async () => {
+      const client = createMockClient({ hp: { current: 5 } });
+      await expect(handleApplyDamage({ amount: 2 }, client)).rejects.toThrow(McpError);
+      await expect(handleApplyDamage({ tokenId: TOKEN_ID }, client)).rejects.toThrow(McpError);
+      await expect(
+        handleApplyDamage({ tokenId: TOKEN_ID, damage: [{ amount: 1.5, type: 'fire' }] }, client),
+      ).rejects.toThrow('damage[0].amount');
+      await expect(handleApplyDamage({ tokenId: TOKEN_ID, amount: -1 }, client)).rejects.toThrow(
+        McpError,
+      );
+      await expect(
+        handleApplyDamage({ combatantId: COMBATANT_ID, amount: 1 }, client),
+      ).rejects.toThrow('No active combat');
+      expect(client.updateHitPoints).not.toHaveBeenCalled();
+    });
+
+    it("adjusts typed damage for the target's traits and explains each part", async () => {
+      const troll = {
+        ...actor,
+        name: 'Troll',
+        system: {
+          traits: { dr: { value: ['slashing'], bypasses: ['mgc'] }, dv: { value: ['fire'] } },
+        },
+      } as WorldActor;
+      const client = createMockClient({ hp: { current: 84, max: 84 }, actor: troll });
+
+      const result = await handleApplyDamage(
+        {
+          tokenId: TOKEN_ID,
+          amount: 3,
+          damage: [
+            { amount: 12, type: 'fire' },
+            { amount: 9, type: 'slashing' },
+          ],
+        },
+        client,
+      );
+
+      expect(client.getTargetActor).toHaveBeenCalledWith({
+        actorId: ACTOR_ID,
+        sceneId: SCENE_ID,
+        tokenId: TOKEN_ID,
+      });
+      expect(client.updateHitPoints).toHaveBeenCalledWith(expect.anything(), { current: 53 });
+      const text = result.content[0].text;
+      expect(text).toContain('**Damage:** 31 (rolled 24)');
+      expect(text).toContain('- 3 untyped\n');
+      expect(text).toContain('- 12 fire → 24 — vulnerable to fire (doubled)');
+      expect(text).toContain(
+        '- 9 slashing → 4 — resistant to slashing from nonmagical attacks (halved)',
+      );
+    });
+
+    it('applies untyped parts without a supported game system', async () => {
+      const client = createMockClient({ hp: { current: 10 }, system: 'pf2e' });
+
+      await handleApplyDamage({ tokenId: TOKEN_ID, damage: [{ amount: 4 }] }, client);
+      await expect(
+        handleApplyDamage({ tokenId: TOKEN_ID, damage: [{ amount: 4, type: 'fire' }] }, client),
+      ).rejects.toThrow('not supported for the pf2e system yet');
+
+      expect(client.updateHitPoints).toHaveBeenCalledTimes(1);
+      expect(client.updateHitPoints).toHaveBeenCalledWith(expect.anything(), { current: 6 });
+    });
+
+    it('fails when the actor has no hit points', async () => {
+      const client = createMockClient({});
+      await expect(handleApplyDamage({ tokenId: TOKEN_ID, amount: 1 }, client)).rejects.toThrow(
+        'has no hit points',
+      );
+    });
+  });
+
+  describe('handleApplyHealing', () => {
+    it('heals up to the maximum and reports the overflow', async () => {
+      const client = createMockClient({ hp: { current: 2, max: 7 } });
+
+      const result = await handleApplyHealing({ tokenId: TOKEN_ID, amount: 10 }, client);
+
+      expect(client.updateHitPoints).toHaveBeenCalledWith(expect.anything(), { current: 7 });
+      expect(result.content[0].text).toContain('**HP:** 2 → 7 / 7');
+      expect(result.content[0].text).toContain('**Overflow:** 5 beyond max HP');
+    });
+
+    it('grants temporary hit points without stacking', async () => {
+      const client = createMockClient({ hp: { current: 2, max: 7, temp: 6 } });
+
+      const result = await handleApplyHealing({ tokenId: TOKEN_ID, amount: 4, temp: true }, client);
+
+      expect(client.updateHitPoints).not.toHaveBeenCalled();
+      expect(result.content[0].text).toContain('do not stack');
+
+      await handleApplyHealing({ tokenId: TOKEN_ID, amount: 9, temp: true }, client);
+      expect(client.updateHitPoints).toHaveBeenCalledWith(expect.anything(), { temp: 9 });
+    });
+  });
+});
@@ -346,15 +346,80 @@ describe('FoundryClient item mutations (modifyDocument)', () => {
     });
   });
 
-  it('rejects a compendium-source create over Socket.IO', async () => {
+  it('copies a compendium entry read over the same socket', async () => {
     const client = buildClient();
+    (client as unknown as { worldData: unknown }).worldData = {
+      actors: [],
+      packs: [{ id: 'dnd5e.spells', label: 'Spells (SRD)', type: 'Item' }],
+    };
+    const emit = vi.fn(((_event, payload, cb) => {
+      const request = payload as { action: string; operation: { data?: unknown[] } };
+      if (request.action === 'get') {
+        cb({
+          result: [
+            {
+              _id: VALID_ITEM_ID,
+              name: 'Divine Smite',
+              type: 'spell',
+              folder: 'ffffffffffffffff',
+              sort: 100,
+              ownership: { default: 0 },
+              system: { level: 1 },
+            },
+          ],
+        });
+      } else {
+        cb({ result: request.operation.data ?? [] });
+      }
+    }) as SocketEmitMock);
+    (client as unknown as { socket: { connected: boolean; emit: SocketEmitMock } }).socket = {
+      connected: true,
+      emit,
+    };
+
+    await client.createActorItem(VALID_ACTOR_ID, {
+      type: 'compendium',
+      compendiumId: 'dnd5e.spells',
+      itemId: VALID_ITEM_ID,
+    });
+
+    expect(emit.mock.calls[0]?.[1]).toMatchObject({
+      type: 'Item',
+      action: 'get',
+      operation: { pack: 'dnd5e.spells', query: { _id: VALID_ITEM_ID } },
+    });
+    expect(emit.mock.calls[1]?.[1]).toMatchObject({
+      type: 'Item',
+      action: 'create',
+      operation: {
+        parentUuid: `Actor.${VALID_ACTOR_ID}`,
+        data: [
+          {
+            name: 'Divine Smite',
+            type: 'spell',
+            system: { level: 1 },
+            _stats: { compendiumSource: `Compendium.dnd5e.spells.Item.${VALID_ITEM_ID}` },
+          },
+        ],
+      },
+    });
+    const created = (emit.mock.calls[1]?.[1] as { operation: { data: object[] } }).operation
+      .data[0];
+    expect(created).not.toHaveProperty('_id');
+    expect(created).not.toHaveProperty('folder');
+    expect(created).not.toHaveProperty('ownership');
+  });
+
+  it('rejects a compendium entry from an unknown pack', async () => {
+    const client = buildClient();
+    (client as unknown as { worldData: unknown }).worldData = { actors: [], packs: [] };
     await expect(
       client.createActorItem(VALID_ACTOR_ID, {
         type: 'compendium',
         compendiumId: 'dnd5e.spells',
         itemId: VALID_ITEM_ID,
       }),
-    ).rejects.toThrow(/compendium source is not yet supported/);
+    ).rejects.toThrow(/Compendium pack not found/);
   });
 
   it('updates an item with a nested system merge patch', async () => {
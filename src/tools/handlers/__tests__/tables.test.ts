@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Unit tests for RollTable handlers — list_roll_tables and draw_from_table
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { evaluateRoll } from '../../../dice/roller.js';
+import type { FoundryClient } from '../../../foundry/client.js';
+import type { TableDraw } from '../../../foundry/roll-table.js';
+import type { WorldRollTable } from '../../../foundry/types.js';
+import { handleDrawFromTable, handleListRollTables } from '../tables.js';
+
+function getText(result: { content: Array<{ type: string; text: string }> }): string {
+  return result.content[0]?.text ?? '';
+}
+
+const weather: WorldRollTable = {
+  _id: 'wwwwwwwwwwwwwwww',
+  name: 'Weather',
+  formula: '1d4',
+  replacement: false,
+  results: [
+    { _id: 'r1', type: 'text', text: 'Clear', range: [1, 2], drawn: true },
+    { _id: 'r2', type: 'text', text: 'Storm', range: [3, 4] },
+  ],
+};
+
+const loot: WorldRollTable = {
+  _id: 'llllllllllllllll',
+  name: 'Loot',
+  formula: '',
+  results: [{ _id: 'r3', type: 'text', text: 'Coins', range: [1, 10] }],
+};
+
+function mockClient(draws: TableDraw[] = []): FoundryClient {
+  return {
+    getRollTables: vi.fn(() => [weather, loot]),
+    getRollTable: vi.fn(() => weather),
+    drawFromTable: vi.fn(async () => draws),
+    sendChatMessage: vi.fn(async () => ({ _id: 'msg1' })),
+  } as unknown as FoundryClient;
+}
+
+describe('handleListRollTables', () => {
+  it('lists tables with their formula and drawn counts', async () => {
+    const text = getText(await handleListRollTables({}, mockClient()));
+
+    expect(text).toContain('**Roll Tables** (2)');
+    expect(text).toContain(
+      '- **Weather** (wwwwwwwwwwwwwwww) — 1d4 · 2 results · without replacement, 1 drawn',
+    );
+    expect(text).toContain('- **Loot** (llllllllllllllll) — 1d10 · 1 results');
+  });
+
+  it('filters by name', async () => {
+    const text = getText(await handleListRollTables({ query: 'LOO' }, mockClient()));
+    expect(text).toContain('Loot');
+    expect(text).not.toContain('Weather');
+  });
+});
+
+describe('handleDrawFromTable', () => {
+  const storm: TableDraw = {
+    table: weather,
+    uuid: `RollTable.${weather._id}`,
+    roll: evaluateRoll('1d4', () => 0.5),
+    results: [{ result: weather.results[1] as WorldRollTable['results'][number] }],
+  };
+
+  it('shows the roll and the drawn results', async () => {
+    const client = mockClient([storm]);
+    const text = getText(await handleDrawFromTable({ table: 'Weather', markDrawn: true }, client));
+
+    expect(client.drawFromTable).toHaveBeenCalledWith('Weather', { count: 1, markDrawn: true });
+    expect(text).toContain('**Table Draw: Weather**');
+    expect(text).toContain('**Draw:** 1d4 (3) = 3');
+    expect(text).toContain('- Storm');
+    expect(text).toContain('**Remaining:** 1 of 2 results undrawn');
+    expect(client.sendChatMessage).not.toHaveBeenCalled();
+  });
+
+  it('posts the draw to chat with the roll mode', async () => {
+    const client = mockClient([storm]);
+    const text = getText(
+      await handleDrawFromTable({ table: 'Weather', postToChat: true, rollMode: 'gmroll' }, client),
+    );
+
+    expect(client.sendChatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        flavor: 'Draws 1 result from the Weather table.',
+        rollMode: 'gmroll',
+      }),
+    );
+    expect(text).toContain('**Posted to chat:** msg1 (gmroll)');
+  });
+
+  it('rejects an out-of-range count', async () => {
+    await expect(
+      handleDrawFromTable({ table: 'Weather', count: 50 }, mockClient()),
+    ).rejects.toThrow('count must be');
+  });
+});
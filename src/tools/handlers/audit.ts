@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Audit log tool handler
+ *
+ * `get_audit_log` answers "who changed what, when" from the audit trail the
+ * client keeps of every `modifyDocument` write: the tool call behind it, the
+ * documents touched, the FoundryVTT user, the server's answer and the timing.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { AuditEntry } from '../../foundry/audit-log.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import { withToolError } from './utils.js';
+
+export interface AuditLogArgs {
+  documentUuid?: string;
+  tool?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/** Longest rendered tool-argument summary before it is truncated. */
+const MAX_ARGS_LENGTH = 200;
+
+function describeEntry(entry: AuditEntry, userNames: Map<string, string>): string {
+  const user = entry.userId ? (userNames.get(entry.userId) ?? entry.userId) : 'unknown user';
+  const status =
+    entry.outcome === 'ok'
+      ? `✅ ${entry.durationMs}ms`
+      : entry.outcome === 'denied'
+        ? `🚫 denied: ${entry.error ?? 'write policy'}`
+        : `❌ ${entry.error ?? 'failed'}`;
+  const change = entry.changeId ? ` \`${entry.changeId}\`` : '';
+  const lines = [
+    `- ${entry.timestamp} — **${entry.tool ?? '(no tool)'}** ${entry.action} ${entry.type} by ${user} ${status}${change}`,
+    `  Documents: ${entry.uuids.length > 0 ? entry.uuids.join(', ') : '(none)'}`,
+  ];
+  if (entry.args) {
+    const args = JSON.stringify(entry.args);
+    lines.push(
+      `  Args: \`${args.length > MAX_ARGS_LENGTH ? `${args.slice(0, MAX_ARGS_LENGTH - 1)}…` : args}\``,
+    );
+  }
+  return lines.join('\n');
+}
+
+function assertTimestamp(name: string, value: unknown): void {
+  if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO 8601 timestamp`);
+  }
+}
+
+/**
+ * Lists audited writes, newest first, filtered by document, tool and time.
+ */
+export async function handleGetAuditLog(args: AuditLogArgs, foundryClient: FoundryClient) {
+  const limit = args.limit ?? 20;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 200) {
+    throw new McpError(ErrorCode.InvalidParams, 'limit must be an integer between 1 and 200');
+  }
+  assertTimestamp('since', args.since);
+  assertTimestamp('until', args.until);
+
+  return withToolError('get audit log', async () => {
+    const entries = foundryClient.getAuditLog({
+      documentUuid: args.documentUuid,
+      tool: args.tool,
+      since: args.since,
+      until: args.until,
+      limit,
+    });
+    const { users } = foundryClient.getUsers();
+    const userNames = new Map(users.map((u) => [u._id, u.name]));
+    const list = entries.map((e) => describeEntry(e, userNames)).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📜 **Audit Log** (${entries.length})
+
+${list || 'No matching writes have been recorded.'}`,
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Batch mutation tool handler
+ *
+ * WRITE operation — requires FOUNDRY_WRITE_ENABLED=true and an active
+ * Socket.IO connection. `batch_update` applies many single-document
+ * operations (e.g. an area effect hitting five actors) as the fewest
+ * `modifyDocument` requests possible, all or nothing.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { BatchOperation } from '../../foundry/batch.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import { withToolError } from './utils.js';
+
+/**
+ * Handles applying a batch of document operations.
+ */
+export async function handleBatchUpdate(
+  args: { operations: BatchOperation[] },
+  foundryClient: FoundryClient,
+) {
+  const { operations } = args;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'operations must be a non-empty array');
+  }
+  if (operations.some((op) => op === null || typeof op !== 'object')) {
+    throw new McpError(ErrorCode.InvalidParams, 'every operation must be an object');
+  }
+
+  return withToolError('apply batch', async () => {
+    const changes = await foundryClient.batchUpdate(operations);
+    const list = changes
+      .map(
+        (c) =>
+          `- \`${c.id}\` ${c.action} ${c.type} (${c.documentIds.length})${c.parentUuid ? ` in ${c.parentUuid}` : ''}`,
+      )
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📦 **Batch Applied**
+**Operations:** ${operations.length} in ${changes.length} request(s)
+
+${list}
+
+_Each request is journaled; undo them with undo_change, newest first._`,
+        },
+      ],
+    };
+  });
+}
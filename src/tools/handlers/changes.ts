@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Mutation journal tool handlers (list / undo)
+ *
+ * Every write this server makes through `modifyDocument` is journaled with a
+ * before-image of the documents it touched. `list_recent_changes` shows the
+ * journal; `undo_change` issues the inverse request for one entry — deleting a
+ * created document, restoring updated fields, or re-creating a deleted
+ * document with its original `_id`. Undo is a WRITE operation and requires
+ * FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import type { JournalEntry } from '../../foundry/mutation-journal.js';
+import { withToolError } from './utils.js';
+
+/**
+ * One-line description of a journal entry.
+ */
+function describeChange(entry: JournalEntry): string {
+  const targets = entry.names.length > 0 ? entry.names.join(', ') : entry.documentIds.join(', ');
+  const parent = entry.parentUuid ? ` in ${entry.parentUuid}` : '';
+  const notes: string[] = [];
+  if (entry.undoOf) {
+    notes.push(`undo of ${entry.undoOf}`);
+  }
+  if (entry.undoneBy) {
+    notes.push(`undone by ${entry.undoneBy}`);
+  }
+  const suffix = notes.length > 0 ? ` _(${notes.join('; ')})_` : '';
+  return `- \`${entry.id}\` ${entry.timestamp} — ${entry.action} ${entry.type} **${targets || '(none)'}**${parent}${suffix}`;
+}
+
+/**
+ * Lists the most recent mutations made by this server, newest first.
+ */
+export async function handleListRecentChanges(
+  args: { limit?: number },
+  foundryClient: FoundryClient,
+) {
+  const limit = args.limit ?? 20;
+  if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1) {
+    throw new McpError(ErrorCode.InvalidParams, 'limit must be a positive integer');
+  }
+
+  const changes = foundryClient.getRecentChanges(limit);
+  const list = changes.map(describeChange).join('\n');
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `🕘 **Recent Changes** (${changes.length})
+
+${list || 'No changes have been made through this server yet.'}
+
+_Pass a change id to undo_change to reverse it._`,
+      },
+    ],
+  };
+}
+
+/**
+ * Reverses one journaled mutation.
+ */
+export async function handleUndoChange(args: { changeId: string }, foundryClient: FoundryClient) {
+  const { changeId } = args;
+  if (!changeId || typeof changeId !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'changeId is required and must be a string');
+  }
+
+  return withToolError('undo change', async () => {
+    const undo = await foundryClient.undoChange(changeId);
+    if (!undo) {
+      // Dry run: the router renders the collected request instead.
+      return { content: [{ type: 'text', text: `↩️ **Undo previewed** for ${changeId}` }] };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `↩️ **Change Undone**
+**Undid:** ${changeId}
+**Applied:** ${undo.action} ${undo.type} (${undo.documentIds.join(', ')})${undo.parentUuid ? ` in ${undo.parentUuid}` : ''}
+**Undo Change ID:** ${undo.id}
+
+_The undo is journaled too; undo ${undo.id} to re-apply the original change._`,
+        },
+      ],
+    };
+  });
+}
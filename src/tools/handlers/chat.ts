@@ -1,21 +1,106 @@
 /**
- * Chat message tool handler
+ * Chat message tool handlers
+ *
+ * `send_chat_message` is a WRITE operation — requires FOUNDRY_WRITE_ENABLED=true
+ * and an active Socket.IO connection.
  */
 
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CHAT_VISIBILITIES,
+  type ChatMessageQuery,
+  type ChatVisibility,
+  formatChatRoll,
+  MAX_CHAT_PAGE,
+  messageAuthor,
+  messageVisibility,
+  parseMessageRolls,
+  stripHtml,
+} from '../../foundry/chat-log.js';
+import type { ChatMessageInput, ChatRollMode } from '../../foundry/chat-message.js';
 import type { FoundryClient } from '../../foundry/client.js';
+import {
+  type RollStatisticsQuery,
+  type RollStats,
+  UNUSUAL_Z,
+} from '../../foundry/roll-statistics.js';
+import {
+  SESSION_LOG_FORMATS,
+  type SessionLogFormat,
+  type SessionLogOptions,
+} from '../../foundry/session-log.js';
 import { withToolError } from './utils.js';
 
+/**
+ * Handles reading the chat log, filtered and paged newest first.
+ */
 export async function handleGetChatMessages(
-  args: { limit?: number },
+  args: {
+    limit?: number;
+    offset?: number;
+    actorId?: string;
+    user?: string;
+    since?: string;
+    until?: string;
+    visibility?: ChatVisibility;
+    rollsOnly?: boolean;
+    search?: string;
+    fullContent?: boolean;
+  },
   foundryClient: FoundryClient,
 ) {
+  const { offset, actorId, user, visibility, rollsOnly, search, fullContent = false } = args;
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+    throw new McpError(ErrorCode.InvalidParams, 'offset must be a non-negative integer');
+  }
+  if (visibility !== undefined && !CHAT_VISIBILITIES.includes(visibility)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `visibility must be one of: ${CHAT_VISIBILITIES.join(', ')}`,
+    );
+  }
+  const since = parseTime('since', args.since);
+  const until = parseTime('until', args.until);
+
   return withToolError('get chat messages', async () => {
-    const limit = Math.min(args.limit ?? 20, 100);
-    const messages = foundryClient.getChatMessages(limit);
+    const query: ChatMessageQuery = { limit: Math.min(args.limit ?? 20, MAX_CHAT_PAGE) };
+    if (offset) {
+      query.offset = offset;
+    }
+    if (actorId) {
+      query.actorId = actorId;
+    }
+    if (user) {
+      query.user = user;
+    }
+    if (since !== undefined) {
+      query.since = since;
+    }
+    if (until !== undefined) {
+      query.until = until;
+    }
+    if (visibility) {
+      query.visibility = visibility;
+    }
+    if (rollsOnly) {
+      query.rollsOnly = true;
+    }
+    if (search) {
+      query.search = search;
+    }
+    const page = foundryClient.queryChatMessages(query);
 
-    if (messages.length === 0) {
+    if (page.messages.length === 0) {
       return {
-        content: [{ type: 'text', text: 'No chat messages found.' }],
+        content: [
+          {
+            type: 'text',
+            text:
+              page.total > 0
+                ? `No chat messages past offset ${page.offset}.`
+                : 'No chat messages found.',
+          },
+        ],
       };
     }
 
@@ -23,25 +108,263 @@ export async function handleGetChatMessages(
     const { users } = foundryClient.getUsers();
     const userMap = new Map(users.map((u) => [u._id, u.name]));
 
-    const formatted = messages
+    const formatted = page.messages
       .map((m) => {
-        const speaker = m.speaker?.alias || userMap.get(m.user) || 'Unknown';
-        const time = new Date(m.timestamp).toLocaleTimeString();
-        const content = m.content
-          .replace(/<[^>]+>/g, '')
-          .trim()
-          .slice(0, 200);
-        return `[${time}] **${speaker}**: ${content}`;
+        const speaker = m.speaker?.alias || userMap.get(messageAuthor(m)) || 'Unknown';
+        const time = new Date(m.timestamp).toISOString().replace(/\.\d{3}Z$/, 'Z');
+        const shown = messageVisibility(m);
+        const tag = shown === 'public' ? '' : ` (${shown})`;
+        const flavor = m.flavor ? `_${stripHtml(m.flavor)}_ ` : '';
+        const text = stripHtml(m.content);
+        const content = fullContent || text.length <= 200 ? text : `${text.slice(0, 200)}…`;
+        const rolls = parseMessageRolls(m).map((r) => `\n  🎲 ${formatChatRoll(r)}`);
+        return `[${time}] **${speaker}**${tag}: ${flavor}${content}${rolls.join('')}`;
       })
       .join('\n');
 
+    const more = page.nextOffset === undefined ? '' : ` · older: offset ${page.nextOffset}`;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `**Recent Chat Messages** (${page.messages.length} of ${page.total}${more})\n\n${formatted}`,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Handles exporting a time range of the chat log as a session transcript.
+ * The transcript is the second content item, ready to save as a file.
+ */
+export async function handleExportSessionLog(
+  args: {
+    since?: string;
+    until?: string;
+    format?: SessionLogFormat;
+    excludeWhispers?: boolean;
+    title?: string;
+  },
+  foundryClient: FoundryClient,
+) {
+  const { format = 'markdown', excludeWhispers = false, title } = args;
+  if (!SESSION_LOG_FORMATS.includes(format)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `format must be one of: ${SESSION_LOG_FORMATS.join(', ')}`,
+    );
+  }
+  const since = parseTime('since', args.since);
+  const until = parseTime('until', args.until);
+
+  return withToolError('export session log', async () => {
+    const options: SessionLogOptions = { format, excludeWhispers };
+    if (since !== undefined) {
+      options.since = since;
+    }
+    if (until !== undefined) {
+      options.until = until;
+    }
+    if (title) {
+      options.title = title;
+    }
+    const log = foundryClient.getSessionLog(options);
+    const extension = format === 'html' ? 'html' : 'md';
+    const day = log.from === undefined ? 'empty' : new Date(log.from).toISOString().slice(0, 10);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📜 **Session Log** — ${log.messages} messages${
+            log.from === undefined
+              ? ''
+              : ` from ${new Date(log.from).toISOString()} to ${new Date(log.to ?? log.from).toISOString()}`
+          }${excludeWhispers ? ', whispers left out' : ''}
+**Format:** ${format} (suggested file name: session-${day}.${extension})`,
+        },
+        { type: 'text', text: log.document },
+      ],
+    };
+  });
+}
+
+/**
+ * Handles d20 statistics over the chat log, per player and per character.
+ */
+export async function handleRollStatistics(
+  args: { since?: string; until?: string; actorId?: string; user?: string },
+  foundryClient: FoundryClient,
+) {
+  const since = parseTime('since', args.since);
+  const until = parseTime('until', args.until);
+
+  return withToolError('compute roll statistics', async () => {
+    const query: RollStatisticsQuery = {};
+    if (since !== undefined) {
+      query.since = since;
+    }
+    if (until !== undefined) {
+      query.until = until;
+    }
+    if (args.actorId) {
+      query.actorId = args.actorId;
+    }
+    if (args.user) {
+      query.user = args.user;
+    }
+    const stats = foundryClient.getRollStatistics(query);
+
+    if (stats.overall.rolls === 0) {
+      return {
+        content: [{ type: 'text', text: 'No d20 rolls found in the chat log for this range.' }],
+      };
+    }
+
+    const range =
+      stats.from === undefined
+        ? ''
+        : ` from ${new Date(stats.from).toISOString()} to ${new Date(stats.to ?? stats.from).toISOString()}`;
+    const label = (g: RollStats) =>
+      [...stats.byUser, ...stats.byActor].some((o) => o.name === g.name && o.id !== g.id)
+        ? `${g.name} (${g.id})`
+        : g.name;
+    const groups = [stats.overall, ...stats.byUser, ...stats.byActor];
+    const unusual = groups
+      .filter((g) => g.faces >= 20 && Math.abs(g.z) >= UNUSUAL_Z)
+      .filter((g, i, all) => all.findIndex((o) => o.id === g.id) === i)
+      .map(
+        (g) =>
+          `⚠️ ${label(g)}: ${g.faces} d20 faces average ${g.faceAverage.toFixed(2)}, ` +
+          `${Math.abs(g.z).toFixed(1)} standard deviations ${g.z > 0 ? 'above' : 'below'} a fair die`,
+      );
+
+    const lines = [
+      `📊 **Roll Statistics** — ${stats.overall.rolls} d20 rolls${range}`,
+      '',
+      `**Everyone:** ${describeStats(stats.overall)}`,
+      '',
+      '**By player:**',
+      ...stats.byUser.map((g) => `- **${label(g)}:** ${describeStats(g)}`),
+    ];
+    if (stats.byActor.length > 0) {
+      lines.push(
+        '',
+        '**By character:**',
+        ...stats.byActor.map((g) => `- **${label(g)}:** ${describeStats(g)}`),
+      );
+    }
+    if (unusual.length > 0) {
+      lines.push('', ...unusual);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Handles posting a chat message.
+ */
+export async function handleSendChatMessage(
+  args: {
+    content: string;
+    flavor?: string;
+    actorId?: string;
+    tokenId?: string;
+    sceneId?: string;
+    alias?: string;
+    whisper?: string[];
+    rollMode?: ChatRollMode;
+  },
+  foundryClient: FoundryClient,
+) {
+  const { content, flavor, actorId, tokenId, sceneId, alias, whisper, rollMode } = args;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'content is required and must be a non-empty string',
+    );
+  }
+  if (
+    whisper !== undefined &&
+    (!Array.isArray(whisper) || whisper.some((w) => typeof w !== 'string'))
+  ) {
+    throw new McpError(ErrorCode.InvalidParams, 'whisper must be an array of user ids or names');
+  }
+  if (tokenId && !sceneId) {
+    throw new McpError(ErrorCode.InvalidParams, 'sceneId is required when speaking as a token');
+  }
+
+  return withToolError('send chat message', async () => {
+    const message: ChatMessageInput = { content };
+    if (flavor) {
+      message.flavor = flavor;
+    }
+    if (actorId || tokenId || alias) {
+      message.speaker = {
+        ...(actorId && { actorId }),
+        ...(tokenId && { tokenId }),
+        ...(sceneId && { sceneId }),
+        ...(alias && { alias }),
+      };
+    }
+    if (whisper?.length) {
+      message.whisper = whisper;
+    }
+    if (rollMode) {
+      message.rollMode = rollMode;
+    }
+    const created = await foundryClient.sendChatMessage(message);
+    const speaker = created?.speaker?.alias ?? 'the current user';
+    const recipients = created?.whisper?.length
+      ? `whispered to ${created.whisper.length} user(s)${created.blind ? ', blind' : ''}`
+      : 'public';
+
     return {
       content: [
         {
           type: 'text',
-          text: `**Recent Chat Messages** (${messages.length})\n\n${formatted}`,
+          text: `💬 **Message Posted**
+**Message ID:** ${created?._id}
+**Speaker:** ${speaker}
+**Visibility:** ${recipients}`,
         },
       ],
     };
   });
 }
+
+/** An ISO 8601 time argument as ms since the epoch. */
+function parseTime(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO 8601 date-time`);
+  }
+  return time;
+}
+
+/** e.g. `12 rolls · avg 11.4 (expected 10.5) · nat 20 ×1 · nat 1 ×0 · vs DC 5/8 (63%) · …` */
+function describeStats(stats: RollStats): string {
+  const percent = (n: number, of: number) => `${Math.round((n / of) * 100)}%`;
+  const parts = [
+    `${stats.rolls} roll${stats.rolls === 1 ? '' : 's'}`,
+    `avg ${stats.average.toFixed(1)} (expected ${stats.expected.toFixed(1)})`,
+    `nat 20 ×${stats.natural20s} (${percent(stats.natural20s, stats.rolls)})`,
+    `nat 1 ×${stats.natural1s} (${percent(stats.natural1s, stats.rolls)})`,
+  ];
+  if (stats.checks > 0) {
+    parts.push(
+      `vs DC ${stats.successes}/${stats.checks} (${percent(stats.successes, stats.checks)})`,
+    );
+  }
+  parts.push(
+    `longest streaks ${stats.longestHighStreak} above 10, ${stats.longestLowStreak} at 10 or below`,
+  );
+  return parts.join(' · ');
+}
@@ -0,0 +1,243 @@
+/**
+ * Ability check, saving throw and attack roll handlers
+ *
+ * The actor's game system picks the adapter that reads its modifiers (see
+ * `src/systems`); the roll itself goes through the client's dice session, so
+ * `@` references in bonuses resolve against the actor and the roll is part of
+ * the committed seed stream.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { doubleDice } from '../../dice/odds.js';
+import { type DiceNode, parseFormula } from '../../dice/parser.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import type { DiceRoll, WorldActor } from '../../foundry/types.js';
+import {
+  type Advantage,
+  appendParts,
+  type CheckKind,
+  type DamagePart,
+  d20Term,
+  describeModifier,
+} from '../../systems/adapter.js';
+import { getSystemAdapter } from '../../systems/index.js';
+import { withToolError } from './utils.js';
+
+const CHECK_KINDS: CheckKind[] = ['ability', 'save', 'skill'];
+const ADVANTAGE: Advantage[] = ['normal', 'advantage', 'disadvantage'];
+
+/**
+ * Handles an ability check, saving throw or skill check.
+ */
+export async function handleRollCheck(
+  args: { actorId: string; kind: CheckKind; key: string; advantage?: Advantage; dc?: number },
+  foundryClient: FoundryClient,
+) {
+  const { actorId, kind, key, advantage = 'normal', dc } = args;
+  if (!CHECK_KINDS.includes(kind)) {
+    throw new McpError(ErrorCode.InvalidParams, `kind must be one of: ${CHECK_KINDS.join(', ')}`);
+  }
+  validateAdvantage(advantage);
+  if (dc !== undefined && !Number.isInteger(dc)) {
+    throw new McpError(ErrorCode.InvalidParams, 'dc must be an integer');
+  }
+
+  return withToolError('roll check', async () => {
+    const actor = requireActor(foundryClient, actorId);
+    const adapter = getSystemAdapter((await foundryClient.getWorldInfo()).system);
+    const check = adapter.check(actor, { kind, key });
+
+    const formula = appendParts(d20Term(advantage), check.parts);
+    const result = await foundryClient.rollDice(formula, `${actor.name}: ${check.label}`, {
+      actorId,
+    });
+    const natural = naturalD20(result);
+
+    const lines = [
+      `🎲 **${check.label}** — ${actor.name}`,
+      `**Modifier:** ${describeModifier(check.parts)}`,
+      ...rollLines(result, advantage),
+      `**Total:** ${result.total}${naturalNote(natural)}`,
+    ];
+    if (dc !== undefined) {
+      lines.push(`**DC ${dc}:** ${result.total >= dc ? '✅ Success' : '❌ Failure'}`);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Handles an attack roll with a weapon or spell, optionally rolling damage.
+ */
+export async function handleRollAttack(
+  args: {
+    actorId: string;
+    item: string;
+    advantage?: Advantage;
+    targetAc?: number;
+    versatile?: boolean;
+    rollDamage?: boolean;
+  },
+  foundryClient: FoundryClient,
+) {
+  const { actorId, item, advantage = 'normal', targetAc, versatile, rollDamage = true } = args;
+  if (typeof item !== 'string' || !item.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, 'item is required (an item id or name)');
+  }
+  validateAdvantage(advantage);
+  if (targetAc !== undefined && !Number.isInteger(targetAc)) {
+    throw new McpError(ErrorCode.InvalidParams, 'targetAc must be an integer');
+  }
+
+  return withToolError('roll attack', async () => {
+    const actor = requireActor(foundryClient, actorId);
+    const wanted = item.trim().toLowerCase();
+    const weapon =
+      actor.items?.find((i) => i._id === item) ??
+      actor.items?.find((i) => i.name.toLowerCase() === wanted);
+    if (!weapon) {
+      throw new Error(`${actor.name} has no item ${item}`);
+    }
+
+    const adapter = getSystemAdapter((await foundryClient.getWorldInfo()).system);
+    const attack = adapter.attack(actor, weapon, versatile === undefined ? {} : { versatile });
+
+    const formula = appendParts(d20Term(advantage), attack.parts);
+    const result = await foundryClient.rollDice(formula, `${actor.name}: ${attack.label} attack`, {
+      actorId,
+    });
+    const natural = naturalD20(result);
+    const critical = natural !== undefined && natural >= attack.critThreshold;
+    const fumble = natural === 1;
+
+    const lines = [
+      `⚔️ **${attack.label} Attack** — ${actor.name}`,
+      `**Attack Bonus:** ${describeModifier(attack.parts)}`,
+      ...rollLines(result, advantage),
+      `**Total:** ${result.total}${
+        critical ? ' (💥 CRITICAL HIT)' : fumble ? ' (💀 natural 1 — automatic miss)' : ''
+      }`,
+    ];
+
+    let hit = !fumble;
+    if (targetAc !== undefined) {
+      hit = critical || (!fumble && result.total >= targetAc);
+      lines.push(`**vs AC ${targetAc}:** ${hit ? '✅ Hit' : '❌ Miss'}`);
+    }
+
+    if (rollDamage && hit && attack.damage.length > 0) {
+      const damageFormula = damageFormulaOf(attack.damage, critical, attack.critBonus);
+      const damage = await foundryClient.rollDice(
+        damageFormula,
+        `${actor.name}: ${attack.label} damage${critical ? ' (critical)' : ''}`,
+        { actorId },
+      );
+      const types = [...new Set(attack.damage.flatMap((d) => (d.type ? [d.type] : [])))];
+      lines.push(
+        `**Damage${critical ? ' (critical)' : ''}:** ${damage.total}${
+          types.length ? ` ${types.join(', ')}` : ''
+        }`,
+        `**Damage Roll:** ${damage.breakdown}`,
+      );
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * The damage formula, each part flavored with its type. A critical hit
+ * doubles the dice of every part, then adds the system's critical bonus.
+ */
+export function damageFormulaOf(parts: DamagePart[], critical: boolean, critBonus?: string) {
+  const terms = parts.map(({ formula, type }) => {
+    const rolled = critical ? doubledDiceFormula(formula) : formula;
+    return `(${rolled})${type ? `[${type}]` : ''}`;
+  });
+  if (critical && critBonus) {
+    terms.push(`(${critBonus})[critical]`);
+  }
+  return terms.join(' + ');
+}
+
+/**
+ * `formula` with every dice term's count doubled. The terms come from the
+ * parsed formula, so modifiers such as `r<3` or `kh1` stay with their dice;
+ * each is rewritten in place, leaving `@` references for the roll to resolve.
+ */
+function doubledDiceFormula(formula: string): string {
+  // Same-length stand-ins keep the parsed terms at their offsets.
+  const masked = formula.replace(/@[a-z.0-9_-]+/gi, (reference) => '0'.repeat(reference.length));
+  let doubled = '';
+  let cursor = 0;
+  for (const term of diceTerms(parseFormula(masked))) {
+    const at = masked.indexOf(term.source, cursor);
+    doubled += formula.slice(cursor, at) + (doubleDice(term) as typeof term).source;
+    cursor = at + term.source.length;
+  }
+  return doubled + formula.slice(cursor);
+}
+
+/** The dice terms of a parsed formula, left to right. */
+function diceTerms(node: DiceNode): Array<Extract<DiceNode, { kind: 'dice' }>> {
+  switch (node.kind) {
+    case 'dice':
+      return [node];
+    case 'negate':
+      return diceTerms(node.operand);
+    case 'group':
+      return diceTerms(node.expression);
+    case 'binary':
+      return [...diceTerms(node.left), ...diceTerms(node.right)];
+    case 'call':
+      return node.args.flatMap(diceTerms);
+    case 'number':
+      return [];
+  }
+}
+
+function requireActor(foundryClient: FoundryClient, actorId: string): WorldActor {
+  if (typeof actorId !== 'string' || !actorId.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, 'actorId is required');
+  }
+  const actor = foundryClient.getRawActor(actorId);
+  if (!actor) {
+    throw new Error(`Actor not found: ${actorId}`);
+  }
+  return actor;
+}
+
+function validateAdvantage(advantage: Advantage): void {
+  if (!ADVANTAGE.includes(advantage)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `advantage must be one of: ${ADVANTAGE.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * The kept d20 of a locally evaluated roll; rolls made by the Foundry REST
+ * API carry no terms, so their natural result is unknown.
+ */
+function naturalD20(result: DiceRoll): number | undefined {
+  const term = result.terms?.find((t) => t.faces === 20);
+  return term?.results.find((r) => r.active)?.result;
+}
+
+function naturalNote(natural: number | undefined): string {
+  return natural === 20 ? ' (natural 20)' : natural === 1 ? ' (natural 1)' : '';
+}
+
+function rollLines(result: DiceRoll, advantage: Advantage): string[] {
+  const rollData = result.substitutions?.map((s) => `${s.reference} = ${s.value}`).join(', ');
+  return [
+    `**Roll:** ${result.breakdown}${advantage === 'normal' ? '' : ` (${advantage})`}`,
+    ...(rollData ? [`**Roll Data:** ${rollData}`] : []),
+  ];
+}
@@ -1,16 +1,32 @@
 /**
  * @fileoverview Combat control mutation tool handlers (FR-018)
  *
- * Provides GM-gated combat-control tools that operate on the *active* combat:
- * advancing the turn, ending the encounter, and setting a combatant's
- * initiative. All are WRITE operations — they require FOUNDRY_WRITE_ENABLED=true
+ * Provides GM-gated combat-control tools that operate on the *active* combat,
+ * or the one a `combatId` picks: moving the turn forward, back or to a
+ * combatant, ending or activating the encounter, setting or rolling
+ * initiative, adding and removing combatants, and marking them defeated or
+ * hidden. All are WRITE operations — they require FOUNDRY_WRITE_ENABLED=true
  * and an active Socket.IO connection (mutations use the core `modifyDocument`
  * protocol), and the connected user needs GM/owner permission.
  */
 
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { type Combatant, combatTurns } from '../../combat/turns.js';
+import {
+  ASSISTANT_ROLE,
+  type ChatMessageInput,
+  type ChatRollMode,
+} from '../../foundry/chat-message.js';
 import type { FoundryClient } from '../../foundry/client.js';
-import type { WorldCombat, WorldScene } from '../../foundry/types.js';
+import type {
+  DiceRoll,
+  WorldActor,
+  WorldCombat,
+  WorldScene,
+  WorldUser,
+} from '../../foundry/types.js';
+import { appendParts, d20Term } from '../../systems/adapter.js';
+import { getSystemAdapter } from '../../systems/index.js';
 import { withToolError } from './utils.js';
 
 /** A combatant seed derived from a scene token, sent to the create wire. */
@@ -23,7 +39,7 @@ interface CombatantSeed {
 /**
  * Computes the next `{ turn, round }` for an active combat.
  *
- * Advances to the next combatant in order; wrapping past the last combatant
+ * Advances to the next combatant in turn order (see {@link combatTurns}); wrapping past the last combatant
  * rolls over to turn 0 of the next round.
  *
  * When `skipDefeated` is true, `defeated` combatants are skipped — mirroring
@@ -37,7 +53,7 @@ export function computeNextTurn(
   combat: WorldCombat,
   skipDefeated = false,
 ): { turn: number; round: number } {
-  const combatants = combat.combatants;
+  const combatants = combatTurns(combat);
   const n = combatants.length;
   if (n === 0) {
     throw new Error('Cannot advance turn: active combat has no combatants');
@@ -62,6 +78,88 @@ export function computeNextTurn(
   return { turn: firstAlive === -1 ? 0 : firstAlive, round };
 }
 
+/**
+ * Computes the previous `{ turn, round }` for an active combat — the mirror of
+ * {@link computeNextTurn}. Stepping back from the first combatant returns to
+ * the last eligible combatant of the previous round.
+ *
+ * @throws if the combat has no combatants, or is already at the first turn
+ *   of round 1
+ */
+export function computePreviousTurn(
+  combat: WorldCombat,
+  skipDefeated = false,
+): { turn: number; round: number } {
+  const combatants = combatTurns(combat);
+  if (combatants.length === 0) {
+    throw new Error('Cannot go back: combat has no combatants');
+  }
+  const eligible = (i: number) => !(skipDefeated && combatants[i]?.defeated);
+
+  const cur = combat.turn ?? 0;
+  for (let i = cur - 1; i >= 0; i--) {
+    if (eligible(i)) {
+      return { turn: i, round: combat.round };
+    }
+  }
+
+  if (combat.round <= 1) {
+    throw new Error('Cannot go back: already at the first turn of round 1');
+  }
+  for (let i = combatants.length - 1; i >= 0; i--) {
+    if (eligible(i)) {
+      return { turn: i, round: combat.round - 1 };
+    }
+  }
+  return { turn: combatants.length - 1, round: combat.round - 1 };
+}
+
+/**
+ * The turn index that keeps the same combatant acting once `removedIds` are
+ * gone. When the acting combatant itself is removed, the next survivor in
+ * order acts (or the last survivor, if none follow it).
+ *
+ * @returns the new turn, or null when the turn needs no change
+ */
+export function turnAfterRemoval(combat: WorldCombat, removedIds: string[]): number | null {
+  if (combat.turn === null) {
+    return null;
+  }
+  const turns = combatTurns(combat);
+  const survivors = turns.filter((c) => !removedIds.includes(c._id));
+  if (survivors.length === 0) {
+    return null;
+  }
+  const next = turns.slice(combat.turn).find((c) => !removedIds.includes(c._id));
+  const turn = next ? survivors.indexOf(next) : survivors.length - 1;
+  return turn === combat.turn ? null : turn;
+}
+
+/**
+ * The turn index that keeps the same combatant acting once `initiatives` land
+ * and the turn order is re-sorted, like `Combat#rollInitiative`.
+ *
+ * @returns the new turn, or null when the turn needs no change
+ */
+export function turnAfterInitiative(
+  combat: WorldCombat,
+  initiatives: Array<{ combatantId: string; initiative: number }>,
+): number | null {
+  const acting = combat.turn !== null ? combatTurns(combat)[combat.turn] : undefined;
+  if (!acting) {
+    return null;
+  }
+  const rolled = new Map(initiatives.map((i) => [i.combatantId, i.initiative]));
+  const turns = combatTurns({
+    combatants: combat.combatants.map((c) => ({
+      ...c,
+      initiative: rolled.get(c._id) ?? c.initiative,
+    })),
+  });
+  const turn = turns.findIndex((c) => c._id === acting._id);
+  return turn === combat.turn ? null : turn;
+}
+
 /**
  * Advances the active combat to the next turn (FR-018).
  *
@@ -70,13 +168,10 @@ export function computeNextTurn(
  * to `false`.
  */
 export async function handleNextTurn(
-  args: { skipDefeated?: boolean },
+  args: { skipDefeated?: boolean; combatId?: string },
   foundryClient: FoundryClient,
 ) {
-  const combat = foundryClient.getCombatState();
-  if (!combat) {
-    throw new McpError(ErrorCode.InvalidRequest, 'No active combat to advance.');
-  }
+  const combat = requireCombat(foundryClient, args?.combatId, 'advance');
 
   const skipDefeated = args?.skipDefeated ?? combat.settings?.skipDefeated ?? false;
 
@@ -84,7 +179,7 @@ export async function handleNextTurn(
     const { turn, round } = computeNextTurn(combat, skipDefeated);
     await foundryClient.updateCombat(combat._id, { turn, round });
 
-    const current = combat.combatants[turn];
+    const current = combatTurns(combat)[turn];
     const currentName = current ? current.name : 'unknown';
 
     return {
@@ -102,16 +197,11 @@ export async function handleNextTurn(
 }
 
 /**
- * Ends (deletes) the active combat encounter (FR-018).
+ * Ends (deletes) a combat encounter, the active one unless `combatId` picks
+ * another (FR-018).
  */
-export async function handleEndCombat(
-  _args: Record<string, unknown>,
-  foundryClient: FoundryClient,
-) {
-  const combat = foundryClient.getCombatState();
-  if (!combat) {
-    throw new McpError(ErrorCode.InvalidRequest, 'No active combat to end.');
-  }
+export async function handleEndCombat(args: { combatId?: string }, foundryClient: FoundryClient) {
+  const combat = requireCombat(foundryClient, args?.combatId, 'end');
 
   return withToolError('end combat', async () => {
     await foundryClient.endCombat(combat._id);
@@ -122,7 +212,7 @@ export async function handleEndCombat(
           type: 'text',
           text: `⚔️ **Combat Ended**
 **Encounter:** ${combat._id}
-The active combat encounter has been removed.`,
+The combat encounter has been removed.`,
         },
       ],
     };
@@ -132,7 +222,8 @@ The active combat encounter has been removed.`,
 /**
  * Sets a combatant's initiative in the active combat (FR-018).
  *
- * `combatId` defaults to the active combat when omitted.
+ * `combatId` defaults to the active combat when omitted. When the new value
+ * re-sorts the turn order, the acting combatant keeps its turn.
  */
 export async function handleSetInitiative(
   args: { combatantId: string; initiative: number; combatId?: string },
@@ -150,7 +241,8 @@ export async function handleSetInitiative(
     );
   }
 
-  const resolvedCombatId = combatId ?? foundryClient.getCombatState()?._id;
+  const combat = combatId ? foundryClient.getCombat(combatId) : foundryClient.getCombatState();
+  const resolvedCombatId = combatId ?? combat?._id;
   if (!resolvedCombatId) {
     throw new McpError(
       ErrorCode.InvalidRequest,
@@ -159,7 +251,12 @@ export async function handleSetInitiative(
   }
 
   return withToolError('set combatant initiative', async () => {
+    // Computed before the update lands in the cache.
+    const turn = combat ? turnAfterInitiative(combat, [{ combatantId, initiative }]) : null;
     await foundryClient.setCombatantInitiative(resolvedCombatId, combatantId, initiative);
+    if (turn !== null) {
+      await foundryClient.updateCombat(resolvedCombatId, { turn });
+    }
 
     return {
       content: [
@@ -175,6 +272,483 @@ export async function handleSetInitiative(
   });
 }
 
+/**
+ * Makes a combat the active encounter of its scene, deactivating the other
+ * active combats there; encounters on other scenes keep running. Tools that
+ * omit `combatId` then act on it whenever its scene is the active one.
+ */
+export async function handleActivateCombat(
+  args: { combatId: string },
+  foundryClient: FoundryClient,
+) {
+  if (!args?.combatId || typeof args.combatId !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'combatId is required and must be a string');
+  }
+  const combat = requireCombat(foundryClient, args.combatId, 'activate');
+
+  return withToolError('activate combat', async () => {
+    const deactivated = await foundryClient.activateCombat(combat._id);
+    const scene = combat.scene
+      ? foundryClient.getScenes().find((s) => s._id === combat.scene)
+      : undefined;
+
+    const lines = [
+      '⚔️ **Combat Activated**',
+      `**Encounter:** ${combat._id}`,
+      `**Scene:** ${scene ? `${scene.name} (${scene._id})` : (combat.scene ?? 'none')}`,
+    ];
+    if (combat.active && deactivated.length === 0) {
+      lines.push('The combat was already active.');
+    } else if (deactivated.length > 0) {
+      lines.push(`**Deactivated:** ${deactivated.join(', ')}`);
+    }
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Steps the combat back one turn, into the previous round from the first
+ * combatant. `skipDefeated` falls back to the combat's setting, as in
+ * {@link handleNextTurn}.
+ */
+export async function handlePreviousTurn(
+  args: { skipDefeated?: boolean; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const combat = requireCombat(foundryClient, args?.combatId, 'step back');
+  const skipDefeated = args?.skipDefeated ?? combat.settings?.skipDefeated ?? false;
+
+  return withToolError('step combat turn back', async () => {
+    const { turn, round } = computePreviousTurn(combat, skipDefeated);
+    await foundryClient.updateCombat(combat._id, { turn, round });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⚔️ **Combat Turn Stepped Back**
+**Round:** ${round}
+**Turn:** ${turn + 1} of ${combat.combatants.length}
+**Now acting:** ${combatTurns(combat)[turn]?.name ?? 'unknown'}`,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Gives the turn to a specific combatant, optionally in another round.
+ */
+export async function handleSetTurn(
+  args: { combatantId: string; round?: number; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const { combatantId, round, combatId } = args;
+  if (!combatantId || typeof combatantId !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'combatantId is required and must be a string');
+  }
+  if (round !== undefined && (!Number.isInteger(round) || round < 1)) {
+    throw new McpError(ErrorCode.InvalidParams, 'round must be a positive integer');
+  }
+  const combat = requireCombat(foundryClient, combatId, 'set the turn of');
+  const turns = combatTurns(combat);
+  const turn = turns.findIndex((c) => c._id === combatantId);
+  if (turn === -1) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Combatant not found in combat ${combat._id}: ${combatantId}`,
+    );
+  }
+
+  return withToolError('set combat turn', async () => {
+    const patch = { turn, round: round ?? Math.max(combat.round, 1) };
+    await foundryClient.updateCombat(combat._id, patch);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⚔️ **Combat Turn Set**
+**Round:** ${patch.round}
+**Turn:** ${turn + 1} of ${combat.combatants.length}
+**Now acting:** ${turns[turn]?.name ?? combatantId}`,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Adds tokens to a running combat as combatants — reinforcements arriving
+ * mid-fight. Tokens already in the combat are skipped. `sceneId` defaults to
+ * the combat's scene, then the active scene.
+ */
+export async function handleAddCombatants(
+  args: { tokenIds: string[]; sceneId?: string; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const { tokenIds, combatId } = args;
+  if (
+    !Array.isArray(tokenIds) ||
+    tokenIds.length === 0 ||
+    tokenIds.some((id) => typeof id !== 'string')
+  ) {
+    throw new McpError(ErrorCode.InvalidParams, 'tokenIds must be a non-empty array of strings');
+  }
+  const combat = requireCombat(foundryClient, combatId, 'add combatants to');
+
+  const sceneId = args.sceneId ?? combat.scene;
+  const scenes = foundryClient.getScenes();
+  const scene = sceneId ? scenes.find((s) => s._id === sceneId) : scenes.find((s) => s.active);
+  if (!scene) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      sceneId ? `Scene not found: ${sceneId}` : 'No active scene; provide a sceneId.',
+    );
+  }
+
+  const seeds: CombatantSeed[] = [];
+  const skipped: string[] = [];
+  for (const id of tokenIds) {
+    const token = (scene.tokens ?? []).find((t) => t._id === id);
+    if (!token) {
+      throw new McpError(ErrorCode.InvalidParams, `Token not found on scene ${scene._id}: ${id}`);
+    }
+    if (combat.combatants.some((c) => c.tokenId === id) || seeds.some((s) => s.tokenId === id)) {
+      skipped.push(id);
+      continue;
+    }
+    seeds.push({
+      tokenId: id,
+      sceneId: scene._id,
+      actorId: typeof token.actorId === 'string' ? token.actorId : undefined,
+    });
+  }
+
+  return withToolError('add combatants', async () => {
+    const created = seeds.length ? await foundryClient.addCombatants(combat._id, seeds) : [];
+    const lines = [
+      '⚔️ **Combatants Added**',
+      `**Combat:** ${combat._id}`,
+      `**Added:** ${seeds.length}`,
+      ...created.map((doc) => {
+        const { _id, name } = (doc ?? {}) as { _id?: string; name?: string };
+        return `- ${name ?? 'Combatant'} (${_id ?? 'unknown id'})`;
+      }),
+    ];
+    if (skipped.length > 0) {
+      lines.push(`**Already in combat:** ${skipped.join(', ')}`);
+    }
+    if (seeds.length > 0) {
+      lines.push('New combatants have no initiative yet — use roll_initiative.');
+    }
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Removes combatants from a combat — enemies fleeing or dismissed. The
+ * acting combatant keeps the turn; if it is removed, the next one in order
+ * takes it (see {@link turnAfterRemoval}).
+ */
+export async function handleRemoveCombatants(
+  args: { combatantIds: string[]; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const { combatantIds, combatId } = args;
+  if (
+    !Array.isArray(combatantIds) ||
+    combatantIds.length === 0 ||
+    combatantIds.some((id) => typeof id !== 'string')
+  ) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'combatantIds must be a non-empty array of strings',
+    );
+  }
+  const combat = requireCombat(foundryClient, combatId, 'remove combatants from');
+  const missing = combatantIds.filter((id) => !combat.combatants.some((c) => c._id === id));
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Combatants not found in combat ${combat._id}: ${missing.join(', ')}`,
+    );
+  }
+
+  return withToolError('remove combatants', async () => {
+    // Computed before the delete lands in the cache.
+    const turn = turnAfterRemoval(combat, combatantIds);
+    const names = combatantIds.map((id) => combat.combatants.find((c) => c._id === id)?.name);
+    const survivors = combatTurns(combat).filter((c) => !combatantIds.includes(c._id));
+    await foundryClient.removeCombatants(combat._id, combatantIds);
+    if (turn !== null) {
+      await foundryClient.updateCombat(combat._id, { turn });
+    }
+
+    const lines = [
+      '⚔️ **Combatants Removed**',
+      `**Combat:** ${combat._id}`,
+      `**Removed:** ${names.join(', ')}`,
+      `**Remaining:** ${survivors.length}`,
+    ];
+    if (turn !== null) {
+      lines.push(`**Now acting:** ${survivors[turn]?.name ?? 'unknown'}`);
+    }
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Marks a combatant defeated, or clears it. Without `defeated` the flag is
+ * toggled.
+ */
+export async function handleToggleCombatantDefeated(
+  args: { combatantId: string; defeated?: boolean; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const { combat, combatant } = requireCombatant(foundryClient, args, 'defeated');
+  const defeated = args.defeated ?? !combatant.defeated;
+
+  return withToolError('toggle combatant defeated', async () => {
+    if (defeated !== combatant.defeated) {
+      await foundryClient.setCombatantDefeated(combat._id, combatant._id, defeated);
+    }
+    return combatantFlagResult(
+      combat,
+      combatant.name,
+      defeated ? '☠️ Defeated' : '❤️ Not defeated',
+      defeated === combatant.defeated,
+    );
+  });
+}
+
+/**
+ * Hides a combatant from players in the tracker, or reveals it. Without
+ * `hidden` the flag is toggled.
+ */
+export async function handleToggleCombatantHidden(
+  args: { combatantId: string; hidden?: boolean; combatId?: string },
+  foundryClient: FoundryClient,
+) {
+  const { combat, combatant } = requireCombatant(foundryClient, args, 'hidden');
+  const hidden = args.hidden ?? !combatant.hidden;
+
+  return withToolError('toggle combatant hidden', async () => {
+    if (hidden !== combatant.hidden) {
+      await foundryClient.setCombatantHidden(combat._id, combatant._id, hidden);
+    }
+    return combatantFlagResult(
+      combat,
+      combatant.name,
+      hidden ? '🙈 Hidden' : '👁️ Visible',
+      hidden === combatant.hidden,
+    );
+  });
+}
+
+/** Which combatants `roll_initiative` rolls for when none are selected. */
+export type InitiativeScope = 'all' | 'npcs';
+
+const INITIATIVE_SCOPES: InitiativeScope[] = ['all', 'npcs'];
+
+/** `CONST.DOCUMENT_OWNERSHIP_LEVELS.OWNER`. */
+const OWNER = 3;
+
+/**
+ * Rolls initiative for combatants and writes every result in one batched
+ * `Combatant` update, like `Combat#rollInitiative`.
+ *
+ * Rolls for the given `combatantIds`, otherwise for every combatant (or, with
+ * `scope: 'npcs'`, those no player owns) that has no initiative yet —
+ * `rerollExisting` rolls for those too. Each actor's modifier, advantage and
+ * tiebreaker come from its game system's adapter; a combatant without an
+ * actor rolls a plain d20. With `postToChat`, each roll is posted as a chat
+ * message, GM-only for hidden combatants.
+ */
+export async function handleRollInitiative(
+  args: {
+    combatantIds?: string[];
+    scope?: InitiativeScope;
+    rerollExisting?: boolean;
+    postToChat?: boolean;
+    rollMode?: ChatRollMode;
+    combatId?: string;
+  },
+  foundryClient: FoundryClient,
+) {
+  const {
+    combatantIds,
+    scope = 'all',
+    rerollExisting = false,
+    postToChat = false,
+    rollMode,
+    combatId,
+  } = args ?? {};
+
+  if (!INITIATIVE_SCOPES.includes(scope)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `scope must be one of: ${INITIATIVE_SCOPES.join(', ')}`,
+    );
+  }
+  if (
+    combatantIds !== undefined &&
+    (!Array.isArray(combatantIds) || combatantIds.some((id) => typeof id !== 'string'))
+  ) {
+    throw new McpError(ErrorCode.InvalidParams, 'combatantIds must be an array of strings');
+  }
+
+  const combat = requireCombat(foundryClient, combatId, 'roll initiative for');
+
+  let selected: Combatant[];
+  if (combatantIds?.length) {
+    const missing = combatantIds.filter((id) => !combat.combatants.some((c) => c._id === id));
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Combatants not found in combat ${combat._id}: ${missing.join(', ')}`,
+      );
+    }
+    selected = combat.combatants.filter((c) => combatantIds.includes(c._id));
+  } else {
+    const { users } = foundryClient.getUsers();
+    selected = combat.combatants.filter(
+      (c) =>
+        (rerollExisting || c.initiative === null) &&
+        (scope === 'all' || !isPlayerOwned(foundryClient, c, users)),
+    );
+  }
+
+  return withToolError('roll initiative', async () => {
+    if (selected.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `🎲 **Initiative** — nothing to roll: every ${
+              scope === 'npcs' ? 'NPC ' : ''
+            }combatant already has initiative (pass rerollExisting to roll again).`,
+          },
+        ],
+      };
+    }
+
+    const adapter = getSystemAdapter((await foundryClient.getWorldInfo()).system);
+    const rolls: Array<{ combatant: Combatant; result: DiceRoll; initiative: number }> = [];
+    for (const combatant of selected) {
+      const actor = combatantActor(foundryClient, combat, combatant);
+      const init = actor
+        ? adapter.initiative(actor)
+        : { parts: [], advantage: 'normal' as const, tiebreaker: 0 };
+      const formula = appendParts(d20Term(init.advantage), init.parts);
+      const result = await foundryClient.rollDice(
+        formula,
+        `${combatant.name}: Initiative`,
+        actor ? { actorId: actor._id, forWrite: true } : { forWrite: true },
+      );
+      // Two decimals, so a tiebreaker of 0.14 does not print as 17.140000000000001.
+      const initiative = Math.round((result.total + (init.tiebreaker ?? 0)) * 100) / 100;
+      rolls.push({ combatant, result, initiative });
+    }
+
+    const initiatives = rolls.map(({ combatant, initiative }) => ({
+      combatantId: combatant._id,
+      initiative,
+    }));
+    // Computed before the update lands in the cache.
+    const turn = turnAfterInitiative(combat, initiatives);
+    await foundryClient.setCombatantInitiatives(combat._id, initiatives);
+    if (turn !== null) {
+      await foundryClient.updateCombat(combat._id, { turn });
+    }
+
+    const lines = [
+      `🎲 **Initiative Rolled** — ${rolls.length} combatant${rolls.length === 1 ? '' : 's'}`,
+      `**Combat:** ${combat._id}`,
+      ...[...rolls]
+        .sort((a, b) => b.initiative - a.initiative)
+        .map(
+          ({ combatant, result, initiative }) =>
+            `- **${combatant.name}**: ${initiative} (${result.breakdown})`,
+        ),
+    ];
+
+    if (postToChat) {
+      for (const { combatant, result } of rolls) {
+        const message: ChatMessageInput = result.roll
+          ? { rolls: [result.roll] }
+          : { content: `${result.formula} = ${result.total}` };
+        message.flavor = `${combatant.name} rolls for Initiative!`;
+        message.speaker = combatant.actorId
+          ? { actorId: combatant.actorId, alias: combatant.name }
+          : { alias: combatant.name };
+        const mode = combatant.hidden ? 'gmroll' : rollMode;
+        if (mode) {
+          message.rollMode = mode;
+        }
+        await foundryClient.sendChatMessage(message);
+      }
+      lines.push(
+        `**Posted to chat:** ${rolls.length} message${rolls.length === 1 ? '' : 's'} (${
+          rollMode ?? 'publicroll'
+        }; hidden combatants as gmroll)`,
+      );
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * The actor a combatant rolls with: an unlinked token's synthetic actor,
+ * otherwise the world actor.
+ */
+function combatantActor(
+  foundryClient: FoundryClient,
+  combat: WorldCombat,
+  combatant: Combatant,
+): WorldActor | undefined {
+  if (!combatant.actorId) {
+    return undefined;
+  }
+  const located = combatant.tokenId
+    ? foundryClient.findToken(combatant.tokenId, combatant.sceneId ?? combat.scene)
+    : null;
+  if (located && located.token.actorLink !== true && combatant.tokenId) {
+    return foundryClient.getTargetActor({
+      actorId: combatant.actorId,
+      sceneId: located.scene._id,
+      tokenId: combatant.tokenId,
+    });
+  }
+  return foundryClient.getRawActor(combatant.actorId);
+}
+
+/** `Actor#hasPlayerOwner`: a non-GM user owns the combatant's actor. */
+function isPlayerOwned(
+  foundryClient: FoundryClient,
+  combatant: Combatant,
+  users: WorldUser[],
+): boolean {
+  const ownership = combatant.actorId
+    ? foundryClient.getRawActor(combatant.actorId)?.ownership
+    : undefined;
+  if (!ownership) {
+    return false;
+  }
+  return users.some(
+    (u) => u.role < ASSISTANT_ROLE && (ownership[u._id] ?? ownership.default ?? 0) >= OWNER,
+  );
+}
+
 /**
  * Starts a new combat encounter, seeding combatants from tokens (FR-018, #172).
  *
@@ -242,3 +816,61 @@ export async function handleStartCombat(
     };
   });
 }
+
+/**
+ * The combat a tool acts on: `combatId`, else the active combat.
+ *
+ * @param action - completes "No active combat to …"
+ */
+export function requireCombat(
+  foundryClient: FoundryClient,
+  combatId: string | undefined,
+  action: string,
+): WorldCombat {
+  const combat = combatId ? foundryClient.getCombat(combatId) : foundryClient.getCombatState();
+  if (!combat) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      combatId ? `Combat not found: ${combatId}` : `No active combat to ${action}.`,
+    );
+  }
+  return combat;
+}
+
+function requireCombatant(
+  foundryClient: FoundryClient,
+  args: { combatantId: string; combatId?: string },
+  flag: 'defeated' | 'hidden',
+): { combat: WorldCombat; combatant: Combatant } {
+  if (!args?.combatantId || typeof args.combatantId !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'combatantId is required and must be a string');
+  }
+  const value = (args as { defeated?: unknown; hidden?: unknown })[flag];
+  if (value !== undefined && typeof value !== 'boolean') {
+    throw new McpError(ErrorCode.InvalidParams, `${flag} must be a boolean`);
+  }
+  const combat = requireCombat(foundryClient, args.combatId, `mark ${flag} in`);
+  const combatant = combat.combatants.find((c) => c._id === args.combatantId);
+  if (!combatant) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Combatant not found in combat ${combat._id}: ${args.combatantId}`,
+    );
+  }
+  return { combat, combatant };
+}
+
+/** Builds the MCP text result for a defeated/hidden change. */
+function combatantFlagResult(combat: WorldCombat, name: string, state: string, unchanged: boolean) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: `⚔️ **Combatant Updated**
+**Combat:** ${combat._id}
+**Combatant:** ${name}
+**Status:** ${state}${unchanged ? ' (unchanged)' : ''}`,
+      },
+    ],
+  };
+}
@@ -1,16 +1,70 @@
 /**
- * Combat state tool handler
+ * Combat state tool handlers
  */
 
+import { combatTurns } from '../../combat/turns.js';
 import type { FoundryClient } from '../../foundry/client.js';
+import { requireCombat } from './combat-mutations.js';
 import { withToolError } from './utils.js';
 
+/**
+ * Lists every combat encounter across all scenes — which are active, their
+ * round and who is acting — so a split party's fights can be told apart and
+ * picked by `combatId`.
+ */
+export async function handleListCombats(args: { sceneId?: string }, foundryClient: FoundryClient) {
+  return withToolError('list combats', async () => {
+    const scenes = foundryClient.getScenes();
+    const current = foundryClient.getCombatState();
+    const combats = foundryClient
+      .getCombats()
+      .filter((c) => !args?.sceneId || c.scene === args.sceneId);
+
+    if (combats.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No combat encounters found.' }],
+      };
+    }
+
+    const formatted = combats
+      .map((c) => {
+        const scene = c.scene
+          ? `${scenes.find((s) => s._id === c.scene)?.name ?? 'Unknown scene'} (${c.scene})`
+          : 'no scene';
+        const state = c.active ? '🟢 active' : '⚪ inactive';
+        const acting = c.turn !== null ? combatTurns(c)[c.turn]?.name : undefined;
+        const progress = c.started
+          ? `round ${c.round}${acting ? `, ${acting} acting` : ''}`
+          : 'not started';
+        const marker = c._id === current?._id ? ' <-- DEFAULT' : '';
+        return `- **${c._id}** — ${scene} · ${state} · ${progress} · ${c.combatants.length} combatants${marker}`;
+      })
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⚔️ **Combats** (${combats.length})\n\n${formatted}`,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Shows a combat's initiative order with HP and AC. `combatId` picks an
+ * encounter; otherwise the active combat is shown.
+ */
 export async function handleGetCombatState(
-  _args: Record<string, unknown>,
+  args: { combatId?: string },
   foundryClient: FoundryClient,
 ) {
+  const combatId = args?.combatId;
+  const selected = combatId ? requireCombat(foundryClient, combatId, 'show') : undefined;
+
   return withToolError('get combat state', async () => {
-    const combat = foundryClient.getCombatState();
+    const combat = selected ?? foundryClient.getCombatState();
 
     if (!combat) {
       return {
@@ -18,8 +72,7 @@ export async function handleGetCombatState(
       };
     }
 
-    const combatants = combat.combatants
-      .sort((a, b) => (b.initiative ?? -999) - (a.initiative ?? -999))
+    const combatants = combatTurns(combat)
       .map((c, i) => {
         const current = combat.turn === i ? ' <-- CURRENT' : '';
         const status = c.defeated ? ' [DEFEATED]' : c.hidden ? ' [HIDDEN]' : '';
@@ -50,7 +103,7 @@ export async function handleGetCombatState(
       content: [
         {
           type: 'text',
-          text: `**Active Combat** — Round ${combat.round}\n\n${combatants}`,
+          text: `**${combat.active ? 'Active Combat' : 'Inactive Combat'}** (${combat._id}) — Round ${combat.round}\n\n${combatants}`,
         },
       ],
     };
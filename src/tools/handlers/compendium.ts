@@ -2,9 +2,10 @@
  * @fileoverview Compendium search tool handlers
  *
  * Read-only search across FoundryVTT compendium packs by name and metadata.
- * Compendium data is not part of the cached worldData snapshot, so this tool
- * requires the REST API module (FOUNDRY_API_KEY). Without it the search
- * returns gracefully empty and the handler explains why.
+ * Compendium data is not part of the cached worldData snapshot; packs are
+ * indexed over the authenticated Socket.IO session, or searched through the
+ * REST API module when FOUNDRY_API_KEY is set. With neither connected the
+ * search returns gracefully empty and the handler explains why.
  */
 
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
@@ -83,7 +84,7 @@ export async function handleSearchCompendium(
 
     const restNote =
       result.restAvailable === false
-        ? '\n\n_Note: compendium search requires FOUNDRY_API_KEY (REST API module); returning no results._'
+        ? '\n\n_Note: compendium search requires a live FoundryVTT connection (Socket.IO session or FOUNDRY_API_KEY); returning no results._'
         : '';
 
     const cursorNote = result.nextCursor
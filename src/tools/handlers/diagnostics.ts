@@ -251,6 +251,21 @@ export async function handleGetHealthStatus(
       diagnosticsClient.getSystemHealth().catch(() => null),
     ]);
 
+    const connection = foundryClient.getConnectionStatus();
+    const connectionLines = [`- **State:** ${connection.state} (since ${connection.since})`];
+    if (connection.failedAttempts > 0) {
+      connectionLines.push(`- **Failed reconnect attempts:** ${connection.failedAttempts}`);
+    }
+    if (connection.lastError) {
+      connectionLines.push(`- **Last error:** ${connection.lastError}`);
+    }
+    if (connection.transitions.length > 0) {
+      connectionLines.push('- **Recent transitions:**');
+      for (const t of connection.transitions.slice(-5)) {
+        connectionLines.push(`  - ${t.at} → ${t.state}${t.reason ? ` (${t.reason})` : ''}`);
+      }
+    }
+
     return {
       content: [
         {
@@ -259,6 +274,7 @@ export async function handleGetHealthStatus(
 
 **FoundryVTT Connection:**
 ${foundryClient.isConnected() ? '✅ Connected' : '❌ Disconnected'}
+${connectionLines.join('\n')}
 
 **World Information:**
 ${
@@ -2,12 +2,25 @@
  * @fileoverview Dice rolling tool handlers
  *
  * Handles dice rolling operations using FoundryVTT's dice system
- * or fallback mechanisms when the API is unavailable.
+ * or fallback mechanisms when the API is unavailable, and probability
+ * analysis of formulas for encounter balancing.
  */
 
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  analyzeDistribution,
+  attackOdds,
+  type Distribution,
+  doubleDice,
+  mean,
+  type OddsComparison,
+  probability,
+  standardDeviation,
+} from '../../dice/odds.js';
+import { parseFormula } from '../../dice/parser.js';
+import type { ChatMessageInput, ChatRollMode } from '../../foundry/chat-message.js';
 import type { FoundryClient } from '../../foundry/client.js';
 import { logger } from '../../utils/logger.js';
-// import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { BaseTool, type ToolContext, type ToolResult } from '../base.js';
 
 /**
@@ -15,18 +28,35 @@ import { BaseTool, type ToolContext, type ToolResult } from '../base.js';
  */
 export class RollDiceTool extends BaseTool {
   readonly name = 'roll_dice';
-  readonly description = 'Roll dice using standard RPG notation (e.g., 1d20, 3d6+4)';
+  readonly description =
+    'Roll dice using FoundryVTT formula syntax: keep/drop (2d20kh1, 4d6dl1), exploding (1d6x, 1d6xo), rerolls (2d6r<2, 1d20rr1), success counting (6d10cs>=7), arithmetic with + - * / and floor/ceil/round/abs/min/max, flavor tags (2d6[fire]), percentile (d%) and Fudge (4dF) dice';
   readonly inputSchema = {
     type: 'object',
     properties: {
       formula: {
         type: 'string',
-        description: 'Dice formula (e.g., "1d20+5", "3d6")',
+        description: 'Dice formula (e.g., "1d20+5", "2d20kh1+7", "8d6[fire]", "floor(1d8/2)")',
+      },
+      actorId: {
+        type: 'string',
+        description:
+          'Actor whose system data fills in @ references such as @abilities.dex.mod or @prof',
       },
       reason: {
         type: 'string',
         description: 'Optional reason for the roll',
       },
+      postToChat: {
+        type: 'boolean',
+        description:
+          'Also post the roll to the Foundry chat log as a ChatMessage (WRITE — requires FOUNDRY_WRITE_ENABLED=true); the reason becomes its flavor and actorId its speaker',
+        default: false,
+      },
+      rollMode: {
+        type: 'string',
+        enum: ['publicroll', 'gmroll', 'blindroll', 'selfroll'],
+        description: 'Who sees the posted roll (default publicroll)',
+      },
     },
     required: ['formula'],
   };
@@ -35,17 +65,50 @@ export class RollDiceTool extends BaseTool {
     args: Record<string, unknown>,
     context: ToolContext,
   ): Promise<ToolResult> {
-    const { formula, reason } = args as { formula: string; reason?: string };
+    const { formula, reason, actorId, postToChat, rollMode } = args as {
+      formula: string;
+      reason?: string;
+      actorId?: string;
+      postToChat?: boolean;
+      rollMode?: ChatRollMode;
+    };
 
     logger.info(`Rolling dice: ${formula}${reason ? ` (${reason})` : ''}`);
-    const result = await context.foundryClient.rollDice(formula, reason);
+    // A roll bound for chat checks writes are possible before drawing dice.
+    const options: { actorId?: string; forWrite?: boolean } = {};
+    if (actorId) {
+      options.actorId = actorId;
+    }
+    if (postToChat) {
+      options.forWrite = true;
+    }
+    const result = await context.foundryClient.rollDice(formula, reason, options);
+    const rollData = result.substitutions?.map((s) => `${s.reference} = ${s.value}`).join(', ');
+
+    let posted = '';
+    if (postToChat) {
+      const message: ChatMessageInput = result.roll
+        ? { rolls: [result.roll] }
+        : { content: `${result.formula} = ${result.total}` };
+      if (reason) {
+        message.flavor = reason;
+      }
+      if (actorId) {
+        message.speaker = { actorId };
+      }
+      if (rollMode) {
+        message.rollMode = rollMode;
+      }
+      const created = await context.foundryClient.sendChatMessage(message);
+      posted = `\n**Posted to chat:** ${created?._id} (${rollMode ?? 'publicroll'})`;
+    }
 
     return this.createTextResponse(`🎲 **Dice Roll Result**
 **Formula:** ${result.formula}
 **Total:** ${result.total}
 **Breakdown:** ${result.breakdown}
-${result.reason ? `**Reason:** ${result.reason}` : ''}
-**Timestamp:** ${result.timestamp}`);
+${rollData ? `**Roll Data:** ${rollData}\n` : ''}${result.reason ? `**Reason:** ${result.reason}` : ''}
+**Timestamp:** ${result.timestamp}${posted}`);
   }
 }
 
@@ -57,6 +120,9 @@ export async function handleRollDice(
   args: {
     formula: string;
     reason?: string;
+    actorId?: string;
+    postToChat?: boolean;
+    rollMode?: ChatRollMode;
   },
   foundryClient: FoundryClient,
 ): Promise<ToolResult> {
@@ -66,3 +132,280 @@ export async function handleRollDice(
   };
   return tool.execute(args, context);
 }
+
+/** Distributions with at most this many values are listed in full. */
+const MAX_TABLE_ROWS = 30;
+
+const COMPARISON_TEXT: Record<OddsComparison, string> = {
+  '>=': '≥',
+  '>': '>',
+  '<=': '≤',
+  '<': '<',
+  '=': '=',
+};
+
+function percent(p: number): string {
+  return `${(p * 100).toFixed(2)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** A value table for small distributions, percentiles for large ones. */
+function formatDistribution(distribution: Distribution): string {
+  const values = [...distribution.keys()].sort((a, b) => a - b);
+  if (values.length <= MAX_TABLE_ROWS) {
+    let atLeast = 1;
+    const rows = values.map((v) => {
+      const p = distribution.get(v) as number;
+      const row = `| ${round(v)} | ${percent(p)} | ${percent(Math.max(atLeast, 0))} |`;
+      atLeast -= p;
+      return row;
+    });
+    return `| Total | P(=) | P(≥) |\n|---|---|---|\n${rows.join('\n')}`;
+  }
+  const percentiles = [5, 25, 50, 75, 95].map((pct) => {
+    let cumulative = 0;
+    const value = values.find((v) => {
+      cumulative += distribution.get(v) as number;
+      return cumulative >= pct / 100 - 1e-9;
+    });
+    return `p${pct}: ${round(value ?? (values[values.length - 1] as number))}`;
+  });
+  return `**Percentiles:** ${percentiles.join(' · ')}`;
+}
+
+/**
+ * Dice probability tool implementation
+ */
+export class DiceOddsTool extends BaseTool {
+  readonly name = 'dice_odds';
+  readonly description =
+    'Exact (or simulated) probability distribution of a dice formula: mean, range, the chance to meet a target such as a save DC, ' +
+    'and for attacks the hit and crit chance against an AC (natural 1 misses, natural 20 crits) plus expected damage including crits';
+  readonly inputSchema = {
+    type: 'object',
+    properties: {
+      formula: {
+        type: 'string',
+        description:
+          'Formula to analyse, e.g. "1d20 + 5" (save), "2d20kh1 + 7" (attack at advantage), "8d6" (damage)',
+      },
+      target: {
+        type: 'number',
+        description: 'DC or AC to compare the total against',
+      },
+      comparison: {
+        type: 'string',
+        enum: ['>=', '>', '<=', '<', '='],
+        description: 'How the total must compare to the target (default >=, i.e. meet or beat)',
+      },
+      attack: {
+        type: 'boolean',
+        description:
+          'Treat the formula as an attack roll against target (AC): natural 1 always misses, natural 20 always hits and crits. Implied by damage',
+      },
+      damage: {
+        type: 'string',
+        description: 'Damage formula on a hit, for expected damage per attack',
+      },
+      critDamage: {
+        type: 'string',
+        description: 'Damage formula on a crit (default: damage with its dice doubled)',
+      },
+      critRange: {
+        type: 'integer',
+        minimum: 2,
+        maximum: 20,
+        description: 'Lowest natural d20 that crits (default 20; 19 for Improved Critical)',
+      },
+      actorId: {
+        type: 'string',
+        description: 'Actor whose system data fills in @ references in the formulas',
+      },
+      samples: {
+        type: 'integer',
+        minimum: 1000,
+        maximum: 200000,
+        description:
+          'Rolls to simulate when an exact answer is not feasible (default 100000; formulas rolling many dice get fewer)',
+      },
+    },
+    required: ['formula'],
+  };
+
+  protected async executeValidated(
+    args: Record<string, unknown>,
+    context: ToolContext,
+  ): Promise<ToolResult> {
+    const {
+      formula,
+      target,
+      comparison = '>=',
+      damage,
+      critDamage,
+      actorId,
+    } = args as {
+      formula: string;
+      target?: number;
+      comparison?: OddsComparison;
+      damage?: string;
+      critDamage?: string;
+      actorId?: string;
+    };
+    const critRange = (args.critRange as number | undefined) ?? 20;
+    const attack = args.attack === true || damage !== undefined;
+    const options = args.samples === undefined ? {} : { samples: args.samples as number };
+    if (attack && target === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'target (the AC) is required for an attack');
+    }
+
+    const parse = (text: string) =>
+      parseFormula(context.foundryClient.resolveRollData(text, actorId).formula);
+    const node = parse(formula);
+    const { distribution, samples } = analyzeDistribution(node, options);
+    const values = [...distribution.keys()];
+
+    const lines = [
+      '🎯 **Dice Odds**',
+      `**Formula:** ${formula}`,
+      `**Method:** ${samples === null ? 'exact' : `simulated from ${samples} rolls (estimates)`}`,
+      `**Range:** ${round(Math.min(...values))} – ${round(Math.max(...values))}`,
+      `**Mean:** ${round(mean(distribution))} (σ ${round(standardDeviation(distribution))})`,
+    ];
+
+    if (attack) {
+      const odds = attackOdds(node, target as number, critRange, options);
+      lines.push(
+        `**Attack vs AC ${target}:** hit ${percent(odds.hit)} · crit ${percent(odds.crit)} (natural 1 misses, natural ${critRange === 20 ? '20' : `${critRange}+`} crits)`,
+      );
+      if (damage !== undefined) {
+        const damageNode = parse(damage);
+        const hitDamage = mean(analyzeDistribution(damageNode, options).distribution);
+        const critNode = critDamage === undefined ? doubleDice(damageNode) : parse(critDamage);
+        const critMean = mean(analyzeDistribution(critNode, options).distribution);
+        const expected = (odds.hit - odds.crit) * hitDamage + odds.crit * critMean;
+        lines.push(
+          `**Damage:** ${damage} — mean ${round(hitDamage)} on a hit, ${round(critMean)} on a crit`,
+          `**Expected damage per attack:** ${round(expected)}`,
+        );
+      }
+    } else if (target !== undefined) {
+      lines.push(
+        `**P(total ${COMPARISON_TEXT[comparison]} ${target}):** ${percent(probability(distribution, comparison, target))}`,
+      );
+    }
+
+    return this.createTextResponse(`${lines.join('\n')}\n\n${formatDistribution(distribution)}`);
+  }
+}
+
+/**
+ * Handles dice probability analysis.
+ */
+export async function handleDiceOdds(
+  args: {
+    formula: string;
+    target?: number;
+    comparison?: OddsComparison;
+    attack?: boolean;
+    damage?: string;
+    critDamage?: string;
+    critRange?: number;
+    actorId?: string;
+    samples?: number;
+  },
+  foundryClient: FoundryClient,
+): Promise<ToolResult> {
+  return new DiceOddsTool().execute(args, { foundryClient });
+}
+
+/**
+ * Dice commitment tool implementation
+ */
+export class DiceCommitmentTool extends BaseTool {
+  readonly name = 'get_dice_commitment';
+  readonly description =
+    'Show the SHA-256 commitment to the secret seed that local dice rolls are drawn from, published before the rolls so ' +
+    'players can later verify them with reveal_dice_seed';
+  readonly inputSchema = {
+    type: 'object',
+    properties: {},
+  };
+
+  protected async executeValidated(
+    _args: Record<string, unknown>,
+    context: ToolContext,
+  ): Promise<ToolResult> {
+    const session = context.foundryClient.getDiceCommitment();
+    return this.createTextResponse(`🔒 **Dice Commitment**
+**Commitment:** sha256(seed) = ${session.commitment}
+**Seed:** ${session.configuredSeed ? 'fixed (DICE_SEED)' : 'random'}
+**Session started:** ${session.startedAt}
+**Rolls so far:** ${session.rolls}
+
+Share the commitment now; after the session, reveal_dice_seed discloses the seed and the roll log so every total can be replayed.`);
+  }
+}
+
+/**
+ * Dice seed reveal tool implementation
+ */
+export class RevealDiceSeedTool extends BaseTool {
+  readonly name = 'reveal_dice_seed';
+  readonly description =
+    'End the dice session: reveal its seed and the log of every local roll, check the log replays from the seed, ' +
+    'and start a new session with a fresh committed seed';
+  readonly inputSchema = {
+    type: 'object',
+    properties: {},
+  };
+
+  protected async executeValidated(
+    _args: Record<string, unknown>,
+    context: ToolContext,
+  ): Promise<ToolResult> {
+    const reveal = context.foundryClient.revealDiceSeed();
+    const next = context.foundryClient.getDiceCommitment();
+    const log =
+      reveal.log.length > 0
+        ? `| # | Formula | Total |\n|---|---|---|\n${reveal.log
+            .map(
+              (entry) =>
+                `| ${entry.index} | ${entry.formula} | ${entry.total ?? `failed after ${entry.draws} draws: ${entry.error}`} |`,
+            )
+            .join('\n')}`
+        : 'No local rolls were made this session.';
+
+    return this.createTextResponse(`🔓 **Dice Seed Revealed**
+**Seed:** ${reveal.seed}
+**Commitment:** ${reveal.commitment}
+**Session:** ${reveal.startedAt} – ${reveal.revealedAt} (${reveal.rolls} rolls)
+**Replay:** ${reveal.verified ? '✅ every total reproduces from the seed' : '❌ the log does not replay from the seed'}
+
+${log}
+
+**New session commitment:** ${next.commitment}`);
+  }
+}
+
+/**
+ * Handles dice commitment requests.
+ */
+export async function handleGetDiceCommitment(
+  args: Record<string, unknown>,
+  foundryClient: FoundryClient,
+): Promise<ToolResult> {
+  return new DiceCommitmentTool().execute(args, { foundryClient });
+}
+
+/**
+ * Handles dice seed reveal requests.
+ */
+export async function handleRevealDiceSeed(
+  args: Record<string, unknown>,
+  foundryClient: FoundryClient,
+): Promise<ToolResult> {
+  return new RevealDiceSeedTool().execute(args, { foundryClient });
+}
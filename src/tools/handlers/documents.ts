@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Generic document fetch by UUID
+ *
+ * `get_document` resolves any FoundryVTT document UUID — world documents,
+ * embedded documents at any depth, unlinked token actors and
+ * `Compendium.<pack>.<Type>.<id>` references — and lists the `@UUID[…]`
+ * links in its text, so the assistant can follow them.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import { extractUuidLinks, parseUuid, type UuidLink } from '../../foundry/uuid.js';
+import { withToolError } from './utils.js';
+
+/** Default cap on the rendered document JSON, in characters. */
+const DEFAULT_MAX_LENGTH = 6000;
+
+/**
+ * Every `@UUID[…]` link in the document's string fields, in order.
+ */
+function collectLinks(value: unknown, links = new Map<string, UuidLink>()): Map<string, UuidLink> {
+  if (typeof value === 'string') {
+    for (const link of extractUuidLinks(value)) {
+      if (!links.has(link.uuid)) {
+        links.set(link.uuid, link);
+      }
+    }
+  } else if (Array.isArray(value)) {
+    for (const v of value) {
+      collectLinks(v, links);
+    }
+  } else if (value !== null && typeof value === 'object') {
+    for (const v of Object.values(value)) {
+      collectLinks(v, links);
+    }
+  }
+  return links;
+}
+
+/**
+ * Handles fetching a document by UUID. Accepts a bare UUID or a whole
+ * `@UUID[…]{label}` link as copied from journal or chat text.
+ */
+export async function handleGetDocument(
+  args: { uuid: string; maxLength?: number },
+  foundryClient: FoundryClient,
+) {
+  if (!args.uuid || typeof args.uuid !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, 'uuid is required and must be a string');
+  }
+  const uuid = extractUuidLinks(args.uuid.trim())[0]?.uuid ?? args.uuid.trim();
+  if (!parseUuid(uuid)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid document UUID: ${uuid}. Expected e.g. "Actor.<id>", "Scene.<id>.Token.<id>" or "Compendium.<package>.<pack>.<Type>.<id>".`,
+    );
+  }
+  const maxLength = args.maxLength ?? DEFAULT_MAX_LENGTH;
+  if (typeof maxLength !== 'number' || !Number.isInteger(maxLength) || maxLength < 100) {
+    throw new McpError(ErrorCode.InvalidParams, 'maxLength must be an integer of at least 100');
+  }
+
+  return withToolError('get document', async () => {
+    const resolved = await foundryClient.getDocumentByUuid(uuid);
+    if (!resolved) {
+      throw new McpError(ErrorCode.InvalidParams, `Document not found: ${uuid}`);
+    }
+
+    const { document } = resolved;
+    const name = typeof document.name === 'string' ? document.name : String(document._id);
+    const subtype = typeof document.type === 'string' ? `: ${document.type}` : '';
+    const source = resolved.pack ? `compendium \`${resolved.pack}\`` : 'world';
+    const links = [...collectLinks(document).values()]
+      .map((l) => `- \`${l.uuid}\`${l.label ? ` — ${l.label}` : ''}`)
+      .join('\n');
+    const json = JSON.stringify(document, null, 2);
+    const body = json.length > maxLength ? `${json.slice(0, maxLength)}\n…` : json;
+    const truncated =
+      json.length > maxLength
+        ? `\n\n_Truncated to ${maxLength} of ${json.length} characters; raise maxLength to see more._`
+        : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📄 **${name}** (${resolved.type}${subtype})
+**UUID:** ${resolved.uuid}
+**Source:** ${source}
+${links ? `\n**Links:**\n${links}\n` : ''}
+\`\`\`json
+${body}
+\`\`\`${truncated}`,
+        },
+      ],
+    };
+  });
+}
@@ -1,10 +1,14 @@
 /**
  * @fileoverview Content generation tool handlers
  *
- * Handles NPC generation, loot generation, and rule lookups.
+ * Handles NPC generation, loot generation, and rule lookups. Generation
+ * draws from the system CSPRNG, or from a seeded stream when a `seed` is
+ * given so the same request reproduces the same result.
  */
 
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { cryptoRandom, seededRandom } from '../../dice/random.js';
+import type { RandomSource } from '../../dice/roller.js';
 import type { FoundryClient } from '../../foundry/client.js';
 import { withToolError } from './utils.js';
 
@@ -16,18 +20,20 @@ export async function handleGenerateNPC(
     level?: number;
     race?: string;
     class?: string;
+    seed?: string;
   },
   _foundryClient: FoundryClient,
 ) {
-  const { level = 1, race, class: characterClass } = args;
+  const { level = 1, race, class: characterClass, seed } = args;
+  const random = randomFor(seed);
 
   return withToolError('generate NPC', async () => {
     // Generate basic NPC data
-    const npcName = generateRandomName();
-    const npcRace = race || getRandomRace();
-    const npcClass = characterClass || getRandomClass();
-    const stats = generateAbilityScores();
-    const hp = Math.max(1, Math.floor(Math.random() * (level * 8)) + level);
+    const npcName = generateRandomName(random);
+    const npcRace = race || getRandomRace(random);
+    const npcClass = characterClass || getRandomClass(random);
+    const stats = generateAbilityScores(random);
+    const hp = Math.max(1, Math.floor(random() * (level * 8)) + level);
 
     return {
       content: [
@@ -44,7 +50,7 @@ export async function handleGenerateNPC(
 **STR:** ${stats.str} | **DEX:** ${stats.dex} | **CON:** ${stats.con}
 **INT:** ${stats.int} | **WIS:** ${stats.wis} | **CHA:** ${stats.cha}
 
-**Background:** ${generateBackground(npcRace, npcClass)}`,
+**Background:** ${generateBackground(npcRace, npcClass, random)}`,
         },
       ],
     };
@@ -58,13 +64,15 @@ export async function handleGenerateLoot(
   args: {
     challengeRating?: number;
     treasureType?: string;
+    seed?: string;
   },
   _foundryClient: FoundryClient,
 ) {
-  const { challengeRating = 1, treasureType = 'individual' } = args;
+  const { challengeRating = 1, treasureType = 'individual', seed } = args;
+  const random = randomFor(seed);
 
   return withToolError('generate loot', async () => {
-    const loot = generateLootForCR(challengeRating, treasureType);
+    const loot = generateLootForCR(challengeRating, treasureType, random);
 
     return {
       content: [
@@ -127,7 +135,11 @@ export async function handleLookupRule(
 
 // Helper functions for content generation
 
-function generateRandomName(): string {
+function randomFor(seed: string | undefined): RandomSource {
+  return seed === undefined ? cryptoRandom : seededRandom(seed);
+}
+
+function generateRandomName(random: RandomSource): string {
   const firstNames = [
     'Aerdrie',
     'Berris',
@@ -153,10 +165,10 @@ function generateRandomName(): string {
     'Yellowleaf',
   ];
 
-  return `${firstNames[Math.floor(Math.random() * firstNames.length)]} ${lastNames[Math.floor(Math.random() * lastNames.length)]}`;
+  return `${firstNames[Math.floor(random() * firstNames.length)]} ${lastNames[Math.floor(random() * lastNames.length)]}`;
 }
 
-function getRandomRace(): string {
+function getRandomRace(random: RandomSource): string {
   const races = [
     'Human',
     'Elf',
@@ -168,10 +180,10 @@ function getRandomRace(): string {
     'Half-Orc',
     'Tiefling',
   ];
-  return races[Math.floor(Math.random() * races.length)] || 'Human';
+  return races[Math.floor(random() * races.length)] || 'Human';
 }
 
-function getRandomClass(): string {
+function getRandomClass(random: RandomSource): string {
   const classes = [
     'Fighter',
     'Wizard',
@@ -186,12 +198,12 @@ function getRandomClass(): string {
     'Sorcerer',
     'Warlock',
   ];
-  return classes[Math.floor(Math.random() * classes.length)] || 'Fighter';
+  return classes[Math.floor(random() * classes.length)] || 'Fighter';
 }
 
-function generateAbilityScores() {
+function generateAbilityScores(random: RandomSource) {
   const rollStat = () => {
-    const rolls = Array.from({ length: 4 }, () => Math.floor(Math.random() * 6) + 1);
+    const rolls = Array.from({ length: 4 }, () => Math.floor(random() * 6) + 1);
     rolls.sort((a, b) => b - a);
     return rolls.slice(0, 3).reduce((sum, roll) => sum + roll, 0);
   };
@@ -206,7 +218,7 @@ function generateAbilityScores() {
   };
 }
 
-function generateBackground(race: string, characterClass: string): string {
+function generateBackground(race: string, characterClass: string, random: RandomSource): string {
   const backgrounds = [
     `A former ${characterClass.toLowerCase()} who seeks redemption for past mistakes.`,
     `A ${race.toLowerCase()} ${characterClass.toLowerCase()} from a distant land, traveling to spread their knowledge.`,
@@ -216,13 +228,13 @@ function generateBackground(race: string, characterClass: string): string {
   ];
 
   return (
-    backgrounds[Math.floor(Math.random() * backgrounds.length)] ||
+    backgrounds[Math.floor(random() * backgrounds.length)] ||
     'A mysterious wanderer with an unknown past.'
   );
 }
 
-function generateLootForCR(cr: number, _type: string) {
-  const baseValue = Math.floor(cr * 100 * (0.5 + Math.random()));
+function generateLootForCR(cr: number, _type: string, random: RandomSource) {
+  const baseValue = Math.floor(cr * 100 * (0.5 + random()));
 
   return {
     currency: [
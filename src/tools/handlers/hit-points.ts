@@ -0,0 +1,344 @@
+/**
+ * @fileoverview Damage and healing tool handlers
+ *
+ * Applies damage, healing or temporary hit points to a token or combatant.
+ * Linked tokens (and combatants without a token) change the world actor;
+ * unlinked tokens change their synthetic actor, which persists in the token's
+ * `delta`. Typed damage is adjusted for the target's damage traits by the
+ * game system's adapter (see `src/systems`), and the arithmetic is shared
+ * with the local combat tracker (see `src/combat/hit-points.ts`). All are WRITE operations — they require
+ * FOUNDRY_WRITE_ENABLED=true and an active Socket.IO connection, and the
+ * connected user needs GM/owner permission.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  damageHitPoints,
+  effectiveMax,
+  grantTempHitPoints,
+  type HitPointChange,
+  type HitPoints,
+  healHitPoints,
+} from '../../combat/hit-points.js';
+import type { FoundryClient, HitPointTarget } from '../../foundry/client.js';
+import type { WorldCombat } from '../../foundry/types.js';
+import type { DamageAdjustment, DamageInstance } from '../../systems/adapter.js';
+import { getSystemAdapter } from '../../systems/index.js';
+import { withToolError } from './utils.js';
+
+/** Which token or combatant to affect; one of `tokenId` or `combatantId`. */
+export interface HitPointTargetArgs {
+  tokenId?: string;
+  sceneId?: string;
+  combatantId?: string;
+  /** Combat of `combatantId`; defaults to the active combat. */
+  combatId?: string;
+}
+
+/** A resolved target: whose hit points, and the combatant standing for it. */
+interface ResolvedTarget {
+  name: string;
+  target: HitPointTarget;
+  /** How the change is persisted, for the result text. */
+  where: string;
+  combatant?: { combatId: string; combatantId: string; defeated: boolean };
+}
+
+/** Raw token fields we read to resolve its actor and link state. */
+interface TokenActorRef {
+  actorId?: string;
+  actorLink?: boolean;
+  name?: string;
+}
+
+/**
+ * Applies damage to a token's or combatant's actor: temporary hit points
+ * first, then current hit points down to 0. Typed `damage` parts are first
+ * adjusted for the actor's immunities, resistances and vulnerabilities by
+ * its game system's adapter; a plain `amount` is applied as untyped damage.
+ * With `markDefeated`, a combatant brought to 0 HP is marked defeated in its
+ * combat.
+ */
+export async function handleApplyDamage(
+  args: HitPointTargetArgs & {
+    amount?: number;
+    damage?: DamageInstance[];
+    markDefeated?: boolean;
+  },
+  foundryClient: FoundryClient,
+) {
+  const { amount, damage = [], markDefeated = false } = args;
+  if (amount === undefined && damage.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'Either amount or damage parts are required');
+  }
+  if (amount !== undefined) {
+    validateAmount(amount);
+  }
+  validateDamageParts(damage);
+  const resolved = resolveTarget(args, foundryClient);
+
+  return withToolError('apply damage', async () => {
+    const hp = requireHitPoints(foundryClient, resolved);
+    const parts = amount === undefined ? damage : [{ amount }, ...damage];
+    const adjustments = await adjustDamage(foundryClient, resolved, parts);
+    const total = adjustments.reduce((sum, a) => sum + a.applied, 0);
+    const change = damageHitPoints(hp, total);
+    await writeChange(foundryClient, resolved.target, change);
+
+    const lines = [`💥 **Damage Applied** — ${resolved.name}`];
+    if (damage.length === 0) {
+      lines.push(`**Damage:** ${total}`);
+    } else {
+      const rolled = parts.reduce((sum, p) => sum + p.amount, 0);
+      lines.push(
+        `**Damage:** ${total}${total === rolled ? '' : ` (rolled ${rolled})`}`,
+        ...adjustments.map((a) => `- ${describeAdjustment(a)}`),
+      );
+    }
+    lines.push(hpLine(change));
+    if (change.tempAbsorbed > 0) {
+      lines.push(
+        `**Temp HP:** ${change.before.temp} → ${change.after.temp} (absorbed ${change.tempAbsorbed})`,
+      );
+    }
+    if (change.excess > 0) {
+      lines.push(`**Overflow:** ${change.excess} beyond 0 HP`);
+    }
+    lines.push(`**Target:** ${resolved.where}`);
+
+    if (change.after.current === 0 && markDefeated) {
+      const { combatant } = resolved;
+      if (!combatant) {
+        lines.push('**Defeated:** not in a combat; nothing to mark');
+      } else if (combatant.defeated) {
+        lines.push('**Defeated:** already marked');
+      } else {
+        await foundryClient.setCombatantDefeated(combatant.combatId, combatant.combatantId, true);
+        lines.push(`**Defeated:** ☠️ marked defeated in combat ${combatant.combatId}`);
+      }
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/**
+ * Heals a token's or combatant's actor up to its maximum, or with `temp`
+ * grants temporary hit points instead (which do not stack: the higher of
+ * the old and new amounts is kept).
+ */
+export async function handleApplyHealing(
+  args: HitPointTargetArgs & { amount: number; temp?: boolean },
+  foundryClient: FoundryClient,
+) {
+  const { amount, temp = false } = args;
+  validateAmount(amount);
+  const resolved = resolveTarget(args, foundryClient);
+
+  return withToolError('apply healing', async () => {
+    const hp = requireHitPoints(foundryClient, resolved);
+    const change = temp ? grantTempHitPoints(hp, amount) : healHitPoints(hp, amount);
+    await writeChange(foundryClient, resolved.target, change);
+
+    const lines = temp
+      ? [
+          `🛡️ **Temporary HP Granted** — ${resolved.name}`,
+          `**Temp HP:** ${hp.temp ?? 0} → ${change.after.temp}${
+            change.after.temp === hp.temp ? ' (unchanged — temporary hit points do not stack)' : ''
+          }`,
+        ]
+      : [`💚 **Healing Applied** — ${resolved.name}`, `**Healing:** ${amount}`, hpLine(change)];
+    if (change.excess > 0) {
+      lines.push(`**Overflow:** ${change.excess} beyond max HP`);
+    }
+    lines.push(`**Target:** ${resolved.where}`);
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+function validateAmount(amount: number): void {
+  if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 0) {
+    throw new McpError(ErrorCode.InvalidParams, 'amount must be a non-negative integer');
+  }
+}
+
+function validateDamageParts(parts: DamageInstance[]): void {
+  if (!Array.isArray(parts)) {
+    throw new McpError(ErrorCode.InvalidParams, 'damage must be an array of { amount, type }');
+  }
+  parts.forEach((part, index) => {
+    if (
+      !isRecord(part) ||
+      typeof part.amount !== 'number' ||
+      !Number.isInteger(part.amount) ||
+      part.amount < 0
+    ) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `damage[${index}].amount must be a non-negative integer`,
+      );
+    }
+    if (part.type !== undefined && typeof part.type !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, `damage[${index}].type must be a string`);
+    }
+  });
+}
+
+/**
+ * Adjusts the parts for the target's damage traits. Untyped damage needs no
+ * game system, so only typed parts require a supported one.
+ */
+async function adjustDamage(
+  foundryClient: FoundryClient,
+  resolved: ResolvedTarget,
+  parts: DamageInstance[],
+): Promise<DamageAdjustment[]> {
+  if (!parts.some((p) => p.type)) {
+    return parts.map((part) => ({ part, applied: part.amount, notes: [] }));
+  }
+  const actor = foundryClient.getTargetActor(resolved.target);
+  if (!actor) {
+    throw new Error(`Actor not found: ${resolved.target.actorId}`);
+  }
+  const adapter = getSystemAdapter((await foundryClient.getWorldInfo()).system);
+  return adapter.adjustDamage(actor, parts);
+}
+
+/** e.g. `12 fire → 24 — vulnerable to fire (doubled)`. */
+function describeAdjustment({ part, applied, notes }: DamageAdjustment): string {
+  const properties = (['magical', 'silvered', 'adamantine'] as const).filter((p) => part[p]);
+  return `${part.amount} ${part.type || 'untyped'}${
+    properties.length ? ` [${properties.join(', ')}]` : ''
+  }${applied === part.amount ? '' : ` → ${applied}`}${notes.length ? ` — ${notes.join('; ')}` : ''}`;
+}
+
+/**
+ * Resolves a token or combatant to the actor whose hit points change.
+ * Mirrors `handleApplyStatusEffect`: linked tokens address the world actor,
+ * unlinked tokens their own synthetic actor.
+ */
+function resolveTarget(args: HitPointTargetArgs, foundryClient: FoundryClient): ResolvedTarget {
+  const { combatantId, combatId } = args;
+  let { tokenId, sceneId } = args;
+  if (!tokenId && !combatantId) {
+    throw new McpError(ErrorCode.InvalidParams, 'Either tokenId or combatantId is required');
+  }
+
+  let combat: WorldCombat | null = null;
+  let combatant: WorldCombat['combatants'][number] | undefined;
+  if (combatantId) {
+    combat = combatId ? foundryClient.getCombat(combatId) : foundryClient.getCombatState();
+    if (!combat) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        combatId ? `Combat not found: ${combatId}` : 'No active combat and no combatId provided.',
+      );
+    }
+    combatant = combat.combatants.find((c) => c._id === combatantId);
+    if (!combatant) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Combatant not found: ${combatantId} in combat ${combat._id}`,
+      );
+    }
+    tokenId ??= combatant.tokenId;
+    sceneId ??= combatant.sceneId ?? combat.scene;
+  } else if (tokenId) {
+    // The token's own encounter, even when another scene's combat is the default.
+    const inToken = (c: WorldCombat) => c.combatants.some((x) => x.tokenId === tokenId);
+    combat = combatId
+      ? foundryClient.getCombat(combatId)
+      : (foundryClient.getCombats().find((c) => c.active && inToken(c)) ?? null);
+    combatant = combat?.combatants.find((c) => c.tokenId === tokenId);
+  }
+  const inCombat =
+    combat && combatant
+      ? { combatId: combat._id, combatantId: combatant._id, defeated: combatant.defeated }
+      : undefined;
+
+  const located = tokenId ? foundryClient.findToken(tokenId, sceneId) : null;
+  if (!located) {
+    // A combatant whose token is gone (or never had one) still has its actor.
+    const actor = combatant?.actorId ? foundryClient.getRawActor(combatant.actorId) : undefined;
+    if (!actor) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        combatant
+          ? `Combatant ${combatant._id} has no token or actor to affect.`
+          : `Token not found: ${tokenId}${sceneId ? ` on scene ${sceneId}` : ''}`,
+      );
+    }
+    return withCombatant(
+      { name: actor.name, target: { actorId: actor._id }, where: `actor ${actor._id}` },
+      inCombat,
+    );
+  }
+
+  const token = located.token as TokenActorRef;
+  const actorId = token.actorId;
+  if (!actorId || !tokenId) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Token ${tokenId} has no associated actor; cannot change hit points.`,
+    );
+  }
+  const name = token.name ?? combatant?.name ?? tokenId;
+  const resolved: ResolvedTarget =
+    token.actorLink === true
+      ? { name, target: { actorId }, where: `actor ${actorId} (linked token ${tokenId})` }
+      : {
+          name,
+          target: { actorId, sceneId: located.scene._id, tokenId },
+          where: `unlinked token ${tokenId} on ${located.scene.name} (written to its delta)`,
+        };
+  return withCombatant(resolved, inCombat);
+}
+
+function withCombatant(
+  resolved: ResolvedTarget,
+  combatant: ResolvedTarget['combatant'],
+): ResolvedTarget {
+  return combatant ? { ...resolved, combatant } : resolved;
+}
+
+function requireHitPoints(foundryClient: FoundryClient, resolved: ResolvedTarget): HitPoints {
+  const hp = foundryClient.getHitPoints(resolved.target);
+  if (!hp) {
+    throw new Error(`${resolved.name} has no hit points (system.attributes.hp.value)`);
+  }
+  return hp;
+}
+
+/** Writes the fields a change touched; an unchanged actor is left alone. */
+async function writeChange(
+  foundryClient: FoundryClient,
+  target: HitPointTarget,
+  change: HitPointChange,
+): Promise<void> {
+  const update: { current?: number; temp?: number } = {};
+  if (change.after.current !== change.before.current) {
+    update.current = change.after.current;
+  }
+  if (change.after.temp !== undefined && change.after.temp !== change.before.temp) {
+    update.temp = change.after.temp;
+  }
+  if (update.current !== undefined || update.temp !== undefined) {
+    await foundryClient.updateHitPoints(target, update);
+  }
+}
+
+function hpLine(change: HitPointChange): string {
+  const max = effectiveMax(change.after);
+  return `**HP:** ${change.before.current} → ${change.after.current}${
+    max === undefined ? '' : ` / ${max}`
+  }`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Dry-run output for write tools
+ *
+ * When a write tool runs with `dryRun: true` (or under
+ * `FOUNDRY_WRITE_MODE=preview`), the requests it would have sent are
+ * collected instead of emitted. This renders them — each exact
+ * `modifyDocument` request plus a before/after diff of the documents it
+ * touches — in place of the handler's normal confirmation.
+ */
+
+import type { WritePreview } from '../../foundry/write-preview.js';
+
+/**
+ * Renders the collected requests of a dry run.
+ *
+ * @param toolName - tool that was previewed
+ * @param preview - requests collected while the handler ran
+ */
+export function renderWritePreview(toolName: string, preview: WritePreview) {
+  const sections = preview.entries.map((entry, i) => {
+    const { type, action, operation } = entry.request;
+    const parent = typeof operation.parentUuid === 'string' ? ` in ${operation.parentUuid}` : '';
+    const documents = entry.documents
+      .map((doc) => {
+        const label = doc.name ? `**${doc.name}** (${doc.id})` : `**${doc.id}**`;
+        return [`- ${label}`, ...doc.lines.map((line) => `  - \`${line}\``)].join('\n');
+      })
+      .join('\n');
+
+    return `**${i + 1}. ${action} ${type}**${parent}
+${documents || '- (no documents)'}
+
+\`\`\`json
+${JSON.stringify(entry.request, null, 2)}
+\`\`\``;
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `🔍 **Preview — no changes made** (\`${toolName}\`)
+**Requests:** ${preview.entries.length}
+${preview.notes.map((note) => `\n⚠️ ${note}\n`).join('')}
+${sections.join('\n\n')}
+
+_Run the tool again without dryRun (and with FOUNDRY_WRITE_MODE=live) to apply._`,
+      },
+    ],
+  };
+}
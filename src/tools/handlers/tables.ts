@@ -0,0 +1,133 @@
+/**
+ * RollTable tool handlers
+ *
+ * `draw_from_table` reads by default; with `markDrawn` or `postToChat` it is
+ * a WRITE operation — requires FOUNDRY_WRITE_ENABLED=true and an active
+ * Socket.IO connection.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ChatRollMode } from '../../foundry/chat-message.js';
+import type { FoundryClient } from '../../foundry/client.js';
+import {
+  resultLabel,
+  type TableDraw,
+  tableDrawMessage,
+  tableFormula,
+} from '../../foundry/roll-table.js';
+import { withToolError } from './utils.js';
+
+/** Most draws a single call may make. */
+const MAX_DRAWS = 20;
+
+export async function handleListRollTables(
+  args: { query?: string; limit?: number },
+  foundryClient: FoundryClient,
+) {
+  return withToolError('list roll tables', async () => {
+    const query = args.query?.toLowerCase();
+    const tables = foundryClient
+      .getRollTables()
+      .filter((t) => !query || t.name.toLowerCase().includes(query))
+      .slice(0, Math.min(args.limit ?? 50, 200));
+
+    if (tables.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No roll tables found.' }],
+      };
+    }
+
+    const formatted = tables
+      .map((t) => {
+        let formula: string;
+        try {
+          formula = tableFormula(t);
+        } catch {
+          formula = 'no formula';
+        }
+        const drawn = t.results.filter((r) => r.drawn).length;
+        const replacement = t.replacement === false ? ` · without replacement, ${drawn} drawn` : '';
+        return `- **${t.name}** (${t._id}) — ${formula} · ${t.results.length} results${replacement}`;
+      })
+      .join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🎲 **Roll Tables** (${tables.length})\n\n${formatted}`,
+        },
+      ],
+    };
+  });
+}
+
+/**
+ * Handles drawing from a RollTable.
+ */
+export async function handleDrawFromTable(
+  args: {
+    table: string;
+    count?: number;
+    markDrawn?: boolean;
+    postToChat?: boolean;
+    rollMode?: ChatRollMode;
+  },
+  foundryClient: FoundryClient,
+) {
+  const { table, count = 1, markDrawn = false, postToChat = false, rollMode } = args;
+  if (typeof table !== 'string' || !table.trim()) {
+    throw new McpError(ErrorCode.InvalidParams, 'table is required (a RollTable id or name)');
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_DRAWS) {
+    throw new McpError(ErrorCode.InvalidParams, `count must be an integer from 1 to ${MAX_DRAWS}`);
+  }
+
+  return withToolError('draw from table', async () => {
+    const draws = await foundryClient.drawFromTable(table, { count, markDrawn });
+    const rollTable = (draws[0] as TableDraw).table;
+
+    const lines = [`🎲 **Table Draw: ${rollTable.name}**`];
+    draws.forEach((draw, i) => {
+      lines.push(`**Draw${draws.length > 1 ? ` ${i + 1}` : ''}:** ${draw.roll.breakdown}`);
+      lines.push(...renderResults(draw, ''));
+    });
+
+    if (rollTable.replacement === false) {
+      const current = foundryClient.getRollTable(rollTable._id) ?? rollTable;
+      const remaining = current.results.filter((r) => !r.drawn).length;
+      lines.push(
+        markDrawn
+          ? `**Remaining:** ${remaining} of ${current.results.length} results undrawn`
+          : '**Note:** drawn results were not marked (pass markDrawn to set them aside)',
+      );
+    }
+
+    if (postToChat) {
+      const message = tableDrawMessage(rollTable, draws);
+      if (rollMode) {
+        message.rollMode = rollMode;
+      }
+      const created = await foundryClient.sendChatMessage(message);
+      lines.push(`**Posted to chat:** ${created?._id} (${rollMode ?? 'publicroll'})`);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+    };
+  });
+}
+
+/** Result lines of a draw; a linked table's draw is nested under its result. */
+function renderResults(draw: TableDraw, indent: string): string[] {
+  return draw.results.flatMap(({ result, uuid, draw: inner }) => {
+    const label = resultLabel(result);
+    if (inner) {
+      return [
+        `${indent}- ${label} → **${inner.table.name}**: ${inner.roll.breakdown}`,
+        ...renderResults(inner, `${indent}  `),
+      ];
+    }
+    return [`${indent}- ${label}${uuid ? ` (${uuid})` : ''}`];
+  });
+}
@@ -12,6 +12,7 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import type { FoundryClient } from '../../foundry/client.js';
 import type { WorldEffect } from '../../foundry/types.js';
+import { tokenActorUuid } from '../../foundry/uuid.js';
 import { withToolError } from './utils.js';
 
 /** Raw token fields we read to resolve its actor and link state. */
@@ -116,9 +117,7 @@ export async function handleApplyStatusEffect(
   // Linked tokens share the world actor; unlinked tokens own a synthetic actor
   // (the per-token delta) that must be addressed through the Scene→Token path.
   const linked = token.actorLink === true;
-  const parentActorUuid = linked
-    ? `Actor.${actorId}`
-    : `Scene.${located.scene._id}.Token.${tokenId}.Actor.${actorId}`;
+  const parentActorUuid = tokenActorUuid(located.scene._id, tokenId, actorId, linked);
 
   // Find an existing effect carrying this status (matches toggleStatusEffect).
   const effects: WorldEffect[] = linked
@@ -7,7 +7,12 @@
 
 import { logger } from '../utils/logger.js';
 import type { Tool, ToolContext, ToolResult } from './base.js';
-import { RollDiceTool } from './handlers/dice.js';
+import {
+  DiceCommitmentTool,
+  DiceOddsTool,
+  RevealDiceSeedTool,
+  RollDiceTool,
+} from './handlers/dice.js';
 
 /**
  * Tool registry manages all available tools
@@ -88,8 +93,11 @@ export class ToolRegistry {
    * Register all default tools
    */
   private registerDefaultTools(): void {
-    // Register the dice tool (converted to new system)
+    // Register the dice tools (converted to new system)
     this.register(new RollDiceTool());
+    this.register(new DiceOddsTool());
+    this.register(new DiceCommitmentTool());
+    this.register(new RevealDiceSeedTool());
 
     // TODO: Register other tools as they are converted
     logger.info(`Registered ${this.tools.size} tools`);
@@ -4,20 +4,46 @@
 
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import type { DiagnosticsClient } from '../diagnostics/client.js';
+import type { OddsComparison } from '../dice/odds.js';
+import type { BatchOperation } from '../foundry/batch.js';
+import type { ChatVisibility } from '../foundry/chat-log.js';
+import type { ChatRollMode } from '../foundry/chat-message.js';
 import type { AttributePatch, FoundryClient } from '../foundry/client.js';
+import type { SessionLogFormat } from '../foundry/session-log.js';
 import type { ActorItemCreateSource } from '../foundry/types.js';
+import { runWithWriteContext } from '../foundry/write-context.js';
+import { WritePreview } from '../foundry/write-preview.js';
+import type { Advantage, CheckKind, DamageInstance } from '../systems/adapter.js';
 import type { DiagnosticSystem } from '../utils/diagnostics.js';
 import { logger } from '../utils/logger.js';
 import type { ToolContext, ToolResult } from './base.js';
 import { handleUpdateActorAttribute } from './handlers/actor-mutations.js';
 import { handleGetActorDetails, handleSearchActors } from './handlers/actors.js';
-import { handleGetChatMessages } from './handlers/chat.js';
-import { handleGetCombatState } from './handlers/combat.js';
+import { type AuditLogArgs, handleGetAuditLog } from './handlers/audit.js';
+import { handleBatchUpdate } from './handlers/batch.js';
+import { handleListRecentChanges, handleUndoChange } from './handlers/changes.js';
 import {
+  handleExportSessionLog,
+  handleGetChatMessages,
+  handleRollStatistics,
+  handleSendChatMessage,
+} from './handlers/chat.js';
+import { handleRollAttack, handleRollCheck } from './handlers/checks.js';
+import { handleGetCombatState, handleListCombats } from './handlers/combat.js';
+import {
+  handleActivateCombat,
+  handleAddCombatants,
   handleEndCombat,
   handleNextTurn,
+  handlePreviousTurn,
+  handleRemoveCombatants,
+  handleRollInitiative,
   handleSetInitiative,
+  handleSetTurn,
   handleStartCombat,
+  handleToggleCombatantDefeated,
+  handleToggleCombatantHidden,
+  type InitiativeScope,
 } from './handlers/combat-mutations.js';
 import { handleSearchCompendium } from './handlers/compendium.js';
 import {
@@ -28,8 +54,15 @@ import {
   handleSearchLogs,
 } from './handlers/diagnostics.js';
 // Import all tool handlers
-import { handleRollDice } from './handlers/dice.js';
+import {
+  handleDiceOdds,
+  handleGetDiceCommitment,
+  handleRevealDiceSeed,
+  handleRollDice,
+} from './handlers/dice.js';
+import { handleGetDocument } from './handlers/documents.js';
 import { handleGenerateLoot, handleGenerateNPC, handleLookupRule } from './handlers/generation.js';
+import { handleApplyDamage, handleApplyHealing } from './handlers/hit-points.js';
 import {
   handleCreateActorItem,
   handleDeleteActorItem,
@@ -37,8 +70,10 @@ import {
 } from './handlers/item-mutations.js';
 import { handleSearchItems } from './handlers/items.js';
 import { handleGetJournal, handleSearchJournals } from './handlers/journals.js';
+import { renderWritePreview } from './handlers/preview.js';
 import { handleReadResource } from './handlers/resources.js';
 import { handleGetSceneInfo } from './handlers/scenes.js';
+import { handleDrawFromTable, handleListRollTables } from './handlers/tables.js';
 import { handleApplyStatusEffect, handleMoveToken } from './handlers/token-mutations.js';
 import { handleGetUsers } from './handlers/users.js';
 import {
@@ -50,6 +85,15 @@ import { toolRegistry } from './registry.js';
 
 /**
  * Routes tool requests to appropriate handlers
+ *
+ * A call with `dryRun: true`, or any call under `FOUNDRY_WRITE_MODE=preview`,
+ * runs the handler in preview mode: validation runs as usual, but the
+ * `modifyDocument` requests it builds are collected instead of sent and
+ * returned with a before/after diff. Read-only tools are unaffected.
+ *
+ * Every call runs in a write context naming the tool and its arguments, so
+ * the writes it makes are attributed to it in the audit log. `confirm: true`
+ * approves writes the write policy requires confirmation for.
  */
 export async function routeToolRequest(
   name: string,
@@ -57,6 +101,27 @@ export async function routeToolRequest(
   foundryClient: FoundryClient,
   diagnosticsClient: DiagnosticsClient,
   diagnosticSystem: DiagnosticSystem,
+): Promise<ToolResult> {
+  const { dryRun, confirm, ...toolArgs } = args;
+  const tool = { name, args: toolArgs };
+  const confirmed = confirm === true;
+  const dispatch = () =>
+    dispatchToolRequest(name, toolArgs, foundryClient, diagnosticsClient, diagnosticSystem);
+  if (dryRun !== true && foundryClient.getWriteMode() !== 'preview') {
+    return runWithWriteContext({ tool, confirmed }, dispatch);
+  }
+
+  const preview = new WritePreview();
+  const result = await runWithWriteContext({ tool, preview }, dispatch);
+  return preview.isEmpty() ? result : renderWritePreview(name, preview);
+}
+
+async function dispatchToolRequest(
+  name: string,
+  args: Record<string, unknown>,
+  foundryClient: FoundryClient,
+  diagnosticsClient: DiagnosticsClient,
+  diagnosticSystem: DiagnosticSystem,
 ): Promise<ToolResult> {
   logger.debug(`Routing tool request: ${name}`, { args });
 
@@ -87,7 +152,75 @@ export async function routeToolRequest(
       if (!('formula' in args) || typeof args.formula !== 'string') {
         throw new Error('Missing required parameter: formula');
       }
-      return handleRollDice(args as { formula: string; reason?: string }, foundryClient);
+      return handleRollDice(
+        args as {
+          formula: string;
+          reason?: string;
+          actorId?: string;
+          postToChat?: boolean;
+          rollMode?: ChatRollMode;
+        },
+        foundryClient,
+      );
+    case 'dice_odds':
+      if (!('formula' in args) || typeof args.formula !== 'string') {
+        throw new Error('Missing required parameter: formula');
+      }
+      return handleDiceOdds(
+        args as {
+          formula: string;
+          target?: number;
+          comparison?: OddsComparison;
+          attack?: boolean;
+          damage?: string;
+          critDamage?: string;
+          critRange?: number;
+          actorId?: string;
+          samples?: number;
+        },
+        foundryClient,
+      );
+    case 'get_dice_commitment':
+      return handleGetDiceCommitment(args, foundryClient);
+    case 'reveal_dice_seed':
+      return handleRevealDiceSeed(args, foundryClient);
+
+    // System-aware d20 tests
+    case 'roll_check':
+      if (!('actorId' in args) || typeof args.actorId !== 'string') {
+        throw new Error('Missing required parameter: actorId');
+      }
+      if (!('key' in args) || typeof args.key !== 'string') {
+        throw new Error('Missing required parameter: key');
+      }
+      return handleRollCheck(
+        args as {
+          actorId: string;
+          kind: CheckKind;
+          key: string;
+          advantage?: Advantage;
+          dc?: number;
+        },
+        foundryClient,
+      );
+    case 'roll_attack':
+      if (!('actorId' in args) || typeof args.actorId !== 'string') {
+        throw new Error('Missing required parameter: actorId');
+      }
+      if (!('item' in args) || typeof args.item !== 'string') {
+        throw new Error('Missing required parameter: item');
+      }
+      return handleRollAttack(
+        args as {
+          actorId: string;
+          item: string;
+          advantage?: Advantage;
+          targetAc?: number;
+          versatile?: boolean;
+          rollDamage?: boolean;
+        },
+        foundryClient,
+      );
 
     // Actor tools
     case 'search_actors':
@@ -179,13 +312,20 @@ export async function routeToolRequest(
 
     // Combat tools
     case 'get_combat_state':
-      return handleGetCombatState(args, foundryClient);
+      return handleGetCombatState(args as { combatId?: string }, foundryClient);
+    case 'list_combats':
+      return handleListCombats(args as { sceneId?: string }, foundryClient);
 
     // Combat mutation tools (FR-018, WRITE — require FOUNDRY_WRITE_ENABLED)
     case 'next_turn':
-      return handleNextTurn(args as { skipDefeated?: boolean }, foundryClient);
+      return handleNextTurn(args as { skipDefeated?: boolean; combatId?: string }, foundryClient);
     case 'end_combat':
-      return handleEndCombat(args, foundryClient);
+      return handleEndCombat(args as { combatId?: string }, foundryClient);
+    case 'activate_combat':
+      if (!('combatId' in args) || typeof args.combatId !== 'string') {
+        throw new Error('Missing required parameter: combatId');
+      }
+      return handleActivateCombat(args as { combatId: string }, foundryClient);
     case 'set_initiative':
       if (!('combatantId' in args) || typeof args.combatantId !== 'string') {
         throw new Error('Missing required parameter: combatantId');
@@ -197,9 +337,73 @@ export async function routeToolRequest(
         args as { combatantId: string; initiative: number; combatId?: string },
         foundryClient,
       );
+    case 'previous_turn':
+      return handlePreviousTurn(
+        args as { skipDefeated?: boolean; combatId?: string },
+        foundryClient,
+      );
+    case 'set_turn':
+      if (!('combatantId' in args) || typeof args.combatantId !== 'string') {
+        throw new Error('Missing required parameter: combatantId');
+      }
+      return handleSetTurn(
+        args as { combatantId: string; round?: number; combatId?: string },
+        foundryClient,
+      );
+    case 'add_combatants':
+      if (!('tokenIds' in args) || !Array.isArray(args.tokenIds)) {
+        throw new Error('Missing required parameter: tokenIds');
+      }
+      return handleAddCombatants(
+        args as { tokenIds: string[]; sceneId?: string; combatId?: string },
+        foundryClient,
+      );
+    case 'remove_combatants':
+      if (!('combatantIds' in args) || !Array.isArray(args.combatantIds)) {
+        throw new Error('Missing required parameter: combatantIds');
+      }
+      return handleRemoveCombatants(
+        args as { combatantIds: string[]; combatId?: string },
+        foundryClient,
+      );
+    case 'toggle_combatant_defeated':
+      if (!('combatantId' in args) || typeof args.combatantId !== 'string') {
+        throw new Error('Missing required parameter: combatantId');
+      }
+      return handleToggleCombatantDefeated(
+        args as { combatantId: string; defeated?: boolean; combatId?: string },
+        foundryClient,
+      );
+    case 'toggle_combatant_hidden':
+      if (!('combatantId' in args) || typeof args.combatantId !== 'string') {
+        throw new Error('Missing required parameter: combatantId');
+      }
+      return handleToggleCombatantHidden(
+        args as { combatantId: string; hidden?: boolean; combatId?: string },
+        foundryClient,
+      );
+    case 'roll_initiative':
+      return handleRollInitiative(
+        args as {
+          combatantIds?: string[];
+          scope?: InitiativeScope;
+          rerollExisting?: boolean;
+          postToChat?: boolean;
+          rollMode?: ChatRollMode;
+          combatId?: string;
+        },
+        foundryClient,
+      );
     case 'start_combat':
       return handleStartCombat(args as { tokenIds?: string[]; sceneId?: string }, foundryClient);
 
+    // Batch mutations (WRITE — require FOUNDRY_WRITE_ENABLED)
+    case 'batch_update':
+      if (!('operations' in args) || !Array.isArray(args.operations)) {
+        throw new Error('Missing required parameter: operations');
+      }
+      return handleBatchUpdate(args as { operations: BatchOperation[] }, foundryClient);
+
     // Token mutation tools (FR-019, WRITE — require FOUNDRY_WRITE_ENABLED)
     case 'move_token':
       if (!('tokenId' in args) || typeof args.tokenId !== 'string') {
@@ -226,10 +430,116 @@ export async function routeToolRequest(
         args as { tokenId: string; statusId: string; active?: boolean; sceneId?: string },
         foundryClient,
       );
+    case 'apply_damage':
+      return handleApplyDamage(
+        args as {
+          amount?: number;
+          damage?: DamageInstance[];
+          markDefeated?: boolean;
+          tokenId?: string;
+          sceneId?: string;
+          combatantId?: string;
+          combatId?: string;
+        },
+        foundryClient,
+      );
+    case 'apply_healing':
+      if (!('amount' in args) || typeof args.amount !== 'number') {
+        throw new Error('Missing required parameter: amount');
+      }
+      return handleApplyHealing(
+        args as {
+          amount: number;
+          temp?: boolean;
+          tokenId?: string;
+          sceneId?: string;
+          combatantId?: string;
+          combatId?: string;
+        },
+        foundryClient,
+      );
+
+    // Mutation journal tools — undo_change is a WRITE (FOUNDRY_WRITE_ENABLED)
+    case 'list_recent_changes':
+      return handleListRecentChanges(args as { limit?: number }, foundryClient);
+    case 'undo_change':
+      if (!('changeId' in args) || typeof args.changeId !== 'string') {
+        throw new Error('Missing required parameter: changeId');
+      }
+      return handleUndoChange(args as { changeId: string }, foundryClient);
+
+    // Audit log
+    case 'get_audit_log':
+      return handleGetAuditLog(args as AuditLogArgs, foundryClient);
 
     // Chat tools
     case 'get_chat_messages':
-      return handleGetChatMessages(args as { limit?: number }, foundryClient);
+      return handleGetChatMessages(
+        args as {
+          limit?: number;
+          offset?: number;
+          actorId?: string;
+          user?: string;
+          since?: string;
+          until?: string;
+          visibility?: ChatVisibility;
+          rollsOnly?: boolean;
+          search?: string;
+          fullContent?: boolean;
+        },
+        foundryClient,
+      );
+    case 'export_session_log':
+      return handleExportSessionLog(
+        args as {
+          since?: string;
+          until?: string;
+          format?: SessionLogFormat;
+          excludeWhispers?: boolean;
+          title?: string;
+        },
+        foundryClient,
+      );
+    case 'roll_statistics':
+      return handleRollStatistics(
+        args as { since?: string; until?: string; actorId?: string; user?: string },
+        foundryClient,
+      );
+    case 'send_chat_message':
+      if (!('content' in args) || typeof args.content !== 'string') {
+        throw new Error('Missing required parameter: content');
+      }
+      return handleSendChatMessage(
+        args as {
+          content: string;
+          flavor?: string;
+          actorId?: string;
+          tokenId?: string;
+          sceneId?: string;
+          alias?: string;
+          whisper?: string[];
+          rollMode?: ChatRollMode;
+        },
+        foundryClient,
+      );
+
+    // RollTable tools — draw_from_table WRITEs with markDrawn / postToChat
+    case 'list_roll_tables':
+      return handleListRollTables(args as { query?: string; limit?: number }, foundryClient);
+    case 'draw_from_table':
+      if (!('table' in args) || typeof args.table !== 'string') {
+        throw new Error('Missing required parameter: table');
+      }
+      return handleDrawFromTable(
+        args as {
+          table: string;
+          count?: number;
+          markDrawn?: boolean;
+          postToChat?: boolean;
+          rollMode?: ChatRollMode;
+        },
+        foundryClient,
+      );
 
     // User tools
     case 'get_users':
@@ -248,6 +558,11 @@ export async function routeToolRequest(
       return handleGetJournal(args as { journalId: string }, foundryClient);
 
     // World tools
+    case 'get_document':
+      if (!('uuid' in args) || typeof args.uuid !== 'string') {
+        throw new Error('Missing required parameter: uuid');
+      }
+      return handleGetDocument(args as { uuid: string; maxLength?: number }, foundryClient);
     case 'search_world':
       if (!('query' in args) || typeof args.query !== 'string') {
         throw new Error('Missing required parameter: query');
@@ -261,12 +576,12 @@ export async function routeToolRequest(
     // Generation tools
     case 'generate_npc':
       return handleGenerateNPC(
-        args as { level?: number; race?: string; class?: string },
+        args as { level?: number; race?: string; class?: string; seed?: string },
         foundryClient,
       );
     case 'generate_loot':
       return handleGenerateLoot(
-        args as { challengeRating?: number; treasureType?: string },
+        args as { challengeRating?: number; treasureType?: string; seed?: string },
         foundryClient,
       );
     case 'lookup_rule':